@@ -0,0 +1,59 @@
+import { colorize } from "consola/utils";
+import "load-env";
+
+const { pgUserDataStore } = await import("lib/db/pg/transfer.pg");
+const { createDiffDBStorageBackend } = await import(
+  "lib/diffdb/storage-backend"
+);
+const { createDiffDBUserDataStore } = await import(
+  "lib/diffdb/transfer.diffdb"
+);
+const { formatTransferReport, transferUserData } = await import(
+  "lib/db/transfer"
+);
+
+// Usage: pnpm db:transfer <postgres-to-diffdb|diffdb-to-postgres> <user-id> [--dry-run]
+// The GitHub backend reads the token of the repository owner from GITHUB_TOKEN
+const args = process.argv.slice(2);
+const dryRun = args.includes("--dry-run");
+const [direction, userId] = args.filter((arg) => !arg.startsWith("--"));
+
+if (
+  !userId ||
+  (direction !== "postgres-to-diffdb" && direction !== "diffdb-to-postgres")
+) {
+  console.error(
+    `Usage: ${colorize("green", "pnpm db:transfer <postgres-to-diffdb|diffdb-to-postgres> <user-id> [--dry-run]")}`,
+  );
+  process.exit(1);
+}
+
+const repoName = process.env.DIFFDB_REPOSITORY_NAME || "diffchat-data";
+
+try {
+  const diffdbStore = createDiffDBUserDataStore(
+    await createDiffDBStorageBackend({
+      userId,
+      repoName,
+      accessToken: process.env.GITHUB_TOKEN,
+      migrate: true,
+    }),
+    repoName,
+  );
+  const toDiffDB = direction === "postgres-to-diffdb";
+
+  const report = await transferUserData({
+    from: toDiffDB ? pgUserDataStore : diffdbStore,
+    to: toDiffDB ? diffdbStore : pgUserDataStore,
+    userId,
+    dryRun,
+  });
+
+  console.info(
+    `${dryRun ? "🔎 Dry run" : "🚀 Transfer"} ${toDiffDB ? "Postgres → DiffDB" : "DiffDB → Postgres"} for ${userId}\n${formatTransferReport(report, dryRun)}`,
+  );
+  process.exit(0);
+} catch (err) {
+  console.error(err);
+  process.exit(1);
+}
@@ -0,0 +1,38 @@
+import { colorize } from "consola/utils";
+import "load-env";
+
+const { createDiffDBStorageBackend } = await import(
+  "lib/diffdb/storage-backend"
+);
+const { migrateDiffDBRepository } = await import("lib/diffdb/migrate");
+
+// Usage: pnpm diffdb:migrate <user-id>
+// The GitHub backend reads the token of the repository owner from GITHUB_TOKEN
+const [userId] = process.argv.slice(2);
+
+if (!userId) {
+  console.error(`Usage: ${colorize("green", "pnpm diffdb:migrate <user-id>")}`);
+  process.exit(1);
+}
+
+const repoName = process.env.DIFFDB_REPOSITORY_NAME || "diffchat-data";
+
+await createDiffDBStorageBackend({
+  userId,
+  repoName,
+  accessToken: process.env.GITHUB_TOKEN,
+})
+  .then((backend) => migrateDiffDBRepository(backend, repoName))
+  .then(({ from, to, applied }) => {
+    if (!applied.length) {
+      console.info(`✅ ${repoName} is already at schema ${to}`);
+      return;
+    }
+    console.info(
+      `🚀 ${repoName} migrated from schema ${from} to ${to} (${applied.join(", ")})`,
+    );
+  })
+  .catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
@@ -0,0 +1,36 @@
+import { colorize } from "consola/utils";
+import "load-env";
+
+const { createDiffDBStorageBackend } = await import(
+  "lib/diffdb/storage-backend"
+);
+const { rebuildChatIndex } = await import("lib/diffdb/chat-index");
+
+// Usage: pnpm diffdb:rebuild-index <user-id>
+// The GitHub backend reads the token of the repository owner from GITHUB_TOKEN
+const [userId] = process.argv.slice(2);
+
+if (!userId) {
+  console.error(
+    `Usage: ${colorize("green", "pnpm diffdb:rebuild-index <user-id>")}`,
+  );
+  process.exit(1);
+}
+
+const repoName = process.env.DIFFDB_REPOSITORY_NAME || "diffchat-data";
+
+await createDiffDBStorageBackend({
+  userId,
+  repoName,
+  accessToken: process.env.GITHUB_TOKEN,
+})
+  .then((backend) => rebuildChatIndex(backend, repoName))
+  .then(({ threads, messages }) => {
+    console.info(
+      `🚀 Chat index of ${repoName} rebuilt (${threads} threads, ${messages} messages)`,
+    );
+  })
+  .catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
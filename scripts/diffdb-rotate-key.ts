@@ -0,0 +1,72 @@
+import { colorize } from "consola/utils";
+import "load-env";
+import type { DiffDBEncryptionKey } from "lib/diffdb/encryption";
+
+const { createDiffDBStorageBackend } = await import(
+  "lib/diffdb/storage-backend"
+);
+const { readEncryptionMetadata, reencryptRepository } = await import(
+  "lib/diffdb/encrypted-backend"
+);
+const { deriveKeyBytes, generateSalt, importEncryptionKey } = await import(
+  "lib/diffdb/encryption"
+);
+
+// Usage: pnpm diffdb:rotate-key <user-id>
+// Reads the current passphrase from DIFFDB_PASSPHRASE (unset when the
+// repository isn't encrypted yet) and the new one from DIFFDB_NEW_PASSPHRASE
+// (unset to disable encryption). The GitHub backend reads the token of the
+// repository owner from GITHUB_TOKEN.
+const [userId] = process.argv.slice(2);
+
+if (!userId) {
+  console.error(
+    `Usage: ${colorize("green", "pnpm diffdb:rotate-key <user-id>")}`,
+  );
+  process.exit(1);
+}
+
+const repoName = process.env.DIFFDB_REPOSITORY_NAME || "diffchat-data";
+const { DIFFDB_PASSPHRASE, DIFFDB_NEW_PASSPHRASE } = process.env;
+
+try {
+  const backend = await createDiffDBStorageBackend({
+    userId,
+    repoName,
+    accessToken: process.env.GITHUB_TOKEN,
+  });
+  const current = await readEncryptionMetadata(backend, repoName);
+
+  let from: DiffDBEncryptionKey | null = null;
+  if (current) {
+    if (!DIFFDB_PASSPHRASE) {
+      throw new Error(`${repoName} is encrypted, set DIFFDB_PASSPHRASE`);
+    }
+    const { salt, iterations } = current.metadata.kdf;
+    from = await importEncryptionKey(
+      await deriveKeyBytes(DIFFDB_PASSPHRASE, salt, iterations),
+    );
+  }
+
+  let to: { key: DiffDBEncryptionKey; salt: string } | null = null;
+  if (DIFFDB_NEW_PASSPHRASE) {
+    const salt = generateSalt();
+    to = {
+      key: await importEncryptionKey(
+        await deriveKeyBytes(DIFFDB_NEW_PASSPHRASE, salt),
+      ),
+      salt,
+    };
+  }
+
+  const { files } = await reencryptRepository(backend, repoName, { from, to });
+  console.info(
+    `🚀 ${repoName} ${to ? "encrypted" : "decrypted"} (${files} files rewritten)`,
+  );
+  if (current && to) {
+    console.info("Users need to unlock their data with the new passphrase.");
+  }
+} catch (err) {
+  console.error(err);
+  process.exit(1);
+}
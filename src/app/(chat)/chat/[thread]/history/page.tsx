@@ -0,0 +1,19 @@
+import { ThreadHistory } from "@/components/thread-history";
+import { getSession } from "auth/server";
+import { chatRepository } from "lib/db/repository";
+import { redirect, RedirectType } from "next/navigation";
+
+export default async function ThreadHistoryPage({
+  params,
+}: { params: Promise<{ thread: string }> }) {
+  const { thread: threadId } = await params;
+  const session = await getSession();
+
+  const thread = await chatRepository.selectThread(threadId);
+
+  if (!thread || thread.userId !== session?.user.id) {
+    redirect("/", RedirectType.replace);
+  }
+
+  return <ThreadHistory threadId={threadId} title={thread.title} />;
+}
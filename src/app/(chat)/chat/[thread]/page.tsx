@@ -20,6 +20,11 @@ export default async function Page({
 
   if (!thread) redirect("/", RedirectType.replace);
 
+  // Branches are only shown inside the conversation they belong to
+  if (thread.parentThreadId) {
+    redirect(`/chat/${thread.parentThreadId}`, RedirectType.replace);
+  }
+
   const initialMessages = thread.messages.map(convertToUIMessage);
 
   return <ChatBot threadId={threadId} initialMessages={initialMessages} />;
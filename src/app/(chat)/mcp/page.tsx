@@ -4,6 +4,8 @@ import { MCPCard } from "@/components/mcp-card";
 import { Button } from "@/components/ui/button";
 import Link from "next/link";
 import { MCPOverview } from "@/components/mcp-overview";
+import { MCPExportDialog } from "@/components/mcp-export-dialog";
+import { Download, FileUp } from "lucide-react";
 
 import { Skeleton } from "ui/skeleton";
 
@@ -12,7 +14,9 @@ import { useTranslations } from "next-intl";
 import { MCPIcon } from "ui/mcp-icon";
 import { useMcpList } from "@/hooks/queries/use-mcp-list";
 import dynamic from "next/dynamic";
-import { useMemo } from "react";
+import { useRouter } from "next/navigation";
+import { useEffect, useMemo } from "react";
+import { toast } from "sonner";
 
 const LightRays = dynamic(() => import("@/components/ui/light-rays"), {
   ssr: false,
@@ -24,6 +28,18 @@ export default function Page() {
     refreshInterval: 10000,
   });
 
+  const router = useRouter();
+
+  // The OAuth callback comes back here with the error of a failed sign-in
+  useEffect(() => {
+    const oauthError = new URLSearchParams(window.location.search).get(
+      "oauthError",
+    );
+    if (!oauthError) return;
+    toast.error(t("authorizationFailed"), { description: oauthError });
+    router.replace("/mcp");
+  }, []);
+
   const particle = useMemo(() => {
     if (isLoading || mcpList?.length !== 0) return;
     return (
@@ -64,6 +80,20 @@ export default function Page() {
                   {t("marketplace")}
                 </Button>
               </Link>
+              <Link href="/mcp/import">
+                <Button className="font-semibold" variant="ghost">
+                  <FileUp />
+                  {t("import")}
+                </Button>
+              </Link>
+              {mcpList?.length > 0 && (
+                <MCPExportDialog mcpList={mcpList}>
+                  <Button className="font-semibold" variant="ghost">
+                    <Download />
+                    {t("export")}
+                  </Button>
+                </MCPExportDialog>
+              )}
               <Link href="/mcp/create">
                 <Button className="font-semibold bg-input/20" variant="outline">
                   <MCPIcon className="fill-foreground size-3.5" />
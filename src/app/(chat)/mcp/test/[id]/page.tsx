@@ -67,6 +67,8 @@ import { useObjectState } from "@/hooks/use-object-state";
 import { useTranslations } from "next-intl";
 import { useChatModels } from "@/hooks/queries/use-chat-models";
 import { ChatModel } from "app-types/chat";
+import { Tabs, TabsList, TabsTrigger } from "ui/tabs";
+import { MCPResourcesPanel } from "@/components/mcp-resources-panel";
 
 // Type definitions
 type SchemaProperty = {
@@ -394,6 +396,7 @@ export default function Page() {
   const [callResult, setCallResult] = useState<CallResult | null>(null);
   const [isCallLoading, setIsCallLoading] = useState(false);
   const [showInputSchema, setShowInputSchema] = useState(false);
+  const [view, setView] = useState<"tools" | "resources">("tools");
 
   const { data: client, isLoading } = useSWR(`/mcp/${id}`, () =>
     selectMcpClientAction(id as string),
@@ -514,235 +517,275 @@ export default function Page() {
           <h2 className="text-3xl font-semibold my-2">
             {decodeURIComponent(client?.name ?? "")}
           </h2>
+          {!!(
+            client?.resourceInfo?.length || client?.resourceTemplateInfo?.length
+          ) && (
+            <Tabs
+              value={view}
+              onValueChange={(value) => setView(value as typeof view)}
+              className="mt-4"
+            >
+              <TabsList>
+                <TabsTrigger value="tools">
+                  {t("MCP.tools")}
+                  <Badge variant="secondary">
+                    {client.toolInfo?.length ?? 0}
+                  </Badge>
+                </TabsTrigger>
+                <TabsTrigger value="resources">
+                  {t("MCP.resources")}
+                  <Badge variant="secondary">
+                    {(client.resourceInfo?.length ?? 0) +
+                      (client.resourceTemplateInfo?.length ?? 0)}
+                  </Badge>
+                </TabsTrigger>
+              </TabsList>
+            </Tabs>
+          )}
         </header>
       </div>
 
-      <ResizablePanelGroup direction="horizontal" className="mt-4">
-        {/* Tool List Panel */}
-        <ResizablePanel defaultSize={30}>
-          <div className="w-full flex flex-col h-full relative pr-8">
-            <div className="top-0 pb-2 z-1">
-              <div className="w-full relative">
-                <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
-                <Input
-                  type="search"
-                  placeholder={t("MCP.searchTools")}
-                  className="pl-8 bg-background"
-                  value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
-                />
+      {view == "resources" ? (
+        <MCPResourcesPanel
+          id={id}
+          resources={client?.resourceInfo ?? []}
+          templates={client?.resourceTemplateInfo ?? []}
+          isLoading={isLoading}
+        />
+      ) : (
+        <ResizablePanelGroup direction="horizontal" className="mt-4">
+          {/* Tool List Panel */}
+          <ResizablePanel defaultSize={30}>
+            <div className="w-full flex flex-col h-full relative pr-8">
+              <div className="top-0 pb-2 z-1">
+                <div className="w-full relative">
+                  <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    type="search"
+                    placeholder={t("MCP.searchTools")}
+                    className="pl-8 bg-background"
+                    value={searchQuery}
+                    onChange={(e) => setSearchQuery(e.target.value)}
+                  />
+                </div>
               </div>
-            </div>
 
-            <div className="flex flex-col gap-2 h-full overflow-y-auto no-scrollbar">
-              {isLoading
-                ? renderSkeletons()
-                : filteredTools.length > 0
-                  ? filteredTools.map((tool, index) => (
-                      <ToolListItem
-                        key={tool.name}
-                        tool={tool}
-                        isSelected={selectedToolIndex === index}
-                        onClick={() => setSelectedToolIndex(index)}
-                      />
-                    ))
-                  : renderEmptyState()}
+              <div className="flex flex-col gap-2 h-full overflow-y-auto no-scrollbar">
+                {isLoading
+                  ? renderSkeletons()
+                  : filteredTools.length > 0
+                    ? filteredTools.map((tool, index) => (
+                        <ToolListItem
+                          key={tool.name}
+                          tool={tool}
+                          isSelected={selectedToolIndex === index}
+                          onClick={() => setSelectedToolIndex(index)}
+                        />
+                      ))
+                    : renderEmptyState()}
+              </div>
             </div>
-          </div>
-        </ResizablePanel>
-
-        <ResizableHandle withHandle />
-
-        {/* Tool Detail Panel */}
-        <ResizablePanel defaultSize={70}>
-          <div className="w-full h-full">
-            {selectedTool ? (
-              <div className="h-full overflow-y-auto pl-6 pr-12">
-                <div className="sticky top-0 bg-background">
-                  <h3 className="text-xl font-medium mb-4 flex items-center gap-2">
-                    {selectedTool.name}
-                  </h3>
-
-                  {selectedTool.description && (
-                    <ToolDescription
-                      description={selectedTool.description}
-                      showFullDescription={showFullDescription}
-                      toggleDescription={toggleDescription}
-                    />
-                  )}
-
-                  <Separator className="my-4" />
-                </div>
+          </ResizablePanel>
+
+          <ResizableHandle withHandle />
+
+          {/* Tool Detail Panel */}
+          <ResizablePanel defaultSize={70}>
+            <div className="w-full h-full">
+              {selectedTool ? (
+                <div className="h-full overflow-y-auto pl-6 pr-12">
+                  <div className="sticky top-0 bg-background">
+                    <h3 className="text-xl font-medium mb-4 flex items-center gap-2">
+                      {selectedTool.name}
+                    </h3>
+
+                    {selectedTool.description && (
+                      <ToolDescription
+                        description={selectedTool.description}
+                        showFullDescription={showFullDescription}
+                        toggleDescription={toggleDescription}
+                      />
+                    )}
+
+                    <Separator className="my-4" />
+                  </div>
+
+                  <div className="space-y-4 h-full ">
+                    {selectedTool.inputSchema ? (
+                      <div className="space-y-4">
+                        <div className="grid grid-cols-2 gap-4">
+                          {/* Schema View */}
+                          <div>
+                            <div className="flex justify-between items-center mb-2">
+                              <h5 className="text-xs font-medium">
+                                Input Schema
+                              </h5>
+                              <Dialog>
+                                <DialogTrigger asChild>
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    className="h-6 px-2 text-xs"
+                                  >
+                                    {t("MCP.detail")}
+                                    <ChevronDown className="ml-1 size-3" />
+                                  </Button>
+                                </DialogTrigger>
+                                <DialogPortal>
+                                  <DialogContent className="sm:max-w-[800px] fixed p-10 overflow-hidden">
+                                    <DialogHeader>
+                                      <DialogTitle>
+                                        Input Schema: {selectedTool.name}
+                                      </DialogTitle>
+                                    </DialogHeader>
+                                    <div className="overflow-y-auto max-h-[70vh]">
+                                      <JsonView
+                                        data={selectedTool.inputSchema}
+                                        initialExpandDepth={3}
+                                      />
+                                    </div>
+                                    <div className="absolute left-0 right-0 bottom-0 h-12 bg-gradient-to-t from-background to-transparent pointer-events-none z-10" />
+                                  </DialogContent>
+                                </DialogPortal>
+                              </Dialog>
+                            </div>
 
-                <div className="space-y-4 h-full ">
-                  {selectedTool.inputSchema ? (
-                    <div className="space-y-4">
-                      <div className="grid grid-cols-2 gap-4">
-                        {/* Schema View */}
-                        <div>
-                          <div className="flex justify-between items-center mb-2">
-                            <h5 className="text-xs font-medium">
-                              Input Schema
-                            </h5>
-                            <Dialog>
-                              <DialogTrigger asChild>
+                            <div
+                              className="border border-input rounded-md p-4 h-[200px] overflow-y-auto"
+                              onClick={toggleInputSchema}
+                            >
+                              {simplifiedSchema &&
+                              Object.keys(simplifiedSchema).length > 0 ? (
+                                <div className="space-y-2">
+                                  {Object.entries(simplifiedSchema).map(
+                                    ([key, value]) => (
+                                      <SchemaProperty
+                                        key={key}
+                                        name={key}
+                                        schema={value}
+                                      />
+                                    ),
+                                  )}
+                                </div>
+                              ) : (
+                                <p className="text-xs text-muted-foreground italic">
+                                  {t("MCP.noSchemaPropertiesAvailable")}
+                                </p>
+                              )}
+                            </div>
+                          </div>
+
+                          {/* JSON Input */}
+                          <div className="space-y-2">
+                            <div className="flex justify-between items-center mb-2">
+                              <h5 className="text-xs font-medium flex items-center">
+                                Input JSON
+                              </h5>
+                              <GenerateExampleInputJsonDialog
+                                toolInfo={selectedTool}
+                                onGenerated={(json) => setJsonInput(json)}
+                              >
                                 <Button
                                   variant="ghost"
                                   size="sm"
                                   className="h-6 px-2 text-xs"
                                 >
-                                  {t("MCP.detail")}
-                                  <ChevronDown className="ml-1 size-3" />
+                                  {t("MCP.createInputWithAI")}
+                                  <WandSparkles className="ml-1 size-3" />
                                 </Button>
-                              </DialogTrigger>
-                              <DialogPortal>
-                                <DialogContent className="sm:max-w-[800px] fixed p-10 overflow-hidden">
-                                  <DialogHeader>
-                                    <DialogTitle>
-                                      Input Schema: {selectedTool.name}
-                                    </DialogTitle>
-                                  </DialogHeader>
-                                  <div className="overflow-y-auto max-h-[70vh]">
-                                    <JsonView
-                                      data={selectedTool.inputSchema}
-                                      initialExpandDepth={3}
-                                    />
-                                  </div>
-                                  <div className="absolute left-0 right-0 bottom-0 h-12 bg-gradient-to-t from-background to-transparent pointer-events-none z-10" />
-                                </DialogContent>
-                              </DialogPortal>
-                            </Dialog>
+                              </GenerateExampleInputJsonDialog>
+                            </div>
+                            <Textarea
+                              autoFocus
+                              value={jsonInput}
+                              onChange={(e) =>
+                                handleInputChange(e.target.value)
+                              }
+                              className="font-mono h-[200px] resize-none overflow-y-auto"
+                              placeholder="{}"
+                            />
+                            {jsonError && jsonInput && (
+                              <Alert variant="destructive" className="mt-2">
+                                <AlertTitle className="text-xs font-semibold">
+                                  JSON Error
+                                </AlertTitle>
+                                <AlertDescription className="text-xs">
+                                  {jsonError}
+                                </AlertDescription>
+                              </Alert>
+                            )}
                           </div>
+                        </div>
 
-                          <div
-                            className="border border-input rounded-md p-4 h-[200px] overflow-y-auto"
-                            onClick={toggleInputSchema}
+                        {/* Call Button */}
+                        <div>
+                          <Button
+                            onClick={handleToolCall}
+                            disabled={!!jsonError || isCallLoading}
+                            className="w-full"
                           >
-                            {simplifiedSchema &&
-                            Object.keys(simplifiedSchema).length > 0 ? (
-                              <div className="space-y-2">
-                                {Object.entries(simplifiedSchema).map(
-                                  ([key, value]) => (
-                                    <SchemaProperty
-                                      key={key}
-                                      name={key}
-                                      schema={value}
-                                    />
-                                  ),
-                                )}
-                              </div>
-                            ) : (
-                              <p className="text-xs text-muted-foreground italic">
-                                {t("MCP.noSchemaPropertiesAvailable")}
-                              </p>
+                            {isCallLoading && (
+                              <Loader className="size-4 animate-spin mr-2" />
                             )}
-                          </div>
+                            {t("MCP.callTool")}
+                          </Button>
                         </div>
 
-                        {/* JSON Input */}
-                        <div className="space-y-2">
-                          <div className="flex justify-between items-center mb-2">
-                            <h5 className="text-xs font-medium flex items-center">
-                              Input JSON
-                            </h5>
-                            <GenerateExampleInputJsonDialog
-                              toolInfo={selectedTool}
-                              onGenerated={(json) => setJsonInput(json)}
-                            >
-                              <Button
-                                variant="ghost"
-                                size="sm"
-                                className="h-6 px-2 text-xs"
+                        {/* Results Display */}
+                        {!isNull(callResult) && (
+                          <div className="space-y-2">
+                            <h5 className="text-xs font-medium">Result</h5>
+                            {callResult.success ? (
+                              <div className="border border-input rounded-md p-4 max-h-[300px] overflow-auto">
+                                <JsonView
+                                  data={callResult.data}
+                                  initialExpandDepth={2}
+                                />
+                              </div>
+                            ) : (
+                              <Alert
+                                variant="destructive"
+                                className="mt-2 border-destructive"
                               >
-                                {t("MCP.createInputWithAI")}
-                                <WandSparkles className="ml-1 size-3" />
-                              </Button>
-                            </GenerateExampleInputJsonDialog>
+                                <AlertTitle className="text-xs font-semibold">
+                                  Error
+                                </AlertTitle>
+                                <AlertDescription className="text-xs mt-2 text-destructive">
+                                  <pre className="whitespace-pre-wrap">
+                                    {isString(callResult.error)
+                                      ? callResult.error
+                                      : JSON.stringify(
+                                          callResult.error,
+                                          null,
+                                          2,
+                                        )}
+                                  </pre>
+                                </AlertDescription>
+                              </Alert>
+                            )}
                           </div>
-                          <Textarea
-                            autoFocus
-                            value={jsonInput}
-                            onChange={(e) => handleInputChange(e.target.value)}
-                            className="font-mono h-[200px] resize-none overflow-y-auto"
-                            placeholder="{}"
-                          />
-                          {jsonError && jsonInput && (
-                            <Alert variant="destructive" className="mt-2">
-                              <AlertTitle className="text-xs font-semibold">
-                                JSON Error
-                              </AlertTitle>
-                              <AlertDescription className="text-xs">
-                                {jsonError}
-                              </AlertDescription>
-                            </Alert>
-                          )}
-                        </div>
+                        )}
                       </div>
-
-                      {/* Call Button */}
-                      <div>
-                        <Button
-                          onClick={handleToolCall}
-                          disabled={!!jsonError || isCallLoading}
-                          className="w-full"
-                        >
-                          {isCallLoading && (
-                            <Loader className="size-4 animate-spin mr-2" />
-                          )}
-                          {t("MCP.callTool")}
-                        </Button>
+                    ) : (
+                      <div className="bg-secondary/30 p-4 rounded-md">
+                        <p className="text-sm text-center text-muted-foreground">
+                          This tool doesn{"'"}t have an input schema defined
+                        </p>
                       </div>
-
-                      {/* Results Display */}
-                      {!isNull(callResult) && (
-                        <div className="space-y-2">
-                          <h5 className="text-xs font-medium">Result</h5>
-                          {callResult.success ? (
-                            <div className="border border-input rounded-md p-4 max-h-[300px] overflow-auto">
-                              <JsonView
-                                data={callResult.data}
-                                initialExpandDepth={2}
-                              />
-                            </div>
-                          ) : (
-                            <Alert
-                              variant="destructive"
-                              className="mt-2 border-destructive"
-                            >
-                              <AlertTitle className="text-xs font-semibold">
-                                Error
-                              </AlertTitle>
-                              <AlertDescription className="text-xs mt-2 text-destructive">
-                                <pre className="whitespace-pre-wrap">
-                                  {isString(callResult.error)
-                                    ? callResult.error
-                                    : JSON.stringify(callResult.error, null, 2)}
-                                </pre>
-                              </AlertDescription>
-                            </Alert>
-                          )}
-                        </div>
-                      )}
-                    </div>
-                  ) : (
-                    <div className="bg-secondary/30 p-4 rounded-md">
-                      <p className="text-sm text-center text-muted-foreground">
-                        This tool doesn{"'"}t have an input schema defined
-                      </p>
-                    </div>
-                  )}
+                    )}
+                  </div>
                 </div>
-              </div>
-            ) : (
-              <div className="flex items-center justify-center h-[300px]">
-                <p className="text-muted-foreground">
-                  Select a tool from the left to test
-                </p>
-              </div>
-            )}
-          </div>
-        </ResizablePanel>
-      </ResizablePanelGroup>
+              ) : (
+                <div className="flex items-center justify-center h-[300px]">
+                  <p className="text-muted-foreground">
+                    Select a tool from the left to test
+                  </p>
+                </div>
+              )}
+            </div>
+          </ResizablePanel>
+        </ResizablePanelGroup>
+      )}
     </div>
   );
 }
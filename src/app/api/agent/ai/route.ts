@@ -13,7 +13,7 @@ import { loadAppDefaultTools } from "../../chat/shared.chat";
 import { workflowRepository } from "lib/db/repository";
 import { safe } from "ts-safe";
 import { objectFlow } from "lib/utils";
-import { mcpClientsManager } from "lib/ai/mcp/mcp-manager";
+import { getMCPClientsManager } from "lib/ai/mcp/mcp-manager";
 
 const logger = globalLogger.withDefaults({
   message: colorize("blackBright", `Agent Generate API: `),
@@ -46,7 +46,11 @@ export async function POST(request: Request) {
       })
       .unwrap();
 
-    await safe(mcpClientsManager.tools())
+    await safe(
+      getMCPClientsManager().then((mcpClientsManager) =>
+        mcpClientsManager.tools(),
+      ),
+    )
       .ifOk((tools) => {
         objectFlow(tools).forEach((mcp) => {
           toolNames.add(mcp._originToolName);
@@ -4,6 +4,7 @@ import { z } from "zod";
 import { serverCache } from "lib/cache";
 import { CacheKeys } from "lib/cache/cache-keys";
 import { AgentUpsertSchema } from "app-types/agent";
+import { DiffDBConflictError } from "lib/errors";
 
 export async function GET() {
   const session = await getSession();
@@ -46,6 +47,13 @@ export async function POST(request: Request) {
       );
     }
 
+    if (error instanceof DiffDBConflictError) {
+      return Response.json(
+        { code: error.code, message: error.message, paths: error.paths },
+        { status: 409 },
+      );
+    }
+
     console.error("Failed to upsert agent:", error);
     return Response.json(
       { message: "Internal Server Error" },
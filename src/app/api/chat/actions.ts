@@ -17,13 +17,18 @@ import type { ChatModel, ChatThread } from "app-types/chat";
 
 import {
   agentRepository,
+  chatHistoryRepository,
   chatRepository,
   mcpMcpToolCustomizationRepository,
   mcpServerCustomizationRepository,
 } from "lib/db/repository";
 import { customModelProvider } from "lib/ai/models";
 import { toAny } from "lib/utils";
-import { McpServerCustomizationsPrompt, MCPToolInfo } from "app-types/mcp";
+import {
+  McpServerCustomizationsPrompt,
+  McpToolCustomization,
+  MCPToolInfo,
+} from "app-types/mcp";
 import { serverCache } from "lib/cache";
 import { CacheKeys } from "lib/cache/cache-keys";
 import { getSession } from "auth/server";
@@ -82,13 +87,6 @@ export async function deleteThreadAction(threadId: string) {
   await chatRepository.deleteThread(threadId);
 }
 
-export async function deleteMessagesByChatIdAfterTimestampAction(
-  messageId: string,
-) {
-  "use server";
-  await chatRepository.deleteMessagesByChatIdAfterTimestamp(messageId);
-}
-
 export async function updateThreadAction(
   id: string,
   thread: Partial<Omit<ChatThread, "createdAt" | "updatedAt" | "userId">>,
@@ -97,6 +95,45 @@ export async function updateThreadAction(
   await chatRepository.updateThread(id, { ...thread, userId });
 }
 
+async function assertThreadOwner(threadId: string) {
+  const userId = await getUserId();
+  const thread = await chatRepository.selectThread(threadId);
+  if (!thread || thread.userId !== userId) {
+    throw new Error("Thread not found");
+  }
+}
+
+export async function restoreThreadAction(threadId: string, sha: string) {
+  await assertThreadOwner(threadId);
+  return chatHistoryRepository.restoreThread(threadId, sha);
+}
+
+export async function restoreMessageAction(
+  threadId: string,
+  messageId: string,
+  sha: string,
+) {
+  await assertThreadOwner(threadId);
+  return chatHistoryRepository.restoreMessage(threadId, messageId, sha);
+}
+
+/**
+ * Keep a message and the turns after it as a branch before the thread
+ * continues from the message before it
+ */
+export async function forkThreadAction(threadId: string, messageId: string) {
+  await assertThreadOwner(threadId);
+  await chatRepository.forkThreadAt(threadId, messageId);
+}
+
+export async function switchThreadBranchAction(
+  threadId: string,
+  branchThreadId: string,
+) {
+  await assertThreadOwner(threadId);
+  return chatRepository.switchThreadBranch(threadId, branchThreadId);
+}
+
 export async function deleteThreadsAction() {
   const userId = await getUserId();
   await chatRepository.deleteAllThreads(userId);
@@ -168,7 +205,8 @@ export async function rememberMcpServerCustomizationsAction(userId: string) {
         prompt: sc?.prompt || "",
         tools: tc.reduce(
           (acc, v) => {
-            acc[v.toolName] = v.prompt || "";
+            // Customizations may only set the tool's policy
+            if (v.prompt) acc[v.toolName] = v.prompt;
             return acc;
           },
           {} as Record<string, string>,
@@ -184,6 +222,31 @@ export async function rememberMcpServerCustomizationsAction(userId: string) {
   return prompts;
 }
 
+export async function rememberMcpToolPoliciesAction(userId: string) {
+  const key = CacheKeys.mcpToolPolicies(userId);
+
+  const cachedPolicies =
+    await serverCache.get<
+      Pick<McpToolCustomization, "mcpServerId" | "toolName" | "policy">[]
+    >(key);
+  if (cachedPolicies) {
+    return cachedPolicies;
+  }
+
+  const policies = (
+    await mcpMcpToolCustomizationRepository.selectByUserId(userId)
+  )
+    .filter(({ policy }) => policy)
+    .map(({ mcpServerId, toolName, policy }) => ({
+      mcpServerId,
+      toolName,
+      policy,
+    }));
+
+  serverCache.set(key, policies, 1000 * 60 * 30); // 30 minutes
+  return policies;
+}
+
 export async function generateObjectAction({
   model,
   prompt,
@@ -11,7 +11,7 @@ import {
   buildMcpServerCustomizationsSystemPrompt,
   buildSpeechSystemPrompt,
 } from "lib/ai/prompts";
-import { mcpClientsManager } from "lib/ai/mcp/mcp-manager";
+import { getMCPClientsManager } from "lib/ai/mcp/mcp-manager";
 import { safe } from "ts-safe";
 import { DEFAULT_VOICE_TOOLS } from "lib/ai/speech";
 import {
@@ -49,6 +49,7 @@ export async function POST(request: NextRequest) {
       allowedMcpServers: Record<string, AllowedMCPServer>;
     };
 
+    const mcpClientsManager = await getMCPClientsManager();
     const mcpTools = await mcpClientsManager.tools();
 
     const agent = await rememberAgentAction(agentId, session.user.id);
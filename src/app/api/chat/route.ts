@@ -11,19 +11,22 @@ import {
 
 import { customModelProvider, isToolCallUnsupportedModel } from "lib/ai/models";
 
-import { mcpClientsManager } from "lib/ai/mcp/mcp-manager";
+import { getMCPClientsManager } from "lib/ai/mcp/mcp-manager";
+import type { MCPInteractionChannel } from "lib/ai/mcp/mcp-interaction";
 
 import { agentRepository, chatRepository } from "lib/db/repository";
 import globalLogger from "logger";
 import {
   buildMcpServerCustomizationsSystemPrompt,
+  buildMcpResourcesSystemPrompt,
   buildUserSystemPrompt,
   buildToolCallUnsupportedModelSystemPrompt,
   buildThinkingSystemPrompt,
 } from "lib/ai/prompts";
-import { chatApiSchemaRequestBodySchema } from "app-types/chat";
+import { ChatMessage, chatApiSchemaRequestBodySchema } from "app-types/chat";
 
 import { errorIf, safe } from "ts-safe";
+import { objectFlow, toAny } from "lib/utils";
 
 import {
   appendAnnotations,
@@ -35,13 +38,18 @@ import {
   extractInProgressToolPart,
   assignToolResult,
   filterMcpServerCustomizations,
+  filterMCPToolsByPolicies,
+  getApprovalToolNames,
+  isToolAllowedForThread,
   loadMcpTools,
   loadWorkFlowTools,
   loadAppDefaultTools,
+  loadMcpResources,
 } from "./shared.chat";
 import {
   rememberAgentAction,
   rememberMcpServerCustomizationsAction,
+  rememberMcpToolPoliciesAction,
 } from "./actions";
 import { getSession } from "auth/server";
 import { colorize } from "consola/utils";
@@ -116,29 +124,49 @@ export async function POST(request: Request) {
       mentions.push(...agent.instructions.mentions);
     }
 
+    // Mentioned resources are attached to the prompt and don't select tools
+    const toolMentions = mentions.filter((m) => m.type != "mcpResource");
+
     const isToolCallAllowed =
-      supportToolCall && (toolChoice != "none" || mentions.length > 0);
+      supportToolCall && (toolChoice != "none" || toolMentions.length > 0);
 
     return createDataStreamResponse({
       execute: async (dataStream) => {
+        const mcpClientsManager = await getMCPClientsManager();
         const mcpClients = await mcpClientsManager.getClients();
         logger.info(`mcp-server count: ${mcpClients.length}`);
 
+        // Servers may ask the user something while their tools run
+        const interactionChannel: MCPInteractionChannel = {
+          chatModel,
+          send: (interaction) => dataStream.writeData(toAny(interaction)),
+        };
+        const detachInteractions =
+          mcpClientsManager.interactions?.attach(interactionChannel);
+        request.signal.addEventListener("abort", () => detachInteractions?.());
+
+        const mcpToolPolicies = await safe(() =>
+          rememberMcpToolPoliciesAction(session.user.id),
+        ).orElse([]);
+
         const MCP_TOOLS = await safe()
           .map(errorIf(() => !isToolCallAllowed && "Not allowed"))
           .map(() =>
             loadMcpTools({
-              mentions,
+              mentions: toolMentions,
               allowedMcpServers,
+              dataStream,
+              interactionChannel,
             }),
           )
+          .map((tools) => filterMCPToolsByPolicies(tools, mcpToolPolicies))
           .orElse({});
 
         const WORKFLOW_TOOLS = await safe()
           .map(errorIf(() => !isToolCallAllowed && "Not allowed"))
           .map(() =>
             loadWorkFlowTools({
-              mentions,
+              mentions: toolMentions,
               dataStream,
             }),
           )
@@ -148,13 +176,25 @@ export async function POST(request: Request) {
           .map(errorIf(() => !isToolCallAllowed && "Not allowed"))
           .map(() =>
             loadAppDefaultTools({
-              mentions,
+              mentions: toolMentions,
               allowedAppDefaultToolkit,
             }),
           )
           .orElse({});
 
+        const threadAllowedTools = [...(thread?.allowedTools ?? [])];
+
         if (inProgressToolStep) {
+          const { toolName } = inProgressToolStep.toolInvocation;
+          if (
+            isToolAllowedForThread(inProgressToolStep, message) &&
+            !threadAllowedTools.includes(toolName)
+          ) {
+            threadAllowedTools.push(toolName);
+            await chatRepository.updateThread(thread!.id, {
+              allowedTools: threadAllowedTools,
+            });
+          }
           const toolResult = await manualToolExecuteByLastMessage(
             inProgressToolStep,
             message,
@@ -181,9 +221,12 @@ export async function POST(request: Request) {
           .map((v) => filterMcpServerCustomizations(MCP_TOOLS!, v))
           .orElse({});
 
+        const mcpResources = await loadMcpResources(mentions);
+
         const systemPrompt = mergeSystemPrompt(
           buildUserSystemPrompt(session.user, userPreferences, agent),
           buildMcpServerCustomizationsSystemPrompt(mcpServerCustomizations),
+          buildMcpResourcesSystemPrompt(mcpResources),
           !supportToolCall && buildToolCallUnsupportedModelSystemPrompt,
           (!supportToolCall ||
             ["openai", "anthropic"].includes(chatModel?.provider ?? "")) &&
@@ -191,12 +234,23 @@ export async function POST(request: Request) {
             buildThinkingSystemPrompt(supportToolCall),
         );
 
+        const approvalTools = getApprovalToolNames(
+          { ...MCP_TOOLS, ...WORKFLOW_TOOLS },
+          mcpToolPolicies,
+          { toolChoice, threadAllowedTools },
+        );
+
         const vercelAITooles = safe({ ...MCP_TOOLS, ...WORKFLOW_TOOLS })
           .map((t) => {
-            const bindingTools =
-              toolChoice === "manual" ? excludeToolExecution(t) : t;
+            // Without execute, the stream stops at the call for the user
+            const waitingTools = excludeToolExecution(
+              objectFlow(t).filter((_, name) =>
+                approvalTools.includes(name as string),
+              ),
+            );
             return {
-              ...bindingTools,
+              ...t,
+              ...waitingTools,
               ...APP_DEFAULT_TOOLS, // APP_DEFAULT_TOOLS Not Supported Manual
             };
           })
@@ -216,7 +270,7 @@ export async function POST(request: Request) {
           .flat();
 
         logger.info(
-          `${agent ? `agent: ${agent.name}, ` : ""}tool mode: ${toolChoice}, mentions: ${mentions.length}, allowedMcpTools: ${allowedMcpTools.length} thinking: ${thinking}`,
+          `${agent ? `agent: ${agent.name}, ` : ""}tool mode: ${toolChoice}, approval tools: ${approvalTools.length}, mentions: ${mentions.length}, resources: ${mcpResources.length}, allowedMcpTools: ${allowedMcpTools.length} thinking: ${thinking}`,
         );
         logger.info(
           `binding tool count APP_DEFAULT: ${Object.keys(APP_DEFAULT_TOOLS ?? {}).length}, MCP: ${Object.keys(MCP_TOOLS ?? {}).length}, Workflow: ${Object.keys(WORKFLOW_TOOLS ?? {}).length}`,
@@ -234,13 +288,16 @@ export async function POST(request: Request) {
           tools: vercelAITooles,
           toolChoice: "auto",
           abortSignal: request.signal,
+          onError: () => detachInteractions?.(),
           onFinish: async ({ response, usage }) => {
+            detachInteractions?.();
             const appendMessages = appendResponseMessages({
               messages: messages.slice(-1),
               responseMessages: response.messages,
             });
+            const messagesToSave: Omit<ChatMessage, "createdAt">[] = [];
             if (isLastMessageUserMessage) {
-              await chatRepository.upsertMessage({
+              messagesToSave.push({
                 threadId: thread!.id,
                 model: chatModel?.model ?? null,
                 role: "user",
@@ -259,10 +316,13 @@ export async function POST(request: Request) {
                 {
                   usageTokens: usage.completionTokens,
                   toolChoice,
+                  approvalTools: approvalTools.length
+                    ? approvalTools
+                    : undefined,
                 },
               );
               dataStream.writeMessageAnnotation(annotations.at(-1)!);
-              chatRepository.upsertMessage({
+              messagesToSave.push({
                 model: chatModel?.model ?? null,
                 threadId: thread!.id,
                 role: assistantMessage.role,
@@ -312,6 +372,8 @@ export async function POST(request: Request) {
                 annotations,
               });
             }
+            // Persist the whole turn at once so it lands as a single commit
+            await chatRepository.upsertMessages(messagesToSave);
             if (agent) {
               await agentRepository.updateAgent(agent.id, session.user.id, {
                 updatedAt: new Date(),
@@ -0,0 +1,131 @@
+import type { Message } from "ai";
+import type { ToolInvocationUIPart } from "app-types/chat";
+import type { VercelAIMcpTool } from "app-types/mcp";
+import type { VercelAIWorkflowTool } from "app-types/workflow";
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("server-only", () => ({}));
+vi.mock("lib/db/repository", () => ({ workflowRepository: {} }));
+vi.mock("lib/ai/mcp/mcp-manager", () => ({ getMCPClientsManager: vi.fn() }));
+vi.mock("lib/ai/workflow/executor/workflow-executor", () => ({
+  createWorkflowExecutor: vi.fn(),
+}));
+
+const {
+  filterMCPToolsByPolicies,
+  getApprovalToolNames,
+  isToolAllowedForThread,
+} = await import("./shared.chat");
+
+const mcpTool = (serverId: string, toolName: string) =>
+  ({
+    __$ref__: "mcp",
+    _mcpServerId: serverId,
+    _mcpServerName: serverId,
+    _originToolName: toolName,
+  }) as VercelAIMcpTool;
+
+const tools = {
+  github_create_issue: mcpTool("github", "create_issue"),
+  github_list_issues: mcpTool("github", "list_issues"),
+  github_delete_repo: mcpTool("github", "delete_repo"),
+};
+
+const policies = [
+  { mcpServerId: "github", toolName: "create_issue", policy: "ask" as const },
+  { mcpServerId: "github", toolName: "list_issues", policy: "allow" as const },
+  { mcpServerId: "github", toolName: "delete_repo", policy: "deny" as const },
+];
+
+describe("filterMCPToolsByPolicies", () => {
+  it("should drop the tools the user denied", () => {
+    expect(Object.keys(filterMCPToolsByPolicies(tools, policies))).toEqual([
+      "github_create_issue",
+      "github_list_issues",
+    ]);
+  });
+});
+
+describe("getApprovalToolNames", () => {
+  const workflowTool = { __$ref__: "workflow" } as VercelAIWorkflowTool;
+
+  it("should wait for tools that ask, even in auto mode", () => {
+    expect(
+      getApprovalToolNames({ ...tools, workflow: workflowTool }, policies, {
+        toolChoice: "auto",
+      }),
+    ).toEqual(["github_create_issue"]);
+  });
+
+  it("should let allowed tools run in manual mode", () => {
+    expect(
+      getApprovalToolNames({ ...tools, workflow: workflowTool }, policies, {
+        toolChoice: "manual",
+      }),
+    ).toEqual(["github_create_issue", "workflow"]);
+  });
+
+  it("should not wait for tools allowed for the thread", () => {
+    expect(
+      getApprovalToolNames(tools, policies, {
+        toolChoice: "manual",
+        threadAllowedTools: ["github_create_issue"],
+      }),
+    ).toEqual([]);
+  });
+});
+
+describe("isToolAllowedForThread", () => {
+  const part = {
+    type: "tool-invocation",
+    toolInvocation: {
+      state: "call",
+      toolCallId: "call-1",
+      toolName: "github_create_issue",
+      args: {},
+    },
+  } as ToolInvocationUIPart;
+
+  const confirm = (result: unknown) =>
+    ({
+      id: "m1",
+      role: "assistant",
+      content: "",
+      parts: [
+        {
+          type: "tool-invocation",
+          toolInvocation: { ...part.toolInvocation, state: "result", result },
+        },
+      ],
+    }) as Message;
+
+  it("should allow the tool when the user approved it for the thread", () => {
+    expect(
+      isToolAllowedForThread(
+        part,
+        confirm({ action: "manual", result: true, allowForThread: true }),
+      ),
+    ).toBe(true);
+  });
+
+  it("should not allow the tool for a single or rejected approval", () => {
+    expect(
+      isToolAllowedForThread(part, confirm({ action: "manual", result: true })),
+    ).toBe(false);
+    expect(
+      isToolAllowedForThread(
+        part,
+        confirm({ action: "manual", result: false, allowForThread: true }),
+      ),
+    ).toBe(false);
+  });
+
+  it("should not allow the tool for a direct result", () => {
+    expect(
+      isToolAllowedForThread(
+        part,
+        confirm({ action: "direct", result: "done", allowForThread: true }),
+      ),
+    ).toBe(false);
+  });
+});
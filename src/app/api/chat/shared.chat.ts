@@ -21,6 +21,8 @@ import logger from "logger";
 import {
   AllowedMCPServer,
   McpServerCustomizationsPrompt,
+  McpToolCustomization,
+  MCPResourceAttachment,
   VercelAIMcpTool,
 } from "app-types/mcp";
 import { MANUAL_REJECT_RESPONSE_PROMPT } from "lib/ai/prompts";
@@ -36,7 +38,8 @@ import {
 } from "app-types/workflow";
 import { createWorkflowExecutor } from "lib/ai/workflow/executor/workflow-executor";
 import { NodeKind } from "lib/ai/workflow/workflow.interface";
-import { mcpClientsManager } from "lib/ai/mcp/mcp-manager";
+import { getMCPClientsManager } from "lib/ai/mcp/mcp-manager";
+import type { MCPInteractionChannel } from "lib/ai/mcp/mcp-interaction";
 import { APP_DEFAULT_TOOL_KIT } from "lib/ai/tools/tool-kit";
 import { AppDefaultToolkit } from "lib/ai/tools";
 
@@ -90,6 +93,60 @@ export function filterMCPToolsByAllowedMCPServers(
   });
 }
 
+type McpToolPolicyEntry = Pick<
+  McpToolCustomization,
+  "mcpServerId" | "toolName" | "policy"
+>;
+
+const findMcpToolPolicy = (
+  tool: VercelAIMcpTool,
+  policies: McpToolPolicyEntry[],
+) =>
+  policies.find(
+    (policy) =>
+      policy.mcpServerId == tool._mcpServerId &&
+      policy.toolName == tool._originToolName,
+  )?.policy;
+
+/**
+ * Drops the MCP tools the user denied
+ */
+export function filterMCPToolsByPolicies(
+  tools: Record<string, VercelAIMcpTool>,
+  policies: McpToolPolicyEntry[],
+): Record<string, VercelAIMcpTool> {
+  return objectFlow(tools).filter(
+    (tool) => findMcpToolPolicy(tool, policies) != "deny",
+  );
+}
+
+/**
+ * Names of the tools whose calls wait for the user's approval. A tool's
+ * policy decides for it, tools without one need approval in manual mode.
+ * Tools the user allowed for the thread no longer ask.
+ */
+export function getApprovalToolNames(
+  tools: Record<string, VercelAIMcpTool | VercelAIWorkflowTool>,
+  policies: McpToolPolicyEntry[],
+  {
+    toolChoice,
+    threadAllowedTools = [],
+  }: {
+    toolChoice?: "auto" | "none" | "manual";
+    threadAllowedTools?: string[];
+  },
+): string[] {
+  return Object.entries(tools)
+    .filter(([name, tool]) => {
+      if (threadAllowedTools.includes(name)) return false;
+      const policy =
+        tool.__$ref__ == "mcp" ? findMcpToolPolicy(tool, policies) : undefined;
+      if (policy) return policy == "ask";
+      return toolChoice == "manual";
+    })
+    .map(([name]) => name);
+}
+
 export function excludeToolExecution(
   tool: Record<string, Tool>,
 ): Record<string, Tool> {
@@ -120,6 +177,31 @@ export function mergeSystemPrompt(
   return filteredPrompts.join("\n\n");
 }
 
+const findManualConfirmation = (part: ToolInvocationUIPart, message: Message) =>
+  (message.parts as ToolInvocationUIPart[]).find((_part) => {
+    return _part.toolInvocation?.toolCallId == part.toolInvocation.toolCallId;
+  })?.toolInvocation as
+    | Extract<ToolInvocation, { state: "result" }>
+    | undefined;
+
+/**
+ * Whether the user approved the pending tool call for the rest of the thread
+ */
+export function isToolAllowedForThread(
+  part: ToolInvocationUIPart,
+  message: Message,
+) {
+  const confirmation = ClientToolInvocationZodSchema.safeParse(
+    findManualConfirmation(part, message)?.result,
+  );
+  return (
+    confirmation.success &&
+    confirmation.data.action == "manual" &&
+    !!confirmation.data.result &&
+    !!confirmation.data.allowForThread
+  );
+}
+
 export function manualToolExecuteByLastMessage(
   part: ToolInvocationUIPart,
   message: Message,
@@ -131,11 +213,7 @@ export function manualToolExecuteByLastMessage(
 ) {
   const { args, toolName } = part.toolInvocation;
 
-  const manulConfirmation = (message.parts as ToolInvocationUIPart[]).find(
-    (_part) => {
-      return _part.toolInvocation?.toolCallId == part.toolInvocation.toolCallId;
-    },
-  )?.toolInvocation as Extract<ToolInvocation, { state: "result" }>;
+  const manulConfirmation = findManualConfirmation(part, message);
 
   const tool = tools[toolName];
 
@@ -159,10 +237,12 @@ export function manualToolExecuteByLastMessage(
           });
         } else if (tool.__$ref__ === "mcp") {
           const mcpTool = tool as VercelAIMcpTool;
-          return mcpClientsManager.toolCall(
-            mcpTool._mcpServerId,
-            mcpTool._originToolName,
-            args,
+          return getMCPClientsManager().then((mcpClientsManager) =>
+            mcpClientsManager.toolCall(
+              mcpTool._mcpServerId,
+              mcpTool._originToolName,
+              args,
+            ),
           );
         }
         return tool.execute!(args, {
@@ -448,8 +528,19 @@ export const workflowToVercelAITools = (
 export const loadMcpTools = (opt?: {
   mentions?: ChatMention[];
   allowedMcpServers?: Record<string, AllowedMCPServer>;
+  // Streams the progress and logs of running tools to the chat
+  dataStream?: DataStreamWriter;
+  // Shows the requests servers make while their tools run in the chat
+  interactionChannel?: MCPInteractionChannel;
 }) =>
-  safe(() => mcpClientsManager.tools())
+  safe(() =>
+    getMCPClientsManager().then((mcpClientsManager) =>
+      mcpClientsManager.tools(
+        opt?.dataStream && ((event) => opt.dataStream!.writeData(toAny(event))),
+        opt?.interactionChannel,
+      ),
+    ),
+  )
     .map((tools) => {
       if (opt?.mentions?.length) {
         return filterMCPToolsByMentions(tools, opt.mentions);
@@ -458,6 +549,37 @@ export const loadMcpTools = (opt?: {
     })
     .orElse({} as Record<string, VercelAIMcpTool>);
 
+/**
+ * Reads the resources mentioned in the message. A resource that can't be
+ * read is kept with its error, so the model can tell the user.
+ */
+export const loadMcpResources = (
+  mentions: ChatMention[],
+): Promise<MCPResourceAttachment[]> =>
+  Promise.all(
+    mentions
+      .filter((m) => m.type == "mcpResource")
+      .map(({ name, uri, serverName, serverId }) =>
+        safe(() =>
+          getMCPClientsManager().then((mcpClientsManager) =>
+            mcpClientsManager.readResource(serverId, uri),
+          ),
+        )
+          .map(({ contents }) => ({ name, uri, serverName, contents }))
+          .ifFail((error) => {
+            logger.error(`Failed to read resource ${uri}`, error);
+            return {
+              name,
+              uri,
+              serverName,
+              contents: [],
+              error: errorToString(error),
+            };
+          })
+          .unwrap(),
+      ),
+  );
+
 export const loadWorkFlowTools = (opt: {
   mentions?: ChatMention[];
   dataStream: DataStreamWriter;
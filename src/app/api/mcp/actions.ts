@@ -1,10 +1,17 @@
 "use server";
-import { mcpClientsManager } from "lib/ai/mcp/mcp-manager";
+import { getMCPClientsManager } from "lib/ai/mcp/mcp-manager";
 import { z } from "zod";
+import type { MCPInteractionResponse } from "app-types/mcp";
 
 import { McpServerSchema } from "lib/db/pg/schema.pg";
+import { isMaybeStdioConfig } from "lib/ai/mcp/is-mcp-config";
+import {
+  assertStdioCommandAllowed,
+  assertStdioEnvInheritable,
+} from "lib/ai/mcp/mcp-stdio-policy";
 
 export async function selectMcpClientsAction() {
+  const mcpClientsManager = await getMCPClientsManager();
   const list = await mcpClientsManager.getClients();
   return list.map(({ client, id }) => {
     return {
@@ -15,6 +22,7 @@ export async function selectMcpClientsAction() {
 }
 
 export async function selectMcpClientAction(id: string) {
+  const mcpClientsManager = await getMCPClientsManager();
   const client = await mcpClientsManager.getClient(id);
   if (!client) {
     throw new Error("Client not found");
@@ -44,10 +52,17 @@ export async function saveMcpClientAction(
     );
   }
 
+  if (isMaybeStdioConfig(server.config)) {
+    assertStdioCommandAllowed(server.config.command);
+    assertStdioEnvInheritable(server.config);
+  }
+
+  const mcpClientsManager = await getMCPClientsManager();
   await mcpClientsManager.persistClient(server);
 }
 
 export async function existMcpClientByServerNameAction(serverName: string) {
+  const mcpClientsManager = await getMCPClientsManager();
   const client = await mcpClientsManager.getClients().then((clients) => {
     return clients.find(
       (client) => client.client.getInfo().name === serverName,
@@ -57,10 +72,12 @@ export async function existMcpClientByServerNameAction(serverName: string) {
 }
 
 export async function removeMcpClientAction(id: string) {
+  const mcpClientsManager = await getMCPClientsManager();
   await mcpClientsManager.removeClient(id);
 }
 
 export async function refreshMcpClientAction(id: string) {
+  const mcpClientsManager = await getMCPClientsManager();
   await mcpClientsManager.refreshClient(id);
 }
 
@@ -69,6 +86,7 @@ export async function callMcpToolAction(
   toolName: string,
   input: unknown,
 ) {
+  const mcpClientsManager = await getMCPClientsManager();
   return mcpClientsManager.toolCall(id, toolName, input);
 }
 
@@ -77,5 +95,28 @@ export async function callMcpToolByServerNameAction(
   toolName: string,
   input: unknown,
 ) {
+  const mcpClientsManager = await getMCPClientsManager();
   return mcpClientsManager.toolCallByServerName(serverName, toolName, input);
 }
+
+export async function readMcpResourceAction(id: string, uri: string) {
+  const mcpClientsManager = await getMCPClientsManager();
+  return mcpClientsManager.readResource(id, uri);
+}
+
+export async function getMcpPromptAction(
+  id: string,
+  name: string,
+  args?: Record<string, string>,
+) {
+  const mcpClientsManager = await getMCPClientsManager();
+  return mcpClientsManager.getPrompt(id, name, args);
+}
+
+export async function respondMcpInteractionAction(
+  id: string,
+  response: MCPInteractionResponse,
+) {
+  const mcpClientsManager = await getMCPClientsManager();
+  return mcpClientsManager.interactions?.respond(id, response) ?? false;
+}
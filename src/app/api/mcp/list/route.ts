@@ -1,6 +1,7 @@
-import { mcpClientsManager } from "lib/ai/mcp/mcp-manager";
+import { getMCPClientsManager } from "lib/ai/mcp/mcp-manager";
 
 export async function GET() {
+  const mcpClientsManager = await getMCPClientsManager();
   const list = await mcpClientsManager.getClients();
   const result = list.map(({ client, id }) => {
     return {
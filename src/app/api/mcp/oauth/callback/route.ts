@@ -0,0 +1,56 @@
+import { getSession } from "auth/server";
+import { getMCPClientsManager } from "lib/ai/mcp/mcp-manager";
+import { parseMCPOAuthState } from "lib/ai/mcp/mcp-oauth-provider";
+import { mcpRepository } from "lib/db/repository";
+import logger from "logger";
+import { NextRequest, NextResponse } from "next/server";
+
+/**
+ * Redirect target of a remote MCP server's authorization server
+ */
+export async function GET(request: NextRequest) {
+  const session = await getSession();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+  const { searchParams } = request.nextUrl;
+  const state = searchParams.get("state") ?? "";
+  const code = searchParams.get("code");
+
+  const mcpServerId = parseMCPOAuthState(state);
+  const oauthSession = mcpServerId
+    ? await mcpRepository.selectOAuthSession(mcpServerId, session.user.id)
+    : null;
+  if (!mcpServerId || !oauthSession?.state || oauthSession.state !== state) {
+    return NextResponse.json({ error: "Invalid state" }, { status: 400 });
+  }
+
+  const redirectUrl = new URL("/mcp", request.url);
+
+  if (!code) {
+    const error = searchParams.get("error") ?? "access_denied";
+    logger.warn(
+      `MCP OAuth authorization of ${mcpServerId} was denied: ${error}`,
+    );
+    await mcpRepository.saveOAuthSession(mcpServerId, session.user.id, {
+      state: null,
+      codeVerifier: null,
+    });
+    redirectUrl.searchParams.set(
+      "oauthError",
+      searchParams.get("error_description") ?? error,
+    );
+  } else {
+    const mcpClientsManager = await getMCPClientsManager();
+    await mcpClientsManager.finishOAuth(mcpServerId, code).catch((error) => {
+      logger.error(`MCP OAuth authorization of ${mcpServerId} failed`, error);
+      // Shown on the MCP page
+      redirectUrl.searchParams.set(
+        "oauthError",
+        error instanceof Error ? error.message : String(error),
+      );
+    });
+  }
+
+  return NextResponse.redirect(redirectUrl);
+}
@@ -34,23 +34,29 @@ export async function POST(
 
   const body = await request.json();
 
-  const { mcpServerId, toolName, prompt } = McpToolCustomizationZodSchema.parse(
-    {
+  const { mcpServerId, toolName, prompt, policy } =
+    McpToolCustomizationZodSchema.parse({
       ...body,
       mcpServerId: server,
       toolName: tool,
-    },
-  );
+    });
 
+  // The instructions and the policy are saved separately
+  const existing = await mcpMcpToolCustomizationRepository.select({
+    mcpServerId,
+    userId: session.user.id,
+    toolName,
+  });
   const result =
     await mcpMcpToolCustomizationRepository.upsertToolCustomization({
       userId: session.user.id,
       mcpServerId,
       toolName,
-      prompt,
+      prompt: prompt === undefined ? existing?.prompt : prompt,
+      policy: policy === undefined ? existing?.policy : policy,
     });
-  const key = CacheKeys.mcpServerCustomizations(session.user.id);
-  void serverCache.delete(key);
+  void serverCache.delete(CacheKeys.mcpServerCustomizations(session.user.id));
+  void serverCache.delete(CacheKeys.mcpToolPolicies(session.user.id));
 
   return Response.json(result);
 }
@@ -70,8 +76,8 @@ export async function DELETE(
     userId: session.user.id,
     toolName: tool,
   });
-  const key = CacheKeys.mcpServerCustomizations(session.user.id);
-  void serverCache.delete(key);
+  void serverCache.delete(CacheKeys.mcpServerCustomizations(session.user.id));
+  void serverCache.delete(CacheKeys.mcpToolPolicies(session.user.id));
 
   return Response.json({ success: true });
 }
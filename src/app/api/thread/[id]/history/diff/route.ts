@@ -0,0 +1,52 @@
+import { getSession } from "auth/server";
+import { chatHistoryRepository, chatRepository } from "lib/db/repository";
+import { z } from "zod";
+
+const DiffQuerySchema = z.object({
+  from: z.string().nullish(),
+  to: z.string(),
+});
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const session = await getSession();
+
+  if (!session?.user.id) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  const { id } = await params;
+
+  try {
+    const thread = await chatRepository.selectThread(id);
+
+    if (!thread) {
+      return Response.json({ error: "Thread not found" }, { status: 404 });
+    }
+
+    if (thread.userId !== session.user.id) {
+      return new Response("Forbidden", { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const { from, to } = DiffQuerySchema.parse({
+      from: searchParams.get("from"),
+      to: searchParams.get("to"),
+    });
+
+    const diff = await chatHistoryRepository.diffThread(id, from ?? null, to);
+    return Response.json(diff);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return Response.json(
+        { error: "Invalid input", details: error.errors },
+        { status: 400 },
+      );
+    }
+
+    console.error("Failed to diff thread history:", error);
+    return new Response("Internal Server Error", { status: 500 });
+  }
+}
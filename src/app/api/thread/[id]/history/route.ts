@@ -0,0 +1,33 @@
+import { getSession } from "auth/server";
+import { chatHistoryRepository, chatRepository } from "lib/db/repository";
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const session = await getSession();
+
+  if (!session?.user.id) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  const { id } = await params;
+
+  try {
+    const thread = await chatRepository.selectThread(id);
+
+    if (!thread) {
+      return Response.json({ error: "Thread not found" }, { status: 404 });
+    }
+
+    if (thread.userId !== session.user.id) {
+      return new Response("Forbidden", { status: 403 });
+    }
+
+    const commits = await chatHistoryRepository.selectThreadHistory(id);
+    return Response.json(commits);
+  } catch (error) {
+    console.error("Failed to fetch thread history:", error);
+    return new Response("Internal Server Error", { status: 500 });
+  }
+}
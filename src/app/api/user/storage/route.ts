@@ -0,0 +1,59 @@
+import { getSession } from "auth/server";
+import {
+  getDefaultStorageBackend,
+  getUserStorageBackendKind,
+  isStorageBackendSelectable,
+  STORAGE_BACKENDS,
+  setUserStorageBackendKind,
+} from "lib/db/storage";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+const StorageBackendUpdateSchema = z.object({
+  backend: z.enum(STORAGE_BACKENDS).nullable(),
+});
+
+const getStorageStatus = async (userId: string) => ({
+  backend: await getUserStorageBackendKind(userId),
+  defaultBackend: getDefaultStorageBackend(),
+  selectable: isStorageBackendSelectable(),
+});
+
+export async function GET() {
+  try {
+    const session = await getSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    return NextResponse.json(await getStorageStatus(session.user.id));
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || "Failed to get storage backend" },
+      { status: 500 },
+    );
+  }
+}
+
+export async function PUT(request: Request) {
+  try {
+    const session = await getSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (!isStorageBackendSelectable()) {
+      return NextResponse.json(
+        { error: "This deployment doesn't allow choosing a storage backend" },
+        { status: 403 },
+      );
+    }
+
+    const { backend } = StorageBackendUpdateSchema.parse(await request.json());
+    await setUserStorageBackendKind(session.user.id, backend);
+    return NextResponse.json(await getStorageStatus(session.user.id));
+  } catch (error: any) {
+    return NextResponse.json(
+      { error: error.message || "Failed to update storage backend" },
+      { status: error instanceof z.ZodError ? 400 : 500 },
+    );
+  }
+}
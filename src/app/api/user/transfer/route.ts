@@ -0,0 +1,44 @@
+import { getSession } from "auth/server";
+import { pgUserDataStore } from "lib/db/pg/transfer.pg";
+import { getUserStorageBackend } from "lib/db/repository";
+import { transferUserData } from "lib/db/transfer";
+import { createDiffDBUserDataStore } from "lib/diffdb/transfer.diffdb";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+const TransferRequestSchema = z.object({
+  from: z.enum(["postgres", "diffdb"]),
+  dryRun: z.boolean().optional().default(false),
+});
+
+/**
+ * Copy the current user's data from Postgres into their DiffDB repository
+ * or back
+ */
+export async function POST(request: Request) {
+  try {
+    const session = await getSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { from, dryRun } = TransferRequestSchema.parse(await request.json());
+    const { backend, repoName } = await getUserStorageBackend();
+    const diffdbStore = createDiffDBUserDataStore(backend, repoName);
+
+    const report = await transferUserData({
+      from: from === "postgres" ? pgUserDataStore : diffdbStore,
+      to: from === "postgres" ? diffdbStore : pgUserDataStore,
+      userId: session.user.id,
+      dryRun,
+    });
+
+    return NextResponse.json({ from, dryRun, report });
+  } catch (error: any) {
+    console.error("User data transfer failed:", error);
+    return NextResponse.json(
+      { error: error.message || "Failed to transfer data" },
+      { status: error instanceof z.ZodError ? 400 : 500 },
+    );
+  }
+}
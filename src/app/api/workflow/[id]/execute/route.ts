@@ -1,17 +1,23 @@
 import { getSession } from "auth/server";
-import { createWorkflowExecutor } from "lib/ai/workflow/executor/workflow-executor";
+import {
+  createWorkflowExecutor,
+  recordNodeHistories,
+} from "lib/ai/workflow/executor/workflow-executor";
 import { workflowRepository } from "lib/db/repository";
 import { encodeWorkflowEvent } from "lib/ai/workflow/shared.workflow";
+import { getRunResumePoint } from "lib/ai/workflow/resume-run";
 import logger from "logger";
 import { colorize } from "consola/utils";
-import { safeJSONParse, toAny } from "lib/utils";
+import { errorToString, generateUUID, safeJSONParse, toAny } from "lib/utils";
+import { z } from "zod";
 
 export async function POST(
   request: Request,
   { params }: { params: Promise<{ id: string }> },
 ) {
   const { id } = await params;
-  const { query } = await request.json();
+  // `resumeRunId` re-runs a failed run from the node that failed
+  const { query, resumeRunId } = await request.json();
   const session = await getSession();
   const hasAccess = await workflowRepository.checkAccess(id, session.user.id);
   if (!hasAccess) {
@@ -22,6 +28,39 @@ export async function POST(
     return new Response("Workflow not found", { status: 404 });
   }
 
+  // Run ids are UUIDs, anything else can't name a run
+  const isRunId = z.string().uuid().safeParse(resumeRunId).success;
+  if (resumeRunId && !isRunId) {
+    return new Response("Run not found", { status: 404 });
+  }
+  const previousRun = resumeRunId
+    ? await workflowRepository.selectRunById(id, resumeRunId)
+    : null;
+  if (resumeRunId && previousRun?.userId != session.user.id) {
+    return new Response("Run not found", { status: 404 });
+  }
+  const resumePoint = previousRun && getRunResumePoint(previousRun, workflow);
+  if (previousRun && !resumePoint) {
+    return new Response("Run has no failed node to resume from", {
+      status: 400,
+    });
+  }
+  if (
+    resumePoint &&
+    !workflow.nodes.some((node) => node.id == resumePoint.nodeId)
+  ) {
+    return new Response("The failed node no longer exists", { status: 400 });
+  }
+  if (resumePoint?.pendingNodeIds.length) {
+    const names = workflow.nodes
+      .filter((node) => resumePoint.pendingNodeIds.includes(node.id))
+      .map((node) => node.name);
+    return new Response(
+      `Other branches of the run hadn't finished (${names.join(", ")}), run the workflow again instead`,
+      { status: 400 },
+    );
+  }
+
   const wfLogger = logger.withDefaults({
     message: colorize("cyan", `WORKFLOW '${workflow.name}' `),
   });
@@ -29,7 +68,10 @@ export async function POST(
     edges: workflow.edges,
     nodes: workflow.nodes,
     logger: wfLogger,
+    startNodeId: resumePoint?.nodeId,
   });
+  const histories = recordNodeHistories(app, workflow.nodes);
+  const startedAt = new Date();
 
   const encoder = new TextEncoder();
 
@@ -56,10 +98,6 @@ export async function POST(
           // Use custom encoding instead of SSE format
           const data = encodeWorkflowEvent(evt);
           controller.enqueue(encoder.encode(data));
-          // Close stream when workflow ends
-          if (evt.eventType === "WORKFLOW_END") {
-            controller.close();
-          }
         } catch (error) {
           logger.error("Stream write error:", error);
           controller.error(error);
@@ -75,17 +113,34 @@ export async function POST(
 
       // Start the workflow
       app
-        .run(
-          { query },
-          {
-            disableHistory: true,
-            timeout: 1000 * 60 * 5,
-          },
-        )
-        .then((result) => {
+        .run(resumePoint?.state ?? { query }, {
+          disableHistory: true,
+          timeout: 1000 * 60 * 5,
+        })
+        .then(async (result) => {
           if (!result.isOk) {
             logger.error("Workflow execution error:", result.error);
           }
+          await workflowRepository
+            .saveRun({
+              id: generateUUID(),
+              workflowId: id,
+              userId: session.user.id,
+              version: workflow.version,
+              status: result.isOk ? "success" : "fail",
+              query: resumePoint?.state.query ?? query ?? {},
+              histories: [...(resumePoint?.histories ?? []), ...histories],
+              error: result.isOk ? undefined : errorToString(result.error),
+              parentRunId: previousRun?.id,
+              startNodeId: resumePoint?.nodeId,
+              startedAt,
+              endedAt: new Date(),
+            })
+            .catch((error) =>
+              logger.error("Failed to save workflow run:", error),
+            );
+          // Close the stream once the run is saved, so the client can load it
+          if (!isAborted) controller.close();
         });
     },
   });
@@ -0,0 +1,25 @@
+import { getSession } from "auth/server";
+import { workflowRepository } from "lib/db/repository";
+import { z } from "zod";
+
+export async function GET(
+  _: Request,
+  { params }: { params: Promise<{ id: string; runId: string }> },
+) {
+  const { id, runId } = await params;
+  // Run ids are UUIDs, anything else can't name a run
+  if (!z.string().uuid().safeParse(runId).success) {
+    return new Response("Run not found", { status: 404 });
+  }
+  const session = await getSession();
+  const hasAccess = await workflowRepository.checkAccess(id, session.user.id);
+  if (!hasAccess) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+  const run = await workflowRepository.selectRunById(id, runId);
+  // Runs hold the inputs of whoever ran them
+  if (!run || run.userId != session.user.id) {
+    return new Response("Run not found", { status: 404 });
+  }
+  return Response.json(run);
+}
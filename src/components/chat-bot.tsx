@@ -33,6 +33,9 @@ import { Button } from "ui/button";
 import { deleteThreadAction } from "@/app/api/chat/actions";
 import { useRouter } from "next/navigation";
 import { Loader } from "lucide-react";
+import { MCPInteractionRequestCard } from "./mcp-interaction-request";
+import { isMCPInteractionRequest } from "lib/ai/mcp/mcp-interaction-request";
+import { collectMCPToolProgress } from "lib/ai/mcp/mcp-tool-progress";
 import {
   Dialog,
   DialogContent,
@@ -44,6 +47,7 @@ import {
 import { useTranslations } from "next-intl";
 import { Think } from "ui/think";
 import { useGenerateThreadTitle } from "@/hooks/queries/use-generate-thread-title";
+import { useThreadBranches } from "@/hooks/queries/use-thread-branches";
 import dynamic from "next/dynamic";
 import { useMounted } from "@/hooks/use-mounted";
 import { useWindowSize } from "@/hooks/use-window-size";
@@ -113,6 +117,7 @@ export default function ChatBot({ threadId, initialMessages, slots }: Props) {
     addToolResult,
     error,
     stop,
+    data,
   } = useChat({
     id: threadId,
     api: "/api/chat",
@@ -198,6 +203,10 @@ export default function ChatBot({ threadId, initialMessages, slots }: Props) {
     [status],
   );
 
+  const { data: branchPoints } = useThreadBranches(
+    messages.length ? threadId : null,
+  );
+
   const emptyMessage = useMemo(
     () => messages.length === 0 && !error,
     [messages.length, error],
@@ -278,6 +287,27 @@ export default function ChatBot({ threadId, initialMessages, slots }: Props) {
       .unwrap();
   }, []);
 
+  // Requests of MCP servers come as stream data while their tools run, and
+  // expire with the stream
+  const [resolvedInteractionIds, setResolvedInteractionIds] = useState<
+    string[]
+  >([]);
+  const interactionRequests = useMemo(() => {
+    if (!isLoading) return [];
+    return (data ?? [])
+      .filter(isMCPInteractionRequest)
+      .filter(({ id }) => !resolvedInteractionIds.includes(id));
+  }, [data, isLoading, resolvedInteractionIds]);
+
+  const toolProgress = useMemo(
+    () => collectMCPToolProgress(data ?? []),
+    [data],
+  );
+
+  const handleInteractionResolved = useCallback((id: string) => {
+    setResolvedInteractionIds((prev) => [...prev, id]);
+  }, []);
+
   const handleThinkingChange = useCallback((thinking: boolean) => {
     setThinking(thinking);
   }, []);
@@ -475,8 +505,14 @@ export default function ChatBot({ threadId, initialMessages, slots }: Props) {
                     isLoading={isLoading || isPendingToolCall}
                     isError={!!error && isLastMessage}
                     isLastMessage={isLastMessage}
+                    toolProgress={isLastMessage ? toolProgress : undefined}
                     setMessages={setMessages}
                     reload={reload}
+                    branchPoint={branchPoints?.find(
+                      (point) =>
+                        point.forkedFromMessageId ===
+                        (messages[index - 1]?.id ?? null),
+                    )}
                     className={
                       needSpaceClass(index) ? "min-h-[calc(55dvh-40px)]" : ""
                     }
@@ -494,6 +530,18 @@ export default function ChatBot({ threadId, initialMessages, slots }: Props) {
                 </>
               )}
 
+              {interactionRequests.length > 0 && (
+                <div className="w-full mx-auto max-w-3xl px-6 flex flex-col gap-4">
+                  {interactionRequests.map((request) => (
+                    <MCPInteractionRequestCard
+                      key={request.id}
+                      request={request}
+                      onResolved={handleInteractionResolved}
+                    />
+                  ))}
+                </div>
+              )}
+
               {error && <ErrorMessage error={error} />}
               <div className="min-w-0 min-h-52" />
             </div>
@@ -1,7 +1,7 @@
 "use client";
 import React, { RefObject, useCallback, useMemo, useRef } from "react";
 
-import { CheckIcon, HammerIcon } from "lucide-react";
+import { CheckIcon, FileTextIcon, HammerIcon } from "lucide-react";
 import { MCPIcon } from "ui/mcp-icon";
 
 import { ChatMention } from "app-types/chat";
@@ -144,7 +144,13 @@ export function ChatMentionInputSuggestion({
   onOpenChange?: (open: boolean) => void;
   children?: React.ReactNode;
   style?: React.CSSProperties;
-  disabledType?: ("mcp" | "workflow" | "defaultTool" | "agent")[];
+  disabledType?: (
+    | "mcp"
+    | "mcpResource"
+    | "workflow"
+    | "defaultTool"
+    | "agent"
+  )[];
 }) {
   const t = useTranslations("Common");
   const [mcpList, workflowList, agentList] = appStore(
@@ -157,8 +163,12 @@ export function ChatMentionInputSuggestion({
 
   const mcpMentions = useMemo(() => {
     if (disabledType?.includes("mcp")) return null;
+    const withResources = !disabledType?.includes("mcpResource");
     return mcpList
-      ?.filter((mcp) => mcp.toolInfo?.length)
+      ?.filter(
+        (mcp) =>
+          mcp.toolInfo?.length || (withResources && mcp.resourceInfo?.length),
+      )
       .map((mcp) => {
         const id = JSON.stringify({
           type: "mcpServer",
@@ -169,27 +179,29 @@ export function ChatMentionInputSuggestion({
         });
         return (
           <CommandGroup heading={mcp.name} key={mcp.id}>
-            <CommandItem
-              key={`${mcp.id}-mcp`}
-              className="cursor-pointer text-foreground"
-              onSelect={() =>
-                onSelectMention({
-                  label: `mcp("${mcp.name}")`,
-                  id,
-                })
-              }
-            >
-              <MCPIcon className="size-3.5 text-foreground" />
-              <span className="truncate min-w-0">{mcp.name}</span>
+            {mcp.toolInfo?.length > 0 && (
+              <CommandItem
+                key={`${mcp.id}-mcp`}
+                className="cursor-pointer text-foreground"
+                onSelect={() =>
+                  onSelectMention({
+                    label: `mcp("${mcp.name}")`,
+                    id,
+                  })
+                }
+              >
+                <MCPIcon className="size-3.5 text-foreground" />
+                <span className="truncate min-w-0">{mcp.name}</span>
 
-              {selectedIds?.includes(id) ? (
-                <CheckIcon className="size-3 ml-auto" />
-              ) : (
-                <span className="ml-auto text-xs text-muted-foreground">
-                  {mcp.toolInfo?.length} tools
-                </span>
-              )}
-            </CommandItem>
+                {selectedIds?.includes(id) ? (
+                  <CheckIcon className="size-3 ml-auto" />
+                ) : (
+                  <span className="ml-auto text-xs text-muted-foreground">
+                    {mcp.toolInfo?.length} tools
+                  </span>
+                )}
+              </CommandItem>
+            )}
             {mcp.toolInfo?.map((tool) => {
               return (
                 <CommandItem
@@ -216,6 +228,36 @@ export function ChatMentionInputSuggestion({
                 </CommandItem>
               );
             })}
+            {withResources &&
+              mcp.resourceInfo?.map((resource) => {
+                const resourceId = JSON.stringify({
+                  type: "mcpResource",
+                  name: resource.name,
+                  uri: resource.uri,
+                  description: resource.description ?? resource.uri,
+                  mimeType: resource.mimeType,
+                  serverName: mcp.name,
+                  serverId: mcp.id,
+                });
+                return (
+                  <CommandItem
+                    key={`${mcp.id}-${resource.uri}`}
+                    className="cursor-pointer text-foreground"
+                    onSelect={() =>
+                      onSelectMention({
+                        label: `resource("${resource.name}") `,
+                        id: resourceId,
+                      })
+                    }
+                  >
+                    <FileTextIcon className="size-3.5" />
+                    <span className="truncate min-w-0">{resource.name}</span>
+                    {selectedIds?.includes(resourceId) && (
+                      <CheckIcon className="size-3 ml-auto" />
+                    )}
+                  </CommandItem>
+                );
+              })}
           </CommandGroup>
         );
       });
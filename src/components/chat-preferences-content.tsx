@@ -3,22 +3,50 @@ import { useObjectState } from "@/hooks/use-object-state";
 import { UserPreferences } from "app-types/user";
 import { authClient } from "auth/client";
 import { fetcher } from "lib/utils";
-import { AlertCircle, ArrowLeft, Loader } from "lucide-react";
+import {
+  AlertCircle,
+  ArrowLeft,
+  Copy,
+  Loader,
+  Lock,
+  LockOpen,
+} from "lucide-react";
 import { useTranslations } from "next-intl";
 import { useMemo, useState } from "react";
 import { toast } from "sonner";
-import useSWR from "swr";
+import useSWR, { mutate } from "swr";
 import { safe } from "ts-safe";
 
 import { Button } from "ui/button";
 import { ExamplePlaceholder } from "ui/example-placeholder";
 import { Input } from "ui/input";
 import { Label } from "ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "ui/select";
 import { Skeleton } from "ui/skeleton";
 import { Textarea } from "ui/textarea";
 import { McpServerCustomizationContent } from "./mcp-customization-popup";
 import { MCPServerInfo } from "app-types/mcp";
 import { useMcpList } from "@/hooks/queries/use-mcp-list";
+import {
+  enableDiffDBEncryptionAction,
+  getDiffDBEncryptionStatusAction,
+  lockDiffDBEncryptionAction,
+  unlockDiffDBEncryptionAction,
+} from "lib/diffdb/actions";
+import {
+  deriveKeyBytes,
+  ENCRYPTION_KDF_ITERATIONS,
+  generateSalt,
+  toBase64,
+} from "lib/diffdb/encryption";
+import type { StorageBackendKind } from "lib/db/storage";
+import type { TransferReport } from "lib/db/transfer";
 
 export function UserInstructionsContent() {
   const t = useTranslations();
@@ -296,3 +324,274 @@ export function MCPInstructionsContent() {
     </div>
   );
 }
+
+export function EncryptionContent() {
+  const t = useTranslations();
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [isWorking, setIsWorking] = useState(false);
+
+  const {
+    data: status,
+    isLoading,
+    mutate: fetchStatus,
+  } = useSWR("diffdb:encryption-status", async () => {
+    const result = await getDiffDBEncryptionStatusAction();
+    if (!result.success) throw new Error(result.error);
+    return result.data!;
+  });
+
+  // The passphrase never leaves the browser, only the key derived from it
+  const run = async (
+    action: () => Promise<{ success: boolean; error?: string }>,
+    successMessage: string,
+  ) => {
+    setIsWorking(true);
+    try {
+      const result = await action();
+      if (!result.success) {
+        toast.error(result.error);
+        return;
+      }
+      setPassphrase("");
+      setConfirmation("");
+      toast.success(successMessage);
+      await fetchStatus();
+      // Everything loaded so far was read with the previous key state
+      mutate((key) => key !== "diffdb:encryption-status");
+    } catch (error: any) {
+      toast.error(error.message);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const enable = () =>
+    run(async () => {
+      const salt = generateSalt();
+      const key = await deriveKeyBytes(passphrase, salt);
+      return enableDiffDBEncryptionAction({
+        key: toBase64(key),
+        salt,
+        iterations: ENCRYPTION_KDF_ITERATIONS,
+      });
+    }, t("Chat.ChatPreferences.encryptionEnabled"));
+
+  const unlock = () =>
+    run(async () => {
+      const key = await deriveKeyBytes(
+        passphrase,
+        status!.salt!,
+        status!.iterations!,
+      );
+      return unlockDiffDBEncryptionAction(toBase64(key));
+    }, t("Chat.ChatPreferences.encryptionUnlocked"));
+
+  const lock = () =>
+    run(lockDiffDBEncryptionAction, t("Chat.ChatPreferences.encryptionLocked"));
+
+  return (
+    <div className="flex flex-col">
+      <h3 className="text-xl font-semibold">
+        {t("Chat.ChatPreferences.encryption")}
+      </h3>
+      <p className="text-sm text-muted-foreground py-2 pb-6">
+        {t("Chat.ChatPreferences.encryptionDescription")}
+      </p>
+
+      {isLoading || !status ? (
+        <Skeleton className="h-24" />
+      ) : !status.enabled ? (
+        <div className="flex flex-col gap-6 w-full">
+          <div className="flex flex-col gap-2">
+            <Label>{t("Chat.ChatPreferences.passphrase")}</Label>
+            <Input
+              type="password"
+              autoComplete="new-password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+            />
+          </div>
+          <div className="flex flex-col gap-2">
+            <Label>{t("Chat.ChatPreferences.confirmPassphrase")}</Label>
+            <Input
+              type="password"
+              autoComplete="new-password"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+            />
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {t("Chat.ChatPreferences.passphraseWarning")}
+          </p>
+          <div className="flex justify-end">
+            <Button
+              disabled={isWorking || !passphrase || passphrase !== confirmation}
+              onClick={enable}
+            >
+              <Lock />
+              {t("Chat.ChatPreferences.enableEncryption")}
+              {isWorking && <Loader className="size-4 ml-2 animate-spin" />}
+            </Button>
+          </div>
+        </div>
+      ) : !status.unlocked ? (
+        <div className="flex flex-col gap-6 w-full">
+          <div className="flex flex-col gap-2">
+            <Label>{t("Chat.ChatPreferences.passphrase")}</Label>
+            <Input
+              type="password"
+              autoComplete="current-password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" && passphrase && !isWorking) unlock();
+              }}
+            />
+          </div>
+          <div className="flex justify-end">
+            <Button disabled={isWorking || !passphrase} onClick={unlock}>
+              <LockOpen />
+              {t("Chat.ChatPreferences.unlock")}
+              {isWorking && <Loader className="size-4 ml-2 animate-spin" />}
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-sm">
+            {t("Chat.ChatPreferences.encryptionUnlockedDescription")}
+          </p>
+          <Button variant="outline" disabled={isWorking} onClick={lock}>
+            <Lock />
+            {t("Chat.ChatPreferences.lock")}
+            {isWorking && <Loader className="size-4 ml-2 animate-spin" />}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+type StorageStatus = {
+  backend: StorageBackendKind;
+  defaultBackend: StorageBackendKind;
+  selectable: boolean;
+};
+
+export function StorageContent() {
+  const t = useTranslations();
+  const [isWorking, setIsWorking] = useState(false);
+
+  const {
+    data: status,
+    isLoading,
+    mutate: fetchStatus,
+  } = useSWR<StorageStatus>("/api/user/storage", fetcher);
+
+  const backendLabels: Record<StorageBackendKind, string> = {
+    diffdb: t("Chat.ChatPreferences.storageDiffDB"),
+    postgres: t("Chat.ChatPreferences.storagePostgres"),
+  };
+  const otherBackend: StorageBackendKind =
+    status?.backend === "postgres" ? "diffdb" : "postgres";
+
+  const send = async (url: string, method: string, body: unknown) => {
+    setIsWorking(true);
+    try {
+      const response = await fetch(url, {
+        method,
+        body: JSON.stringify(body),
+      });
+      const json = await response.json();
+      if (!response.ok) throw new Error(json.error);
+      return json;
+    } catch (error: any) {
+      toast.error(error.message);
+      return null;
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const selectBackend = async (backend: StorageBackendKind) => {
+    const result = await send("/api/user/storage", "PUT", { backend });
+    if (!result) return;
+    await fetchStatus(result, { revalidate: false });
+    toast.success(t("Chat.ChatPreferences.storageChanged"));
+    // Everything loaded so far came from the other backend
+    mutate((key) => key !== "/api/user/storage");
+  };
+
+  const copyData = async () => {
+    const result: { report: TransferReport } | null = await send(
+      "/api/user/transfer",
+      "POST",
+      { from: otherBackend },
+    );
+    if (!result) return;
+    const count = Object.values(result.report).reduce(
+      (sum, { imported }) => sum + imported,
+      0,
+    );
+    toast.success(t("Chat.ChatPreferences.storageDataCopied", { count }));
+    mutate((key) => key !== "/api/user/storage");
+  };
+
+  return (
+    <div className="flex flex-col">
+      <h3 className="text-xl font-semibold">
+        {t("Chat.ChatPreferences.storage")}
+      </h3>
+      <p className="text-sm text-muted-foreground py-2 pb-6">
+        {t("Chat.ChatPreferences.storageDescription")}
+      </p>
+
+      {isLoading || !status ? (
+        <Skeleton className="h-24" />
+      ) : !status.selectable ? (
+        <p className="text-sm">
+          {t("Chat.ChatPreferences.storageNotSelectable", {
+            backend: backendLabels[status.backend],
+          })}
+        </p>
+      ) : (
+        <div className="flex flex-col gap-6 w-full">
+          <div className="flex flex-col gap-2">
+            <Label>{t("Chat.ChatPreferences.storageBackend")}</Label>
+            <Select
+              value={status.backend}
+              disabled={isWorking}
+              onValueChange={(value) =>
+                selectBackend(value as StorageBackendKind)
+              }
+            >
+              <SelectTrigger className="w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(backendLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-xs text-muted-foreground">
+              {t("Chat.ChatPreferences.storageSwitchHint")}
+            </p>
+            <Button variant="outline" disabled={isWorking} onClick={copyData}>
+              <Copy />
+              {t("Chat.ChatPreferences.copyStorageData", {
+                backend: backendLabels[otherBackend],
+              })}
+              {isWorking && <Loader className="size-4 ml-2 animate-spin" />}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -14,10 +14,12 @@ import {
   DrawerTitle,
 } from "ui/drawer";
 import {
+  EncryptionContent,
   MCPInstructionsContent,
+  StorageContent,
   UserInstructionsContent,
 } from "./chat-preferences-content";
-import { UserIcon, X } from "lucide-react";
+import { Database, Lock, UserIcon, X } from "lucide-react";
 import { Button } from "ui/button";
 import { useTranslations } from "next-intl";
 import { MCPIcon } from "ui/mcp-icon";
@@ -39,6 +41,14 @@ export function ChatPreferencesPopup() {
         label: t("Chat.ChatPreferences.mcpInstructions"),
         icon: <MCPIcon className="w-4 h-4 fill-muted-foreground" />,
       },
+      {
+        label: t("Chat.ChatPreferences.encryption"),
+        icon: <Lock className="w-4 h-4" />,
+      },
+      {
+        label: t("Chat.ChatPreferences.storage"),
+        icon: <Database className="w-4 h-4" />,
+      },
     ];
   }, []);
 
@@ -150,6 +160,10 @@ export function ChatPreferencesPopup() {
                           <UserInstructionsContent />
                         ) : tab == 1 ? (
                           <MCPInstructionsContent />
+                        ) : tab == 2 ? (
+                          <EncryptionContent />
+                        ) : tab == 3 ? (
+                          <StorageContent />
                         ) : null}
                       </>
                     )}
@@ -607,7 +607,7 @@ export default function EditAgent({ id }: { id?: string }) {
                 onSelectMention={handleSelectMention}
                 onClose={noop}
                 open={open}
-                disabledType={["agent"]}
+                disabledType={["agent", "mcpResource"]}
                 onOpenChange={setOpen}
                 top={0}
                 left={0}
@@ -649,7 +649,10 @@ export default function EditAgent({ id }: { id?: string }) {
           </div>
         </div>
         <div
-          className={cn("flex justify-between items-center", isStoredAgentLoading && "hidden")}
+          className={cn(
+            "flex justify-between items-center",
+            isStoredAgentLoading && "hidden",
+          )}
         >
           {/* Visibility Toggle - LEFT SIDE */}
           <div className="flex items-center gap-2">
@@ -663,7 +666,7 @@ export default function EditAgent({ id }: { id?: string }) {
               {agent.isPublic ? "Public Agent" : "Private Agent"}
             </Label>
           </div>
-          
+
           {/* Save Button - RIGHT SIDE */}
           <Button className="mt-2" onClick={saveAgent} disabled={isLoading}>
             {isSaving ? t("Common.saving") : t("Common.save")}
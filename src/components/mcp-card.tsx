@@ -1,7 +1,9 @@
 "use client";
 import {
   ChevronRight,
+  FileText,
   FlaskConical,
+  KeyRound,
   Loader,
   Pencil,
   RotateCw,
@@ -28,6 +30,7 @@ import {
 import type { MCPServerInfo, MCPToolInfo } from "app-types/mcp";
 
 import { ToolDetailPopup } from "./tool-detail-popup";
+import { MCPHealthStatus } from "./mcp-health-status";
 import { useTranslations } from "next-intl";
 import { Separator } from "ui/separator";
 import { appStore } from "@/app/store";
@@ -38,8 +41,13 @@ export const MCPCard = memo(function MCPCard({
   config,
   error,
   status,
+  authorizationUrl,
   name,
   toolInfo,
+  resourceInfo,
+  resourceTemplateInfo,
+  promptInfo,
+  health,
 }: MCPServerInfo & { id: string }) {
   const [isProcessing, setIsProcessing] = useState(false);
   const t = useTranslations("MCP");
@@ -100,6 +108,9 @@ export const MCPCard = memo(function MCPCard({
                     config,
                     status,
                     toolInfo,
+                    resourceInfo,
+                    resourceTemplateInfo,
+                    promptInfo,
                     error,
                   },
                 })
@@ -167,6 +178,23 @@ export const MCPCard = memo(function MCPCard({
         </Tooltip>
       </CardHeader>
 
+      {health && <MCPHealthStatus health={health} />}
+
+      {status === "authorizing" && authorizationUrl && (
+        <div className="px-6 pb-2">
+          <Alert>
+            <KeyRound className="size-4" />
+            <AlertTitle>{t("authorizationRequired")}</AlertTitle>
+            <AlertDescription className="flex flex-col gap-2">
+              <p>{t("authorizationRequiredDescription")}</p>
+              <Button asChild size="sm" className="w-fit">
+                <a href={authorizationUrl}>{t("authorize")}</a>
+              </Button>
+            </AlertDescription>
+          </Alert>
+        </div>
+      )}
+
       {errorMessage && <ErrorAlert error={errorMessage} />}
 
       <div className="relative hidden sm:flex w-full">
@@ -198,6 +226,32 @@ export const MCPCard = memo(function MCPCard({
                 </p>
               </div>
             )}
+
+            {resourceInfo?.length > 0 && (
+              <>
+                <div className="flex items-center gap-2 mb-4 pt-4 pb-1 z-10">
+                  <FileText size={14} className="text-muted-foreground" />
+                  <h5 className="text-muted-foreground text-sm font-medium">
+                    {t("resources")}
+                  </h5>
+                </div>
+                <div className="space-y-2 pr-2">
+                  {resourceInfo.map((resource) => (
+                    <div
+                      key={resource.uri}
+                      className="bg-secondary rounded-md p-2 min-w-0"
+                    >
+                      <p className="font-medium text-sm mb-1 truncate">
+                        {resource.name}
+                      </p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {resource.uri}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
           </div>
         </CardContent>
       </div>
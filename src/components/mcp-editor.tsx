@@ -16,11 +16,12 @@ import { useRouter } from "next/navigation";
 import { createDebounce, isNull, safeJSONParse } from "lib/utils";
 import { handleErrorWithToast } from "ui/shared-toast";
 import { mutate } from "swr";
-import { Loader } from "lucide-react";
+import { Loader, ShieldAlert } from "lucide-react";
 import {
   isMaybeMCPServerConfig,
   isMaybeRemoteConfig,
 } from "lib/ai/mcp/is-mcp-config";
+import { getSensitiveInheritedEnv } from "lib/ai/mcp/mcp-stdio-policy";
 
 import { Alert, AlertDescription, AlertTitle } from "ui/alert";
 import { z } from "zod";
@@ -101,6 +102,12 @@ export default function MCPEditor({
     );
   }, [isLoading, jsonError, nameError, config, name]);
 
+  // App secrets the server would be able to read
+  const sensitiveEnv = useMemo(() => {
+    const result = MCPStdioConfigZodSchema.safeParse(config);
+    return result.success ? getSensitiveInheritedEnv(result.data) : [];
+  }, [config]);
+
   // Validate
   const validateConfig = (jsonConfig: unknown): boolean => {
     const result = isMaybeRemoteConfig(jsonConfig)
@@ -245,6 +252,16 @@ export default function MCPEditor({
         </div>
       </div>
 
+      {sensitiveEnv.length > 0 && (
+        <Alert className="border-yellow-500/50">
+          <ShieldAlert className="size-4 text-yellow-500" />
+          <AlertTitle>{t("MCP.sensitiveEnvWarningTitle")}</AlertTitle>
+          <AlertDescription>
+            {t("MCP.sensitiveEnvWarning", { names: sensitiveEnv.join(", ") })}
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* Save button */}
       <Button onClick={handleSave} className="w-full" disabled={saveDisabled}>
         {isLoading ? (
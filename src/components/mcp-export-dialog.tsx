@@ -0,0 +1,102 @@
+"use client";
+
+import type { MCPServerInfo } from "app-types/mcp";
+import {
+  MCP_BUNDLE_FILE_NAME,
+  createMCPConfigBundle,
+} from "lib/ai/mcp/mcp-config-bundle";
+import { Download } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { useState } from "react";
+import { Button } from "ui/button";
+import { Checkbox } from "ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "ui/dialog";
+
+/**
+ * Downloads the selected servers as a bundle teammates can import, with
+ * secrets left as placeholders
+ */
+export function MCPExportDialog({
+  mcpList,
+  children,
+}: {
+  mcpList: (MCPServerInfo & { id: string })[];
+  children: React.ReactNode;
+}) {
+  const t = useTranslations();
+  const [open, setOpen] = useState(false);
+  const [selected, setSelected] = useState<string[]>([]);
+
+  const handleOpenChange = (open: boolean) => {
+    setOpen(open);
+    if (open) setSelected(mcpList.map((server) => server.id));
+  };
+
+  const handleExport = () => {
+    const bundle = createMCPConfigBundle(
+      mcpList.filter((server) => selected.includes(server.id)),
+    );
+    const url = URL.createObjectURL(
+      new Blob([JSON.stringify(bundle, null, 2)], {
+        type: "application/json",
+      }),
+    );
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = MCP_BUNDLE_FILE_NAME;
+    link.click();
+    URL.revokeObjectURL(url);
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t("MCP.exportMcpServers")}</DialogTitle>
+          <DialogDescription>
+            {t("MCP.exportMcpServersDescription")}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex flex-col gap-2 max-h-[50vh] overflow-y-auto">
+          {mcpList.map((server) => (
+            <label
+              key={server.id}
+              className="flex items-center gap-3 rounded-md border p-3 bg-secondary/40 cursor-pointer"
+            >
+              <Checkbox
+                checked={selected.includes(server.id)}
+                onCheckedChange={(checked) =>
+                  setSelected((prev) =>
+                    checked
+                      ? [...prev, server.id]
+                      : prev.filter((id) => id !== server.id),
+                  )
+                }
+              />
+              <span className="font-semibold text-sm">{server.name}</span>
+            </label>
+          ))}
+        </div>
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => setOpen(false)}>
+            {t("Common.cancel")}
+          </Button>
+          <Button onClick={handleExport} disabled={!selected.length}>
+            <Download />
+            {t("MCP.exportServers", { count: selected.length })}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,86 @@
+"use client";
+
+import type { MCPServerHealth, MCPServerHealthEvent } from "app-types/mcp";
+import { format } from "date-fns";
+import { Activity } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { memo } from "react";
+import { cn } from "lib/utils";
+import { Tooltip, TooltipContent, TooltipTrigger } from "ui/tooltip";
+
+const STATUS_COLORS: Record<MCPServerHealthEvent["status"], string> = {
+  connected: "bg-green-500",
+  disconnected: "bg-muted-foreground/40",
+  reconnecting: "bg-yellow-500",
+  error: "bg-destructive",
+};
+
+/**
+ * Latency, errors and recent status changes of a server connection
+ */
+export const MCPHealthStatus = memo(function MCPHealthStatus({
+  health,
+}: {
+  health: MCPServerHealth;
+}) {
+  const t = useTranslations("MCP");
+
+  return (
+    <div className="px-6 pb-2 flex flex-wrap items-center gap-x-4 gap-y-2 text-xs text-muted-foreground">
+      <div className="flex items-center gap-1">
+        <Activity className="size-3.5" />
+        <span>{t("latency")}</span>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <span className="font-medium text-foreground">
+              {health.latencyMs === undefined ? "-" : `${health.latencyMs} ms`}
+            </span>
+          </TooltipTrigger>
+          {health.averageLatencyMs !== undefined && (
+            <TooltipContent>
+              <p>{t("averageLatency", { ms: health.averageLatencyMs })}</p>
+            </TooltipContent>
+          )}
+        </Tooltip>
+      </div>
+      <span className={cn(health.errorCount > 0 && "text-destructive")}>
+        {t("errorCount", { count: health.errorCount })}
+      </span>
+      {health.nextReconnectAt && (
+        <span className="text-yellow-500">
+          {t("nextReconnect", {
+            time: format(health.nextReconnectAt, "HH:mm:ss"),
+          })}
+        </span>
+      )}
+      {health.timeline.length > 0 && (
+        <div
+          className="flex items-center gap-0.5 ml-auto"
+          aria-label={t("statusTimeline")}
+        >
+          {health.timeline.map((event, index) => (
+            <Tooltip key={`${event.at}-${index}`}>
+              <TooltipTrigger asChild>
+                <span
+                  className={cn(
+                    "h-3 w-1.5 rounded-sm",
+                    STATUS_COLORS[event.status],
+                  )}
+                />
+              </TooltipTrigger>
+              <TooltipContent className="max-w-xs">
+                <p>
+                  {t(`healthStatus.${event.status}`)}{" "}
+                  {format(event.at, "MM/dd HH:mm:ss")}
+                </p>
+                {event.message && (
+                  <p className="break-words">{event.message}</p>
+                )}
+              </TooltipContent>
+            </Tooltip>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+});
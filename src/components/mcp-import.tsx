@@ -0,0 +1,278 @@
+"use client";
+
+import { saveMcpClientAction } from "@/app/api/mcp/actions";
+import { useMcpList } from "@/hooks/queries/use-mcp-list";
+import type { MCPServerConfig, MCPServerInfo } from "app-types/mcp";
+import {
+  diffMCPServersImport,
+  fillPlaceholders,
+  findPlaceholders,
+  parseMCPServersImport,
+} from "lib/ai/mcp/mcp-config-bundle";
+import { isMaybeRemoteConfig } from "lib/ai/mcp/is-mcp-config";
+import { errorToString } from "lib/utils";
+import { FileUp, Loader } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { useTranslations } from "next-intl";
+import { useMemo, useRef, useState } from "react";
+import { toast } from "sonner";
+import { mutate } from "swr";
+import { safe } from "ts-safe";
+import { Alert, AlertDescription, AlertTitle } from "ui/alert";
+import { Badge } from "ui/badge";
+import { Button } from "ui/button";
+import { Checkbox } from "ui/checkbox";
+import { Input } from "ui/input";
+import { Label } from "ui/label";
+import { handleErrorWithToast } from "ui/shared-toast";
+import { Textarea } from "ui/textarea";
+
+const IMPORT_PLACEHOLDER = `{
+  "mcpServers": {
+    "playwright": {
+      "command": "npx",
+      "args": ["@playwright/mcp@latest"]
+    }
+  }
+}`;
+
+/**
+ * Imports servers from a pasted config block or a registry file, after
+ * showing what changes
+ */
+export function MCPImport() {
+  const t = useTranslations();
+  const router = useRouter();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { data: mcpList } = useMcpList();
+  const [text, setText] = useState("");
+  const [placeholderValues, setPlaceholderValues] = useState<
+    Record<string, string>
+  >({});
+  const [excluded, setExcluded] = useState<string[]>([]);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const parsed = useMemo(() => {
+    if (!text.trim()) return;
+    try {
+      return { ...parseMCPServersImport(text), error: undefined };
+    } catch (error) {
+      return { servers: {}, errors: {}, error: errorToString(error) };
+    }
+  }, [text]);
+
+  const existing = useMemo(
+    () =>
+      Object.fromEntries(
+        (mcpList as (MCPServerInfo & { id: string })[]).map((server) => [
+          server.name,
+          server,
+        ]),
+      ),
+    [mcpList],
+  );
+
+  const changes = useMemo(() => {
+    if (!parsed) return [];
+    return diffMCPServersImport(
+      Object.fromEntries(
+        Object.entries(existing).map(([name, server]) => [name, server.config]),
+      ),
+      parsed.servers,
+    );
+  }, [parsed, existing]);
+
+  const selected = useMemo(
+    () => changes.filter((change) => !excluded.includes(change.key)),
+    [changes, excluded],
+  );
+
+  const placeholders = useMemo(
+    () =>
+      findPlaceholders(
+        Object.fromEntries(
+          selected.map((change) => [change.key, change.value]),
+        ),
+      ),
+    [selected],
+  );
+  const missingPlaceholders = placeholders.filter(
+    (name) => !placeholderValues[name],
+  );
+
+  const handleFile = (file?: File) => {
+    if (!file) return;
+    file.text().then(setText).catch(handleErrorWithToast);
+  };
+
+  const handleImport = () =>
+    safe(() => setIsImporting(true))
+      .map(async () => {
+        const configs = fillPlaceholders(
+          Object.fromEntries(
+            selected.map((change) => [change.key, change.value]),
+          ),
+          placeholderValues,
+        );
+        for (const [name, config] of Object.entries(configs)) {
+          await saveMcpClientAction({ name, config, id: existing[name]?.id });
+        }
+      })
+      .ifOk(() => {
+        toast.success(t("MCP.serversImported", { count: selected.length }));
+        mutate("/api/mcp/list");
+        router.push("/mcp");
+      })
+      .ifFail(handleErrorWithToast)
+      .watch(() => setIsImporting(false));
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div className="flex flex-col gap-2">
+        <div className="flex items-center">
+          <Label htmlFor="mcp-import">{t("MCP.importSource")}</Label>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="ml-auto"
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <FileUp />
+            {t("MCP.loadFile")}
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              handleFile(e.target.files?.[0]);
+              e.target.value = "";
+            }}
+          />
+        </div>
+        <Textarea
+          id="mcp-import"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          className="font-mono h-[30vh] resize-none overflow-y-auto"
+          placeholder={IMPORT_PLACEHOLDER}
+        />
+        <p className="text-xs text-muted-foreground">
+          {t("MCP.importSourceDescription")}
+        </p>
+      </div>
+
+      {parsed?.error && (
+        <Alert variant="destructive" className="border-destructive">
+          <AlertTitle>{t("MCP.invalidImport")}</AlertTitle>
+          <AlertDescription>{parsed.error}</AlertDescription>
+        </Alert>
+      )}
+
+      {parsed && Object.keys(parsed.errors).length > 0 && (
+        <Alert variant="destructive" className="border-destructive">
+          <AlertTitle>{t("MCP.skippedServers")}</AlertTitle>
+          <AlertDescription>
+            <ul>
+              {Object.entries(parsed.errors).map(([name, error]) => (
+                <li key={name}>
+                  <span className="font-semibold">{name}</span>: {error}
+                </li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {parsed && !parsed.error && (
+        <div className="flex flex-col gap-2">
+          <h5 className="text-sm font-medium">{t("MCP.importChanges")}</h5>
+          {changes.length ? (
+            changes.map((change) => (
+              <label
+                key={change.key}
+                className="flex items-center gap-3 rounded-md border p-3 bg-secondary/40 cursor-pointer"
+              >
+                <Checkbox
+                  checked={!excluded.includes(change.key)}
+                  onCheckedChange={(checked) =>
+                    setExcluded((prev) =>
+                      checked
+                        ? prev.filter((name) => name !== change.key)
+                        : [...prev, change.key],
+                    )
+                  }
+                />
+                <span className="font-semibold text-sm">{change.key}</span>
+                <Badge variant={change.type == "add" ? "default" : "secondary"}>
+                  {change.type == "add"
+                    ? t("MCP.importNew")
+                    : t("MCP.importUpdate")}
+                </Badge>
+                <span className="text-xs text-muted-foreground truncate ml-auto">
+                  {describeConfig(change.value)}
+                </span>
+              </label>
+            ))
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              {t("MCP.nothingToImport")}
+            </p>
+          )}
+        </div>
+      )}
+
+      {placeholders.length > 0 && (
+        <div className="flex flex-col gap-4">
+          <div>
+            <h5 className="text-sm font-medium">{t("MCP.fillInSecrets")}</h5>
+            <p className="text-xs text-muted-foreground">
+              {t("MCP.fillInSecretsDescription")}
+            </p>
+          </div>
+          {placeholders.map((name) => (
+            <div key={name} className="flex flex-col gap-2">
+              <Label htmlFor={`placeholder-${name}`} className="font-mono">
+                {name}
+              </Label>
+              <Input
+                id={`placeholder-${name}`}
+                type="password"
+                autoComplete="off"
+                value={placeholderValues[name] ?? ""}
+                onChange={(e) =>
+                  setPlaceholderValues((prev) => ({
+                    ...prev,
+                    [name]: e.target.value,
+                  }))
+                }
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Button
+        onClick={handleImport}
+        className="w-full"
+        disabled={
+          isImporting || !selected.length || missingPlaceholders.length > 0
+        }
+      >
+        {isImporting ? (
+          <Loader className="size-4 animate-spin" />
+        ) : (
+          <span className="font-bold">
+            {t("MCP.importServers", { count: selected.length })}
+          </span>
+        )}
+      </Button>
+    </div>
+  );
+}
+
+const describeConfig = (config: MCPServerConfig) =>
+  isMaybeRemoteConfig(config)
+    ? config.url
+    : [config.command, ...(config.args ?? [])].join(" ");
@@ -0,0 +1,288 @@
+"use client";
+
+import { respondMcpInteractionAction } from "@/app/api/mcp/actions";
+import type {
+  MCPElicitationField,
+  MCPInteractionRequest,
+  MCPInteractionResponse,
+} from "app-types/mcp";
+import {
+  type ElicitationFormValues,
+  getElicitationDefaults,
+  toElicitationContent,
+} from "lib/ai/mcp/mcp-interaction-request";
+import { Loader, MessageCircleQuestion, Sparkles } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { useState } from "react";
+import { toast } from "sonner";
+import { safe } from "ts-safe";
+import { Button } from "ui/button";
+import { Card, CardContent, CardFooter, CardHeader } from "ui/card";
+import { Input } from "ui/input";
+import { Label } from "ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "ui/select";
+import { handleErrorWithToast } from "ui/shared-toast";
+import { Switch } from "ui/switch";
+
+const INPUT_TYPES: Record<string, string> = {
+  email: "email",
+  uri: "url",
+  date: "date",
+  "date-time": "datetime-local",
+};
+
+/**
+ * A sampling or elicitation request of an MCP server, waiting for the user
+ * while the chat streams
+ */
+export function MCPInteractionRequestCard({
+  request,
+  onResolved,
+}: {
+  request: MCPInteractionRequest;
+  onResolved: (id: string) => void;
+}) {
+  const t = useTranslations("Chat");
+  const [isResponding, setIsResponding] = useState(false);
+
+  const respond = (response: MCPInteractionResponse) =>
+    safe(() => setIsResponding(true))
+      .map(() => respondMcpInteractionAction(request.id, response))
+      .ifOk((accepted) => {
+        if (!accepted) toast.warning(t("mcpRequestExpired"));
+        onResolved(request.id);
+      })
+      .ifFail(handleErrorWithToast)
+      .watch(() => setIsResponding(false));
+
+  return (
+    <Card className="bg-secondary/40 gap-4">
+      <CardHeader className="flex items-center gap-2 text-sm font-semibold">
+        {request.type == "sampling" ? (
+          <Sparkles className="size-4" />
+        ) : (
+          <MessageCircleQuestion className="size-4" />
+        )}
+        {request.type == "sampling"
+          ? t("samplingRequest", { serverName: request.serverName })
+          : t("elicitationRequest", { serverName: request.serverName })}
+      </CardHeader>
+      {request.type == "sampling" ? (
+        <SamplingRequest
+          request={request}
+          isResponding={isResponding}
+          onRespond={respond}
+        />
+      ) : (
+        <ElicitationRequest
+          request={request}
+          isResponding={isResponding}
+          onRespond={respond}
+        />
+      )}
+    </Card>
+  );
+}
+
+function SamplingRequest({
+  request,
+  isResponding,
+  onRespond,
+}: {
+  request: Extract<MCPInteractionRequest, { type: "sampling" }>;
+  isResponding: boolean;
+  onRespond: (response: MCPInteractionResponse) => void;
+}) {
+  const t = useTranslations();
+  return (
+    <>
+      <CardContent className="flex flex-col gap-2 text-sm">
+        <p className="text-muted-foreground">
+          {t("Chat.samplingRequestDescription", {
+            maxTokens: request.maxTokens,
+          })}
+        </p>
+        <div className="flex flex-col gap-2 max-h-60 overflow-y-auto rounded-md border p-3">
+          {request.systemPrompt && (
+            <p className="text-xs text-muted-foreground whitespace-pre-wrap">
+              {request.systemPrompt}
+            </p>
+          )}
+          {request.messages.map((message, index) => (
+            <p key={index} className="whitespace-pre-wrap">
+              <span className="font-semibold mr-2">{message.role}</span>
+              {message.text}
+            </p>
+          ))}
+        </div>
+      </CardContent>
+      <CardFooter className="flex justify-end gap-2">
+        <Button
+          variant="ghost"
+          disabled={isResponding}
+          onClick={() => onRespond({ type: "sampling", approved: false })}
+        >
+          {t("Common.reject")}
+        </Button>
+        <Button
+          disabled={isResponding}
+          onClick={() => onRespond({ type: "sampling", approved: true })}
+        >
+          {isResponding && <Loader className="size-4 animate-spin" />}
+          {t("Common.approve")}
+        </Button>
+      </CardFooter>
+    </>
+  );
+}
+
+function ElicitationRequest({
+  request,
+  isResponding,
+  onRespond,
+}: {
+  request: Extract<MCPInteractionRequest, { type: "elicitation" }>;
+  isResponding: boolean;
+  onRespond: (response: MCPInteractionResponse) => void;
+}) {
+  const t = useTranslations();
+  const [values, setValues] = useState<ElicitationFormValues>(() =>
+    getElicitationDefaults(request.requestedSchema),
+  );
+  const [invalidFields, setInvalidFields] = useState<string[]>([]);
+
+  const submit = () => {
+    const { content, missing, invalid } = toElicitationContent(
+      request.requestedSchema,
+      values,
+    );
+    setInvalidFields([...missing, ...invalid]);
+    if (missing.length || invalid.length) return;
+    onRespond({ type: "elicitation", action: "accept", content });
+  };
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        submit();
+      }}
+    >
+      <CardContent className="flex flex-col gap-4 text-sm">
+        <p className="whitespace-pre-wrap">{request.message}</p>
+        {Object.entries(request.requestedSchema.properties).map(
+          ([name, field]) => (
+            <ElicitationInput
+              key={name}
+              name={name}
+              field={field}
+              required={request.requestedSchema.required?.includes(name)}
+              invalid={invalidFields.includes(name)}
+              value={values[name]}
+              onChange={(value) =>
+                setValues((prev) => ({ ...prev, [name]: value }))
+              }
+            />
+          ),
+        )}
+      </CardContent>
+      <CardFooter className="flex justify-end gap-2 mt-4">
+        <Button
+          type="button"
+          variant="ghost"
+          disabled={isResponding}
+          onClick={() => onRespond({ type: "elicitation", action: "decline" })}
+        >
+          {t("Common.reject")}
+        </Button>
+        <Button type="submit" disabled={isResponding}>
+          {isResponding && <Loader className="size-4 animate-spin" />}
+          {t("Common.continue")}
+        </Button>
+      </CardFooter>
+    </form>
+  );
+}
+
+function ElicitationInput({
+  name,
+  field,
+  required,
+  invalid,
+  value,
+  onChange,
+}: {
+  name: string;
+  field: MCPElicitationField;
+  required?: boolean;
+  invalid?: boolean;
+  value?: string | boolean;
+  onChange: (value: string | boolean) => void;
+}) {
+  const id = `elicitation-${name}`;
+  const label = (
+    <Label htmlFor={id}>
+      {field.title || name}
+      {required && <span className="text-destructive">*</span>}
+    </Label>
+  );
+
+  if (field.type == "boolean") {
+    return (
+      <div className="flex items-center gap-2">
+        <Switch
+          id={id}
+          checked={value === true}
+          onCheckedChange={(checked) => onChange(checked)}
+        />
+        {label}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-2">
+      {label}
+      {field.type == "string" && field.enum ? (
+        <Select value={value as string} onValueChange={onChange}>
+          <SelectTrigger id={id} aria-invalid={invalid}>
+            <SelectValue placeholder={field.description} />
+          </SelectTrigger>
+          <SelectContent>
+            {field.enum.map((option, index) => (
+              <SelectItem key={option} value={option}>
+                {field.enumNames?.[index] ?? option}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ) : (
+        <Input
+          id={id}
+          aria-invalid={invalid}
+          value={value as string}
+          placeholder={field.description}
+          onChange={(e) => onChange(e.target.value)}
+          {...(field.type == "string"
+            ? {
+                type: INPUT_TYPES[field.format ?? ""] ?? "text",
+                minLength: field.minLength,
+                maxLength: field.maxLength,
+              }
+            : {
+                type: "number",
+                min: field.minimum,
+                max: field.maximum,
+                step: field.type == "integer" ? 1 : "any",
+              })}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+"use client";
+
+import type { MCPPromptCommand } from "lib/ai/mcp/mcp-prompt";
+import { Loader, SquareSlashIcon } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { useEffect, useState } from "react";
+import { Button } from "ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "ui/dialog";
+import { Input } from "ui/input";
+import { Label } from "ui/label";
+
+export function MCPPromptCommandList({
+  commands,
+  onSelect,
+}: {
+  commands: MCPPromptCommand[];
+  onSelect: (command: MCPPromptCommand) => void;
+}) {
+  return (
+    <div className="bg-input rounded-b-sm rounded-t-3xl p-2 mx-2 my-2 max-h-60 overflow-y-auto">
+      {commands.map((command) => (
+        <div
+          key={command.command}
+          className="flex items-center gap-2 rounded-2xl px-3 py-2 cursor-pointer hover:bg-background/60 transition-colors"
+          onClick={() => onSelect(command)}
+        >
+          <SquareSlashIcon className="size-3.5 flex-shrink-0" />
+          <span className="text-sm font-semibold truncate">
+            {command.command}
+          </span>
+          {command.prompt.description && (
+            <span className="text-muted-foreground text-xs truncate">
+              {command.prompt.description}
+            </span>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Asks for the arguments of a prompt before running it
+ */
+export function MCPPromptArgumentsDialog({
+  command,
+  onRun,
+  onClose,
+}: {
+  command?: MCPPromptCommand;
+  onRun: (
+    command: MCPPromptCommand,
+    args: Record<string, string>,
+  ) => Promise<void>;
+  onClose: () => void;
+}) {
+  const t = useTranslations();
+  const [args, setArgs] = useState<Record<string, string>>({});
+  const [isRunning, setIsRunning] = useState(false);
+
+  useEffect(() => {
+    setArgs({});
+  }, [command]);
+
+  const missingRequired = command?.prompt.arguments?.some(
+    (argument) => argument.required && !args[argument.name]?.trim(),
+  );
+
+  const run = async () => {
+    if (!command || missingRequired) return;
+    setIsRunning(true);
+    try {
+      await onRun(command, args);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!command} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{command?.command}</DialogTitle>
+          <DialogDescription>
+            {command?.prompt.description ||
+              t("Chat.promptArgumentsDescription")}
+          </DialogDescription>
+        </DialogHeader>
+        <form
+          className="flex flex-col gap-4 py-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            run();
+          }}
+        >
+          {command?.prompt.arguments?.map((argument, index) => (
+            <div key={argument.name} className="flex flex-col gap-2">
+              <Label htmlFor={`prompt-argument-${argument.name}`}>
+                {argument.name}
+                {argument.required && (
+                  <span className="text-destructive">*</span>
+                )}
+              </Label>
+              <Input
+                id={`prompt-argument-${argument.name}`}
+                autoFocus={index === 0}
+                value={args[argument.name] ?? ""}
+                placeholder={argument.description}
+                onChange={(e) =>
+                  setArgs((prev) => ({
+                    ...prev,
+                    [argument.name]: e.target.value,
+                  }))
+                }
+              />
+            </div>
+          ))}
+          <DialogFooter>
+            <Button type="button" variant="ghost" onClick={onClose}>
+              {t("Common.cancel")}
+            </Button>
+            <Button type="submit" disabled={isRunning || missingRequired}>
+              {isRunning && <Loader className="size-4 animate-spin" />}
+              {t("Chat.runPrompt")}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
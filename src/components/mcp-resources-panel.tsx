@@ -0,0 +1,227 @@
+"use client";
+
+import { readMcpResourceAction } from "@/app/api/mcp/actions";
+import type {
+  MCPResourceInfo,
+  MCPResourceTemplateInfo,
+  ReadResourceResult,
+} from "app-types/mcp";
+import { FileTextIcon, Loader, Search, VariableIcon } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { useEffect, useMemo, useState } from "react";
+import { Badge } from "ui/badge";
+import { Button } from "ui/button";
+import { Input } from "ui/input";
+import {
+  ResizableHandle,
+  ResizablePanel,
+  ResizablePanelGroup,
+} from "ui/resizable";
+import { Separator } from "ui/separator";
+import { handleErrorWithToast } from "ui/shared-toast";
+import { Skeleton } from "ui/skeleton";
+import { cn } from "lib/utils";
+
+type ResourceItem =
+  | ({ kind: "resource" } & MCPResourceInfo)
+  | ({ kind: "template" } & MCPResourceTemplateInfo);
+
+const itemKey = (item: ResourceItem) =>
+  item.kind == "resource" ? item.uri : item.uriTemplate;
+
+export function MCPResourcesPanel({
+  id,
+  resources,
+  templates,
+  isLoading,
+}: {
+  id: string;
+  resources: MCPResourceInfo[];
+  templates: MCPResourceTemplateInfo[];
+  isLoading?: boolean;
+}) {
+  const t = useTranslations("MCP");
+
+  const [searchQuery, setSearchQuery] = useState("");
+  const [selectedKey, setSelectedKey] = useState<string>();
+  const [uri, setUri] = useState("");
+  const [result, setResult] = useState<ReadResourceResult | null>(null);
+  const [isReading, setIsReading] = useState(false);
+
+  const items = useMemo<ResourceItem[]>(() => {
+    const query = searchQuery.trim().toLowerCase();
+    return [
+      ...resources.map((resource) => ({
+        kind: "resource" as const,
+        ...resource,
+      })),
+      ...templates.map((template) => ({
+        kind: "template" as const,
+        ...template,
+      })),
+    ].filter(
+      (item) =>
+        item.name.toLowerCase().includes(query) ||
+        itemKey(item).toLowerCase().includes(query),
+    );
+  }, [resources, templates, searchQuery]);
+
+  const selected = useMemo(
+    () => items.find((item) => itemKey(item) == selectedKey) ?? items[0],
+    [items, selectedKey],
+  );
+
+  const selectedItemKey = selected ? itemKey(selected) : "";
+
+  useEffect(() => {
+    setUri(selectedItemKey);
+    setResult(null);
+  }, [selectedItemKey]);
+
+  const readResource = async () => {
+    setIsReading(true);
+    try {
+      setResult(await readMcpResourceAction(id, uri.trim()));
+    } catch (error) {
+      handleErrorWithToast(error as Error);
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  return (
+    <ResizablePanelGroup direction="horizontal" className="mt-4">
+      <ResizablePanel defaultSize={30}>
+        <div className="w-full flex flex-col h-full relative pr-8">
+          <div className="top-0 pb-2 z-1">
+            <div className="w-full relative">
+              <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                type="search"
+                placeholder={t("searchResources")}
+                className="pl-8 bg-background"
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="flex flex-col gap-2 h-full overflow-y-auto no-scrollbar">
+            {isLoading ? (
+              Array.from({ length: 6 }).map((_, index) => (
+                <Skeleton key={index} className="w-full h-14" />
+              ))
+            ) : items.length ? (
+              items.map((item) => (
+                <div
+                  key={itemKey(item)}
+                  className={cn(
+                    "flex gap-2 border-secondary border cursor-pointer rounded-md p-2 transition-colors",
+                    itemKey(item) == selectedItemKey
+                      ? "bg-secondary"
+                      : "hover:bg-secondary",
+                  )}
+                  onClick={() => setSelectedKey(itemKey(item))}
+                >
+                  {item.kind == "resource" ? (
+                    <FileTextIcon className="size-3.5 mt-0.5 flex-shrink-0" />
+                  ) : (
+                    <VariableIcon className="size-3.5 mt-0.5 flex-shrink-0" />
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-sm mb-1 truncate">
+                      {item.name}
+                    </p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {itemKey(item)}
+                    </p>
+                  </div>
+                </div>
+              ))
+            ) : (
+              <p className="text-sm text-muted-foreground text-center py-4">
+                {t("noResourcesAvailable")}
+              </p>
+            )}
+          </div>
+        </div>
+      </ResizablePanel>
+
+      <ResizableHandle withHandle />
+
+      <ResizablePanel defaultSize={70}>
+        {selected ? (
+          <div className="h-full overflow-y-auto pl-6 pr-12">
+            <h3 className="text-xl font-medium mb-4 flex items-center gap-2">
+              {selected.name}
+              {selected.kind == "template" && (
+                <Badge variant="outline">{t("resourceTemplate")}</Badge>
+              )}
+              {selected.mimeType && (
+                <Badge variant="secondary">{selected.mimeType}</Badge>
+              )}
+            </h3>
+            {selected.description && (
+              <p className="text-sm text-muted-foreground mb-6">
+                {selected.description}
+              </p>
+            )}
+            <Separator className="my-4" />
+
+            <div className="space-y-2">
+              <h5 className="text-xs font-medium">{t("resourceUri")}</h5>
+              <div className="flex gap-2">
+                <Input
+                  value={uri}
+                  readOnly={selected.kind == "resource"}
+                  onChange={(e) => setUri(e.target.value)}
+                  className="font-mono"
+                />
+                <Button
+                  onClick={readResource}
+                  disabled={isReading || !uri.trim()}
+                >
+                  {isReading && <Loader className="size-4 animate-spin" />}
+                  {t("readResource")}
+                </Button>
+              </div>
+              {selected.kind == "template" && (
+                <p className="text-xs text-muted-foreground">
+                  {t("resourceTemplateHint")}
+                </p>
+              )}
+            </div>
+
+            {result && (
+              <div className="space-y-4 mt-6 pb-8">
+                {result.contents.map((content, index) => (
+                  <div key={index} className="space-y-2">
+                    <div className="flex items-center gap-2 text-xs">
+                      <span className="font-medium truncate">
+                        {content.uri}
+                      </span>
+                      {content.mimeType && (
+                        <Badge variant="secondary">{content.mimeType}</Badge>
+                      )}
+                    </div>
+                    <pre className="border border-input rounded-md p-4 max-h-[400px] overflow-auto text-xs whitespace-pre-wrap">
+                      {"text" in content
+                        ? content.text
+                        : t("binaryResourceContent", {
+                            size: content.blob.length,
+                          })}
+                    </pre>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="flex items-center justify-center h-[300px]">
+            <p className="text-muted-foreground">{t("selectResourceToRead")}</p>
+          </div>
+        )}
+      </ResizablePanel>
+    </ResizablePanelGroup>
+  );
+}
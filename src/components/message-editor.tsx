@@ -4,10 +4,18 @@ import type { Message } from "ai";
 import { Button } from "./ui/button";
 import { type Dispatch, type SetStateAction, useState } from "react";
 import { Textarea } from "./ui/textarea";
-import { deleteMessagesByChatIdAfterTimestampAction } from "@/app/api/chat/actions";
+import {
+  forkThreadAction,
+  switchThreadBranchAction,
+} from "@/app/api/chat/actions";
 import type { UseChatHelpers } from "@ai-sdk/react";
 import { useTranslations } from "next-intl";
-import { Loader } from "lucide-react";
+import { ChevronLeft, ChevronRight, Loader } from "lucide-react";
+import type { ChatBranchPoint } from "app-types/chat";
+import { convertToUIMessage, generateUUID } from "lib/utils";
+import { getThreadBranchesKey } from "@/hooks/queries/use-thread-branches";
+import { mutate } from "swr";
+import { toast } from "sonner";
 
 type TextUIPart = {
   type: "text";
@@ -16,6 +24,7 @@ type TextUIPart = {
 
 export type MessageEditorProps = {
   message: Message;
+  threadId?: string;
   setMode: Dispatch<SetStateAction<"view" | "edit">>;
   setMessages: UseChatHelpers["setMessages"];
   reload: UseChatHelpers["reload"];
@@ -23,6 +32,7 @@ export type MessageEditorProps = {
 
 export function MessageEditor({
   message,
+  threadId,
   setMode,
   setMessages,
   reload,
@@ -81,7 +91,17 @@ export function MessageEditor({
           onClick={async () => {
             setIsSubmitting(true);
 
-            await deleteMessagesByChatIdAfterTimestampAction(message.id);
+            // The original turns stay reachable as a branch of the thread
+            if (threadId) {
+              try {
+                await forkThreadAction(threadId, message.id);
+                mutate(getThreadBranchesKey(threadId));
+              } catch (error: any) {
+                toast.error(error.message);
+                setIsSubmitting(false);
+                return;
+              }
+            }
 
             setMessages((messages) => {
               const index = messages.findIndex((m) => m.id === message.id);
@@ -89,6 +109,7 @@ export function MessageEditor({
               if (index !== -1) {
                 const updatedMessage: Message = {
                   ...message,
+                  id: generateUUID(),
                   parts: draftParts,
                 };
 
@@ -109,3 +130,73 @@ export function MessageEditor({
     </div>
   );
 }
+
+export type MessageBranchSwitcherProps = {
+  threadId: string;
+  branchPoint: ChatBranchPoint;
+  setMessages: UseChatHelpers["setMessages"];
+  disabled?: boolean;
+};
+
+/**
+ * Pages through the sibling branches that continue a conversation from
+ * the same message
+ */
+export function MessageBranchSwitcher({
+  threadId,
+  branchPoint,
+  setMessages,
+  disabled,
+}: MessageBranchSwitcherProps) {
+  const [isSwitching, setIsSwitching] = useState<boolean>(false);
+  const { branches, activeIndex } = branchPoint;
+
+  const switchTo = async (index: number) => {
+    setIsSwitching(true);
+    try {
+      const messages = await switchThreadBranchAction(
+        threadId,
+        branches[index].threadId,
+      );
+      setMessages(messages.map(convertToUIMessage));
+      await mutate(getThreadBranchesKey(threadId));
+    } catch (error: any) {
+      toast.error(error.message);
+    } finally {
+      setIsSwitching(false);
+    }
+  };
+
+  return (
+    <div
+      data-testid="message-branch-switcher"
+      className="flex items-center gap-1 text-xs text-muted-foreground"
+    >
+      <Button
+        variant="ghost"
+        size="icon"
+        className="size-3! p-3!"
+        disabled={disabled || isSwitching || activeIndex <= 0}
+        onClick={() => switchTo(activeIndex - 1)}
+      >
+        <ChevronLeft />
+      </Button>
+      {isSwitching ? (
+        <Loader className="size-3 animate-spin" />
+      ) : (
+        <span className="tabular-nums">
+          {activeIndex + 1} / {branches.length}
+        </span>
+      )}
+      <Button
+        variant="ghost"
+        size="icon"
+        className="size-3! p-3!"
+        disabled={disabled || isSwitching || activeIndex >= branches.length - 1}
+        onClick={() => switchTo(activeIndex + 1)}
+      >
+        <ChevronRight />
+      </Button>
+    </div>
+  );
+}
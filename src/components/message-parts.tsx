@@ -3,6 +3,7 @@
 import { UIMessage } from "ai";
 import {
   Check,
+  CheckCheck,
   Copy,
   Loader,
   Pencil,
@@ -26,10 +27,9 @@ import { useCopy } from "@/hooks/use-copy";
 
 import { AnimatePresence, motion } from "framer-motion";
 import { SelectModel } from "./select-model";
-import {
-  deleteMessageAction,
-  deleteMessagesByChatIdAfterTimestampAction,
-} from "@/app/api/chat/actions";
+import { deleteMessageAction, forkThreadAction } from "@/app/api/chat/actions";
+import { getThreadBranchesKey } from "@/hooks/queries/use-thread-branches";
+import { mutate } from "swr";
 
 import { toast } from "sonner";
 import { safe } from "ts-safe";
@@ -48,6 +48,8 @@ import equal from "lib/equal";
 import { isVercelAIWorkflowTool } from "app-types/workflow";
 import { Avatar, AvatarFallback, AvatarImage } from "ui/avatar";
 import { DefaultToolName, SequentialThinkingToolName } from "lib/ai/tools";
+import type { MCPToolProgress } from "app-types/mcp";
+import { Progress } from "ui/progress";
 import {
   Shortcut,
   getShortcutKeyList,
@@ -65,6 +67,7 @@ interface UserMessagePartProps {
   part: TextMessagePart;
   isLast: boolean;
   message: UIMessage;
+  threadId?: string;
   setMessages: UseChatHelpers["setMessages"];
   reload: UseChatHelpers["reload"];
   status: UseChatHelpers["status"];
@@ -92,6 +95,7 @@ interface ToolMessagePartProps {
   onPoxyToolCall?: (result: ClientToolInvocation) => void;
   isError?: boolean;
   setMessages?: UseChatHelpers["setMessages"];
+  progress?: MCPToolProgress;
 }
 
 export const UserMessagePart = memo(
@@ -100,6 +104,7 @@ export const UserMessagePart = memo(
     isLast,
     status,
     message,
+    threadId,
     setMessages,
     reload,
     isError,
@@ -140,6 +145,7 @@ export const UserMessagePart = memo(
         <div className="flex flex-row gap-2 items-start w-full">
           <MessageEditor
             message={message}
+            threadId={threadId}
             setMode={setMode}
             setMessages={setMessages}
             reload={reload}
@@ -275,7 +281,9 @@ export const AssistMessagePart = memo(function AssistMessagePart({
     safe(() => setIsLoading(true))
       .ifOk(() =>
         threadId
-          ? deleteMessagesByChatIdAfterTimestampAction(message.id)
+          ? forkThreadAction(threadId, message.id).then(() =>
+              mutate(getThreadBranchesKey(threadId)),
+            )
           : Promise.resolve(),
       )
       .ifOk(() =>
@@ -567,6 +575,7 @@ export const ToolMessagePart = memo(
     messageId,
     setMessages,
     isManualToolInvocation,
+    progress,
   }: ToolMessagePartProps) => {
     const t = useTranslations("");
     const { toolInvocation } = part;
@@ -823,6 +832,9 @@ export const ToolMessagePart = memo(
                     </div>
                   )}
                 </div>
+                {progress && (
+                  <ToolProgress progress={progress} isExecuting={isExecuting} />
+                )}
                 {!result ? null : isWorkflowTool ? (
                   <WorkflowInvocation result={result} />
                 ) : (
@@ -882,6 +894,21 @@ export const ToolMessagePart = memo(
                         )}
                       </span>
                     </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="rounded-full text-xs py-2"
+                      onClick={() =>
+                        onPoxyToolCall({
+                          action: "manual",
+                          result: true,
+                          allowForThread: true,
+                        })
+                      }
+                    >
+                      <CheckCheck />
+                      {t("Chat.allowForThread")}
+                    </Button>
                     <Button
                       variant="outline"
                       size="sm"
@@ -948,3 +975,65 @@ export const ToolMessagePart = memo(
 );
 
 ToolMessagePart.displayName = "ToolMessagePart";
+
+function ToolProgress({
+  progress,
+  isExecuting,
+}: {
+  progress: MCPToolProgress;
+  isExecuting: boolean;
+}) {
+  const logsRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    logsRef.current?.scrollTo({ top: logsRef.current.scrollHeight });
+  }, [progress.logs.length]);
+
+  return (
+    <div className="min-w-0 w-full p-4 rounded-lg bg-card px-4 border text-xs flex flex-col gap-2">
+      {isExecuting && progress.progress !== undefined && (
+        <div className="flex items-center gap-2">
+          {progress.total ? (
+            <Progress
+              className="h-1.5"
+              value={progress.progress}
+              max={progress.total}
+            />
+          ) : (
+            <Progress className="h-1.5 animate-pulse" value={100} />
+          )}
+          <span className="text-muted-foreground whitespace-nowrap">
+            {progress.total
+              ? `${progress.progress} / ${progress.total}`
+              : progress.progress}
+          </span>
+        </div>
+      )}
+      {isExecuting && progress.message && (
+        <p className="text-muted-foreground">{progress.message}</p>
+      )}
+      {progress.logs.length > 0 && (
+        <div
+          ref={logsRef}
+          className="max-h-40 overflow-y-auto font-mono flex flex-col gap-0.5"
+        >
+          {progress.logs.map((log, index) => (
+            <p
+              key={index}
+              className={cn(
+                "whitespace-pre-wrap break-all",
+                ["error", "critical", "alert", "emergency"].includes(
+                  log.level,
+                ) && "text-destructive",
+                log.level == "warning" && "text-yellow-500",
+              )}
+            >
+              <span className="text-muted-foreground mr-2">{log.level}</span>
+              {log.message}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -16,7 +16,13 @@ import {
 import { Terminal, ChevronDown, ChevronUp } from "lucide-react";
 import { Button } from "ui/button";
 import { useTranslations } from "next-intl";
-import { ChatMessageAnnotation, ClientToolInvocation } from "app-types/chat";
+import {
+  ChatBranchPoint,
+  ChatMessageAnnotation,
+  ClientToolInvocation,
+} from "app-types/chat";
+import { MessageBranchSwitcher } from "./message-editor";
+import type { MCPToolProgress } from "app-types/mcp";
 
 interface Props {
   message: UIMessage;
@@ -30,6 +36,9 @@ interface Props {
   status: UseChatHelpers["status"];
   messageIndex: number;
   isError?: boolean;
+  branchPoint?: ChatBranchPoint;
+  // What the message's running MCP tools reported, by tool call id
+  toolProgress?: Record<string, MCPToolProgress>;
 }
 
 const PurePreviewMessage = ({
@@ -44,6 +53,8 @@ const PurePreviewMessage = ({
   onPoxyToolCall,
   messageIndex,
   isError,
+  branchPoint,
+  toolProgress,
 }: Props) => {
   const isUserMessage = useMemo(() => message.role === "user", [message.role]);
 
@@ -100,6 +111,7 @@ const PurePreviewMessage = ({
                   isLast={isLastPart}
                   isError={isError}
                   message={message}
+                  threadId={threadId}
                   setMessages={setMessages}
                   reload={reload}
                 />
@@ -130,7 +142,11 @@ const PurePreviewMessage = ({
 
               const isManualToolInvocation = (
                 message.annotations as ChatMessageAnnotation[]
-              )?.some((a) => a.toolChoice == "manual");
+              )?.some(
+                (a) =>
+                  a.toolChoice == "manual" ||
+                  a.approvalTools?.includes(part.toolInvocation.toolName),
+              );
 
               return (
                 <ToolMessagePart
@@ -145,10 +161,22 @@ const PurePreviewMessage = ({
                   part={part}
                   isError={isError}
                   setMessages={setMessages}
+                  progress={toolProgress?.[part.toolInvocation.toolCallId]}
                 />
               );
             }
           })}
+
+          {threadId && branchPoint && (
+            <div className={cn(isUserMessage ? "self-end" : "self-start")}>
+              <MessageBranchSwitcher
+                threadId={threadId}
+                branchPoint={branchPoint}
+                setMessages={setMessages}
+                disabled={isLoading}
+              />
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -167,6 +195,8 @@ export const PreviewMessage = memo(
       return false;
     if (prevProps.isError !== nextProps.isError) return false;
     if (prevProps.onPoxyToolCall !== nextProps.onPoxyToolCall) return false;
+    if (prevProps.toolProgress !== nextProps.toolProgress) return false;
+    if (!equal(prevProps.branchPoint, nextProps.branchPoint)) return false;
     if (!equal(prevProps.message.parts, nextProps.message.parts)) return false;
     return true;
   },
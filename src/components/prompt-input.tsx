@@ -4,14 +4,15 @@ import {
   AudioWaveformIcon,
   ChevronDown,
   CornerRightUp,
+  FileTextIcon,
   LightbulbIcon,
   PlusIcon,
   Square,
   XIcon,
 } from "lucide-react";
-import { useCallback, useEffect, useMemo, useRef } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { Button } from "ui/button";
-import { notImplementedToast } from "ui/shared-toast";
+import { handleErrorWithToast, notImplementedToast } from "ui/shared-toast";
 import { UseChatHelpers } from "@ai-sdk/react";
 import { SelectModel } from "./select-model";
 import { appStore } from "@/app/store";
@@ -38,6 +39,16 @@ import { cn } from "lib/utils";
 import { getShortcutKeyList, isShortcutEvent } from "lib/keyboard-shortcuts";
 import { Agent } from "app-types/agent";
 import { EMOJI_DATA } from "lib/const";
+import {
+  filterMCPPromptCommands,
+  type MCPPromptCommand,
+  toPromptMessage,
+} from "lib/ai/mcp/mcp-prompt";
+import { getMcpPromptAction } from "@/app/api/mcp/actions";
+import {
+  MCPPromptArgumentsDialog,
+  MCPPromptCommandList,
+} from "./mcp-prompt-command";
 
 interface PromptInputProps {
   placeholder?: string;
@@ -90,14 +101,17 @@ export default function PromptInput({
 }: PromptInputProps) {
   const t = useTranslations("Chat");
 
-  const [globalModel, threadMentions, appStoreMutate] = appStore(
+  const [globalModel, threadMentions, mcpList, appStoreMutate] = appStore(
     useShallow((state) => [
       state.chatModel,
       state.threadMentions,
+      state.mcpList,
       state.mutate,
     ]),
   );
 
+  const [promptCommand, setPromptCommand] = useState<MCPPromptCommand>();
+
   const mentions = useMemo<ChatMention[]>(() => {
     if (!threadId) return [];
     return threadMentions[threadId!] ?? [];
@@ -212,8 +226,48 @@ export default function PromptInput({
     [addMention],
   );
 
+  // `/server:prompt` while the input is a single word starting with a slash
+  const promptCommands = useMemo(() => {
+    const command = input.trim();
+    if (toolDisabled || !command.startsWith("/") || /\s/.test(command)) {
+      return [];
+    }
+    return filterMCPPromptCommands(mcpList, command);
+  }, [input, mcpList, toolDisabled]);
+
+  const runPromptCommand = useCallback(
+    async (command: MCPPromptCommand, args: Record<string, string> = {}) => {
+      await getMcpPromptAction(command.serverId, command.prompt.name, args)
+        .then((result) => {
+          setPromptCommand(undefined);
+          setInput("");
+          return append!({
+            role: "user",
+            content: "",
+            ...toPromptMessage(result),
+          });
+        })
+        .catch(handleErrorWithToast);
+    },
+    [append, setInput],
+  );
+
+  const selectPromptCommand = useCallback(
+    (command: MCPPromptCommand) => {
+      if (command.prompt.arguments?.length) {
+        setPromptCommand(command);
+      } else {
+        runPromptCommand(command);
+      }
+    },
+    [runPromptCommand],
+  );
+
   const submit = () => {
     if (isLoading) return;
+    if (promptCommands.length) {
+      return selectPromptCommand(promptCommands[0]);
+    }
     const userMessage = input?.trim() || "";
     if (userMessage.length === 0) return;
     setInput("");
@@ -298,6 +352,8 @@ export default function PromptInput({
                         <Button className="size-6 flex items-center justify-center ring ring-border rounded-full flex-shrink-0 p-0.5">
                           {mention.type == "mcpServer" ? (
                             <MCPIcon className="size-3.5" />
+                          ) : mention.type == "mcpResource" ? (
+                            <FileTextIcon className="size-3.5" />
                           ) : (
                             <DefaultToolIcon
                               name={mention.name as DefaultToolName}
@@ -333,6 +389,12 @@ export default function PromptInput({
                 })}
               </div>
             )}
+            {promptCommands.length > 0 && (
+              <MCPPromptCommandList
+                commands={promptCommands}
+                onSelect={selectPromptCommand}
+              />
+            )}
             <div className="flex flex-col gap-3.5 px-5 pt-2 pb-4">
               <div className="relative min-h-[2rem]">
                 <ChatMentionInput
@@ -476,6 +538,11 @@ export default function PromptInput({
           </div>
         </fieldset>
       </div>
+      <MCPPromptArgumentsDialog
+        command={promptCommand}
+        onRun={runPromptCommand}
+        onClose={() => setPromptCommand(undefined)}
+      />
     </div>
   );
 }
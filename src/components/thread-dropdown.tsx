@@ -2,7 +2,14 @@
 import { deleteThreadAction, updateThreadAction } from "@/app/api/chat/actions";
 import { appStore } from "@/app/store";
 import { useToRef } from "@/hooks/use-latest";
-import { Archive, ChevronRight, Loader, PencilLine, Trash } from "lucide-react";
+import {
+  Archive,
+  ChevronRight,
+  History,
+  Loader,
+  PencilLine,
+  Trash,
+} from "lucide-react";
 import { useRouter } from "next/navigation";
 import { type PropsWithChildren, useState } from "react";
 import { toast } from "sonner";
@@ -145,6 +152,18 @@ export function ThreadDropdown({
                   </div>
                 </UpdateThreadNameDialog>
               </CommandItem>
+              <CommandItem
+                className="cursor-pointer p-0"
+                onSelect={() => {
+                  setOpen(false);
+                  push.current(`/chat/${threadId}/history`);
+                }}
+              >
+                <div className="flex items-center gap-2 w-full px-2 py-1 rounded">
+                  <History className="text-foreground" />
+                  <span className="mr-4">{t("Chat.Thread.history")}</span>
+                </div>
+              </CommandItem>
               <CommandItem className="cursor-pointer p-0">
                 <DropdownMenu>
                   <DropdownMenuTrigger asChild>
@@ -0,0 +1,378 @@
+"use client";
+
+import {
+  restoreMessageAction,
+  restoreThreadAction,
+} from "@/app/api/chat/actions";
+import {
+  ChatHistoryCommit,
+  ChatHistoryDiff,
+  ChatMessage,
+} from "app-types/chat";
+import { formatDistanceToNow } from "date-fns";
+import { fetcher } from "lib/utils";
+import { ArrowLeft, GitCommitHorizontal, History, Loader } from "lucide-react";
+import { useTranslations } from "next-intl";
+import Link from "next/link";
+import { useMemo, useState } from "react";
+import { toast } from "sonner";
+import useSWR, { mutate } from "swr";
+import { Badge } from "ui/badge";
+import { Button } from "ui/button";
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "ui/dialog";
+import { Label } from "ui/label";
+import { Skeleton } from "ui/skeleton";
+import { Switch } from "ui/switch";
+import { cn } from "lib/utils";
+
+interface ThreadHistoryProps {
+  threadId: string;
+  title: string;
+}
+
+function getMessageText(message: ChatMessage): string {
+  return (message.parts ?? [])
+    .map((part: any) => (part.type === "text" ? part.text : `[${part.type}]`))
+    .join("\n")
+    .trim();
+}
+
+export function ThreadHistory({ threadId, title }: ThreadHistoryProps) {
+  const t = useTranslations("Chat.History");
+  const historyKey = `/api/thread/${threadId}/history`;
+
+  const { data: commits, isLoading } = useSWR<ChatHistoryCommit[]>(
+    historyKey,
+    fetcher,
+  );
+  const [selectedSha, setSelectedSha] = useState<string>();
+  const [compareWithLatest, setCompareWithLatest] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const selectedIndex = useMemo(
+    () => commits?.findIndex((commit) => commit.sha === selectedSha) ?? -1,
+    [commits, selectedSha],
+  );
+
+  // By default show what the selected commit changed
+  const range = useMemo(() => {
+    if (!commits || selectedIndex === -1) return null;
+    if (compareWithLatest) {
+      return { from: commits[selectedIndex].sha, to: commits[0].sha };
+    }
+    return {
+      from: commits[selectedIndex + 1]?.sha ?? null,
+      to: commits[selectedIndex].sha,
+    };
+  }, [commits, selectedIndex, compareWithLatest]);
+
+  const { data: diff, isLoading: isDiffLoading } = useSWR<ChatHistoryDiff>(
+    range
+      ? `${historyKey}/diff?${new URLSearchParams({
+          ...(range.from ? { from: range.from } : {}),
+          to: range.to,
+        })}`
+      : null,
+    fetcher,
+  );
+
+  const refresh = () => {
+    mutate(historyKey);
+    mutate("/api/thread");
+  };
+
+  const handleRestoreThread = async () => {
+    if (!selectedSha) return;
+    setIsRestoring(true);
+    try {
+      const sha = await restoreThreadAction(threadId, selectedSha);
+      toast.success(sha ? t("threadRestored") : t("alreadyRestored"));
+      refresh();
+    } catch (error: any) {
+      toast.error(error.message || t("failedToRestore"));
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const handleRestoreMessage = async (messageId: string, sha: string) => {
+    try {
+      await restoreMessageAction(threadId, messageId, sha);
+      toast.success(t("messageRestored"));
+      refresh();
+    } catch (error: any) {
+      toast.error(error.message || t("failedToRestore"));
+    }
+  };
+
+  return (
+    <div className="container mx-auto p-6 max-w-5xl">
+      <div className="mb-6">
+        <Link
+          href={`/chat/${threadId}`}
+          className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+        >
+          <ArrowLeft className="size-4" />
+          {t("backToChat")}
+        </Link>
+        <h1 className="text-2xl font-bold mt-2 flex items-center gap-2">
+          <History className="size-6" />
+          {t("title")}
+        </h1>
+        <p className="text-sm text-muted-foreground mt-1 truncate">
+          {title} · {t("description")}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-[280px_1fr] gap-6">
+        <div className="flex flex-col gap-1">
+          {isLoading ? (
+            Array.from({ length: 5 }).map((_, i) => (
+              <Skeleton key={i} className="h-14 w-full" />
+            ))
+          ) : !commits?.length ? (
+            <p className="text-sm text-muted-foreground">{t("noHistory")}</p>
+          ) : (
+            commits.map((commit, index) => (
+              <button
+                key={commit.sha}
+                type="button"
+                onClick={() => setSelectedSha(commit.sha)}
+                className={cn(
+                  "text-left rounded-md px-3 py-2 hover:bg-accent transition-colors",
+                  selectedSha === commit.sha && "bg-accent",
+                )}
+              >
+                <div className="flex items-center gap-2">
+                  <GitCommitHorizontal className="size-4 shrink-0 text-muted-foreground" />
+                  <span className="text-sm truncate">{commit.message}</span>
+                </div>
+                <div className="flex items-center gap-2 mt-1 text-xs text-muted-foreground">
+                  <span className="font-mono">{commit.sha.slice(0, 7)}</span>
+                  <span>
+                    {formatDistanceToNow(new Date(commit.date), {
+                      addSuffix: true,
+                    })}
+                  </span>
+                  {index === 0 && (
+                    <Badge variant="secondary" className="text-[10px]">
+                      {t("latest")}
+                    </Badge>
+                  )}
+                </div>
+              </button>
+            ))
+          )}
+        </div>
+
+        <div className="min-w-0">
+          {!range ? (
+            <p className="text-sm text-muted-foreground">{t("selectCommit")}</p>
+          ) : (
+            <>
+              <div className="flex items-center gap-4 mb-4">
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="compare-with-latest"
+                    checked={compareWithLatest}
+                    onCheckedChange={setCompareWithLatest}
+                  />
+                  <Label htmlFor="compare-with-latest">
+                    {t("compareWithLatest")}
+                  </Label>
+                </div>
+                <div className="flex-1" />
+                <RestoreThreadDialog
+                  disabled={selectedIndex === 0 || isRestoring}
+                  onConfirm={handleRestoreThread}
+                >
+                  <Button variant="outline" size="sm">
+                    {isRestoring && <Loader className="size-4 animate-spin" />}
+                    {t("restoreThisVersion")}
+                  </Button>
+                </RestoreThreadDialog>
+              </div>
+
+              {isDiffLoading || !diff ? (
+                <Skeleton className="h-40 w-full" />
+              ) : (
+                <ThreadDiffView
+                  diff={diff}
+                  onRestoreMessage={handleRestoreMessage}
+                />
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function ThreadDiffView({
+  diff,
+  onRestoreMessage,
+}: {
+  diff: ChatHistoryDiff;
+  onRestoreMessage: (messageId: string, sha: string) => void;
+}) {
+  const t = useTranslations("Chat.History");
+  const hasChanges =
+    diff.added.length > 0 || diff.removed.length > 0 || diff.changed.length > 0;
+
+  return (
+    <div className="flex flex-col gap-3">
+      {diff.title && (
+        <div className="rounded-md border px-3 py-2 text-sm">
+          <span className="text-muted-foreground">{t("titleChanged")}: </span>
+          <span className="line-through text-muted-foreground">
+            {diff.title.before}
+          </span>{" "}
+          → <span>{diff.title.after}</span>
+        </div>
+      )}
+
+      {!hasChanges && (
+        <p className="text-sm text-muted-foreground">{t("noChanges")}</p>
+      )}
+
+      {diff.added.map((message) => (
+        <DiffMessage
+          key={`added-${message.id}`}
+          kind="added"
+          message={message}
+        />
+      ))}
+
+      {diff.removed.map((message) => (
+        <DiffMessage
+          key={`removed-${message.id}`}
+          kind="removed"
+          message={message}
+          action={
+            diff.from && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onRestoreMessage(message.id, diff.from!)}
+              >
+                {t("restoreMessage")}
+              </Button>
+            )
+          }
+        />
+      ))}
+
+      {diff.changed.map(({ before, after }) => (
+        <DiffMessage
+          key={`changed-${after.id}`}
+          kind="changed"
+          message={after}
+          previous={before}
+          action={
+            diff.from && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onRestoreMessage(before.id, diff.from!)}
+              >
+                {t("restorePreviousVersion")}
+              </Button>
+            )
+          }
+        />
+      ))}
+    </div>
+  );
+}
+
+function DiffMessage({
+  kind,
+  message,
+  previous,
+  action,
+}: {
+  kind: "added" | "removed" | "changed";
+  message: ChatMessage;
+  previous?: ChatMessage;
+  action?: React.ReactNode;
+}) {
+  const t = useTranslations("Chat.History");
+
+  return (
+    <div
+      className={cn(
+        "rounded-md border px-3 py-2",
+        kind === "added" && "border-green-500/40 bg-green-500/5",
+        kind === "removed" && "border-red-500/40 bg-red-500/5",
+        kind === "changed" && "border-yellow-500/40 bg-yellow-500/5",
+      )}
+    >
+      <div className="flex items-center gap-2 mb-1">
+        <Badge variant="outline" className="text-[10px]">
+          {t(kind)}
+        </Badge>
+        <span className="text-xs text-muted-foreground">{message.role}</span>
+        <div className="flex-1" />
+        {action}
+      </div>
+      {previous && (
+        <p className="text-sm whitespace-pre-wrap break-words line-through text-muted-foreground mb-1">
+          {getMessageText(previous)}
+        </p>
+      )}
+      <p className="text-sm whitespace-pre-wrap break-words">
+        {getMessageText(message)}
+      </p>
+    </div>
+  );
+}
+
+function RestoreThreadDialog({
+  children,
+  disabled,
+  onConfirm,
+}: {
+  children: React.ReactNode;
+  disabled?: boolean;
+  onConfirm: () => void;
+}) {
+  const t = useTranslations();
+
+  if (disabled) {
+    return <div className="pointer-events-none opacity-50">{children}</div>;
+  }
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{t("Chat.History.restoreThisVersion")}</DialogTitle>
+          <DialogDescription>
+            {t("Chat.History.confirmRestore")}
+          </DialogDescription>
+        </DialogHeader>
+        <DialogFooter>
+          <DialogClose asChild>
+            <Button variant="secondary">{t("Common.cancel")}</Button>
+          </DialogClose>
+          <DialogClose asChild>
+            <Button onClick={onConfirm}>
+              {t("Chat.History.restoreThisVersion")}
+            </Button>
+          </DialogClose>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
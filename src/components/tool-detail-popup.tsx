@@ -1,5 +1,9 @@
 "use client";
-import { McpToolCustomization, MCPToolInfo } from "app-types/mcp";
+import {
+  McpToolCustomization,
+  MCPToolInfo,
+  McpToolPolicy,
+} from "app-types/mcp";
 import { PropsWithChildren, ReactNode, useState } from "react";
 import {
   Dialog,
@@ -22,6 +26,13 @@ import { cn, fetcher } from "lib/utils";
 import { useTranslations } from "next-intl";
 import { Skeleton } from "ui/skeleton";
 import { Tooltip, TooltipTrigger, TooltipContent } from "ui/tooltip";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "ui/select";
 
 import { z } from "zod";
 
@@ -62,6 +73,13 @@ export const ToolDetailPopup = ({
 const createApiUrl = (serverId: string, toolName: string) =>
   `/api/mcp/tool-customizations/${serverId}/${toolName}`;
 
+const TOOL_POLICY_LABELS: Record<McpToolPolicy | "default", string> = {
+  default: "MCP.toolPolicyDefault",
+  allow: "MCP.toolPolicyAllow",
+  ask: "MCP.toolPolicyAsk",
+  deny: "MCP.toolPolicyDeny",
+};
+
 export function ToolDetailPopupContent({
   tool,
   title,
@@ -118,11 +136,29 @@ export function ToolDetailPopupContent({
       });
   };
 
+  const handlePolicyChange = (policy: string) => {
+    setProcessing(true);
+    safe(() =>
+      fetch(createApiUrl(serverId, tool.name), {
+        method: "POST",
+        body: JSON.stringify({ policy: policy == "default" ? null : policy }),
+      }),
+    )
+      .ifOk(() => {
+        mutate();
+        onUpdate?.();
+      })
+      .ifFail(handleErrorWithToast)
+      .watch(() => setProcessing(false));
+  };
+
+  // Keeps the tool's policy
   const handleDelete = () => {
     setProcessing(true);
     safe(() =>
       fetch(createApiUrl(serverId, tool.name), {
-        method: "DELETE",
+        method: "POST",
+        body: JSON.stringify({ prompt: null }),
       }),
     )
       .ifOk(() => {
@@ -167,7 +203,7 @@ export function ToolDetailPopupContent({
             </Button>
           ) : (
             <>
-              {data?.id && !editing && (
+              {data?.prompt && !editing && (
                 <Tooltip>
                   <TooltipTrigger asChild>
                     <Button size="icon" variant="ghost" onClick={handleDelete}>
@@ -233,6 +269,42 @@ export function ToolDetailPopupContent({
         )}
       </div>
 
+      <div className="flex items-center gap-2 mt-4 mb-2">
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <h5 className="text-xs font-medium flex items-center">
+              {t("MCP.toolPolicy")}
+              <Info className="size-3 ml-1 text-muted-foreground" />
+            </h5>
+          </TooltipTrigger>
+          <TooltipContent>
+            <p className="whitespace-pre-wrap">
+              {t("MCP.toolPolicyDescription")}
+            </p>
+          </TooltipContent>
+        </Tooltip>
+      </div>
+      {isLoading ? (
+        <Skeleton className="w-48 h-8" />
+      ) : (
+        <Select
+          value={data?.policy ?? "default"}
+          onValueChange={handlePolicyChange}
+          disabled={processing}
+        >
+          <SelectTrigger size="sm" className="w-48 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(TOOL_POLICY_LABELS).map(([policy, label]) => (
+              <SelectItem key={policy} value={policy} className="text-xs">
+                {t(label)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
       <div className="flex items-center gap-2 my-4">
         <h5 className="text-xs font-medium">{t("MCP.inputSchema")}</h5>
       </div>
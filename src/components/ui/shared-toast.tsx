@@ -1,5 +1,6 @@
 "use client";
 
+import { isDiffDBConflictError } from "lib/errors";
 import { errorToString } from "lib/utils";
 import { toast } from "sonner";
 import JsonView from "ui/json-view";
@@ -16,6 +17,15 @@ export const notImplementedToast = () => {
 };
 
 export const handleErrorWithToast = (error: Error, id?: string) => {
+  if (isDiffDBConflictError(error)) {
+    toast.warning("Changed in another session", {
+      description:
+        "This item was modified from another tab or device at the same time. Reload to see the latest version and try again.",
+      id,
+    });
+    return error;
+  }
+
   toast.error(`${error?.name || "Error"}`, {
     description: (
       <div className="my-4 max-h-[340px] overflow-y-auto">
@@ -25,6 +25,10 @@ import { createAppendNode } from "./create-append-node";
 import { ToolNodeStack } from "./node-config/tool-node-config";
 import { Markdown } from "../markdown";
 import { HttpNodeDataStack } from "./node-config/http-node-config";
+import { CodeNodeDataStack } from "./node-config/code-node-config";
+import { LoopNodeDataStack } from "./node-config/loop-node-config";
+import { SubWorkflowNodeDataStack } from "./node-config/sub-workflow-node-config";
+import { NodeErrorHandleStack } from "./node-config/node-policy-config";
 
 type Props = NodeProps<UINode>;
 
@@ -197,6 +201,14 @@ export const DefaultNode = memo(function DefaultNode({
             )}
             {data.kind === NodeKind.Tool && <ToolNodeStack data={data} />}
             {data.kind === NodeKind.Http && <HttpNodeDataStack data={data} />}
+            {data.kind === NodeKind.Code && <CodeNodeDataStack data={data} />}
+            {data.kind === NodeKind.Loop && <LoopNodeDataStack data={data} />}
+            {data.kind === NodeKind.Workflow && (
+              <SubWorkflowNodeDataStack data={data} />
+            )}
+            {data.policy?.onError == "branch" && (
+              <NodeErrorHandleStack data={data} />
+            )}
             {data.description && (
               <div className="px-4 mt-2">
                 <div className="text-xs text-muted-foreground">
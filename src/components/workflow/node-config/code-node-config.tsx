@@ -0,0 +1,323 @@
+"use client";
+
+import {
+  CodeLanguage,
+  CodeNodeData,
+  OutputSchemaSourceKey,
+  UINode,
+} from "lib/ai/workflow/workflow.interface";
+import { memo, useCallback, useMemo, useState } from "react";
+import {
+  ChevronDownIcon,
+  InfoIcon,
+  PencilIcon,
+  PlusIcon,
+  TrashIcon,
+  TriangleAlertIcon,
+  VariableIcon,
+} from "lucide-react";
+import { useReactFlow } from "@xyflow/react";
+import { useTranslations } from "next-intl";
+import { Input } from "ui/input";
+import { Button } from "ui/button";
+import { Label } from "ui/label";
+import { Textarea } from "ui/textarea";
+import { Separator } from "ui/separator";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "ui/select";
+import { Tooltip, TooltipContent, TooltipTrigger } from "ui/tooltip";
+import { cleanVariableName, generateUniqueKey, toAny } from "lib/utils";
+import { findJsonSchemaByPath } from "lib/ai/workflow/shared.workflow";
+import { defaultCode } from "lib/ai/workflow/create-ui-node";
+import { ObjectJsonSchema7 } from "app-types/util";
+import { VariableSelect } from "../variable-select";
+import { OutputSchemaEditor } from "../output-schema-editor";
+
+const LANGUAGES: { value: CodeLanguage; label: string }[] = [
+  { value: "javascript", label: "JavaScript" },
+  { value: "python", label: "Python" },
+];
+
+export const CodeNodeConfig = memo(function CodeNodeConfig({
+  data,
+}: {
+  data: CodeNodeData;
+}) {
+  const t = useTranslations();
+  const { getNodes, updateNodeData } = useReactFlow<UINode>();
+  const [schemaEditorOpen, setSchemaEditorOpen] = useState(false);
+
+  const inputVariables = useMemo(() => {
+    const nodes = getNodes();
+    return data.inputs.map(({ key, source }) => {
+      const targetNode = nodes.find((node) => node.data.id === source?.nodeId);
+      const schema = targetNode
+        ? findJsonSchemaByPath(targetNode.data.outputSchema, source?.path ?? [])
+        : undefined;
+      return {
+        key,
+        schema,
+        path: source?.path ?? [],
+        nodeName: targetNode?.data.name,
+        isNotFound: (source && !targetNode) || (targetNode && !schema),
+      };
+    });
+  }, [data]);
+
+  const updateInputVariable = useCallback(
+    (index: number, item: { key?: string; source?: OutputSchemaSourceKey }) => {
+      updateNodeData(data.id, (node) => {
+        const prev = node.data as CodeNodeData;
+        return {
+          inputs: prev.inputs.map((v, i) =>
+            i === index ? { ...v, ...item } : v,
+          ),
+        };
+      });
+    },
+    [data.id],
+  );
+
+  const deleteInputVariable = useCallback(
+    (index: number) => {
+      updateNodeData(data.id, (node) => {
+        const prev = node.data as CodeNodeData;
+        return {
+          inputs: prev.inputs.filter((_, i) => i !== index),
+        };
+      });
+    },
+    [data.id],
+  );
+
+  const addInputVariable = useCallback(() => {
+    updateNodeData(data.id, (node) => {
+      const prev = node.data as CodeNodeData;
+      const key = generateUniqueKey(
+        "value",
+        prev.inputs.map((v) => v.key),
+      );
+      return {
+        inputs: [...prev.inputs, { key, source: undefined }],
+      };
+    });
+  }, [data.id]);
+
+  const changeLanguage = useCallback(
+    (language: CodeLanguage) => {
+      updateNodeData(data.id, (node) => {
+        const prev = node.data as CodeNodeData;
+        // Swap the example code, but keep what the user wrote
+        const isExample =
+          !prev.code.trim() || prev.code == defaultCode[prev.language];
+        return {
+          language,
+          code: isExample ? defaultCode[language] : prev.code,
+        };
+      });
+    },
+    [data.id],
+  );
+
+  const resultSchema = data.outputSchema.properties?.result as
+    | ObjectJsonSchema7
+    | undefined;
+
+  return (
+    <div className="flex flex-col gap-2 text-sm px-4">
+      <Label className="text-sm">{t("Workflow.inputVariables")}</Label>
+      <div className="flex flex-col gap-2">
+        {inputVariables.map((item, index) => (
+          <div className="flex items-center gap-1" key={index}>
+            <Input
+              value={item.key}
+              onChange={(e) =>
+                updateInputVariable(index, {
+                  key: cleanVariableName(e.target.value),
+                })
+              }
+              className="w-24"
+              placeholder="name"
+            />
+            <VariableSelect
+              currentNodeId={data.id}
+              onChange={(item) =>
+                updateInputVariable(index, {
+                  source: { nodeId: item.nodeId, path: item.path },
+                })
+              }
+            >
+              <div className="flex-1 min-w-0 w-full flex text-[10px] items-center gap-1 p-2.5 border border-input bg-background rounded-lg cursor-pointer">
+                {item.isNotFound ? (
+                  <TriangleAlertIcon className="size-3 text-destructive" />
+                ) : (
+                  <VariableIcon className="size-3 text-blue-500" />
+                )}
+                <span>{item.nodeName}/</span>
+                <span className="truncate min-w-0 text-blue-500 flex-1">
+                  {item.path.join(".")}
+                </span>
+                <span className="text-muted-foreground">
+                  {item.schema?.type}
+                </span>
+                <ChevronDownIcon className="size-3 ml-auto" />
+              </div>
+            </VariableSelect>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => deleteInputVariable(index)}
+            >
+              <TrashIcon />
+            </Button>
+          </div>
+        ))}
+        <Button
+          variant="ghost"
+          onClick={addInputVariable}
+          className="w-full border-dashed border text-muted-foreground"
+        >
+          <PlusIcon /> {t("Workflow.addInputVariable")}
+        </Button>
+      </div>
+
+      <Separator className="my-4" />
+      <div className="flex items-center justify-between">
+        <Label className="text-sm">{t("Workflow.code")}</Label>
+        <div className="flex items-center gap-1">
+          <Select
+            value={data.language}
+            onValueChange={(value) => changeLanguage(value as CodeLanguage)}
+          >
+            <SelectTrigger size="sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {LANGUAGES.map((language) => (
+                <SelectItem key={language.value} value={language.value}>
+                  {language.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <div className="p-1 hover:bg-secondary rounded cursor-pointer">
+                <InfoIcon className="size-3" />
+              </div>
+            </TooltipTrigger>
+            <TooltipContent
+              side="left"
+              align="center"
+              className="p-4 whitespace-pre-wrap max-w-64"
+            >
+              {t("Workflow.codeDescription")}
+            </TooltipContent>
+          </Tooltip>
+        </div>
+      </div>
+      <Textarea
+        value={data.code}
+        spellCheck={false}
+        onChange={(e) => updateNodeData(data.id, { code: e.target.value })}
+        className="font-mono text-xs resize-none h-64 overflow-y-auto"
+      />
+
+      <div className="flex flex-col gap-2 mt-2">
+        <Label htmlFor="code-timeout" className="text-sm">
+          {t("Workflow.timeoutMs")}
+        </Label>
+        <Input
+          id="code-timeout"
+          type="number"
+          value={data.timeout || 10000}
+          onChange={(e) =>
+            updateNodeData(data.id, {
+              timeout: parseInt(e.target.value) || 10000,
+            })
+          }
+          min={1000}
+          max={60000}
+          step={1000}
+        />
+      </div>
+
+      <Separator className="my-4" />
+      <div className="flex items-center justify-between">
+        <Label className="text-sm">{t("Workflow.outputSchema")}</Label>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="size-7"
+          onClick={() => setSchemaEditorOpen(true)}
+        >
+          <PencilIcon className="size-3" />
+        </Button>
+      </div>
+      <div className="flex items-center flex-wrap gap-1">
+        {Object.keys(resultSchema?.properties ?? {}).length ? (
+          Object.entries(resultSchema!.properties).map(([key, schema]) => (
+            <div
+              key={key}
+              className="flex items-center text-xs px-1.5 py-0.5 bg-secondary rounded-md"
+            >
+              <VariableIcon className="size-3.5 text-blue-500" />
+              <span className="font-semibold">{`result.${key}`}</span>
+              <span className="text-muted-foreground ml-2">
+                {toAny(schema)?.type}
+              </span>
+            </div>
+          ))
+        ) : (
+          <div className="flex items-center text-xs px-1.5 py-0.5 bg-secondary rounded-md">
+            <VariableIcon className="size-3.5 text-blue-500" />
+            <span className="font-semibold">result</span>
+            <span className="text-muted-foreground ml-2">
+              {resultSchema?.type}
+            </span>
+          </div>
+        )}
+      </div>
+
+      <OutputSchemaEditor
+        schema={resultSchema}
+        open={schemaEditorOpen}
+        onOpenChange={setSchemaEditorOpen}
+        onChange={(schema) => {
+          updateNodeData(data.id, {
+            outputSchema: {
+              ...data.outputSchema,
+              properties: {
+                ...data.outputSchema.properties,
+                result: schema,
+              },
+            },
+          });
+        }}
+      >
+        <span className="sr-only"></span>
+      </OutputSchemaEditor>
+    </div>
+  );
+});
+
+export const CodeNodeDataStack = memo(function CodeNodeDataStack({
+  data,
+}: { data: CodeNodeData }) {
+  const language = LANGUAGES.find((l) => l.value === data.language)?.label;
+  return (
+    <div className="flex flex-col gap-1 px-4 mt-4">
+      <div className="border bg-input text-[10px] rounded px-2 py-1 flex items-center gap-1">
+        <span className="font-semibold">{language}</span>
+        <span className="ml-auto text-muted-foreground">
+          {data.inputs.map((input) => input.key).join(", ")}
+        </span>
+      </div>
+    </div>
+  );
+});
@@ -16,7 +16,6 @@ import { Alert, AlertDescription, AlertTitle } from "ui/alert";
 import {
   AlertTriangleIcon,
   Loader,
-  Loader2,
   Copy,
   Check,
   WandSparklesIcon,
@@ -38,16 +37,16 @@ import {
   SelectValue,
 } from "ui/select";
 import { Textarea } from "ui/textarea";
-import { NodeIcon } from "../node-icon";
-import { TextShimmer } from "ui/text-shimmer";
 import { generateObjectAction } from "@/app/api/chat/actions";
 import { appStore } from "@/app/store";
 import { notify } from "lib/notify";
 import { SelectModel } from "@/components/select-model";
 
 import { useCopy } from "@/hooks/use-copy";
-import { NodeResultPopup } from "../node-result-popup";
+import { NodeHistoryItem, NodeResultPopup } from "../node-result-popup";
+import { WorkflowRuns } from "./workflow-runs";
 import { useTranslations } from "next-intl";
+import { mutate } from "swr";
 
 const debounce = createDebounce();
 
@@ -70,6 +69,10 @@ export function ExecuteTab({
         label: "Result",
         value: "result",
       },
+      {
+        label: "Runs",
+        value: "runs",
+      },
     ],
     [],
   );
@@ -148,7 +151,10 @@ ${workflow!.description ? `tool-description: ${workflow!.description}` : ""}`,
     );
   }, [inputSchema]);
 
-  const handleClick = async () => {
+  const handleClick = async (
+    query: Record<string, any>,
+    resumeRunId?: string,
+  ) => {
     await onSave();
     const failSchema = inputSchemaIterator.find(([key]) => {
       if (inputSchema.required?.includes(key) && query[key] === undefined)
@@ -179,7 +185,7 @@ ${workflow!.description ? `tool-description: ${workflow!.description}` : ""}`,
       }
       return toast.warning(validateResult.errorMessage);
     }
-    run(query);
+    run(query, resumeRunId);
   };
 
   const fitviewWithDebounce = useCallback((id: string) => {
@@ -200,7 +206,7 @@ ${workflow!.description ? `tool-description: ${workflow!.description}` : ""}`,
   }, []);
 
   const run = useCallback(
-    async (query: Record<string, any>) => {
+    async (query: Record<string, any>, resumeRunId?: string) => {
       const stop = addProcess();
       const abortController = new AbortController();
       setHistories([]);
@@ -222,12 +228,14 @@ ${workflow!.description ? `tool-description: ${workflow!.description}` : ""}`,
           headers: {
             "Content-Type": "application/json",
           },
-          body: JSON.stringify({ query }),
+          body: JSON.stringify({ query, resumeRunId }),
           signal: abortController.signal,
         });
 
         if (!response.ok) {
-          throw new Error(`HTTP error! status: ${response.status}`);
+          throw new Error(
+            (await response.text()) || `HTTP error! status: ${response.status}`,
+          );
         }
 
         const reader = response.body?.getReader();
@@ -308,6 +316,8 @@ ${workflow!.description ? `tool-description: ${workflow!.description}` : ""}`,
                           output: source?.outputs?.[prevHistory.nodeId],
                           input: source?.inputs?.[prevHistory.nodeId],
                         },
+                        logs: source?.logs?.[prevHistory.nodeId],
+                        histories: source?.histories?.[prevHistory.nodeId],
                       } as NodeRuntimeHistory;
                     });
                   });
@@ -324,10 +334,12 @@ ${workflow!.description ? `tool-description: ${workflow!.description}` : ""}`,
           console.log("Workflow execution was aborted");
         } else {
           console.error("Workflow execution error:", error);
+          toast.error(errorToString(error));
         }
         stop();
       } finally {
         setIsRunning(false);
+        mutate(`/api/workflow/${workflow!.id}/runs`);
       }
     },
     [workflow!.id],
@@ -490,7 +502,7 @@ ${workflow!.description ? `tool-description: ${workflow!.description}` : ""}`,
           <Button
             disabled={isProcessing}
             className="font-bold w-full"
-            onClick={handleClick}
+            onClick={() => handleClick(query)}
           >
             {isProcessing ? (
               <Loader className="size-3.5 animate-spin" />
@@ -505,57 +517,9 @@ ${workflow!.description ? `tool-description: ${workflow!.description}` : ""}`,
             className="flex flex-col px-4 h-[30vh] overflow-y-auto"
             ref={historyRef}
           >
-            {histories.map((history, i) => {
-              return (
-                <NodeResultPopup history={history} key={i}>
-                  <div
-                    className={cn(
-                      "cursor-pointer hover:bg-secondary flex items-center gap-2 text-sm rounded-sm px-2 py-1.5 relative",
-                      history.status == "fail" && "text-destructive",
-                    )}
-                  >
-                    {i != 0 && (
-                      <div className="absolute left-4.5 -top-1.5 w-px h-3">
-                        <Separator orientation="vertical" />
-                      </div>
-                    )}
-                    <div className="border rounded overflow-hidden">
-                      <NodeIcon
-                        type={history.kind}
-                        iconClassName="size-3"
-                        className="rounded-none"
-                      />
-                    </div>
-                    {history.status == "running" ? (
-                      <TextShimmer className="font-semibold">
-                        {`${history.name} Running...`}
-                      </TextShimmer>
-                    ) : (
-                      <span className="font-semibold">{history.name}</span>
-                    )}
-                    <span
-                      className={cn(
-                        "ml-auto text-xs",
-                        history.status != "fail" && "text-muted-foreground",
-                      )}
-                    >
-                      {history.status != "running" &&
-                        (
-                          (history.endedAt! - history.startedAt!) /
-                          1000
-                        ).toFixed(2)}
-                    </span>
-                    {history.status == "success" ? (
-                      <Check className="size-3" />
-                    ) : history.status == "fail" ? (
-                      <XIcon className="size-3" />
-                    ) : (
-                      <Loader2 className="size-3 animate-spin" />
-                    )}
-                  </div>
-                </NodeResultPopup>
-              );
-            })}
+            {histories.map((history, i) => (
+              <NodeHistoryItem history={history} connected={i != 0} key={i} />
+            ))}
           </div>
           <Separator />
           <div className="px-4 py-4">
@@ -597,6 +561,16 @@ ${workflow!.description ? `tool-description: ${workflow!.description}` : ""}`,
             {resultView}
           </div>
         </div>
+      ) : tab == "runs" ? (
+        <WorkflowRuns
+          workflowId={workflow!.id}
+          disabled={isProcessing}
+          onRerun={(runQuery) => {
+            setQuery(runQuery);
+            handleClick(runQuery);
+          }}
+          onResume={(run) => handleClick(run.query, run.id)}
+        />
       ) : null}
     </div>
   );
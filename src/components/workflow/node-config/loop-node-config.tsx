@@ -0,0 +1,283 @@
+"use client";
+
+import {
+  Handle,
+  Position,
+  useEdges,
+  useNodes,
+  useReactFlow,
+} from "@xyflow/react";
+import {
+  LoopNodeData,
+  NodeKind,
+  OutputSchemaSourceKey,
+  UINode,
+} from "lib/ai/workflow/workflow.interface";
+import { memo, useMemo, useState } from "react";
+import {
+  ChevronDownIcon,
+  InfoIcon,
+  PlusIcon,
+  TriangleAlertIcon,
+  VariableIcon,
+} from "lucide-react";
+import { useTranslations } from "next-intl";
+import { Input } from "ui/input";
+import { Label } from "ui/label";
+import { Separator } from "ui/separator";
+import { Tooltip, TooltipContent, TooltipTrigger } from "ui/tooltip";
+import { JSONSchema7 } from "json-schema";
+import { findJsonSchemaByPath } from "lib/ai/workflow/shared.workflow";
+import { findLoopBodyNodeIds, LOOP_BODY_HANDLE } from "lib/ai/workflow/loop";
+import { VariableSelect } from "../variable-select";
+import { VariableMentionItem } from "../variable-mention-item";
+import { NodeSelect } from "../node-select";
+import { useUpdate } from "@/hooks/use-update";
+import { createAppendNode } from "../create-append-node";
+
+export const LoopNodeConfig = memo(function LoopNodeConfig({
+  data,
+}: {
+  data: LoopNodeData;
+}) {
+  const t = useTranslations();
+  const { updateNodeData } = useReactFlow<UINode>();
+  const nodes = useNodes<UINode>();
+  const edges = useEdges();
+
+  const bodyNodeIds = useMemo(
+    () => findLoopBodyNodeIds({ nodeId: data.id, edges }),
+    [data.id, edges],
+  );
+
+  const findSchema = (source?: OutputSchemaSourceKey) => {
+    const sourceNode = nodes.find((node) => node.data.id === source?.nodeId);
+    return sourceNode
+      ? findJsonSchemaByPath(sourceNode.data.outputSchema, source?.path ?? [])
+      : undefined;
+  };
+
+  // `item` and `results` follow the selected array and result
+  const updateSchema = (key: "item" | "results", schema: JSONSchema7) => {
+    updateNodeData(data.id, (node) => {
+      const prev = node.data as LoopNodeData;
+      return {
+        outputSchema: {
+          ...prev.outputSchema,
+          properties: {
+            ...prev.outputSchema.properties,
+            [key]: schema,
+          },
+        },
+      };
+    });
+  };
+
+  return (
+    <div className="flex flex-col gap-2 text-sm px-4">
+      <div className="flex items-center justify-between">
+        <Label className="text-sm">{t("Workflow.loopSource")}</Label>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <div className="p-1 hover:bg-secondary rounded cursor-pointer">
+              <InfoIcon className="size-3" />
+            </div>
+          </TooltipTrigger>
+          <TooltipContent
+            side="left"
+            align="center"
+            className="p-4 whitespace-pre-wrap max-w-64"
+          >
+            {t("Workflow.loopDescription")}
+          </TooltipContent>
+        </Tooltip>
+      </div>
+      <VariableSelect
+        currentNodeId={data.id}
+        allowedTypes={["array"]}
+        onChange={(item) => {
+          const source = { nodeId: item.nodeId, path: item.path };
+          const schema = findSchema(source);
+          updateNodeData(data.id, { source });
+          updateSchema(
+            "item",
+            (schema?.items as JSONSchema7) ?? { type: "object" },
+          );
+        }}
+      >
+        <SourceTrigger
+          source={data.source}
+          schema={findSchema(data.source)}
+          nodes={nodes}
+        />
+      </VariableSelect>
+
+      <Label className="text-sm mt-2">{t("Workflow.loopResult")}</Label>
+      <VariableSelect
+        currentNodeId={data.id}
+        nodeIds={bodyNodeIds}
+        onChange={(item) => {
+          const result = { nodeId: item.nodeId, path: item.path };
+          updateNodeData(data.id, { result });
+          updateSchema("results", {
+            type: "array",
+            items: findSchema(result) ?? { type: "object" },
+          });
+        }}
+      >
+        <SourceTrigger
+          source={data.result}
+          schema={findSchema(data.result)}
+          nodes={nodes}
+        />
+      </VariableSelect>
+
+      <Separator className="my-4" />
+      <div className="flex items-center gap-2">
+        <div className="flex flex-col gap-2 flex-1">
+          <Label htmlFor="loop-concurrency" className="text-sm">
+            {t("Workflow.concurrency")}
+          </Label>
+          <Input
+            id="loop-concurrency"
+            type="number"
+            value={data.concurrency || 1}
+            onChange={(e) =>
+              updateNodeData(data.id, {
+                concurrency: parseInt(e.target.value) || 1,
+              })
+            }
+            min={1}
+            max={10}
+          />
+        </div>
+        <div className="flex flex-col gap-2 flex-1">
+          <Label htmlFor="loop-max-iterations" className="text-sm">
+            {t("Workflow.maxIterations")}
+          </Label>
+          <Input
+            id="loop-max-iterations"
+            type="number"
+            value={data.maxIterations || 100}
+            onChange={(e) =>
+              updateNodeData(data.id, {
+                maxIterations: parseInt(e.target.value) || 100,
+              })
+            }
+            min={1}
+            max={1000}
+          />
+        </div>
+      </div>
+    </div>
+  );
+});
+
+function SourceTrigger({
+  source,
+  schema,
+  nodes,
+}: {
+  source?: OutputSchemaSourceKey;
+  schema?: JSONSchema7;
+  nodes: UINode[];
+}) {
+  const sourceNode = nodes.find((node) => node.data.id === source?.nodeId);
+  const isNotFound = (source && !sourceNode) || (sourceNode && !schema);
+  return (
+    <div className="w-full flex text-[10px] items-center gap-1 p-2.5 border border-input bg-background rounded-lg cursor-pointer">
+      {isNotFound ? (
+        <TriangleAlertIcon className="size-3 text-destructive" />
+      ) : (
+        <VariableIcon className="size-3 text-blue-500" />
+      )}
+      <span>{sourceNode?.data.name}/</span>
+      <span className="truncate min-w-0 text-blue-500 flex-1">
+        {source?.path.join(".")}
+      </span>
+      <span className="text-muted-foreground">{schema?.type}</span>
+      <ChevronDownIcon className="size-3 ml-auto" />
+    </div>
+  );
+}
+
+export function LoopNodeDataStack({ data }: { data: LoopNodeData }) {
+  const t = useTranslations();
+  const [openNodeSelect, setOpenNodeSelect] = useState(false);
+  const update = useUpdate();
+  const { addNodes, addEdges, updateNode, getNodes, getEdges } = useReactFlow();
+
+  const sourceNode = (getNodes() as UINode[]).find(
+    (node) => node.data.id === data.source?.nodeId,
+  );
+
+  const appendNode = (kind: NodeKind) => {
+    setOpenNodeSelect(false);
+    const allNodes = getNodes() as UINode[];
+    const { node: newNode, edge: newEdge } = createAppendNode({
+      sourceNode: allNodes.find((node) => node.data.id === data.id)!,
+      kind,
+      allNodes,
+      edge: {
+        sourceHandle: LOOP_BODY_HANDLE,
+      },
+      allEdges: getEdges(),
+    });
+
+    addNodes([newNode]);
+    if (newEdge) {
+      addEdges([newEdge]);
+    }
+    update(() => {
+      updateNode(data.id, {
+        selected: false,
+      });
+    });
+  };
+
+  return (
+    <div className="flex flex-col gap-2 mt-4">
+      {data.source && (
+        <div className="px-4">
+          <VariableMentionItem
+            nodeName={sourceNode?.data.name || "ERROR"}
+            path={data.source.path}
+            notFound={!sourceNode}
+            className="text-[10px] ring-0 w-full"
+          />
+        </div>
+      )}
+      <div className="relative">
+        <Handle
+          type="source"
+          position={Position.Right}
+          className="z-10 border-none! bg-blue-500! h-5! w-5! rounded-full! -right-0! flex items-center justify-center"
+          id={LOOP_BODY_HANDLE}
+          isConnectable={true}
+          onMouseUp={() => setOpenNodeSelect(true)}
+        >
+          <div className="pointer-events-none">
+            <PlusIcon className="size-4 text-white stroke-4" />
+          </div>
+        </Handle>
+        <NodeSelect
+          onChange={appendNode}
+          open={openNodeSelect}
+          onOpenChange={setOpenNodeSelect}
+        >
+          <PlusIcon className={"sr-only"} />
+        </NodeSelect>
+        <div className="px-4">
+          <div className="px-2 w-full text-xs py-1 font-bold bg-input border rounded-xs flex">
+            <span className="text-blue-500">
+              {t("Workflow.loopBody").toUpperCase()}
+            </span>
+            <span className="text-muted-foreground ml-auto">
+              x{data.concurrency || 1}
+            </span>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
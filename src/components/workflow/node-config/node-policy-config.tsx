@@ -0,0 +1,264 @@
+"use client";
+
+import { Handle, Position, useReactFlow } from "@xyflow/react";
+import {
+  NodeErrorMode,
+  NodeExecutionPolicy,
+  NodeKind,
+  UINode,
+  WorkflowNodeData,
+} from "lib/ai/workflow/workflow.interface";
+import {
+  DEFAULT_RETRY_DELAY,
+  NODE_ERROR_HANDLE,
+  nodeErrorOutputSchema,
+} from "lib/ai/workflow/node-policy";
+import { memo, useState } from "react";
+import { InfoIcon, PlusIcon } from "lucide-react";
+import { useTranslations } from "next-intl";
+import { Input } from "ui/input";
+import { Label } from "ui/label";
+import { Textarea } from "ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "ui/select";
+import { Tooltip, TooltipContent, TooltipTrigger } from "ui/tooltip";
+import { NodeSelect } from "../node-select";
+import { useUpdate } from "@/hooks/use-update";
+import { createAppendNode } from "../create-append-node";
+
+const ERROR_MODES: { value: NodeErrorMode; label: string }[] = [
+  { value: "fail", label: "Workflow.onErrorFail" },
+  { value: "continue", label: "Workflow.onErrorContinue" },
+  { value: "branch", label: "Workflow.onErrorBranch" },
+];
+
+export const NodePolicyConfig = memo(function NodePolicyConfig({
+  data,
+}: {
+  data: WorkflowNodeData;
+}) {
+  const t = useTranslations();
+  const { updateNodeData, setEdges } = useReactFlow<UINode>();
+  const policy = data.policy ?? {};
+  const [defaultOutputText, setDefaultOutputText] = useState(() =>
+    JSON.stringify(policy.defaultOutput ?? {}, null, 2),
+  );
+  const [isInvalidJson, setIsInvalidJson] = useState(false);
+
+  const updatePolicy = (update: Partial<NodeExecutionPolicy>) => {
+    updateNodeData(data.id, (node) => ({
+      policy: { ...node.data.policy, ...update },
+    }));
+  };
+
+  const changeErrorMode = (onError: NodeErrorMode) => {
+    updateNodeData(data.id, (node) => {
+      // A node that lets the workflow go on outputs the error it failed with
+      const { error: _error, ...properties } =
+        node.data.outputSchema.properties ?? {};
+      return {
+        policy: { ...node.data.policy, onError },
+        outputSchema: {
+          ...node.data.outputSchema,
+          properties:
+            onError == "fail"
+              ? properties
+              : { ...properties, error: nodeErrorOutputSchema },
+        },
+      };
+    });
+    // Error edges are only followed in the branch mode
+    if (onError != "branch") {
+      setEdges((edges) =>
+        edges.filter(
+          (edge) =>
+            edge.source != data.id || edge.sourceHandle != NODE_ERROR_HANDLE,
+        ),
+      );
+    }
+  };
+
+  const changeDefaultOutput = (text: string) => {
+    setDefaultOutputText(text);
+    try {
+      const defaultOutput = JSON.parse(text);
+      setIsInvalidJson(false);
+      updatePolicy({ defaultOutput });
+    } catch {
+      setIsInvalidJson(true);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2 text-sm px-4">
+      <div className="flex items-center justify-between">
+        <Label className="text-sm">{t("Workflow.executionPolicy")}</Label>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <div className="p-1 hover:bg-secondary rounded cursor-pointer">
+              <InfoIcon className="size-3" />
+            </div>
+          </TooltipTrigger>
+          <TooltipContent
+            side="left"
+            align="center"
+            className="p-4 whitespace-pre-wrap max-w-64"
+          >
+            {t("Workflow.executionPolicyDescription")}
+          </TooltipContent>
+        </Tooltip>
+      </div>
+      <div className="flex items-center gap-2">
+        <div className="flex flex-col gap-2 flex-1">
+          <Label htmlFor="policy-max-retries" className="text-xs">
+            {t("Workflow.maxRetries")}
+          </Label>
+          <Input
+            id="policy-max-retries"
+            type="number"
+            value={policy.maxRetries ?? 0}
+            onChange={(e) =>
+              updatePolicy({ maxRetries: parseInt(e.target.value) || 0 })
+            }
+            min={0}
+            max={5}
+          />
+        </div>
+        <div className="flex flex-col gap-2 flex-1">
+          <Label htmlFor="policy-retry-delay" className="text-xs">
+            {t("Workflow.retryDelayMs")}
+          </Label>
+          <Input
+            id="policy-retry-delay"
+            type="number"
+            disabled={!policy.maxRetries}
+            value={policy.retryDelay ?? DEFAULT_RETRY_DELAY}
+            onChange={(e) =>
+              updatePolicy({ retryDelay: parseInt(e.target.value) || 0 })
+            }
+            min={0}
+            max={60000}
+            step={500}
+          />
+        </div>
+      </div>
+      <Label htmlFor="policy-timeout" className="text-xs mt-2">
+        {t("Workflow.timeoutMs")}
+      </Label>
+      <Input
+        id="policy-timeout"
+        type="number"
+        placeholder={t("Workflow.noTimeout")}
+        value={policy.timeout ?? ""}
+        onChange={(e) =>
+          updatePolicy({ timeout: parseInt(e.target.value) || undefined })
+        }
+        min={1000}
+        max={600000}
+        step={1000}
+      />
+      <Label className="text-xs mt-2">{t("Workflow.onError")}</Label>
+      <Select
+        value={policy.onError ?? "fail"}
+        onValueChange={(value) => changeErrorMode(value as NodeErrorMode)}
+      >
+        <SelectTrigger className="w-full">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {ERROR_MODES.map((mode) => (
+            <SelectItem key={mode.value} value={mode.value}>
+              {t(mode.label)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {policy.onError == "continue" && (
+        <>
+          <Label htmlFor="policy-default-output" className="text-xs mt-2">
+            {t("Workflow.defaultOutput")}
+          </Label>
+          <Textarea
+            id="policy-default-output"
+            value={defaultOutputText}
+            spellCheck={false}
+            onChange={(e) => changeDefaultOutput(e.target.value)}
+            className="font-mono text-xs resize-none h-28 overflow-y-auto"
+          />
+          {isInvalidJson && (
+            <p className="text-xs text-destructive">
+              {t("Workflow.invalidJson")}
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+});
+
+export function NodeErrorHandleStack({ data }: { data: WorkflowNodeData }) {
+  const t = useTranslations();
+  const [openNodeSelect, setOpenNodeSelect] = useState(false);
+  const update = useUpdate();
+  const { addNodes, addEdges, updateNode, getNodes, getEdges } = useReactFlow();
+
+  const appendNode = (kind: NodeKind) => {
+    setOpenNodeSelect(false);
+    const allNodes = getNodes() as UINode[];
+    const { node: newNode, edge: newEdge } = createAppendNode({
+      sourceNode: allNodes.find((node) => node.data.id === data.id)!,
+      kind,
+      allNodes,
+      edge: {
+        sourceHandle: NODE_ERROR_HANDLE,
+      },
+      allEdges: getEdges(),
+    });
+
+    addNodes([newNode]);
+    if (newEdge) {
+      addEdges([newEdge]);
+    }
+    update(() => {
+      updateNode(data.id, {
+        selected: false,
+      });
+    });
+  };
+
+  return (
+    <div className="relative mt-4">
+      <Handle
+        type="source"
+        position={Position.Right}
+        className="z-10 border-none! bg-destructive! h-5! w-5! rounded-full! -right-0! flex items-center justify-center"
+        id={NODE_ERROR_HANDLE}
+        isConnectable={true}
+        onMouseUp={() => setOpenNodeSelect(true)}
+      >
+        <div className="pointer-events-none">
+          <PlusIcon className="size-4 text-white stroke-4" />
+        </div>
+      </Handle>
+      <NodeSelect
+        onChange={appendNode}
+        open={openNodeSelect}
+        onOpenChange={setOpenNodeSelect}
+      >
+        <PlusIcon className={"sr-only"} />
+      </NodeSelect>
+      <div className="px-4">
+        <div className="px-2 w-full text-xs py-1 font-bold bg-input border rounded-xs flex">
+          <span className="text-destructive">
+            {t("Workflow.onError").toUpperCase()}
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,310 @@
+"use client";
+
+import { useReactFlow } from "@xyflow/react";
+import {
+  NodeKind,
+  OutputSchemaSourceKey,
+  SubWorkflowNodeData,
+  UINode,
+} from "lib/ai/workflow/workflow.interface";
+import { memo, useCallback, useMemo, useState } from "react";
+import {
+  ChevronDownIcon,
+  Loader2Icon,
+  TriangleAlertIcon,
+  VariableIcon,
+} from "lucide-react";
+import { useTranslations } from "next-intl";
+import { toast } from "sonner";
+import { Label } from "ui/label";
+import { Separator } from "ui/separator";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "ui/select";
+import { Avatar, AvatarFallback, AvatarImage } from "ui/avatar";
+import { DBEdge, DBNode, WorkflowIcon } from "app-types/workflow";
+import { ObjectJsonSchema7 } from "app-types/util";
+import { fetcher, toAny } from "lib/utils";
+import { findJsonSchemaByPath } from "lib/ai/workflow/shared.workflow";
+import { useWorkflowToolList } from "@/hooks/queries/use-workflow-tool-list";
+import { useWorkflowStore } from "@/app/store/workflow.store";
+import { VariableSelect } from "../variable-select";
+
+/**
+ * Reads the input schema and the shape of the Output node's result from a
+ * workflow's structure.
+ */
+function extractWorkflowSchemas(nodes: DBNode[]): {
+  inputSchema: ObjectJsonSchema7;
+  resultSchema: ObjectJsonSchema7;
+} {
+  const inputNode = nodes.find((node) => node.kind == NodeKind.Input);
+  const outputNode = nodes.find((node) => node.kind == NodeKind.Output);
+  const properties = (outputNode?.nodeConfig.outputData ?? []).reduce(
+    (acc, { key, source }) => {
+      const sourceNode = nodes.find((node) => node.id == source?.nodeId);
+      acc[key] = (sourceNode &&
+        findJsonSchemaByPath(
+          sourceNode.nodeConfig.outputSchema,
+          source.path,
+        )) ?? { type: "string" };
+      return acc;
+    },
+    {} as ObjectJsonSchema7["properties"],
+  );
+  return {
+    inputSchema: inputNode?.nodeConfig.outputSchema ?? {
+      type: "object",
+      properties: {},
+    },
+    resultSchema: { type: "object", properties },
+  };
+}
+
+function WorkflowAvatar({
+  name,
+  icon,
+}: {
+  name: string;
+  icon?: WorkflowIcon;
+}) {
+  return (
+    <div
+      style={{ backgroundColor: icon?.style?.backgroundColor }}
+      className="p-1 rounded flex items-center justify-center ring ring-background border"
+    >
+      <Avatar className="size-3">
+        <AvatarImage src={icon?.value} />
+        <AvatarFallback>{name.slice(0, 1)}</AvatarFallback>
+      </Avatar>
+    </div>
+  );
+}
+
+export const SubWorkflowNodeConfig = memo(function SubWorkflowNodeConfig({
+  data,
+}: {
+  data: SubWorkflowNodeData;
+}) {
+  const t = useTranslations();
+  const { getNodes, updateNodeData } = useReactFlow<UINode>();
+  const currentWorkflowId = useWorkflowStore((state) => state.workflow?.id);
+  const { data: workflowList } = useWorkflowToolList();
+  const [isLoading, setIsLoading] = useState(false);
+
+  // A workflow can't pick itself; longer cycles are caught when it runs
+  const workflows = useMemo(
+    () => workflowList.filter((workflow) => workflow.id != currentWorkflowId),
+    [workflowList, currentWorkflowId],
+  );
+
+  const selectWorkflow = useCallback(
+    async (workflowId: string) => {
+      const workflow = workflows.find((w) => w.id == workflowId);
+      if (!workflow) return;
+      setIsLoading(true);
+      try {
+        const structure: { nodes: DBNode[]; edges: DBEdge[] } = await fetcher(
+          `/api/workflow/${workflow.id}/structure`,
+        );
+        const { inputSchema, resultSchema } = extractWorkflowSchemas(
+          structure.nodes,
+        );
+        updateNodeData(data.id, (node) => {
+          const prev = node.data as SubWorkflowNodeData;
+          return {
+            workflow: {
+              id: workflow.id,
+              name: workflow.name,
+              icon: workflow.icon,
+            },
+            inputSchema,
+            // Keep the mapping of fields that still exist
+            inputs: Object.keys(inputSchema.properties ?? {}).map((key) => ({
+              key,
+              source: prev.inputs.find((input) => input.key == key)?.source,
+            })),
+            outputSchema: {
+              ...prev.outputSchema,
+              properties: {
+                ...prev.outputSchema.properties,
+                result: resultSchema,
+              },
+            },
+          };
+        });
+      } catch (error) {
+        toast.error(toAny(error)?.message);
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [data.id, workflows],
+  );
+
+  const updateInput = useCallback(
+    (key: string, source: OutputSchemaSourceKey) => {
+      updateNodeData(data.id, (node) => {
+        const prev = node.data as SubWorkflowNodeData;
+        return {
+          inputs: prev.inputs.map((input) =>
+            input.key == key ? { ...input, source } : input,
+          ),
+        };
+      });
+    },
+    [data.id],
+  );
+
+  const inputFields = useMemo(() => {
+    const nodes = getNodes();
+    return data.inputs.map(({ key, source }) => {
+      const targetNode = nodes.find((node) => node.data.id === source?.nodeId);
+      const schema = targetNode
+        ? findJsonSchemaByPath(targetNode.data.outputSchema, source?.path ?? [])
+        : undefined;
+      return {
+        key,
+        schema,
+        path: source?.path ?? [],
+        nodeName: targetNode?.data.name,
+        isRequired: data.inputSchema?.required?.includes(key),
+        isNotFound: (source && !targetNode) || (targetNode && !schema),
+      };
+    });
+  }, [data]);
+
+  const resultSchema = data.outputSchema.properties?.result as
+    | ObjectJsonSchema7
+    | undefined;
+
+  return (
+    <div className="flex flex-col gap-2 text-sm px-4">
+      <Label className="text-sm">{t("Workflow.workflow")}</Label>
+      <Select
+        value={data.workflow?.id}
+        onValueChange={selectWorkflow}
+        disabled={isLoading}
+      >
+        <SelectTrigger className="w-full">
+          {isLoading ? (
+            <Loader2Icon className="size-3.5 animate-spin" />
+          ) : data.workflow ? (
+            <div className="flex items-center gap-2 min-w-0">
+              <WorkflowAvatar
+                name={data.workflow.name}
+                icon={data.workflow.icon}
+              />
+              <span className="truncate">{data.workflow.name}</span>
+            </div>
+          ) : (
+            <SelectValue placeholder={t("Workflow.selectWorkflow")} />
+          )}
+        </SelectTrigger>
+        <SelectContent>
+          {workflows.length ? (
+            workflows.map((workflow) => (
+              <SelectItem key={workflow.id} value={workflow.id}>
+                <WorkflowAvatar name={workflow.name} icon={workflow.icon} />
+                <span className="truncate">{workflow.name}</span>
+              </SelectItem>
+            ))
+          ) : (
+            <div className="text-xs text-muted-foreground p-2">
+              {t("Workflow.noPublishedWorkflows")}
+            </div>
+          )}
+        </SelectContent>
+      </Select>
+
+      {data.workflow && (
+        <>
+          <Separator className="my-4" />
+          <Label className="text-sm">{t("Workflow.inputFields")}</Label>
+          <div className="flex flex-col gap-2">
+            {inputFields.length == 0 && (
+              <p className="text-xs text-muted-foreground">
+                {t("Workflow.noInputFields")}
+              </p>
+            )}
+            {inputFields.map((item) => (
+              <div className="flex items-center gap-1" key={item.key}>
+                <span className="w-24 truncate text-xs font-semibold">
+                  {item.key}
+                  {item.isRequired && (
+                    <span className="text-destructive">*</span>
+                  )}
+                </span>
+                <VariableSelect
+                  currentNodeId={data.id}
+                  onChange={(variable) =>
+                    updateInput(item.key, {
+                      nodeId: variable.nodeId,
+                      path: variable.path,
+                    })
+                  }
+                >
+                  <div className="flex-1 min-w-0 w-full flex text-[10px] items-center gap-1 p-2.5 border border-input bg-background rounded-lg cursor-pointer">
+                    {item.isNotFound ? (
+                      <TriangleAlertIcon className="size-3 text-destructive" />
+                    ) : (
+                      <VariableIcon className="size-3 text-blue-500" />
+                    )}
+                    <span>{item.nodeName}/</span>
+                    <span className="truncate min-w-0 text-blue-500 flex-1">
+                      {item.path.join(".")}
+                    </span>
+                    <span className="text-muted-foreground">
+                      {item.schema?.type}
+                    </span>
+                    <ChevronDownIcon className="size-3 ml-auto" />
+                  </div>
+                </VariableSelect>
+              </div>
+            ))}
+          </div>
+
+          <Separator className="my-4" />
+          <Label className="text-sm">{t("Workflow.outputSchema")}</Label>
+          <div className="flex items-center flex-wrap gap-1">
+            {Object.entries(resultSchema?.properties ?? {}).map(
+              ([key, schema]) => (
+                <div
+                  key={key}
+                  className="flex items-center text-xs px-1.5 py-0.5 bg-secondary rounded-md"
+                >
+                  <VariableIcon className="size-3.5 text-blue-500" />
+                  <span className="font-semibold">{`result.${key}`}</span>
+                  <span className="text-muted-foreground ml-2">
+                    {toAny(schema)?.type}
+                  </span>
+                </div>
+              ),
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+});
+
+export const SubWorkflowNodeDataStack = memo(function SubWorkflowNodeDataStack({
+  data,
+}: { data: SubWorkflowNodeData }) {
+  if (!data.workflow) return null;
+  return (
+    <div className="flex flex-col gap-1 px-4 mt-4">
+      <div className="border bg-input text-[10px] rounded px-2 py-1 flex items-center gap-1">
+        <WorkflowAvatar name={data.workflow.name} icon={data.workflow.icon} />
+        <span className="font-semibold truncate">{data.workflow.name}</span>
+        <span className="ml-auto text-muted-foreground">
+          {data.inputs.map((input) => input.key).join(", ")}
+        </span>
+      </div>
+    </div>
+  );
+});
@@ -0,0 +1,235 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import useSWR from "swr";
+import { useReactFlow } from "@xyflow/react";
+import { formatDistanceToNow } from "date-fns";
+import {
+  ArrowLeftIcon,
+  CheckIcon,
+  Loader2Icon,
+  RotateCcwIcon,
+  StepForwardIcon,
+  TriangleAlertIcon,
+} from "lucide-react";
+import { useTranslations } from "next-intl";
+import { DBWorkflowRun, WorkflowRunSummary } from "app-types/workflow";
+import { UINode } from "lib/ai/workflow/workflow.interface";
+import { cn, fetcher } from "lib/utils";
+import { Alert, AlertDescription, AlertTitle } from "ui/alert";
+import { Badge } from "ui/badge";
+import { Button } from "ui/button";
+import JsonView from "ui/json-view";
+import { Separator } from "ui/separator";
+import { NodeHistoryItem } from "../node-result-popup";
+
+// Runs come back from the API with their dates as strings
+const toTime = (date: Date | string) => new Date(date).getTime();
+
+function RunStatusIcon({ status }: { status: DBWorkflowRun["status"] }) {
+  return status == "fail" ? (
+    <TriangleAlertIcon className="size-3 text-destructive" />
+  ) : (
+    <CheckIcon className="size-3" />
+  );
+}
+
+export function WorkflowRuns({
+  workflowId,
+  disabled,
+  onRerun,
+  onResume,
+}: {
+  workflowId: string;
+  disabled?: boolean;
+  onRerun: (query: Record<string, any>) => void;
+  onResume: (run: DBWorkflowRun) => void;
+}) {
+  const t = useTranslations();
+  const [selectedRunId, setSelectedRunId] = useState<string>();
+  const { data: runs, isLoading } = useSWR<WorkflowRunSummary[]>(
+    `/api/workflow/${workflowId}/runs`,
+    fetcher,
+  );
+
+  if (selectedRunId) {
+    return (
+      <WorkflowRunDetail
+        workflowId={workflowId}
+        runId={selectedRunId}
+        disabled={disabled}
+        onBack={() => setSelectedRunId(undefined)}
+        onRerun={onRerun}
+        onResume={onResume}
+      />
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-40">
+        <Loader2Icon className="size-4 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!runs?.length) {
+    return (
+      <p className="text-sm text-muted-foreground text-center py-10">
+        {t("Workflow.noRuns")}
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex flex-col px-4">
+      {runs.map((run) => (
+        <div
+          key={run.id}
+          onClick={() => setSelectedRunId(run.id)}
+          className={cn(
+            "cursor-pointer hover:bg-secondary flex items-center gap-2 text-sm rounded-sm px-2 py-1.5",
+            run.status == "fail" && "text-destructive",
+          )}
+        >
+          <RunStatusIcon status={run.status} />
+          <span className="font-semibold">
+            {formatDistanceToNow(new Date(run.startedAt), { addSuffix: true })}
+          </span>
+          {run.startNodeId && <StepForwardIcon className="size-3" />}
+          <span
+            className={cn(
+              "ml-auto text-xs",
+              run.status != "fail" && "text-muted-foreground",
+            )}
+          >
+            {((toTime(run.endedAt) - toTime(run.startedAt)) / 1000).toFixed(2)}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function WorkflowRunDetail({
+  workflowId,
+  runId,
+  disabled,
+  onBack,
+  onRerun,
+  onResume,
+}: {
+  workflowId: string;
+  runId: string;
+  disabled?: boolean;
+  onBack: () => void;
+  onRerun: (query: Record<string, any>) => void;
+  onResume: (run: DBWorkflowRun) => void;
+}) {
+  const t = useTranslations();
+  const { setNodes } = useReactFlow<UINode>();
+  const { data: run } = useSWR<DBWorkflowRun>(
+    `/api/workflow/${workflowId}/runs/${runId}`,
+    fetcher,
+  );
+
+  // Show the run's node statuses on the canvas
+  useEffect(() => {
+    if (!run) return;
+    setNodes((nodes) =>
+      nodes.map((node) => {
+        const history = run.histories.findLast((h) => h.nodeId == node.id);
+        if (node.data.runtime?.status == history?.status) return node;
+        return {
+          ...node,
+          data: { ...node.data, runtime: { status: history?.status } },
+        };
+      }),
+    );
+  }, [run]);
+
+  if (!run) {
+    return (
+      <div className="flex items-center justify-center h-40">
+        <Loader2Icon className="size-4 animate-spin" />
+      </div>
+    );
+  }
+
+  const startNode = run.histories.find((h) => h.nodeId == run.startNodeId);
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex items-center gap-2 px-4">
+        <Button variant="ghost" size="icon" onClick={onBack}>
+          <ArrowLeftIcon className="size-3.5" />
+        </Button>
+        <Badge
+          className="font-semibold"
+          variant={run.status == "fail" ? "destructive" : "default"}
+        >
+          {run.status}
+        </Badge>
+        <span className="text-xs text-muted-foreground ml-auto">
+          {new Date(run.startedAt).toLocaleString()}
+        </span>
+      </div>
+      {startNode && (
+        <p className="text-xs text-muted-foreground px-4">
+          {t("Workflow.resumedFrom", { name: startNode.name })}
+        </p>
+      )}
+
+      <div className="flex flex-col px-4">
+        {run.histories.map((history, i) => (
+          <NodeHistoryItem
+            history={history}
+            connected={i != 0}
+            key={history.id}
+            // Node runs carried over from the run this one resumed
+            className={cn(
+              history.startedAt < toTime(run.startedAt) && "opacity-50",
+            )}
+          />
+        ))}
+      </div>
+
+      {run.error && (
+        <div className="px-4">
+          <Alert variant="destructive" className="border-destructive">
+            <TriangleAlertIcon />
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>{run.error}</AlertDescription>
+          </Alert>
+        </div>
+      )}
+
+      <Separator />
+      <div className="px-4 flex flex-col gap-2">
+        <p className="font-semibold text-sm">{t("Workflow.runInput")}</p>
+        <JsonView data={run.query} />
+      </div>
+
+      <div className="px-4 flex flex-col gap-2">
+        <Button
+          variant="secondary"
+          disabled={disabled}
+          onClick={() => onRerun(run.query)}
+        >
+          <RotateCcwIcon />
+          {t("Workflow.rerunWithSameInput")}
+        </Button>
+        {run.status == "fail" && (
+          <Button
+            variant="secondary"
+            disabled={disabled}
+            onClick={() => onResume(run)}
+          >
+            <StepForwardIcon />
+            {t("Workflow.rerunFromFailedNode")}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
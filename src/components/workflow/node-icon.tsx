@@ -9,9 +9,11 @@ import {
   HouseIcon,
   InfoIcon,
   LandPlotIcon,
+  RepeatIcon,
   SplitIcon,
   TerminalIcon,
   TextIcon,
+  WorkflowIcon,
   WrenchIcon,
 } from "lucide-react";
 import { useMemo } from "react";
@@ -41,6 +43,10 @@ export function NodeIcon({
         return TextIcon;
       case NodeKind.Code:
         return TerminalIcon;
+      case NodeKind.Loop:
+        return RepeatIcon;
+      case NodeKind.Workflow:
+        return WorkflowIcon;
       default:
         return BoxIcon;
     }
@@ -57,13 +63,13 @@ export function NodeIcon({
               ? "text-foreground bg-input"
               : type === NodeKind.LLM
                 ? "bg-indigo-500"
-                : type === NodeKind.Tool
+                : type === NodeKind.Tool || type === NodeKind.Workflow
                   ? "bg-blue-500"
                   : type === NodeKind.Code || type === NodeKind.Http
                     ? "bg-rose-500"
                     : type === NodeKind.Template
                       ? "bg-purple-500"
-                      : type === NodeKind.Condition
+                      : type === NodeKind.Condition || type === NodeKind.Loop
                         ? "bg-amber-500"
                         : "bg-card",
         "p-1 rounded",
@@ -18,6 +18,7 @@ import {
   CopyIcon,
   Loader2Icon,
   TriangleAlertIcon,
+  XIcon,
 } from "lucide-react";
 import JsonView from "ui/json-view";
 import { useCopy } from "@/hooks/use-copy";
@@ -25,6 +26,9 @@ import { Button } from "ui/button";
 import { cn, errorToString } from "lib/utils";
 import { Alert, AlertDescription, AlertTitle } from "ui/alert";
 import { useTranslations } from "next-intl";
+import { Separator } from "ui/separator";
+import { TextShimmer } from "ui/text-shimmer";
+import { NodeIcon } from "./node-icon";
 
 export function NodeResultPopup({
   history,
@@ -33,7 +37,14 @@ export function NodeResultPopup({
 }: {
   history: Pick<
     NodeRuntimeHistory,
-    "name" | "status" | "startedAt" | "endedAt" | "error" | "result"
+    | "name"
+    | "status"
+    | "startedAt"
+    | "endedAt"
+    | "error"
+    | "result"
+    | "logs"
+    | "histories"
   >;
   children: ReactNode;
   disabled?: boolean;
@@ -41,7 +52,9 @@ export function NodeResultPopup({
   const { copy, copied } = useCopy();
   const t = useTranslations();
 
-  const [tab, setTab] = useState<"input" | "output">("output");
+  const [tab, setTab] = useState<"input" | "output" | "logs" | "history">(
+    "output",
+  );
 
   const duration = useMemo(() => {
     if (history.endedAt) {
@@ -124,9 +137,41 @@ export function NodeResultPopup({
               >
                 output
               </Button>
+              {!!history.logs?.length && (
+                <Button
+                  key="logs"
+                  variant="ghost"
+                  className={cn(
+                    "rounded-none",
+                    tab == "logs" && "border-b border-primary",
+                  )}
+                  onClick={() => setTab("logs")}
+                >
+                  logs
+                </Button>
+              )}
+              {!!history.histories?.length && (
+                <Button
+                  key="history"
+                  variant="ghost"
+                  className={cn(
+                    "rounded-none",
+                    tab == "history" && "border-b border-primary",
+                  )}
+                  onClick={() => setTab("history")}
+                >
+                  history
+                </Button>
+              )}
             </div>
             <div className="flex flex-col gap-2 w-full p-4 pt-2 min-w-0">
-              {tab == "output" && history.status === "fail" ? null : (
+              {tab == "history" ? (
+                <NestedHistories histories={history.histories ?? []} />
+              ) : tab == "logs" ? (
+                <pre className="text-xs font-mono whitespace-pre-wrap break-all bg-secondary rounded-md p-4">
+                  {history.logs?.join("\n")}
+                </pre>
+              ) : tab == "output" && history.status === "fail" ? null : (
                 <>
                   <Button
                     variant="ghost"
@@ -157,7 +202,7 @@ export function NodeResultPopup({
                     {errorToString(history.error)}
                   </AlertDescription>
                 </Alert>
-              ) : (
+              ) : tab == "logs" || tab == "history" ? null : (
                 <JsonView
                   initialExpandDepth={4}
                   data={
@@ -174,3 +219,76 @@ export function NodeResultPopup({
     </Dialog>
   );
 }
+
+// Node runs of a called workflow, each opening its own result
+function NestedHistories({ histories }: { histories: NodeRuntimeHistory[] }) {
+  return (
+    <div className="flex flex-col">
+      {histories.map((history) => (
+        <NodeHistoryItem history={history} key={history.id} />
+      ))}
+    </div>
+  );
+}
+
+/**
+ * A node run as one row of a run's timeline, opening its result on click.
+ * `connected` draws the line from the row above.
+ */
+export function NodeHistoryItem({
+  history,
+  connected,
+  className,
+}: {
+  history: NodeRuntimeHistory;
+  connected?: boolean;
+  className?: string;
+}) {
+  return (
+    <NodeResultPopup history={history}>
+      <div
+        className={cn(
+          "cursor-pointer hover:bg-secondary flex items-center gap-2 text-sm rounded-sm px-2 py-1.5 relative",
+          history.status == "fail" && "text-destructive",
+          className,
+        )}
+      >
+        {connected && (
+          <div className="absolute left-4.5 -top-1.5 w-px h-3">
+            <Separator orientation="vertical" />
+          </div>
+        )}
+        <div className="border rounded overflow-hidden">
+          <NodeIcon
+            type={history.kind}
+            iconClassName="size-3"
+            className="rounded-none"
+          />
+        </div>
+        {history.status == "running" ? (
+          <TextShimmer className="font-semibold">
+            {`${history.name} Running...`}
+          </TextShimmer>
+        ) : (
+          <span className="font-semibold">{history.name}</span>
+        )}
+        <span
+          className={cn(
+            "ml-auto text-xs",
+            history.status != "fail" && "text-muted-foreground",
+          )}
+        >
+          {history.endedAt &&
+            ((history.endedAt - history.startedAt) / 1000).toFixed(2)}
+        </span>
+        {history.status == "success" ? (
+          <CheckIcon className="size-3" />
+        ) : history.status == "fail" ? (
+          <XIcon className="size-3" />
+        ) : (
+          <Loader2Icon className="size-3 animate-spin" />
+        )}
+      </div>
+    </NodeResultPopup>
+  );
+}
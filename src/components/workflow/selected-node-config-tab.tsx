@@ -21,6 +21,11 @@ import { nextTick } from "lib/utils";
 import { ToolNodeDataConfig } from "./node-config/tool-node-config";
 import { HttpNodeConfig } from "./node-config/http-node-config";
 import { TemplateNodeConfig } from "./node-config/template-node-config";
+import { CodeNodeConfig } from "./node-config/code-node-config";
+import { LoopNodeConfig } from "./node-config/loop-node-config";
+import { SubWorkflowNodeConfig } from "./node-config/sub-workflow-node-config";
+import { NodePolicyConfig } from "./node-config/node-policy-config";
+import { POLICY_NODE_KINDS } from "lib/ai/workflow/node-policy";
 import { useTranslations } from "next-intl";
 
 export function SelectedNodeConfigTab({ node }: { node: UINode }) {
@@ -99,6 +104,12 @@ export function SelectedNodeConfigTab({ node }: { node: UINode }) {
           <HttpNodeConfig node={node} />
         ) : node.data.kind === NodeKind.Template ? (
           <TemplateNodeConfig data={node.data} />
+        ) : node.data.kind === NodeKind.Code ? (
+          <CodeNodeConfig data={node.data} />
+        ) : node.data.kind === NodeKind.Loop ? (
+          <LoopNodeConfig data={node.data} />
+        ) : node.data.kind === NodeKind.Workflow ? (
+          <SubWorkflowNodeConfig data={node.data} />
         ) : node.data.kind === NodeKind.Note ? (
           <div className="h-full flex flex-col gap-2 px-4">
             <Label
@@ -121,6 +132,13 @@ export function SelectedNodeConfigTab({ node }: { node: UINode }) {
         ) : null}
       </div>
 
+      {POLICY_NODE_KINDS.includes(node.data.kind) && (
+        <>
+          <Separator className="my-6" />
+          <NodePolicyConfig data={node.data} />
+        </>
+      )}
+
       {![NodeKind.Output, NodeKind.Note].includes(node.data.kind) && (
         <>
           <Separator className="my-6" />
@@ -27,6 +27,8 @@ import { useTranslations } from "next-intl";
 interface VariableSelectProps {
   currentNodeId: string;
   allowedTypes?: string[];
+  // Offers these nodes instead of the ones before the current node
+  nodeIds?: string[];
   children: React.ReactNode;
   onChange: (item: {
     nodeId: string;
@@ -41,6 +43,7 @@ export function VariableSelect({
   onChange,
   children,
   allowedTypes,
+  nodeIds,
 }: VariableSelectProps) {
   const [open, setOpen] = useState(false);
   return (
@@ -50,6 +53,7 @@ export function VariableSelect({
         <VariableSelectContent
           currentNodeId={currentNodeId}
           allowedTypes={allowedTypes}
+          nodeIds={nodeIds}
           onClose={() => {
             setOpen(false);
           }}
@@ -67,6 +71,7 @@ export function VariableSelectContent({
   currentNodeId,
   onChange,
   allowedTypes,
+  nodeIds,
   onClose,
 }: Omit<VariableSelectProps, "children"> & {
   onClose?: () => void;
@@ -79,11 +84,13 @@ export function VariableSelectContent({
   const firstNodeRef = useRef<HTMLDivElement>(null);
 
   const accessibleSchemas = useMemo(() => {
-    const accessibleNodes = findAccessibleNodeIds({
-      nodeId: currentNodeId,
-      nodes: nodes.map((node) => node.data),
-      edges,
-    });
+    const accessibleNodes =
+      nodeIds ??
+      findAccessibleNodeIds({
+        nodeId: currentNodeId,
+        nodes: nodes.map((node) => node.data),
+        edges,
+      });
     return nodes
       .filter((node) => accessibleNodes.includes(node.id))
       .map((node) => {
@@ -97,7 +104,7 @@ export function VariableSelectContent({
       .filter((v) => {
         return v.schema && Object.keys(v.schema).length;
       });
-  }, [nodes, currentNodeId, edges]);
+  }, [nodes, currentNodeId, edges, nodeIds]);
 
   const filteredNodes = useMemo<ReactNode[]>(() => {
     const first = [firstNodeRef];
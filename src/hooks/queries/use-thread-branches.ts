@@ -0,0 +1,23 @@
+"use client";
+import useSWR, { SWRConfiguration } from "swr";
+import { fetcher } from "lib/utils";
+import { ChatBranchPoint } from "app-types/chat";
+
+export const getThreadBranchesKey = (threadId: string) =>
+  `/api/thread/${threadId}/branches`;
+
+export function useThreadBranches(
+  threadId: string | null,
+  options?: SWRConfiguration,
+) {
+  return useSWR<ChatBranchPoint[]>(
+    threadId ? getThreadBranchesKey(threadId) : null,
+    fetcher,
+    {
+      errorRetryCount: 0,
+      revalidateOnFocus: false,
+      fallbackData: [],
+      ...options,
+    },
+  );
+}
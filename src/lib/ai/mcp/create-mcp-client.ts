@@ -1,13 +1,31 @@
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
-import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import {
+  getDefaultEnvironment,
+  StdioClientTransport,
+} from "@modelcontextprotocol/sdk/client/stdio.js";
 import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
 import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
 import {
+  auth,
+  UnauthorizedError,
+} from "@modelcontextprotocol/sdk/client/auth.js";
+import {
+  CreateMessageRequestSchema,
+  ElicitRequestSchema,
+  LoggingMessageNotificationSchema,
+  ToolListChangedNotificationSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import {
+  type GetPromptResult,
+  type MCPPromptInfo,
   type MCPServerInfo,
   MCPRemoteConfigZodSchema,
   MCPStdioConfigZodSchema,
+  type MCPResourceInfo,
+  type MCPResourceTemplateInfo,
   type MCPServerConfig,
   type MCPToolInfo,
+  type ReadResourceResult,
 } from "app-types/mcp";
 import { jsonSchema, Tool, tool, ToolExecutionOptions } from "ai";
 import { isMaybeRemoteConfig, isMaybeStdioConfig } from "./is-mcp-config";
@@ -29,12 +47,43 @@ import {
   IS_MCP_SERVER_REMOTE_ONLY,
   IS_VERCEL_ENV,
 } from "lib/const";
+import type { MCPOAuthClientProvider } from "./mcp-oauth-provider";
+import type {
+  MCPInteractionBroker,
+  MCPInteractionChannel,
+} from "./mcp-interaction";
+import { MCPServerHealthTracker } from "./mcp-health";
+import {
+  assertStdioCommandAllowed,
+  getStdioEnvironment,
+} from "./mcp-stdio-policy";
+import path from "node:path";
 
 type ClientOptions = {
   autoDisconnectSeconds?: number;
+  // Authorizes requests to a remote server that requires OAuth
+  oauthProvider?: MCPOAuthClientProvider;
+  // Answers the server's sampling and elicitation requests
+  interactions?: MCPInteractionBroker;
 };
 
 const CONNET_TIMEOUT = IS_VERCEL_ENV ? 15000 : 120000;
+const PING_TIMEOUT = 10000;
+
+export type MCPToolCallOptions = {
+  abortSignal?: AbortSignal;
+  onProgress?: (progress: {
+    progress: number;
+    total?: number;
+    message?: string;
+  }) => void;
+  // Log messages aren't tied to a request, so this gets the messages the
+  // server logs while no other call runs on it
+  onLog?: (log: { level: string; message: string }) => void;
+  // The chat that made the call, shown the sampling and elicitation
+  // requests the server makes while only this chat's calls run on it
+  interactionChannel?: MCPInteractionChannel;
+};
 
 /**
  * Client class for Model Context Protocol (MCP) server connections
@@ -45,10 +94,18 @@ export class MCPClient {
   private isConnected = false;
   private log: ConsolaInstance;
   private locker = new Locker();
+  // Options of the tool calls running on the server
+  private runningCalls = new Set<MCPToolCallOptions>();
   // Information about available tools from the server
   toolInfo: MCPToolInfo[] = [];
   // Tool instances that can be used for AI functions
   tools: { [key: string]: Tool } = {};
+  // Resources and resource templates the server exposes, if it supports them
+  resourceInfo: MCPResourceInfo[] = [];
+  resourceTemplateInfo: MCPResourceTemplateInfo[] = [];
+  // Prompt templates the server publishes, if it supports them
+  promptInfo: MCPPromptInfo[] = [];
+  readonly health = new MCPServerHealthTracker();
 
   constructor(
     private name: string,
@@ -72,12 +129,37 @@ export class MCPClient {
         ? "loading"
         : this.isConnected
           ? "connected"
-          : "disconnected",
+          : this.options.oauthProvider?.authorizationUrl
+            ? "authorizing"
+            : "disconnected",
       error: this.error,
+      authorizationUrl:
+        this.options.oauthProvider?.authorizationUrl?.toString(),
       toolInfo: this.toolInfo,
+      resourceInfo: this.resourceInfo,
+      resourceTemplateInfo: this.resourceTemplateInfo,
+      promptInfo: this.promptInfo,
+      health: this.health.getInfo(),
     };
   }
 
+  /**
+   * The request limit the server's config sets, if any
+   */
+  private get requestTimeout() {
+    return isMaybeStdioConfig(this.serverConfig) &&
+      this.serverConfig.timeoutSeconds
+      ? this.serverConfig.timeoutSeconds * 1000
+      : undefined;
+  }
+
+  /**
+   * The chats of the running calls, one entry per call
+   */
+  private getRunningChannels() {
+    return [...this.runningCalls].map((call) => call.interactionChannel);
+  }
+
   private scheduleAutoDisconnect() {
     if (this.options.autoDisconnectSeconds) {
       this.disconnectDebounce(() => {
@@ -107,10 +189,60 @@ export class MCPClient {
       const startedAt = Date.now();
       this.locker.lock();
 
-      const client = new Client({
-        name: "luminar-ai",
-        version: "1.0.0",
-      });
+      const interactions = this.options.interactions;
+      const client = new Client(
+        {
+          name: "luminar-ai",
+          version: "1.0.0",
+        },
+        {
+          capabilities: interactions ? { sampling: {}, elicitation: {} } : {},
+        },
+      );
+      if (interactions) {
+        client.setRequestHandler(CreateMessageRequestSchema, (request) =>
+          interactions.sampling(
+            this.name,
+            request.params,
+            this.getRunningChannels(),
+          ),
+        );
+        client.setRequestHandler(ElicitRequestSchema, (request) =>
+          interactions.elicitation(
+            this.name,
+            request.params,
+            this.getRunningChannels(),
+          ),
+        );
+      }
+      client.setNotificationHandler(
+        LoggingMessageNotificationSchema,
+        ({ params }) => {
+          const message =
+            typeof params.data == "string"
+              ? params.data
+              : JSON.stringify(params.data);
+          // With several calls running, there is no telling whose it is
+          const [call, ...others] = this.runningCalls;
+          if (call && !others.length) {
+            call.onLog?.({ level: params.level, message });
+          }
+        },
+      );
+
+      client.setNotificationHandler(ToolListChangedNotificationSchema, () =>
+        this.loadTools(client).catch((error) =>
+          this.log.error("Failed to refresh tools", error),
+        ),
+      );
+      // The transport closed without disconnect() being called
+      client.onclose = () => {
+        if (this.client !== client) return;
+        this.log.warn("Connection lost");
+        this.isConnected = false;
+        this.client = undefined;
+        this.health.recordFailure(new Error("Connection lost"));
+      };
 
       // Create appropriate transport based on server config type
       if (isMaybeStdioConfig(this.serverConfig)) {
@@ -120,20 +252,13 @@ export class MCPClient {
         }
 
         const config = MCPStdioConfigZodSchema.parse(this.serverConfig);
+        assertStdioCommandAllowed(config.command);
         const transport = new StdioClientTransport({
           command: config.command,
           args: config.args,
-          // Merge process.env with config.env, ensuring PATH is preserved and filtering out undefined values
-          env: Object.entries({ ...process.env, ...config.env }).reduce(
-            (acc, [key, value]) => {
-              if (value !== undefined) {
-                acc[key] = value;
-              }
-              return acc;
-            },
-            {} as Record<string, string>,
-          ),
-          cwd: process.cwd(),
+          // The app's secrets stay out of the server unless it inherits them
+          env: getStdioEnvironment(config, getDefaultEnvironment()),
+          cwd: path.resolve(process.cwd(), config.cwd ?? "."),
         });
 
         await withTimeout(client.connect(transport), CONNET_TIMEOUT);
@@ -147,9 +272,14 @@ export class MCPClient {
               headers: config.headers,
               signal: abortController.signal,
             },
+            authProvider: this.options.oauthProvider,
           });
           await withTimeout(client.connect(transport), CONNET_TIMEOUT);
         } catch (streamableHttpError) {
+          // SSE would need the same authorization
+          if (streamableHttpError instanceof UnauthorizedError) {
+            throw streamableHttpError;
+          }
           this.log.error(streamableHttpError);
           this.log.warn(
             "Streamable HTTP connection failed, falling back to SSE transport",
@@ -159,6 +289,7 @@ export class MCPClient {
               headers: config.headers,
               signal: abortController.signal,
             },
+            authProvider: this.options.oauthProvider,
           });
           await withTimeout(client.connect(transport), CONNET_TIMEOUT);
         }
@@ -171,60 +302,213 @@ export class MCPClient {
       this.isConnected = true;
       this.error = undefined;
       this.client = client;
-      const toolResponse = await client.listTools();
-      this.toolInfo = toolResponse.tools.map(
-        (tool) =>
-          ({
-            name: tool.name,
-            description: tool.description,
-            inputSchema: tool.inputSchema,
-          }) as MCPToolInfo,
-      );
-
-      // Create AI SDK tool wrappers for each MCP tool
-      this.tools = toolResponse.tools.reduce((prev, _tool) => {
-        const parameters = jsonSchema(
-          toAny({
-            ..._tool.inputSchema,
-            properties: _tool.inputSchema.properties ?? {},
-            additionalProperties: false,
-          }),
-        );
-        prev[_tool.name] = tool({
-          parameters,
-          description: _tool.description,
-          execute: (params, options: ToolExecutionOptions) => {
-            options?.abortSignal?.throwIfAborted();
-            return this.callTool(_tool.name, params);
-          },
-        });
-        return prev;
-      }, {});
+      this.health.recordConnected();
+      await this.loadTools(client);
+      await this.loadResources(client);
+      await this.loadPrompts(client);
+      if (client.getServerCapabilities()?.logging) {
+        await client
+          .setLoggingLevel("info")
+          .catch((error) => this.log.error("Failed to set log level", error));
+      }
       this.scheduleAutoDisconnect();
     } catch (error) {
-      this.log.error(error);
       this.isConnected = false;
-      this.error = error;
+      if (
+        error instanceof UnauthorizedError &&
+        this.options.oauthProvider?.authorizationUrl
+      ) {
+        this.log.warn("Authorization required");
+        this.error = undefined;
+      } else {
+        this.log.error(error);
+        this.error = error;
+        this.health.recordFailure(error);
+      }
     }
 
     this.locker.unlock();
     return this.client;
   }
+
+  /**
+   * Lists the server's tools, again whenever it notifies that they changed
+   */
+  private async loadTools(client: Client) {
+    const toolResponse = await client.listTools();
+    this.toolInfo = toolResponse.tools.map(
+      (tool) =>
+        ({
+          name: tool.name,
+          description: tool.description,
+          inputSchema: tool.inputSchema,
+        }) as MCPToolInfo,
+    );
+
+    // Create AI SDK tool wrappers for each MCP tool
+    this.tools = toolResponse.tools.reduce((prev, _tool) => {
+      const parameters = jsonSchema(
+        toAny({
+          ..._tool.inputSchema,
+          properties: _tool.inputSchema.properties ?? {},
+          additionalProperties: false,
+        }),
+      );
+      prev[_tool.name] = tool({
+        parameters,
+        description: _tool.description,
+        execute: (params, options: ToolExecutionOptions) => {
+          options?.abortSignal?.throwIfAborted();
+          return this.callTool(_tool.name, params);
+        },
+      });
+      return prev;
+    }, {});
+  }
+
+  /**
+   * Lists the server's resources and resource templates.
+   * A server without the resources capability has neither.
+   */
+  private async loadResources(client: Client) {
+    if (!client.getServerCapabilities()?.resources) {
+      this.resourceInfo = [];
+      this.resourceTemplateInfo = [];
+      return;
+    }
+    const [resources, templates] = await Promise.all([
+      client.listResources().catch((error) => {
+        this.log.error("Failed to list resources", error);
+        return { resources: [] };
+      }),
+      client.listResourceTemplates().catch((error) => {
+        this.log.error("Failed to list resource templates", error);
+        return { resourceTemplates: [] };
+      }),
+    ]);
+    this.resourceInfo = resources.resources.map((resource) => ({
+      uri: resource.uri,
+      name: resource.name,
+      description: resource.description,
+      mimeType: resource.mimeType,
+    }));
+    this.resourceTemplateInfo = templates.resourceTemplates.map((template) => ({
+      uriTemplate: template.uriTemplate,
+      name: template.name,
+      description: template.description,
+      mimeType: template.mimeType,
+    }));
+  }
+
+  private async loadPrompts(client: Client) {
+    if (!client.getServerCapabilities()?.prompts) {
+      this.promptInfo = [];
+      return;
+    }
+    const { prompts } = await client.listPrompts().catch((error) => {
+      this.log.error("Failed to list prompts", error);
+      return { prompts: [] };
+    });
+    this.promptInfo = prompts.map((prompt) => ({
+      name: prompt.name,
+      title: prompt.title,
+      description: prompt.description,
+      arguments: prompt.arguments?.map((argument) => ({
+        name: argument.name,
+        description: argument.description,
+        required: argument.required,
+      })),
+    }));
+  }
+
+  /**
+   * Exchanges the code the authorization server redirected back with for
+   * tokens, then connects with them
+   */
+  async finishAuth(authorizationCode: string) {
+    const provider = this.options.oauthProvider;
+    if (!provider || !isMaybeRemoteConfig(this.serverConfig)) {
+      throw new Error(`${this.name} does not use OAuth`);
+    }
+    const result = await auth(provider, {
+      serverUrl: this.serverConfig.url,
+      authorizationCode,
+    });
+    if (result !== "AUTHORIZED") {
+      throw new Error(`Failed to authorize ${this.name}`);
+    }
+    provider.authorizationUrl = undefined;
+    await this.disconnect();
+    await this.connect();
+    return this.getInfo();
+  }
+
   async disconnect() {
     this.log.info("Disconnecting from MCP server");
     await this.locker.wait();
+    if (this.isConnected) this.health.recordDisconnected();
     this.isConnected = false;
     const client = this.client;
     this.client = undefined;
     void client?.close().catch((e) => this.log.error(e));
   }
-  async callTool(toolName: string, input?: unknown) {
+
+  /**
+   * Drops the connection and connects again
+   */
+  async reconnect() {
+    this.health.recordReconnecting();
+    await this.disconnect();
+    return this.connect();
+  }
+
+  /**
+   * Pings the server to measure its latency. A server that doesn't answer
+   * is disconnected and counted as failing, so it gets reconnected.
+   * Does not connect and does not throw.
+   */
+  async ping() {
+    const client = this.client;
+    if (!client || !this.isConnected) return;
+    const startedAt = Date.now();
+    try {
+      await withTimeout(client.ping(), PING_TIMEOUT);
+      this.health.recordLatency(Date.now() - startedAt);
+    } catch (error) {
+      this.log.error("Ping failed", error);
+      this.error = error;
+      this.health.recordFailure(error);
+      await this.disconnect();
+    }
+  }
+  async callTool(
+    toolName: string,
+    input?: unknown,
+    options: MCPToolCallOptions = {},
+  ) {
     const execute = async () => {
       const client = await this.connect();
-      return client?.callTool({
-        name: toolName,
-        arguments: input as Record<string, unknown>,
-      });
+      this.runningCalls.add(options);
+      try {
+        // Asking for progress sends a progress token with the call
+        return await client?.callTool(
+          {
+            name: toolName,
+            arguments: input as Record<string, unknown>,
+          },
+          undefined,
+          {
+            signal: options.abortSignal,
+            onprogress: options.onProgress,
+            resetTimeoutOnProgress: !!options.onProgress,
+            timeout: this.requestTimeout,
+            // Progress can't keep a call alive past the limit
+            maxTotalTimeout: this.requestTimeout,
+          },
+        );
+      } finally {
+        this.runningCalls.delete(options);
+      }
     };
     return safe(() => this.log.info("tool call", toolName))
       .ifOk(() => this.scheduleAutoDisconnect()) // disconnect if autoDisconnectSeconds is set
@@ -247,6 +531,7 @@ export class MCPClient {
       .watch((status) => {
         if (!status.isOk) {
           this.log.error("Tool call failed", toolName, status.error);
+          this.health.recordError();
         } else if (status.value?.isError) {
           this.log.error(
             "Tool call failed content",
@@ -267,6 +552,63 @@ export class MCPClient {
       })
       .unwrap();
   }
+
+  /**
+   * Sends a request over the connection, reconnecting once if the transport
+   * was closed. Unlike callTool, failures are thrown to the caller.
+   */
+  private request<T>(label: string, send: (client: Client) => Promise<T>) {
+    const execute = async () => {
+      const client = await this.connect();
+      return client && send(client);
+    };
+    return safe(() => this.log.info(label))
+      .map(() => execute())
+      .ifFail(async (err) => {
+        if (err?.message?.includes("Transport is closed")) {
+          this.log.info("Transport is closed, reconnecting...");
+          await this.disconnect();
+          return execute();
+        }
+        throw err;
+      })
+      .map((result) => {
+        if (isNull(result)) {
+          throw new Error(`${label} failed with null`);
+        }
+        return result as T;
+      })
+      .ifOk(() => this.scheduleAutoDisconnect())
+      .ifFail((err) => {
+        this.log.error(`${label} failed`, err);
+        throw err;
+      })
+      .unwrap();
+  }
+
+  /**
+   * Read the contents of a resource
+   */
+  async readResource(uri: string): Promise<ReadResourceResult> {
+    return this.request(`read resource ${uri}`, (client) =>
+      client.readResource({ uri }, { timeout: this.requestTimeout }),
+    ) as Promise<ReadResourceResult>;
+  }
+
+  /**
+   * Render a prompt template with the given arguments
+   */
+  async getPrompt(
+    name: string,
+    args: Record<string, string> = {},
+  ): Promise<GetPromptResult> {
+    return this.request(`get prompt ${name}`, (client) =>
+      client.getPrompt(
+        { name, arguments: args },
+        { timeout: this.requestTimeout },
+      ),
+    ) as Promise<GetPromptResult>;
+  }
 }
 
 /**
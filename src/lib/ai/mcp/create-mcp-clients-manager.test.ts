@@ -397,6 +397,150 @@ describe("MCPClientsManager", () => {
     });
   });
 
+  describe("readResource", () => {
+    beforeEach(async () => {
+      manager = new MCPClientsManager(mockStorage);
+      await manager.init();
+    });
+
+    it("should read the resource from the client", async () => {
+      const contents = [{ uri: "file:///notes.md", text: "# Notes" }];
+      mockClient.readResource = vi.fn().mockResolvedValue({ contents });
+      await manager.addClient("server1", "server1", mockServerConfig);
+
+      const result = await manager.readResource("server1", "file:///notes.md");
+
+      expect(mockClient.readResource).toHaveBeenCalledWith("file:///notes.md");
+      expect(result).toEqual({ contents });
+    });
+
+    it("should throw error for non-existent client", async () => {
+      await expect(
+        manager.readResource("missing", "file:///notes.md"),
+      ).rejects.toThrow("Client missing not found");
+    });
+  });
+
+  describe("getPrompt", () => {
+    beforeEach(async () => {
+      manager = new MCPClientsManager(mockStorage);
+      await manager.init();
+    });
+
+    it("should render the prompt with the client", async () => {
+      const messages = [
+        { role: "user", content: { type: "text", text: "Review main" } },
+      ];
+      mockClient.getPrompt = vi.fn().mockResolvedValue({ messages });
+      await manager.addClient("server1", "server1", mockServerConfig);
+
+      const result = await manager.getPrompt("server1", "review", {
+        branch: "main",
+      });
+
+      expect(mockClient.getPrompt).toHaveBeenCalledWith("review", {
+        branch: "main",
+      });
+      expect(result).toEqual({ messages });
+    });
+  });
+
+  describe("OAuth", () => {
+    const remoteConfig: MCPServerConfig = { url: "https://mcp.example.com" };
+    const oauthProvider = { redirectUrl: "http://localhost/callback" } as any;
+    const createOAuthProvider = vi.fn(() => oauthProvider);
+
+    beforeEach(async () => {
+      manager = new MCPClientsManager(mockStorage, 60, createOAuthProvider);
+      await manager.init();
+    });
+
+    it("should give OAuth providers to remote clients only", async () => {
+      await manager.addClient("remote", "remote", remoteConfig);
+      await manager.addClient("local", "local", mockServerConfig);
+
+      expect(createOAuthProvider).toHaveBeenCalledTimes(1);
+      expect(createOAuthProvider).toHaveBeenCalledWith("remote");
+      expect(mockCreateMCPClient).toHaveBeenCalledWith("remote", remoteConfig, {
+        autoDisconnectSeconds: 60,
+        oauthProvider,
+      });
+      expect(mockCreateMCPClient).toHaveBeenCalledWith(
+        "local",
+        mockServerConfig,
+        { autoDisconnectSeconds: 60, oauthProvider: undefined },
+      );
+    });
+
+    it("should finish the authorization with the client", async () => {
+      mockClient.finishAuth = vi.fn().mockResolvedValue({});
+      await manager.addClient("remote", "remote", remoteConfig);
+
+      await manager.finishOAuth("remote", "code-123");
+
+      expect(mockClient.finishAuth).toHaveBeenCalledWith("code-123");
+    });
+  });
+
+  describe("health checks", () => {
+    const createClient = (
+      status: string,
+      shouldReconnect = false,
+    ): Record<string, any> => ({
+      connect: vi.fn(),
+      disconnect: vi.fn(),
+      ping: vi.fn().mockResolvedValue(undefined),
+      reconnect: vi.fn().mockResolvedValue(undefined),
+      getInfo: vi.fn(() => ({ name: status, status, toolInfo: [] })),
+      health: { shouldReconnect: vi.fn(() => shouldReconnect) },
+    });
+
+    beforeEach(async () => {
+      manager = new MCPClientsManager(mockStorage);
+      await manager.init();
+    });
+
+    afterEach(() => {
+      manager.stopHealthChecks();
+      vi.useRealTimers();
+    });
+
+    it("should ping connected clients and reconnect failing ones", async () => {
+      const connected = createClient("connected");
+      const failing = createClient("disconnected", true);
+      const idle = createClient("disconnected");
+      for (const client of [connected, failing, idle]) {
+        vi.mocked(mockCreateMCPClient).mockReturnValueOnce(client as any);
+      }
+      await manager.addClient("connected", "connected", mockServerConfig);
+      await manager.addClient("failing", "failing", mockServerConfig);
+      await manager.addClient("idle", "idle", mockServerConfig);
+
+      await manager.checkHealth(1000);
+
+      expect(connected.ping).toHaveBeenCalled();
+      expect(failing.health.shouldReconnect).toHaveBeenCalledWith(1000);
+      expect(failing.reconnect).toHaveBeenCalled();
+      expect(idle.reconnect).not.toHaveBeenCalled();
+      expect(idle.ping).not.toHaveBeenCalled();
+    });
+
+    it("should check the clients periodically until stopped", async () => {
+      vi.useFakeTimers();
+      const connected = createClient("connected");
+      vi.mocked(mockCreateMCPClient).mockReturnValueOnce(connected as any);
+      await manager.addClient("connected", "connected", mockServerConfig);
+
+      manager.startHealthChecks(10);
+      await vi.advanceTimersByTimeAsync(25 * 1000);
+      expect(connected.ping).toHaveBeenCalledTimes(2);
+
+      manager.stopHealthChecks();
+      await vi.advanceTimersByTimeAsync(30 * 1000);
+      expect(connected.ping).toHaveBeenCalledTimes(2);
+    });
+  });
+
   describe("cleanup", () => {
     beforeEach(async () => {
       manager = new MCPClientsManager(mockStorage);
@@ -1,16 +1,27 @@
 import type {
+  MCPToolProgressEvent,
   MCPServerConfig,
   McpServerInsert,
   McpServerSelect,
   VercelAIMcpTool,
 } from "app-types/mcp";
-import { createMCPClient, type MCPClient } from "./create-mcp-client";
+import {
+  createMCPClient,
+  type MCPClient,
+  type MCPToolCallOptions,
+} from "./create-mcp-client";
 import { errorToString, Locker, safeJSONParse } from "lib/utils";
 import { safe } from "ts-safe";
 import { McpServerSchema } from "lib/db/pg/schema.pg";
 import { createMCPToolId } from "./mcp-tool-id";
 import logger from "logger";
 import { ToolExecutionOptions } from "ai";
+import type { MCPOAuthClientProvider } from "./mcp-oauth-provider";
+import type {
+  MCPInteractionBroker,
+  MCPInteractionChannel,
+} from "./mcp-interaction";
+import { isMaybeRemoteConfig } from "./is-mcp-config";
 /**
  * Interface for storage of MCP server configurations.
  * Implementations should handle persistent storage of server configs.
@@ -27,6 +38,11 @@ export interface MCPConfigStorage {
   delete(id: string): Promise<void>;
   has(id: string): Promise<boolean>;
   get(id: string): Promise<McpServerSelect | null>;
+  /**
+   * Reconciles the manager with configs changed elsewhere, for storages
+   * that can't watch for changes. Called within the user's request.
+   */
+  sync?(): Promise<void>;
 }
 
 export class MCPClientsManager {
@@ -38,14 +54,20 @@ export class MCPClientsManager {
     }
   >();
   private initializedLock = new Locker();
+  private handleExit = () => this.cleanup();
+  private healthCheckTimer?: ReturnType<typeof setInterval>;
 
   // Optional storage for persistent configurations
   constructor(
     private storage?: MCPConfigStorage,
     private autoDisconnectSeconds: number = 60 * 30, // 30 minutes
+    // Creates the OAuth client of a remote server, keyed by its id
+    private createOAuthProvider?: (id: string) => MCPOAuthClientProvider,
+    // Brings the servers' sampling and elicitation requests to the user
+    readonly interactions?: MCPInteractionBroker,
   ) {
-    process.on("SIGINT", this.cleanup.bind(this));
-    process.on("SIGTERM", this.cleanup.bind(this));
+    process.on("SIGINT", this.handleExit);
+    process.on("SIGTERM", this.handleExit);
   }
 
   async init() {
@@ -76,9 +98,14 @@ export class MCPClientsManager {
   }
 
   /**
-   * Returns all tools from all clients as a flat object
+   * Returns all tools from all clients as a flat object.
+   * `onProgress` receives what the tools report while they run, and
+   * `interactionChannel` the requests their servers make of the user.
    */
-  async tools(): Promise<Record<string, VercelAIMcpTool>> {
+  async tools(
+    onProgress?: (event: MCPToolProgressEvent) => void,
+    interactionChannel?: MCPInteractionChannel,
+  ): Promise<Record<string, VercelAIMcpTool>> {
     await this.initializedLock.wait();
     return Object.fromEntries(
       Array.from(this.clients.entries())
@@ -94,7 +121,23 @@ export class MCPClientsManager {
               _mcpServerId: id,
               execute: (params, options: ToolExecutionOptions) => {
                 options?.abortSignal?.throwIfAborted();
-                return this.toolCall(id, name, params);
+                const toolCallId = options?.toolCallId;
+                return this.toolCall(id, name, params, {
+                  abortSignal: options?.abortSignal,
+                  onProgress:
+                    onProgress &&
+                    ((progress) =>
+                      onProgress({
+                        type: "mcp-tool-progress",
+                        toolCallId,
+                        ...progress,
+                      })),
+                  onLog:
+                    onProgress &&
+                    ((log) =>
+                      onProgress({ type: "mcp-tool-log", toolCallId, ...log })),
+                  interactionChannel,
+                });
               },
             },
           ]),
@@ -111,6 +154,10 @@ export class MCPClientsManager {
     }
     const client = createMCPClient(name, serverConfig, {
       autoDisconnectSeconds: this.autoDisconnectSeconds,
+      oauthProvider: isMaybeRemoteConfig(serverConfig)
+        ? this.createOAuthProvider?.(id)
+        : undefined,
+      interactions: this.interactions,
     });
     this.clients.set(id, { client, name });
     return client.connect();
@@ -164,6 +211,52 @@ export class MCPClientsManager {
     return this.addClient(id, prevClient.name, currentConfig);
   }
 
+  /**
+   * Pings the connected clients every `intervalSeconds`, and reconnects the
+   * failing ones once their backoff is over
+   */
+  startHealthChecks(intervalSeconds = 30) {
+    this.stopHealthChecks();
+    this.healthCheckTimer = setInterval(
+      () => void this.checkHealth(),
+      intervalSeconds * 1000,
+    );
+    this.healthCheckTimer.unref?.();
+  }
+
+  stopHealthChecks() {
+    clearInterval(this.healthCheckTimer);
+    this.healthCheckTimer = undefined;
+  }
+
+  async checkHealth(now = Date.now()) {
+    await Promise.allSettled(
+      Array.from(this.clients.values()).map(({ client }) => {
+        const { status } = client.getInfo();
+        if (status == "connected") return client.ping();
+        // Clients disconnected for being idle have no failures to recover from
+        if (status == "disconnected" && client.health.shouldReconnect(now)) {
+          return client.reconnect();
+        }
+      }),
+    );
+  }
+
+  async sync() {
+    await this.initializedLock.wait();
+    await this.storage?.sync?.();
+  }
+
+  /**
+   * Disconnects all clients and releases the manager for good
+   */
+  async dispose() {
+    this.stopHealthChecks();
+    process.off("SIGINT", this.handleExit);
+    process.off("SIGTERM", this.handleExit);
+    await this.cleanup();
+  }
+
   async cleanup() {
     const clients = Array.from(this.clients.values());
     this.clients.clear();
@@ -204,13 +297,18 @@ export class MCPClientsManager {
     }
     return this.toolCall(client.id, toolName, input);
   }
-  async toolCall(id: string, toolName: string, input: unknown) {
+  async toolCall(
+    id: string,
+    toolName: string,
+    input: unknown,
+    options?: MCPToolCallOptions,
+  ) {
     return safe(() => this.getClient(id))
       .map((client) => {
         if (!client) throw new Error(`Client ${id} not found`);
         return client.client;
       })
-      .map((client) => client.callTool(toolName, input))
+      .map((client) => client.callTool(toolName, input, options))
       .map((res) => {
         if (res?.content && Array.isArray(res.content)) {
           const parsedResult = {
@@ -242,11 +340,46 @@ export class MCPClientsManager {
       })
       .unwrap();
   }
+
+  /**
+   * Reads a resource of the given client, throws if it isn't available
+   */
+  async readResource(id: string, uri: string) {
+    const client = await this.getClient(id);
+    if (!client) throw new Error(`Client ${id} not found`);
+    return client.client.readResource(uri);
+  }
+
+  /**
+   * Renders a prompt of the given client, throws if it isn't available
+   */
+  async getPrompt(id: string, name: string, args?: Record<string, string>) {
+    const client = await this.getClient(id);
+    if (!client) throw new Error(`Client ${id} not found`);
+    return client.client.getPrompt(name, args);
+  }
+
+  /**
+   * Completes the OAuth authorization of the given client with the code
+   * the authorization server redirected back with
+   */
+  async finishOAuth(id: string, authorizationCode: string) {
+    const client = await this.getClient(id);
+    if (!client) throw new Error(`Client ${id} not found`);
+    return client.client.finishAuth(authorizationCode);
+  }
 }
 
 export function createMCPClientsManager(
   storage?: MCPConfigStorage,
   autoDisconnectSeconds: number = 60 * 30, // 30 minutes
+  createOAuthProvider?: (id: string) => MCPOAuthClientProvider,
+  interactions?: MCPInteractionBroker,
 ): MCPClientsManager {
-  return new MCPClientsManager(storage, autoDisconnectSeconds);
+  return new MCPClientsManager(
+    storage,
+    autoDisconnectSeconds,
+    createOAuthProvider,
+    interactions,
+  );
 }
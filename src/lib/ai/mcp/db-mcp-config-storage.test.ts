@@ -17,6 +17,8 @@ vi.mock("logger", () => ({
   default: {
     withDefaults: vi.fn(() => ({
       debug: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
       error: vi.fn(),
     })),
   },
@@ -190,6 +192,27 @@ describe("DB-based MCP Config Storage", () => {
     });
   });
 
+  describe("sync", () => {
+    it("should add stored servers missing from the manager at most every five minutes", async () => {
+      await storage.init(mockManager);
+      vi.mocked(mockMcpRepository.selectAll).mockResolvedValue([mockServer]);
+      vi.mocked(mockManager.getClients).mockResolvedValue([]);
+      vi.mocked(mockManager.getClient).mockResolvedValue(undefined);
+
+      await storage.sync!();
+      expect(mockMcpRepository.selectAll).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(1000 * 60 * 5 + 1);
+      await storage.sync!();
+
+      expect(mockManager.addClient).toHaveBeenCalledWith(
+        mockServer.id,
+        mockServer.name,
+        mockServer.config,
+      );
+    });
+  });
+
   describe("interval functionality", () => {
     it("should set up interval for periodic checks", async () => {
       await storage.init(mockManager);
@@ -4,7 +4,6 @@ import type {
 } from "./create-mcp-clients-manager";
 import { mcpRepository } from "lib/db/repository";
 import defaultLogger from "logger";
-import { createDebounce } from "lib/utils";
 import equal from "lib/equal";
 import { colorize } from "consola/utils";
 import { IS_EDGE_RUNTIME } from "lib/const";
@@ -19,8 +18,6 @@ const logger = defaultLogger.withDefaults({
 export function createDbBasedMCPConfigsStorage(): MCPConfigStorage {
   let manager: MCPClientsManager;
 
-  const debounce = createDebounce();
-
   // Initializes the manager with configs from the database
   async function init(_manager: MCPClientsManager): Promise<void> {
     manager = _manager;
@@ -116,13 +113,18 @@ export function createDbBasedMCPConfigsStorage(): MCPConfigStorage {
     }
   }
 
-  setInterval(
-    () => debounce(checkAndRefreshClients, 5000),
-    1000 * 60 * 5,
-  ).unref();
+  // Configs belong to the user of the request, so changes made elsewhere
+  // (another instance, an import) are picked up on access rather than on a
+  // timer, at most every few minutes
+  let lastSyncedAt = Date.now();
 
   return {
     init,
+    async sync() {
+      if (Date.now() - lastSyncedAt < 1000 * 60 * 5) return;
+      lastSyncedAt = Date.now();
+      await checkAndRefreshClients();
+    },
     async loadAll() {
       try {
         const servers = await mcpRepository.selectAll();
@@ -194,6 +194,8 @@ function fillMcpServerSchema(
   return {
     ...server,
     id: server.name,
+    // The config file's servers are shared by everyone
+    userId: null,
     enabled: true,
     createdAt: new Date(),
     updatedAt: new Date(),
@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createMCPClientsManagerRegistry } from "./mcp-clients-manager-registry";
+
+vi.mock("logger", () => ({
+  default: { info: vi.fn() },
+}));
+
+const createMockManager = () =>
+  ({
+    init: vi.fn().mockResolvedValue(undefined),
+    dispose: vi.fn().mockResolvedValue(undefined),
+  }) as any;
+
+describe("createMCPClientsManagerRegistry", () => {
+  let create: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    create = vi.fn(createMockManager);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should create and initialize one manager per user", async () => {
+    const registry = createMCPClientsManagerRegistry(create);
+
+    const [first, again] = await Promise.all([
+      registry.get("user-1"),
+      registry.get("user-1"),
+    ]);
+    const other = await registry.get("user-2");
+
+    expect(first).toBe(again);
+    expect(other).not.toBe(first);
+    expect(create).toHaveBeenCalledTimes(2);
+    expect(first.init).toHaveBeenCalledTimes(1);
+  });
+
+  it("should dispose managers that have been idle", async () => {
+    const registry = createMCPClientsManagerRegistry(create, 60);
+    const idle = await registry.get("user-1");
+    vi.advanceTimersByTime(30 * 1000);
+    const active = await registry.get("user-2");
+    vi.advanceTimersByTime(40 * 1000);
+
+    registry.evictIdle();
+
+    expect(idle.dispose).toHaveBeenCalled();
+    expect(registry.has("user-1")).toBe(false);
+    expect(active.dispose).not.toHaveBeenCalled();
+    expect(await registry.get("user-1")).not.toBe(idle);
+  });
+
+  it("should retry a manager that failed to initialize", async () => {
+    const broken = createMockManager();
+    broken.init.mockRejectedValue(new Error("offline"));
+    create.mockReturnValueOnce(broken);
+    const registry = createMCPClientsManagerRegistry(create);
+
+    await expect(registry.get("user-1")).rejects.toThrow("offline");
+    expect(broken.dispose).toHaveBeenCalled();
+    expect(await registry.get("user-1")).not.toBe(broken);
+  });
+});
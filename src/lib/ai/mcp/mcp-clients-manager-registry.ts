@@ -0,0 +1,59 @@
+import type { MCPClientsManager } from "./create-mcp-clients-manager";
+import logger from "logger";
+
+type Entry = {
+  manager: MCPClientsManager;
+  ready: Promise<void>;
+  lastAccessed: number;
+};
+
+/**
+ * Keeps one MCPClientsManager per key (a user), created on first use and
+ * disposed once it has been idle for longer than `idleSeconds`.
+ */
+export function createMCPClientsManagerRegistry(
+  create: (key: string) => MCPClientsManager,
+  idleSeconds: number = 60 * 30, // 30 minutes
+) {
+  const entries = new Map<string, Entry>();
+
+  function evictIdle(now = Date.now()) {
+    for (const [key, entry] of entries) {
+      if (now - entry.lastAccessed > idleSeconds * 1000) {
+        logger.info(`Disposing idle MCP clients manager of ${key}`);
+        entries.delete(key);
+        void entry.manager.dispose();
+      }
+    }
+  }
+
+  return {
+    async get(key: string) {
+      evictIdle();
+      let entry = entries.get(key);
+      if (!entry) {
+        const manager = create(key);
+        const ready = manager.init().catch((error) => {
+          // Let the next request try again
+          entries.delete(key);
+          void manager.dispose();
+          throw error;
+        });
+        entry = { manager, ready, lastAccessed: Date.now() };
+        entries.set(key, entry);
+      } else {
+        entry.lastAccessed = Date.now();
+      }
+      await entry.ready;
+      return entry.manager;
+    },
+    has(key: string) {
+      return entries.has(key);
+    },
+    evictIdle,
+  };
+}
+
+export type MCPClientsManagerRegistry = ReturnType<
+  typeof createMCPClientsManagerRegistry
+>;
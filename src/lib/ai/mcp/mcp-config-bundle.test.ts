@@ -0,0 +1,190 @@
+import { describe, expect, it } from "vitest";
+import {
+  createMCPConfigBundle,
+  diffMCPServersImport,
+  fillPlaceholders,
+  findPlaceholders,
+  parseMCPServersImport,
+} from "./mcp-config-bundle";
+
+describe("parseMCPServersImport", () => {
+  it("should read the mcpServers block of Claude Desktop", () => {
+    const result = parseMCPServersImport(
+      JSON.stringify({
+        mcpServers: {
+          filesystem: {
+            command: "npx",
+            args: ["-y", "@modelcontextprotocol/server-filesystem"],
+            disabled: false,
+          },
+        },
+      }),
+    );
+
+    expect(result).toEqual({
+      servers: {
+        filesystem: {
+          command: "npx",
+          args: ["-y", "@modelcontextprotocol/server-filesystem"],
+        },
+      },
+      errors: {},
+    });
+  });
+
+  it("should read the servers block of VS Code", () => {
+    const result = parseMCPServersImport(
+      JSON.stringify({
+        servers: {
+          "My Server": { type: "http", url: "https://mcp.example.com/mcp" },
+        },
+      }),
+    );
+
+    expect(result.servers).toEqual({
+      "My-Server": { url: "https://mcp.example.com/mcp" },
+    });
+  });
+
+  it("should report the entries that aren't server configs", () => {
+    const result = parseMCPServersImport(
+      JSON.stringify({
+        valid: { command: "uvx", args: ["mcp-server-git"] },
+        broken: { url: "not a url" },
+        other: { foo: "bar" },
+      }),
+    );
+
+    expect(Object.keys(result.servers)).toEqual(["valid"]);
+    expect(Object.keys(result.errors)).toEqual(["broken", "other"]);
+  });
+
+  it("should report entries that get the name of another", () => {
+    const result = parseMCPServersImport(
+      JSON.stringify({
+        "my server": { command: "npx" },
+        "my-server": { command: "uvx" },
+      }),
+    );
+
+    expect(result.servers).toEqual({ "my-server": { command: "npx" } });
+    expect(result.errors).toEqual({
+      "my-server": 'Another server is already named "my-server"',
+    });
+  });
+
+  it("should reject a config without a server name", () => {
+    expect(() =>
+      parseMCPServersImport(JSON.stringify({ command: "npx" })),
+    ).toThrow("The config needs a server name as its key");
+  });
+});
+
+describe("createMCPConfigBundle", () => {
+  it("should turn secrets into placeholders that can be filled in", () => {
+    const bundle = createMCPConfigBundle([
+      {
+        name: "github",
+        config: {
+          command: "npx",
+          env: { GITHUB_TOKEN: "ghp-secret", LOG_LEVEL: "debug" },
+        },
+      },
+      {
+        name: "remote",
+        config: {
+          url: "https://mcp.example.com",
+          headers: { Authorization: "Bearer sk", Accept: "text/plain" },
+        },
+      },
+    ]);
+
+    expect(bundle.mcpServers).toEqual({
+      github: {
+        command: "npx",
+        env: { GITHUB_TOKEN: "{{github.GITHUB_TOKEN}}", LOG_LEVEL: "debug" },
+      },
+      remote: {
+        url: "https://mcp.example.com",
+        headers: {
+          Authorization: "{{remote.Authorization}}",
+          Accept: "text/plain",
+        },
+      },
+    });
+
+    const { servers } = parseMCPServersImport(JSON.stringify(bundle));
+    expect(findPlaceholders(servers)).toEqual([
+      "github.GITHUB_TOKEN",
+      "remote.Authorization",
+    ]);
+    const filled = fillPlaceholders(servers, {
+      "github.GITHUB_TOKEN": "ghp-teammate",
+    });
+    expect(filled.github).toMatchObject({
+      env: { GITHUB_TOKEN: "ghp-teammate" },
+    });
+    expect(findPlaceholders(filled)).toEqual(["remote.Authorization"]);
+  });
+  it("should redact secrets in command line options and URLs", () => {
+    const bundle = createMCPConfigBundle([
+      {
+        name: "search",
+        config: {
+          command: "npx",
+          args: ["-y", "search-mcp", "--token=tok-1", "--api-key", "sk-2"],
+        },
+      },
+      {
+        name: "remote",
+        config: { url: "https://mcp.example.com/mcp?api_key=sk-3&region=eu" },
+      },
+    ]);
+
+    expect(JSON.stringify(bundle)).not.toMatch(/tok-1|sk-2|sk-3/);
+    expect(bundle.mcpServers).toEqual({
+      search: {
+        command: "npx",
+        args: [
+          "-y",
+          "search-mcp",
+          "--token={{search.token}}",
+          "--api-key",
+          "{{search.api-key}}",
+        ],
+      },
+      remote: {
+        url: "https://mcp.example.com/mcp?api_key={{remote.api_key}}&region=eu",
+      },
+    });
+
+    const { servers } = parseMCPServersImport(JSON.stringify(bundle));
+    expect(findPlaceholders(servers)).toEqual([
+      "search.token",
+      "search.api-key",
+      "remote.api_key",
+    ]);
+  });
+});
+
+describe("diffMCPServersImport", () => {
+  it("should list new and changed servers and keep the others", () => {
+    const changes = diffMCPServersImport(
+      {
+        same: { command: "npx" },
+        changed: { command: "npx" },
+        untouched: { command: "uvx" },
+      },
+      {
+        same: { command: "npx" },
+        changed: { command: "node" },
+        added: { url: "https://mcp.example.com" },
+      },
+    );
+
+    expect(changes).toEqual([
+      { type: "update", key: "changed", value: { command: "node" } },
+      { type: "add", key: "added", value: { url: "https://mcp.example.com" } },
+    ]);
+  });
+});
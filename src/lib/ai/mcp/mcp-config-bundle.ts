@@ -0,0 +1,225 @@
+import {
+  MCPRemoteConfigZodSchema,
+  MCPStdioConfigZodSchema,
+  type MCPServerConfig,
+} from "app-types/mcp";
+import { errorToString } from "lib/utils";
+import { type ConfigChange, detectConfigChanges } from "./mcp-config-diff";
+import {
+  isMaybeMCPServerConfig,
+  isMaybeRemoteConfig,
+  isMaybeStdioConfig,
+} from "./is-mcp-config";
+import { isSensitiveEnvName } from "./mcp-stdio-policy";
+
+export const MCP_BUNDLE_FILE_NAME = "mcp-servers.json";
+
+const PLACEHOLDER = /\{\{([A-Za-z0-9_.-]+)\}\}/g;
+
+/**
+ * Servers to import, by name, and the entries that aren't valid configs
+ */
+export type MCPServersImport = {
+  servers: Record<string, MCPServerConfig>;
+  errors: Record<string, string>;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Server names may only contain alphanumeric characters and hyphens
+ */
+export const toMCPServerName = (name: string) =>
+  name
+    .trim()
+    .replace(/[^a-zA-Z0-9-]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+// Fields other clients add, like VS Code's `type`, are dropped by the schemas
+const toServerConfig = (value: unknown): MCPServerConfig => {
+  if (isMaybeRemoteConfig(value)) return MCPRemoteConfigZodSchema.parse(value);
+  if (isMaybeStdioConfig(value)) return MCPStdioConfigZodSchema.parse(value);
+  throw new Error("Not an MCP server config");
+};
+
+/**
+ * Reads servers from the `mcpServers` block of Claude Desktop (and of the
+ * bundles exported here), the `servers` block of VS Code, or a registry
+ * file mapping names to configs
+ */
+export function parseMCPServersImport(text: string): MCPServersImport {
+  const json: unknown = JSON.parse(text);
+  if (!isObject(json)) {
+    throw new Error("Expected a JSON object of MCP servers");
+  }
+  if (isMaybeMCPServerConfig(json)) {
+    throw new Error("The config needs a server name as its key");
+  }
+  const entries = isObject(json.mcpServers)
+    ? json.mcpServers
+    : isObject(json.servers)
+      ? json.servers
+      : json;
+
+  const result: MCPServersImport = { servers: {}, errors: {} };
+  for (const [key, value] of Object.entries(entries)) {
+    const name = toMCPServerName(key);
+    try {
+      if (!name) throw new Error("Invalid server name");
+      if (name in result.servers) {
+        throw new Error(`Another server is already named "${name}"`);
+      }
+      result.servers[name] = toServerConfig(value);
+    } catch (error) {
+      result.errors[key] = errorToString(error);
+    }
+  }
+  return result;
+}
+
+const mapStrings = <T>(value: T, fn: (value: string) => string): T => {
+  if (typeof value === "string") return fn(value) as T;
+  if (Array.isArray(value)) return value.map((v) => mapStrings(v, fn)) as T;
+  if (isObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, v]) => [key, mapStrings(v, fn)]),
+    ) as T;
+  }
+  return value;
+};
+
+/**
+ * Names of the placeholders left in the configs, to be filled in on import
+ */
+export function findPlaceholders(servers: Record<string, MCPServerConfig>) {
+  const names = new Set<string>();
+  mapStrings(servers, (value) => {
+    for (const [, name] of value.matchAll(PLACEHOLDER)) names.add(name);
+    return value;
+  });
+  return Array.from(names);
+}
+
+/**
+ * Replaces the placeholders with the given values, leaving unknown ones
+ */
+export function fillPlaceholders(
+  servers: Record<string, MCPServerConfig>,
+  values: Record<string, string>,
+) {
+  return mapStrings(servers, (value) =>
+    value.replace(PLACEHOLDER, (placeholder, name) =>
+      values[name] ? values[name] : placeholder,
+    ),
+  );
+}
+
+const toPlaceholder = (serverName: string, key: string) =>
+  `{{${serverName}.${key.replace(/[^A-Za-z0-9_.-]+/g, "_")}}}`;
+
+const redact = (
+  serverName: string,
+  record: Record<string, string> | undefined,
+) =>
+  record &&
+  Object.fromEntries(
+    Object.entries(record).map(([key, value]) => [
+      key,
+      isSensitiveEnvName(key) ? toPlaceholder(serverName, key) : value,
+    ]),
+  );
+
+const SECRET_FLAG = /^--?([A-Za-z0-9_-]+)(=.*)?$/;
+
+/**
+ * Secret command line options, `--token=...` or `--api-key ...`
+ */
+const redactArgs = (serverName: string, args: string[] | undefined) =>
+  args?.map((arg, index) => {
+    const flag = arg.match(SECRET_FLAG);
+    if (flag?.[2] && isSensitiveEnvName(flag[1])) {
+      return `${arg.slice(0, arg.indexOf("="))}=${toPlaceholder(serverName, flag[1])}`;
+    }
+    const previous = args[index - 1]?.match(SECRET_FLAG);
+    if (
+      previous &&
+      !previous[2] &&
+      !arg.startsWith("-") &&
+      isSensitiveEnvName(previous[1])
+    ) {
+      return toPlaceholder(serverName, previous[1]);
+    }
+    return arg;
+  });
+
+/**
+ * Secret query parameters of a server URL, like `?api_key=...`
+ */
+const redactUrl = (serverName: string, value: string) => {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return value;
+  }
+  const params = Array.from(url.searchParams);
+  if (!params.some(([key]) => isSensitiveEnvName(key))) return value;
+
+  // Built by hand, URLSearchParams would encode the placeholder's braces
+  const query = params
+    .map(
+      ([key, param]) =>
+        `${encodeURIComponent(key)}=${
+          isSensitiveEnvName(key)
+            ? toPlaceholder(serverName, key)
+            : encodeURIComponent(param)
+        }`,
+    )
+    .join("&");
+  return `${url.origin}${url.pathname}?${query}${url.hash}`;
+};
+
+/**
+ * A file of the given servers to share with teammates. Secrets in
+ * environment variables, headers, command line options and URL query
+ * parameters become placeholders.
+ */
+export function createMCPConfigBundle(
+  servers: { name: string; config: MCPServerConfig }[],
+) {
+  return {
+    mcpServers: Object.fromEntries(
+      servers.map(({ name, config }) => [
+        name,
+        isMaybeRemoteConfig(config)
+          ? {
+              ...config,
+              url: redactUrl(name, config.url),
+              headers: redact(name, config.headers),
+            }
+          : {
+              ...config,
+              args: redactArgs(name, config.args),
+              env: redact(name, config.env),
+            },
+      ]),
+    ) as Record<string, MCPServerConfig>,
+  };
+}
+
+/**
+ * What importing the servers changes: new servers, and existing ones whose
+ * config differs. Servers missing from the import are kept.
+ */
+export function diffMCPServersImport(
+  existing: Record<string, MCPServerConfig>,
+  servers: Record<string, MCPServerConfig>,
+): ConfigChange[] {
+  return detectConfigChanges(
+    Object.fromEntries(
+      Object.entries(existing).filter(([name]) => name in servers),
+    ),
+    servers,
+  );
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { getReconnectDelay, MCPServerHealthTracker } from "./mcp-health";
+
+describe("getReconnectDelay", () => {
+  it("should double the delay with every attempt up to the maximum", () => {
+    expect(getReconnectDelay(1, 1000, 10000)).toBe(1000);
+    expect(getReconnectDelay(2, 1000, 10000)).toBe(2000);
+    expect(getReconnectDelay(3, 1000, 10000)).toBe(4000);
+    expect(getReconnectDelay(10, 1000, 10000)).toBe(10000);
+  });
+});
+
+describe("MCPServerHealthTracker", () => {
+  it("should back off after consecutive failures", () => {
+    const health = new MCPServerHealthTracker();
+    health.recordFailure(new Error("refused"), 0);
+    const first = health.getInfo().nextReconnectAt!;
+    expect(health.shouldReconnect(first - 1)).toBe(false);
+    expect(health.shouldReconnect(first)).toBe(true);
+
+    health.recordFailure(new Error("refused"), first);
+    expect(health.getInfo().nextReconnectAt! - first).toBe(first * 2);
+    expect(health.getInfo()).toMatchObject({
+      errorCount: 2,
+      consecutiveFailures: 2,
+    });
+  });
+
+  it("should reset the failures once connected", () => {
+    const health = new MCPServerHealthTracker();
+    health.recordFailure(new Error("refused"), 0);
+    health.recordConnected(10);
+
+    expect(health.shouldReconnect(Number.MAX_SAFE_INTEGER)).toBe(false);
+    expect(health.getInfo()).toMatchObject({
+      errorCount: 1,
+      consecutiveFailures: 0,
+      nextReconnectAt: undefined,
+      timeline: [
+        { status: "error", at: 0, message: "refused" },
+        { status: "connected", at: 10 },
+      ],
+    });
+  });
+
+  it("should count request errors without scheduling a reconnect", () => {
+    const health = new MCPServerHealthTracker();
+    health.recordError();
+
+    expect(health.getInfo().errorCount).toBe(1);
+    expect(health.shouldReconnect()).toBe(false);
+  });
+
+  it("should report the last and average latency", () => {
+    const health = new MCPServerHealthTracker();
+    health.recordLatency(100, 1);
+    health.recordLatency(201, 2);
+
+    expect(health.getInfo()).toMatchObject({
+      latencyMs: 201,
+      averageLatencyMs: 151,
+      lastPingAt: 2,
+    });
+  });
+
+  it("should keep only the recent timeline", () => {
+    const health = new MCPServerHealthTracker();
+    for (let i = 0; i < 40; i++) health.recordDisconnected(i);
+
+    const { timeline } = health.getInfo();
+    expect(timeline).toHaveLength(30);
+    expect(timeline[0].at).toBe(10);
+  });
+});
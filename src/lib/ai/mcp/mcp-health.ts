@@ -0,0 +1,101 @@
+import type { MCPServerHealth, MCPServerHealthEvent } from "app-types/mcp";
+import { errorToString } from "lib/utils";
+
+const TIMELINE_SIZE = 30;
+const LATENCY_SAMPLES = 10;
+const RECONNECT_BASE_DELAY = 1000 * 5;
+const RECONNECT_MAX_DELAY = 1000 * 60 * 10;
+
+/**
+ * How long to wait before the given reconnect attempt: doubles with every
+ * failure, up to `maxMs`
+ */
+export const getReconnectDelay = (
+  attempt: number,
+  baseMs = RECONNECT_BASE_DELAY,
+  maxMs = RECONNECT_MAX_DELAY,
+) => Math.min(maxMs, baseMs * 2 ** Math.max(0, attempt - 1));
+
+/**
+ * Tracks the health of a server connection: ping latencies, errors, when to
+ * try reconnecting after a failure, and the recent status changes
+ */
+export class MCPServerHealthTracker {
+  private latencies: number[] = [];
+  private lastPingAt?: number;
+  private errorCount = 0;
+  private consecutiveFailures = 0;
+  private nextReconnectAt?: number;
+  private timeline: MCPServerHealthEvent[] = [];
+
+  private record(
+    status: MCPServerHealthEvent["status"],
+    message?: string,
+    at = Date.now(),
+  ) {
+    this.timeline.push({ status, at, message });
+    if (this.timeline.length > TIMELINE_SIZE) this.timeline.shift();
+  }
+
+  recordConnected(now = Date.now()) {
+    this.consecutiveFailures = 0;
+    this.nextReconnectAt = undefined;
+    this.record("connected", undefined, now);
+  }
+
+  recordDisconnected(now = Date.now()) {
+    this.record("disconnected", undefined, now);
+  }
+
+  recordReconnecting(now = Date.now()) {
+    this.record("reconnecting", undefined, now);
+  }
+
+  /**
+   * The connection failed or was lost, schedules the next reconnect
+   */
+  recordFailure(error: unknown, now = Date.now()) {
+    this.errorCount++;
+    this.consecutiveFailures++;
+    this.nextReconnectAt = now + getReconnectDelay(this.consecutiveFailures);
+    this.record("error", errorToString(error), now);
+  }
+
+  /**
+   * A request failed while the connection stayed up
+   */
+  recordError() {
+    this.errorCount++;
+  }
+
+  recordLatency(latencyMs: number, now = Date.now()) {
+    this.latencies.push(latencyMs);
+    if (this.latencies.length > LATENCY_SAMPLES) this.latencies.shift();
+    this.lastPingAt = now;
+  }
+
+  shouldReconnect(now = Date.now()) {
+    return (
+      this.consecutiveFailures > 0 &&
+      this.nextReconnectAt !== undefined &&
+      now >= this.nextReconnectAt
+    );
+  }
+
+  getInfo(): MCPServerHealth {
+    return {
+      latencyMs: this.latencies.at(-1),
+      averageLatencyMs: this.latencies.length
+        ? Math.round(
+            this.latencies.reduce((sum, latency) => sum + latency, 0) /
+              this.latencies.length,
+          )
+        : undefined,
+      lastPingAt: this.lastPingAt,
+      errorCount: this.errorCount,
+      consecutiveFailures: this.consecutiveFailures,
+      nextReconnectAt: this.nextReconnectAt,
+      timeline: [...this.timeline],
+    };
+  }
+}
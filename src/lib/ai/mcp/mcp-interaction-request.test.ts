@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import {
+  getElicitationDefaults,
+  isMCPInteractionRequest,
+  toElicitationContent,
+} from "./mcp-interaction-request";
+
+const schema = {
+  properties: {
+    name: { type: "string" as const },
+    age: { type: "integer" as const, minimum: 0 },
+    color: { type: "string" as const, enum: ["red", "blue"] },
+    subscribe: { type: "boolean" as const, default: true },
+  },
+  required: ["name", "age"],
+};
+
+describe("getElicitationDefaults", () => {
+  it("should start with empty fields and boolean defaults", () => {
+    expect(getElicitationDefaults(schema)).toEqual({
+      name: "",
+      age: "",
+      color: "",
+      subscribe: true,
+    });
+  });
+});
+
+describe("toElicitationContent", () => {
+  it("should convert the values to the requested types", () => {
+    expect(
+      toElicitationContent(schema, {
+        name: " Ada ",
+        age: "36",
+        color: "",
+        subscribe: false,
+      }),
+    ).toEqual({
+      content: { name: "Ada", age: 36, subscribe: false },
+      missing: [],
+      invalid: [],
+    });
+  });
+
+  it("should report missing and invalid fields", () => {
+    const result = toElicitationContent(schema, {
+      name: "",
+      age: "1.5",
+      subscribe: true,
+    });
+
+    expect(result.missing).toEqual(["name"]);
+    expect(result.invalid).toEqual(["age"]);
+  });
+});
+
+describe("isMCPInteractionRequest", () => {
+  it("should tell requests apart from other stream data", () => {
+    expect(
+      isMCPInteractionRequest({
+        id: "1",
+        serverName: "notes",
+        type: "elicitation",
+      }),
+    ).toBe(true);
+    expect(isMCPInteractionRequest({ id: "1", type: "other" })).toBe(false);
+    expect(isMCPInteractionRequest("text")).toBe(false);
+  });
+});
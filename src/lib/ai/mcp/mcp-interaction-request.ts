@@ -0,0 +1,82 @@
+import type { MCPInteractionRequest } from "app-types/mcp";
+
+type ElicitationSchema = Extract<
+  MCPInteractionRequest,
+  { type: "elicitation" }
+>["requestedSchema"];
+
+/**
+ * Type guard for the requests in a chat's stream data
+ */
+export function isMCPInteractionRequest(
+  value: unknown,
+): value is MCPInteractionRequest {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  return (
+    "id" in value &&
+    "serverName" in value &&
+    "type" in value &&
+    (value.type === "sampling" || value.type === "elicitation")
+  );
+}
+
+export type ElicitationFormValues = Record<string, string | boolean>;
+
+/**
+ * The initial values of an elicitation form
+ */
+export const getElicitationDefaults = (
+  schema: ElicitationSchema,
+): ElicitationFormValues =>
+  Object.fromEntries(
+    Object.entries(schema.properties).map(([name, field]) => [
+      name,
+      field.type == "boolean" ? (field.default ?? false) : "",
+    ]),
+  );
+
+/**
+ * Turns what the user typed into the content the server asked for.
+ * Empty optional fields are left out; `missing` lists the empty required
+ * ones and `invalid` the numbers that don't parse or are out of range.
+ */
+export const toElicitationContent = (
+  schema: ElicitationSchema,
+  values: ElicitationFormValues,
+) => {
+  const content: Record<string, string | number | boolean> = {};
+  const missing: string[] = [];
+  const invalid: string[] = [];
+
+  for (const [name, field] of Object.entries(schema.properties)) {
+    const value = values[name];
+    if (field.type == "boolean") {
+      content[name] = value === true;
+      continue;
+    }
+    const text = typeof value == "string" ? value.trim() : "";
+    if (!text) {
+      if (schema.required?.includes(name)) missing.push(name);
+      continue;
+    }
+    if (field.type == "number" || field.type == "integer") {
+      const number = Number(text);
+      if (
+        Number.isNaN(number) ||
+        (field.type == "integer" && !Number.isInteger(number)) ||
+        (field.minimum !== undefined && number < field.minimum) ||
+        (field.maximum !== undefined && number > field.maximum)
+      ) {
+        invalid.push(name);
+        continue;
+      }
+      content[name] = number;
+      continue;
+    }
+    content[name] = text;
+  }
+
+  return { content, missing, invalid };
+};
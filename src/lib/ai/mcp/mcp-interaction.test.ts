@@ -0,0 +1,220 @@
+import type { MCPInteractionRequest } from "app-types/mcp";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("ai", () => ({ generateText: vi.fn() }));
+vi.mock("lib/ai/models", () => ({
+  customModelProvider: { getModel: vi.fn(() => "model") },
+}));
+
+const { generateText } = await import("ai");
+const { customModelProvider } = await import("lib/ai/models");
+const { MCPInteractionBroker } = await import("./mcp-interaction");
+
+describe("MCPInteractionBroker", () => {
+  let broker: InstanceType<typeof MCPInteractionBroker>;
+  let sent: MCPInteractionRequest[];
+  const chatModel = { provider: "openai", model: "gpt-4.1" };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    broker = new MCPInteractionBroker();
+    sent = [];
+  });
+
+  const channel = {
+    chatModel,
+    send: (request: MCPInteractionRequest) => sent.push(request),
+  };
+  const attach = () => broker.attach(channel);
+
+  // Lets the broker send the request before answering it
+  const nextRequest = async () => {
+    await vi.waitFor(() => expect(sent.length).toBeGreaterThan(0));
+    return sent.shift()!;
+  };
+
+  it("should fail when no chat is open", async () => {
+    await expect(
+      broker.elicitation("notes", {
+        message: "Name?",
+        requestedSchema: { type: "object", properties: {} },
+      }),
+    ).rejects.toThrow("no chat is open");
+  });
+
+  it("should show a request in the chat that called the tool", async () => {
+    const other: MCPInteractionRequest[] = [];
+    const otherChannel = {
+      chatModel: { provider: "anthropic", model: "claude" },
+      send: (request: MCPInteractionRequest) => other.push(request),
+    };
+    attach();
+    broker.attach(otherChannel);
+    vi.mocked(generateText).mockResolvedValue({
+      text: "Summary",
+      finishReason: "stop",
+      response: { modelId: "gpt-4.1" },
+    } as any);
+
+    const result = broker.sampling("notes", { messages: [], maxTokens: 100 }, [
+      channel,
+    ]);
+    const request = await nextRequest();
+    expect(other).toEqual([]);
+    broker.respond(request.id, { type: "sampling", approved: true });
+
+    await result;
+    expect(customModelProvider.getModel).toHaveBeenCalledWith(chatModel);
+  });
+
+  it("should show a request while several calls of the chat run", async () => {
+    attach();
+    const result = broker.elicitation(
+      "notes",
+      {
+        message: "Name?",
+        requestedSchema: { type: "object", properties: {} },
+      },
+      [channel, channel],
+    );
+    const request = await nextRequest();
+    broker.respond(request.id, { type: "elicitation", action: "decline" });
+
+    await expect(result).resolves.toEqual({ action: "decline" });
+  });
+
+  it("should fail when calls of several chats are running", async () => {
+    const otherChannel = { send: vi.fn() };
+    attach();
+    broker.attach(otherChannel);
+
+    await expect(
+      broker.sampling("notes", { messages: [], maxTokens: 100 }, [
+        channel,
+        otherChannel,
+      ]),
+    ).rejects.toThrow("tools of several chats are running");
+    await expect(
+      broker.sampling("notes", { messages: [], maxTokens: 100 }, [
+        channel,
+        undefined,
+      ]),
+    ).rejects.toThrow("tools of several chats are running");
+    expect(sent).toEqual([]);
+    expect(otherChannel.send).not.toHaveBeenCalled();
+  });
+
+  it("should fail when the chat that called the tool closed", async () => {
+    attach()();
+
+    await expect(
+      broker.sampling("notes", { messages: [], maxTokens: 100 }, [channel]),
+    ).rejects.toThrow("no chat is open");
+  });
+
+  it("should sample with the chat's model once approved", async () => {
+    attach();
+    vi.mocked(generateText).mockResolvedValue({
+      text: "Summary",
+      finishReason: "stop",
+      response: { modelId: "gpt-4.1" },
+    } as any);
+
+    const result = broker.sampling(
+      "notes",
+      {
+        messages: [{ role: "user", content: { type: "text", text: "Sum up" } }],
+        maxTokens: 100,
+      },
+      [channel],
+    );
+    const request = await nextRequest();
+    expect(request).toMatchObject({
+      type: "sampling",
+      serverName: "notes",
+      messages: [{ role: "user", text: "Sum up" }],
+    });
+    expect(
+      broker.respond(request.id, { type: "sampling", approved: true }),
+    ).toBe(true);
+
+    await expect(result).resolves.toEqual({
+      model: "gpt-4.1",
+      role: "assistant",
+      content: { type: "text", text: "Summary" },
+      stopReason: "endTurn",
+    });
+    expect(customModelProvider.getModel).toHaveBeenCalledWith(chatModel);
+    expect(generateText).toHaveBeenCalledWith(
+      expect.objectContaining({
+        messages: [{ role: "user", content: "Sum up" }],
+        maxTokens: 100,
+      }),
+    );
+  });
+
+  it("should not sample when the user rejects", async () => {
+    attach();
+    const result = broker.sampling("notes", { messages: [], maxTokens: 100 }, [
+      channel,
+    ]);
+    const request = await nextRequest();
+    broker.respond(request.id, { type: "sampling", approved: false });
+
+    await expect(result).rejects.toThrow("declined");
+    expect(generateText).not.toHaveBeenCalled();
+  });
+
+  it("should return the user's answer to an elicitation", async () => {
+    attach();
+    const result = broker.elicitation(
+      "notes",
+      {
+        message: "Name?",
+        requestedSchema: {
+          type: "object",
+          properties: { name: { type: "string" } },
+          required: ["name"],
+        },
+      },
+      [channel],
+    );
+    const request = await nextRequest();
+    expect(request).toMatchObject({
+      type: "elicitation",
+      message: "Name?",
+      requestedSchema: { required: ["name"] },
+    });
+
+    broker.respond(request.id, {
+      type: "elicitation",
+      action: "accept",
+      content: { name: "Ada" },
+    });
+
+    await expect(result).resolves.toEqual({
+      action: "accept",
+      content: { name: "Ada" },
+    });
+    expect(
+      broker.respond(request.id, { type: "elicitation", action: "decline" }),
+    ).toBe(false);
+  });
+
+  it("should fail waiting requests when their chat closes", async () => {
+    const detach = attach();
+    const result = broker.elicitation(
+      "notes",
+      {
+        message: "Name?",
+        requestedSchema: { type: "object", properties: {} },
+      },
+      [channel],
+    );
+    await nextRequest();
+
+    detach();
+
+    await expect(result).rejects.toThrow("chat closed");
+  });
+});
@@ -0,0 +1,216 @@
+import type {
+  CreateMessageRequest,
+  CreateMessageResult,
+  ElicitRequest,
+  ElicitResult,
+} from "@modelcontextprotocol/sdk/types.js";
+import { type CoreMessage, generateText } from "ai";
+import type { ChatModel } from "app-types/chat";
+import type {
+  MCPElicitationField,
+  MCPInteractionRequest,
+  MCPInteractionResponse,
+} from "app-types/mcp";
+import { customModelProvider } from "lib/ai/models";
+import { generateUUID } from "lib/utils";
+
+const RESPONSE_TIMEOUT = 1000 * 60 * 5;
+
+type SamplingMessage = CreateMessageRequest["params"]["messages"][number];
+
+/**
+ * A chat that is streaming, where server requests are shown to the user
+ */
+export type MCPInteractionChannel = {
+  // The model the user chose, used for sampling
+  chatModel?: ChatModel;
+  send(request: MCPInteractionRequest): void;
+};
+
+type PendingInteraction = {
+  type: MCPInteractionRequest["type"];
+  channel: MCPInteractionChannel;
+  resolve: (response: MCPInteractionResponse) => void;
+  reject: (error: Error) => void;
+  timeout: ReturnType<typeof setTimeout>;
+};
+
+const toCoreMessage = ({ role, content }: SamplingMessage): CoreMessage => {
+  if (content.type == "text") {
+    return { role, content: content.text };
+  }
+  if (content.type == "image" && role == "user") {
+    return {
+      role,
+      content: [
+        { type: "image", image: content.data, mimeType: content.mimeType },
+      ],
+    };
+  }
+  return { role, content: `[${content.type}]` };
+};
+
+const toStopReason = (
+  finishReason: string,
+): CreateMessageResult["stopReason"] => {
+  switch (finishReason) {
+    case "stop":
+      return "endTurn";
+    case "length":
+      return "maxTokens";
+    default:
+      return finishReason;
+  }
+};
+
+/**
+ * Hands the sampling and elicitation requests of a user's MCP servers to the
+ * chat that called the server's tool, and waits for their answer.
+ *
+ * Servers make these requests while one of their tools runs, so the chat
+ * that called the tool is still streaming and can show them. Requests don't
+ * say which call they belong to, so the client passes the channels of every
+ * call running on the server, and requests are refused when those calls
+ * come from different chats.
+ */
+export class MCPInteractionBroker {
+  private channels: MCPInteractionChannel[] = [];
+  private pending = new Map<string, PendingInteraction>();
+
+  /**
+   * Shows requests in the given chat until the returned function is called;
+   * requests still waiting then fail
+   */
+  attach(channel: MCPInteractionChannel) {
+    this.channels.push(channel);
+    return () => {
+      this.channels = this.channels.filter((c) => c !== channel);
+      for (const [id, pending] of this.pending) {
+        if (pending.channel !== channel) continue;
+        this.pending.delete(id);
+        clearTimeout(pending.timeout);
+        pending.reject(new Error("The chat closed before the user responded"));
+      }
+    };
+  }
+
+  /**
+   * Answers a request, returns false if it is unknown or no longer waiting
+   */
+  respond(id: string, response: MCPInteractionResponse) {
+    const pending = this.pending.get(id);
+    if (!pending || pending.type != response.type) return false;
+    this.pending.delete(id);
+    clearTimeout(pending.timeout);
+    pending.resolve(response);
+    return true;
+  }
+
+  private ask(
+    request: MCPInteractionRequest,
+    channels: (MCPInteractionChannel | undefined)[],
+  ) {
+    const callers = new Set(channels);
+    if (callers.size > 1) {
+      throw new Error(
+        `${request.serverName} needs the user to respond, but tools of several chats are running on it`,
+      );
+    }
+    const [channel] = callers;
+    if (!channel || !this.channels.includes(channel)) {
+      throw new Error(
+        `${request.serverName} needs the user to respond, but no chat is open`,
+      );
+    }
+    const response = new Promise<MCPInteractionResponse>((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        this.pending.delete(request.id);
+        reject(new Error("The user did not respond in time"));
+      }, RESPONSE_TIMEOUT);
+      this.pending.set(request.id, {
+        type: request.type,
+        channel,
+        resolve,
+        reject,
+        timeout,
+      });
+      channel.send(request);
+    });
+    return { channel, response };
+  }
+
+  /**
+   * Runs a completion for the server with the user's model, once they
+   * approved it
+   */
+  async sampling(
+    serverName: string,
+    params: CreateMessageRequest["params"],
+    channels: (MCPInteractionChannel | undefined)[] = [],
+  ): Promise<CreateMessageResult> {
+    const { channel: chat, response } = this.ask(
+      {
+        id: generateUUID(),
+        serverName,
+        type: "sampling",
+        messages: params.messages.map(({ role, content }) => ({
+          role,
+          text: content.type == "text" ? content.text : `[${content.type}]`,
+        })),
+        systemPrompt: params.systemPrompt,
+        maxTokens: params.maxTokens,
+      },
+      channels,
+    );
+    const answer = await response;
+    if (answer.type != "sampling" || !answer.approved) {
+      throw new Error("The user declined the sampling request");
+    }
+
+    const result = await generateText({
+      model: customModelProvider.getModel(chat.chatModel),
+      system: params.systemPrompt,
+      messages: params.messages.map(toCoreMessage),
+      maxTokens: params.maxTokens,
+      temperature: params.temperature,
+      stopSequences: params.stopSequences,
+    });
+    return {
+      model: result.response.modelId,
+      role: "assistant",
+      content: { type: "text", text: result.text },
+      stopReason: toStopReason(result.finishReason),
+    };
+  }
+
+  /**
+   * Asks the user to fill in the form the server requested
+   */
+  async elicitation(
+    serverName: string,
+    params: ElicitRequest["params"],
+    channels: (MCPInteractionChannel | undefined)[] = [],
+  ): Promise<ElicitResult> {
+    const { response } = this.ask(
+      {
+        id: generateUUID(),
+        serverName,
+        type: "elicitation",
+        message: params.message,
+        requestedSchema: {
+          properties: params.requestedSchema.properties as Record<
+            string,
+            MCPElicitationField
+          >,
+          required: params.requestedSchema.required,
+        },
+      },
+      channels,
+    );
+    const answer = await response;
+    if (answer.type != "elicitation") return { action: "cancel" };
+    return answer.action == "accept"
+      ? { action: "accept", content: answer.content ?? {} }
+      : { action: answer.action };
+  }
+}
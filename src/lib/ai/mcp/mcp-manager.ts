@@ -4,22 +4,63 @@ import {
   createMCPClientsManager,
   type MCPClientsManager,
 } from "./create-mcp-clients-manager";
+import {
+  createMCPClientsManagerRegistry,
+  type MCPClientsManagerRegistry,
+} from "./mcp-clients-manager-registry";
+import { createMCPOAuthClientProvider } from "./mcp-oauth-provider";
+import { MCPInteractionBroker } from "./mcp-interaction";
 import { FILE_BASED_MCP_CONFIG } from "lib/const";
+import { getSession } from "auth/server";
 declare global {
   // eslint-disable-next-line no-var
-  var __mcpClientsManager__: MCPClientsManager;
+  var __mcpClientsManager__: MCPClientsManager | undefined;
+  // eslint-disable-next-line no-var
+  var __mcpClientsManagers__: MCPClientsManagerRegistry | undefined;
 }
 
-if (!globalThis.__mcpClientsManager__) {
-  // Choose the appropriate storage implementation based on environment
-  const storage = FILE_BASED_MCP_CONFIG
-    ? createFileBasedMCPConfigsStorage()
-    : createDbBasedMCPConfigsStorage();
-  globalThis.__mcpClientsManager__ = createMCPClientsManager(storage);
+// The config file is the operator's, so its servers are shared by everyone
+if (FILE_BASED_MCP_CONFIG && !globalThis.__mcpClientsManager__) {
+  globalThis.__mcpClientsManager__ = createMCPClientsManager(
+    createFileBasedMCPConfigsStorage(),
+  );
+  globalThis.__mcpClientsManager__.startHealthChecks();
+}
+
+// Servers stored in the database belong to a user: each user gets their own
+// clients, connections, OAuth sessions and sampling/elicitation requests
+if (!globalThis.__mcpClientsManagers__) {
+  globalThis.__mcpClientsManagers__ = createMCPClientsManagerRegistry(
+    (userId) => {
+      const manager = createMCPClientsManager(
+        createDbBasedMCPConfigsStorage(),
+        undefined,
+        // Health checks reconnect outside of the user's requests
+        (id) => createMCPOAuthClientProvider(id, userId),
+        new MCPInteractionBroker(),
+      );
+      manager.startHealthChecks();
+      return manager;
+    },
+  );
 }
 
 export const initMCPManager = async () => {
-  return globalThis.__mcpClientsManager__.init();
+  return globalThis.__mcpClientsManager__?.init();
 };
 
-export const mcpClientsManager = globalThis.__mcpClientsManager__;
+/**
+ * Returns the MCP clients manager of the current user
+ */
+export const getMCPClientsManager = async (): Promise<MCPClientsManager> => {
+  if (globalThis.__mcpClientsManager__) {
+    return globalThis.__mcpClientsManager__;
+  }
+  const session = await getSession();
+  if (!session?.user?.id) {
+    throw new Error("User not authenticated. Please sign in.");
+  }
+  const manager = await globalThis.__mcpClientsManagers__!.get(session.user.id);
+  void manager.sync();
+  return manager;
+};
@@ -0,0 +1,120 @@
+import type { McpOAuthSession, McpOAuthSessionUpdate } from "app-types/mcp";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("auth/server", () => ({ getSession: vi.fn() }));
+vi.mock("lib/db/repository", () => ({
+  mcpRepository: {},
+  getRepositoriesForUser: vi.fn(),
+}));
+
+const { getSession } = await import("auth/server");
+const { getRepositoriesForUser } = await import("lib/db/repository");
+const {
+  MCPOAuthClientProvider,
+  createMCPOAuthClientProvider,
+  MCP_OAUTH_CALLBACK_PATH,
+  createMCPOAuthState,
+  parseMCPOAuthState,
+} = await import("./mcp-oauth-provider");
+
+const createMemoryStore = () => {
+  let session: McpOAuthSession | null = null;
+  return {
+    get: async () => session,
+    save: async (update: McpOAuthSessionUpdate) => {
+      session = {
+        mcpServerId: "server-1",
+        userId: "user-1",
+        updatedAt: new Date(),
+        ...session,
+        ...update,
+      };
+      return session;
+    },
+  };
+};
+
+describe("MCPOAuthClientProvider", () => {
+  let store: ReturnType<typeof createMemoryStore>;
+  let provider: InstanceType<typeof MCPOAuthClientProvider>;
+
+  beforeEach(() => {
+    store = createMemoryStore();
+    provider = new MCPOAuthClientProvider("server-1", store);
+  });
+
+  it("should register as a public client redirecting to the callback", () => {
+    expect(provider.redirectUrl.endsWith(MCP_OAUTH_CALLBACK_PATH)).toBe(true);
+    expect(provider.clientMetadata).toMatchObject({
+      redirect_uris: [provider.redirectUrl],
+      grant_types: ["authorization_code", "refresh_token"],
+      token_endpoint_auth_method: "none",
+    });
+  });
+
+  it("should store the state carrying the server id", async () => {
+    const state = await provider.state();
+
+    expect(parseMCPOAuthState(state)).toBe("server-1");
+    expect((await store.get())?.state).toBe(state);
+  });
+
+  it("should keep the authorization URL until tokens are saved", async () => {
+    const url = new URL("https://auth.example.com/authorize");
+    provider.redirectToAuthorization(url);
+    await provider.saveCodeVerifier("verifier");
+    expect(provider.authorizationUrl).toBe(url);
+    expect(await provider.codeVerifier()).toBe("verifier");
+
+    await provider.saveTokens({ access_token: "token", token_type: "Bearer" });
+
+    expect(provider.authorizationUrl).toBeUndefined();
+    expect(await provider.tokens()).toEqual({
+      access_token: "token",
+      token_type: "Bearer",
+    });
+    await expect(provider.codeVerifier()).rejects.toThrow();
+  });
+
+  it("should forget invalidated credentials", async () => {
+    await provider.saveClientInformation({
+      client_id: "client",
+      redirect_uris: [provider.redirectUrl],
+    });
+    await provider.saveTokens({ access_token: "token", token_type: "Bearer" });
+
+    await provider.invalidateCredentials("tokens");
+    expect(await provider.tokens()).toBeUndefined();
+    expect(await provider.clientInformation()).toMatchObject({
+      client_id: "client",
+    });
+
+    await provider.invalidateCredentials("all");
+    expect(await provider.clientInformation()).toBeUndefined();
+  });
+});
+
+describe("parseMCPOAuthState", () => {
+  it("should read the server id of a state", () => {
+    expect(parseMCPOAuthState(createMCPOAuthState("a.b-c"))).toBe("a.b-c");
+    expect(parseMCPOAuthState("no-separator")).toBeUndefined();
+  });
+});
+
+describe("createMCPOAuthClientProvider", () => {
+  it("should read the session of the given user without a request", async () => {
+    const selectOAuthSession = vi.fn().mockResolvedValue({
+      tokens: { access_token: "token", token_type: "Bearer" },
+    });
+    vi.mocked(getRepositoriesForUser).mockResolvedValue({
+      mcpRepository: { selectOAuthSession },
+    } as any);
+
+    const provider = createMCPOAuthClientProvider("server-1", "user-1");
+
+    expect(await provider.tokens()).toMatchObject({ access_token: "token" });
+    expect(getRepositoriesForUser).toHaveBeenCalledWith("user-1");
+    expect(selectOAuthSession).toHaveBeenCalledWith("server-1", "user-1");
+    expect(getSession).not.toHaveBeenCalled();
+  });
+});
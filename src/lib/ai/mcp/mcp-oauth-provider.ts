@@ -0,0 +1,171 @@
+import type { OAuthClientProvider } from "@modelcontextprotocol/sdk/client/auth.js";
+import type {
+  OAuthClientInformationFull,
+  OAuthClientMetadata,
+  OAuthTokens,
+} from "@modelcontextprotocol/sdk/shared/auth.js";
+import type { McpOAuthSession, McpOAuthSessionUpdate } from "app-types/mcp";
+import { getSession } from "auth/server";
+import { getRepositoriesForUser, mcpRepository } from "lib/db/repository";
+import { generateUUID } from "lib/utils";
+
+export const MCP_OAUTH_CALLBACK_PATH = "/api/mcp/oauth/callback";
+
+/**
+ * Where the OAuth session of one server and the current user is kept
+ */
+export type MCPOAuthSessionStore = {
+  get(): Promise<McpOAuthSession | null>;
+  save(update: McpOAuthSessionUpdate): Promise<unknown>;
+};
+
+/**
+ * The `state` sent to the authorization server carries the server id, so
+ * the callback knows which client to finish
+ */
+export const createMCPOAuthState = (mcpServerId: string) =>
+  `${mcpServerId}.${generateUUID()}`;
+
+export const parseMCPOAuthState = (state: string) => {
+  const index = state.lastIndexOf(".");
+  return index > 0 ? state.slice(0, index) : undefined;
+};
+
+export const getMCPOAuthRedirectUrl = () =>
+  new URL(
+    MCP_OAUTH_CALLBACK_PATH,
+    process.env.BETTER_AUTH_URL || "http://localhost:3000",
+  ).toString();
+
+/**
+ * OAuth 2.1 client of a remote MCP server.
+ *
+ * The SDK drives the flow (metadata discovery, dynamic client registration,
+ * PKCE, token refresh); this provider only stores what it hands over. As the
+ * app can't redirect from inside a tool call, the authorization URL is kept
+ * for the user to open from the MCP page.
+ */
+export class MCPOAuthClientProvider implements OAuthClientProvider {
+  // Set when the server asked for authorization
+  authorizationUrl?: URL;
+
+  constructor(
+    private mcpServerId: string,
+    private store: MCPOAuthSessionStore,
+  ) {}
+
+  get redirectUrl() {
+    return getMCPOAuthRedirectUrl();
+  }
+
+  get clientMetadata(): OAuthClientMetadata {
+    return {
+      client_name: "luminar-ai",
+      redirect_uris: [this.redirectUrl],
+      grant_types: ["authorization_code", "refresh_token"],
+      response_types: ["code"],
+      token_endpoint_auth_method: "none",
+    };
+  }
+
+  async state() {
+    const state = createMCPOAuthState(this.mcpServerId);
+    await this.store.save({ state });
+    return state;
+  }
+
+  async clientInformation() {
+    const session = await this.store.get();
+    return session?.clientInformation ?? undefined;
+  }
+
+  async saveClientInformation(clientInformation: OAuthClientInformationFull) {
+    await this.store.save({ clientInformation });
+  }
+
+  async tokens() {
+    const session = await this.store.get();
+    return session?.tokens ?? undefined;
+  }
+
+  async saveTokens(tokens: OAuthTokens) {
+    // The authorization is over once tokens are issued
+    await this.store.save({ tokens, state: null, codeVerifier: null });
+    this.authorizationUrl = undefined;
+  }
+
+  redirectToAuthorization(authorizationUrl: URL) {
+    this.authorizationUrl = authorizationUrl;
+  }
+
+  async saveCodeVerifier(codeVerifier: string) {
+    await this.store.save({ codeVerifier });
+  }
+
+  async codeVerifier() {
+    const session = await this.store.get();
+    if (!session?.codeVerifier) {
+      throw new Error("No pending authorization for this MCP server");
+    }
+    return session.codeVerifier;
+  }
+
+  async invalidateCredentials(scope: "all" | "client" | "tokens" | "verifier") {
+    switch (scope) {
+      case "all":
+        await this.store.save({
+          clientInformation: null,
+          tokens: null,
+          codeVerifier: null,
+        });
+        break;
+      case "client":
+        await this.store.save({ clientInformation: null });
+        break;
+      case "tokens":
+        await this.store.save({ tokens: null });
+        break;
+      case "verifier":
+        await this.store.save({ codeVerifier: null });
+        break;
+    }
+  }
+}
+
+/**
+ * Creates the provider of a server, storing its OAuth session for the given
+ * user, or the user of the current request. With a user it works outside of
+ * their requests too, e.g. for background reconnects.
+ */
+export const createMCPOAuthClientProvider = (
+  mcpServerId: string,
+  userId?: string,
+) => {
+  const getUserId = async () => {
+    if (userId) return userId;
+    const session = await getSession();
+    if (!session?.user?.id) {
+      throw new Error("User not authenticated. Please sign in.");
+    }
+    return session.user.id;
+  };
+  // The session-aware repository needs a request
+  const getRepository = async () =>
+    userId
+      ? (await getRepositoriesForUser(userId)).mcpRepository
+      : mcpRepository;
+
+  return new MCPOAuthClientProvider(mcpServerId, {
+    get: async () =>
+      (await getRepository()).selectOAuthSession(
+        mcpServerId,
+        await getUserId(),
+      ),
+    save: async (update) =>
+      (await getRepository()).saveOAuthSession(
+        mcpServerId,
+        await getUserId(),
+        update,
+      ),
+  });
+};
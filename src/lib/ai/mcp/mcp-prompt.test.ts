@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import {
+  createMCPPromptCommand,
+  filterMCPPromptCommands,
+  toPromptMessage,
+} from "./mcp-prompt";
+
+describe("filterMCPPromptCommands", () => {
+  const servers = [
+    {
+      id: "1",
+      name: "git",
+      promptInfo: [{ name: "commit" }, { name: "review" }],
+    },
+    { id: "2", name: "github", promptInfo: [{ name: "issue" }] },
+    { id: "3", name: "notes", promptInfo: [] },
+  ];
+
+  it("should list every prompt for a bare slash", () => {
+    expect(
+      filterMCPPromptCommands(servers, "/").map(({ command }) => command),
+    ).toEqual(["/git:commit", "/git:review", "/github:issue"]);
+  });
+
+  it("should match commands by prefix", () => {
+    expect(
+      filterMCPPromptCommands(servers, "/git:").map(({ command }) => command),
+    ).toEqual(["/git:commit", "/git:review"]);
+    expect(filterMCPPromptCommands(servers, "/GitHub")[0]).toMatchObject({
+      serverId: "2",
+      serverName: "github",
+      prompt: { name: "issue" },
+    });
+  });
+
+  it("should create the command of a prompt", () => {
+    expect(createMCPPromptCommand("git", "commit")).toBe("/git:commit");
+  });
+});
+
+describe("toPromptMessage", () => {
+  it("should turn prompt messages into text parts and attachments", () => {
+    const message = toPromptMessage({
+      messages: [
+        { role: "user", content: { type: "text", text: "Review this diff" } },
+        {
+          role: "user",
+          content: {
+            type: "resource",
+            resource: { uri: "file:///a.diff", text: "+ added" },
+          },
+        },
+        {
+          role: "user",
+          content: { type: "image", data: "AAAA", mimeType: "image/png" },
+        },
+        {
+          role: "user",
+          content: {
+            type: "resource",
+            resource: { uri: "file:///a.bin", blob: "AAAA" },
+          },
+        },
+      ],
+    });
+
+    expect(message.parts).toEqual([
+      { type: "text", text: "Review this diff" },
+      { type: "text", text: "+ added" },
+    ]);
+    expect(message.experimental_attachments).toEqual([
+      { contentType: "image/png", url: "data:image/png;base64,AAAA" },
+    ]);
+  });
+});
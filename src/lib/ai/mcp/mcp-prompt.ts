@@ -0,0 +1,79 @@
+import type { Attachment, UIMessage } from "ai";
+import type {
+  GetPromptResult,
+  MCPPromptInfo,
+  MCPServerInfo,
+} from "app-types/mcp";
+
+type TextUIPart = Extract<UIMessage["parts"][number], { type: "text" }>;
+
+export type MCPPromptCommand = {
+  /** `/server:prompt`, as typed in the chat input */
+  command: string;
+  serverId: string;
+  serverName: string;
+  prompt: MCPPromptInfo;
+};
+
+export const createMCPPromptCommand = (
+  serverName: string,
+  promptName: string,
+) => `/${serverName}:${promptName}`;
+
+/**
+ * Lists the slash commands of all servers' prompts whose command starts with
+ * the query; `/git` matches every prompt of a `git...` server
+ */
+export const filterMCPPromptCommands = (
+  servers: (Pick<MCPServerInfo, "name" | "promptInfo"> & { id: string })[],
+  query: string,
+): MCPPromptCommand[] => {
+  const normalizedQuery = query.trim().toLowerCase();
+  return servers
+    .flatMap((server) =>
+      (server.promptInfo ?? []).map((prompt) => ({
+        command: createMCPPromptCommand(server.name, prompt.name),
+        serverId: server.id,
+        serverName: server.name,
+        prompt,
+      })),
+    )
+    .filter(({ command }) => command.toLowerCase().startsWith(normalizedQuery));
+};
+
+/**
+ * Turns a rendered prompt into the content of one user message.
+ *
+ * The chat API takes a single new message per request, so every message of
+ * the prompt becomes text parts of it; images are sent as attachments.
+ */
+export const toPromptMessage = (
+  result: GetPromptResult,
+): { parts: TextUIPart[]; experimental_attachments: Attachment[] } => {
+  const parts: TextUIPart[] = [];
+  const attachments: Attachment[] = [];
+
+  for (const { content } of result.messages) {
+    switch (content.type) {
+      case "text":
+        parts.push({ type: "text", text: content.text });
+        break;
+      case "image":
+        attachments.push({
+          contentType: content.mimeType,
+          url: `data:${content.mimeType};base64,${content.data}`,
+        });
+        break;
+      case "resource":
+        if ("text" in content.resource) {
+          parts.push({ type: "text", text: content.resource.text });
+        }
+        break;
+      case "resource_link":
+        parts.push({ type: "text", text: content.uri });
+        break;
+    }
+  }
+
+  return { parts, experimental_attachments: attachments };
+};
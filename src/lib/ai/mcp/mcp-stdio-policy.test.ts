@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import {
+  assertStdioCommandAllowed,
+  assertStdioEnvInheritable,
+  getSensitiveInheritedEnv,
+  getStdioEnvironment,
+  parseAllowedCommands,
+  parseInheritableEnv,
+} from "./mcp-stdio-policy";
+
+describe("getStdioEnvironment", () => {
+  const appEnv = {
+    PATH: "/app/bin",
+    OPENAI_API_KEY: "sk-app",
+    GITHUB_TOKEN: "ghp-app",
+  };
+
+  it("should only pass the base environment and inherited variables", () => {
+    const env = getStdioEnvironment(
+      { command: "node", inheritEnv: ["GITHUB_TOKEN", "MISSING"] },
+      { PATH: "/usr/bin" },
+      appEnv,
+      ["GITHUB_TOKEN", "MISSING"],
+    );
+
+    expect(env).toEqual({ PATH: "/usr/bin", GITHUB_TOKEN: "ghp-app" });
+  });
+
+  it("should not pass variables the admin doesn't allow", () => {
+    const config = {
+      command: "node",
+      inheritEnv: ["GITHUB_TOKEN", "OPENAI_API_KEY"],
+    };
+
+    expect(getStdioEnvironment(config, {}, appEnv, ["GITHUB_TOKEN"])).toEqual({
+      GITHUB_TOKEN: "ghp-app",
+    });
+    // Without a list, nothing that looks like a secret
+    expect(getStdioEnvironment(config, {}, appEnv, [])).toEqual({});
+  });
+
+  it("should let the config's own variables win", () => {
+    const env = getStdioEnvironment(
+      {
+        command: "node",
+        inheritEnv: ["OPENAI_API_KEY"],
+        env: { OPENAI_API_KEY: "sk-server" },
+      },
+      {},
+      appEnv,
+      ["OPENAI_API_KEY"],
+    );
+
+    expect(env.OPENAI_API_KEY).toBe("sk-server");
+  });
+
+  it("should limit the heap of Node.js servers", () => {
+    const env = getStdioEnvironment(
+      {
+        command: "node",
+        maxMemoryMb: 256,
+        env: { NODE_OPTIONS: "--enable-source-maps" },
+      },
+      {},
+      appEnv,
+    );
+
+    expect(env.NODE_OPTIONS).toBe(
+      "--enable-source-maps --max-old-space-size=256",
+    );
+  });
+});
+
+describe("getSensitiveInheritedEnv", () => {
+  it("should return the inherited variables that look like secrets", () => {
+    expect(
+      getSensitiveInheritedEnv({
+        command: "node",
+        inheritEnv: ["HOME", "OPENAI_API_KEY", "DATABASE_URL", "github_token"],
+      }),
+    ).toEqual(["OPENAI_API_KEY", "DATABASE_URL", "github_token"]);
+  });
+});
+
+describe("assertStdioCommandAllowed", () => {
+  it("should allow any command without an allow-list", () => {
+    expect(() => assertStdioCommandAllowed("bash", [])).not.toThrow();
+  });
+
+  it("should only allow the listed commands", () => {
+    const allowed = parseAllowedCommands(" npx, uvx ,");
+    expect(allowed).toEqual(["npx", "uvx"]);
+    expect(() => assertStdioCommandAllowed("npx", allowed)).not.toThrow();
+    expect(() => assertStdioCommandAllowed("/tmp/npx", allowed)).toThrow(
+      'The command "/tmp/npx" is not allowed for MCP servers',
+    );
+  });
+});
+
+describe("assertStdioEnvInheritable", () => {
+  it("should refuse secrets without an allow-list", () => {
+    expect(() =>
+      assertStdioEnvInheritable({ command: "node", inheritEnv: ["HOME"] }, []),
+    ).not.toThrow();
+    expect(() =>
+      assertStdioEnvInheritable(
+        { command: "node", inheritEnv: ["HOME", "BETTER_AUTH_SECRET"] },
+        [],
+      ),
+    ).toThrow("may not inherit BETTER_AUTH_SECRET");
+  });
+
+  it("should only allow the listed variables", () => {
+    const inheritable = parseInheritableEnv("GITHUB_TOKEN");
+    expect(() =>
+      assertStdioEnvInheritable(
+        { command: "node", inheritEnv: ["GITHUB_TOKEN"] },
+        inheritable,
+      ),
+    ).not.toThrow();
+    expect(() =>
+      assertStdioEnvInheritable(
+        { command: "node", inheritEnv: ["POSTGRES_URL", "HOME"] },
+        inheritable,
+      ),
+    ).toThrow("may not inherit POSTGRES_URL, HOME");
+  });
+});
@@ -0,0 +1,97 @@
+import type { MCPStdioConfig } from "app-types/mcp";
+
+const SENSITIVE_ENV_NAME =
+  /KEY|SECRET|TOKEN|PASSWORD|PASSWD|CREDENTIAL|PRIVATE|AUTH|DATABASE_URL|POSTGRES_URL|REDIS_URL/i;
+
+export const isSensitiveEnvName = (name: string) =>
+  SENSITIVE_ENV_NAME.test(name);
+
+/**
+ * Variables the config inherits from the app that look like secrets
+ */
+export const getSensitiveInheritedEnv = (config: MCPStdioConfig) =>
+  (config.inheritEnv ?? []).filter(isSensitiveEnvName);
+
+export const parseAllowedCommands = (value?: string) =>
+  value
+    ?.split(",")
+    .map((command) => command.trim())
+    .filter(Boolean) ?? [];
+
+export const parseInheritableEnv = parseAllowedCommands;
+
+/**
+ * Whether stdio servers may inherit the app variable: one of the names the
+ * admin listed in MCP_STDIO_INHERITABLE_ENV, or without that list any name
+ * that doesn't look like a secret
+ */
+export const isInheritableEnvName = (
+  name: string,
+  inheritableEnv = parseInheritableEnv(process.env.MCP_STDIO_INHERITABLE_ENV),
+) =>
+  inheritableEnv.length
+    ? inheritableEnv.includes(name)
+    : !isSensitiveEnvName(name);
+
+/**
+ * Throws if the config inherits app variables the admin doesn't allow
+ */
+export const assertStdioEnvInheritable = (
+  config: MCPStdioConfig,
+  inheritableEnv = parseInheritableEnv(process.env.MCP_STDIO_INHERITABLE_ENV),
+) => {
+  const refused = (config.inheritEnv ?? []).filter(
+    (name) => !isInheritableEnvName(name, inheritableEnv),
+  );
+  if (refused.length) {
+    throw new Error(
+      `MCP servers may not inherit ${refused.join(", ")} from the app's environment`,
+    );
+  }
+};
+
+/**
+ * The environment a stdio server runs with: `baseEnv` (what any process
+ * needs, like PATH), the app variables the config inherits and the admin
+ * allows, then its own `env`. Nothing else of the app's environment is
+ * passed on.
+ */
+export const getStdioEnvironment = (
+  config: MCPStdioConfig,
+  baseEnv: Record<string, string>,
+  appEnv: Record<string, string | undefined> = process.env,
+  inheritableEnv = parseInheritableEnv(process.env.MCP_STDIO_INHERITABLE_ENV),
+) => {
+  const env = { ...baseEnv };
+  for (const name of config.inheritEnv ?? []) {
+    // Servers saved before the admin changed the list
+    if (!isInheritableEnvName(name, inheritableEnv)) continue;
+    const value = appEnv[name];
+    if (value !== undefined) env[name] = value;
+  }
+  Object.assign(env, config.env);
+  if (config.maxMemoryMb) {
+    env.NODE_OPTIONS = [
+      env.NODE_OPTIONS,
+      `--max-old-space-size=${config.maxMemoryMb}`,
+    ]
+      .filter(Boolean)
+      .join(" ");
+  }
+  return env;
+};
+
+/**
+ * Throws if the admin restricted the commands stdio servers may run
+ * (MCP_STDIO_ALLOWED_COMMANDS) and the command isn't one of them
+ */
+export const assertStdioCommandAllowed = (
+  command: string,
+  allowedCommands = parseAllowedCommands(
+    process.env.MCP_STDIO_ALLOWED_COMMANDS,
+  ),
+) => {
+  if (allowedCommands.length && !allowedCommands.includes(command)) {
+    throw new Error(`The command "${command}" is not allowed for MCP servers`);
+  }
+};
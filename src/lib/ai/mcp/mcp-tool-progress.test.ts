@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import {
+  collectMCPToolProgress,
+  isMCPToolProgressEvent,
+} from "./mcp-tool-progress";
+
+describe("collectMCPToolProgress", () => {
+  it("should keep the latest progress and every log line by tool call", () => {
+    const progress = collectMCPToolProgress([
+      { type: "mcp-tool-progress", toolCallId: "a", progress: 1, total: 4 },
+      { type: "mcp-tool-log", toolCallId: "a", level: "info", message: "one" },
+      {
+        type: "mcp-tool-progress",
+        toolCallId: "a",
+        progress: 2,
+        total: 4,
+        message: "Halfway",
+      },
+      { type: "mcp-tool-log", toolCallId: "b", level: "error", message: "x" },
+      { type: "mcp-tool-log", toolCallId: "a", level: "info", message: "two" },
+      { id: "1", type: "sampling", serverName: "other" },
+    ]);
+
+    expect(progress).toEqual({
+      a: {
+        progress: 2,
+        total: 4,
+        message: "Halfway",
+        logs: [
+          { level: "info", message: "one" },
+          { level: "info", message: "two" },
+        ],
+      },
+      b: { logs: [{ level: "error", message: "x" }] },
+    });
+  });
+
+  it("should keep only the last log lines", () => {
+    const progress = collectMCPToolProgress(
+      Array.from({ length: 60 }, (_, index) => ({
+        type: "mcp-tool-log",
+        toolCallId: "a",
+        level: "info",
+        message: `${index}`,
+      })),
+    );
+
+    expect(progress.a.logs).toHaveLength(50);
+    expect(progress.a.logs[0].message).toBe("10");
+  });
+
+  it("should tell progress events apart from other stream data", () => {
+    expect(isMCPToolProgressEvent({ type: "mcp-tool-log" })).toBe(false);
+    expect(isMCPToolProgressEvent(null)).toBe(false);
+  });
+});
@@ -0,0 +1,50 @@
+import type { MCPToolProgress, MCPToolProgressEvent } from "app-types/mcp";
+
+// A chatty server shouldn't grow the tool card without bounds
+const MAX_LOG_LINES = 50;
+
+/**
+ * Type guard for the progress events in a chat's stream data
+ */
+export function isMCPToolProgressEvent(
+  value: unknown,
+): value is MCPToolProgressEvent {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  return (
+    "toolCallId" in value &&
+    "type" in value &&
+    (value.type === "mcp-tool-progress" || value.type === "mcp-tool-log")
+  );
+}
+
+/**
+ * Folds the progress events in stream data into the latest progress and
+ * log lines of each tool call
+ */
+export const collectMCPToolProgress = (
+  data: unknown[],
+): Record<string, MCPToolProgress> =>
+  data.filter(isMCPToolProgressEvent).reduce(
+    (acc, event) => {
+      const current = acc[event.toolCallId] ?? { logs: [] };
+      acc[event.toolCallId] =
+        event.type == "mcp-tool-progress"
+          ? {
+              ...current,
+              progress: event.progress,
+              total: event.total,
+              message: event.message ?? current.message,
+            }
+          : {
+              ...current,
+              logs: [
+                ...current.logs,
+                { level: event.level, message: event.message },
+              ].slice(-MAX_LOG_LINES),
+            };
+      return acc;
+    },
+    {} as Record<string, MCPToolProgress>,
+  );
@@ -1,4 +1,8 @@
-import { McpServerCustomizationsPrompt, MCPToolInfo } from "app-types/mcp";
+import {
+  MCPResourceAttachment,
+  McpServerCustomizationsPrompt,
+  MCPToolInfo,
+} from "app-types/mcp";
 
 import { UserPreferences } from "app-types/user";
 import { User } from "better-auth";
@@ -231,8 +235,7 @@ export const buildUserSystemPrompt = (
   userPreferences?: UserPreferences,
   agent?: Agent,
 ) => {
-  const assistantName =
-    agent?.name || userPreferences?.botName || "Luminar AI";
+  const assistantName = agent?.name || userPreferences?.botName || "Luminar AI";
   const currentTime = format(new Date(), "EEEE, MMMM d, yyyy 'at' h:mm:ss a");
 
   let prompt = `You are ${assistantName}`;
@@ -433,6 +436,35 @@ ${prompt}
   return prompt;
 };
 
+export const buildMcpResourcesSystemPrompt = (
+  resources: MCPResourceAttachment[],
+) => {
+  if (!resources.length) return "";
+  const prompt = resources
+    .map((resource) => {
+      const content = resource.error
+        ? `[The resource could not be read: ${resource.error}]`
+        : resource.contents
+            .map((content) =>
+              "text" in content
+                ? content.text
+                : `[Binary content${content.mimeType ? ` (${content.mimeType})` : ""} is not included]`,
+            )
+            .join("\n\n");
+      return `
+<resource name="${resource.name}" uri="${resource.uri}"${resource.serverName ? ` server="${resource.serverName}"` : ""}>
+${content}
+</resource>`.trim();
+    })
+    .join("\n");
+  return `
+### Attached Resources
+- The user attached the following MCP resources to their message.
+- Use their content to answer, and say so when a resource could not be read.
+${prompt}
+`.trim();
+};
+
 export const generateExampleToolSchemaPrompt = (options: {
   toolInfo: MCPToolInfo;
   prompt?: string;
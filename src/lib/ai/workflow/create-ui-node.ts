@@ -1,5 +1,5 @@
 import { generateUUID } from "lib/utils";
-import { NodeKind, UINode } from "./workflow.interface";
+import { CodeLanguage, NodeKind, UINode } from "./workflow.interface";
 import { defaultObjectJsonSchema } from "./shared.workflow";
 import { ObjectJsonSchema7 } from "app-types/util";
 
@@ -103,6 +103,25 @@ export function createUINode(
         content: [],
       },
     };
+  } else if (node.data.kind === NodeKind.Code) {
+    node.data.outputSchema = structuredClone(defaultCodeNodeOutputSchema);
+    // Set default values for Code node
+    node.data.language = "javascript";
+    node.data.code = defaultCode.javascript;
+    node.data.inputs = [];
+    node.data.timeout = 10000; // 10 seconds default
+  } else if (node.data.kind === NodeKind.Loop) {
+    node.data.outputSchema = structuredClone(defaultLoopNodeOutputSchema);
+    // Set default values for Loop node
+    node.data.concurrency = 1;
+    node.data.maxIterations = 100;
+  } else if (node.data.kind === NodeKind.Workflow) {
+    node.data.outputSchema.properties = {
+      result: {
+        type: "object",
+      },
+    };
+    node.data.inputs = [];
   }
 
   return node;
@@ -128,3 +147,37 @@ export const defaultTemplateNodeOutputSchema: ObjectJsonSchema7 = {
     },
   },
 };
+
+export const defaultCodeNodeOutputSchema: ObjectJsonSchema7 = {
+  type: "object",
+  properties: {
+    result: {
+      type: "object",
+    },
+  },
+};
+
+export const defaultLoopNodeOutputSchema: ObjectJsonSchema7 = {
+  type: "object",
+  properties: {
+    item: {
+      type: "object",
+    },
+    index: {
+      type: "number",
+    },
+    results: {
+      type: "array",
+      items: {
+        type: "object",
+      },
+    },
+  },
+};
+
+export const defaultCode: Record<CodeLanguage, string> = {
+  javascript: `// Values of the input variables are in \`input\`
+return { message: \`Hello, \${input.name ?? "world"}!\` };`,
+  python: `# Values of the input variables are in \`input\`
+return {"message": f"Hello, {input.get('name', 'world')}!"}`,
+};
@@ -4,6 +4,7 @@ import { NodeKind } from "../workflow.interface";
 import { DBEdge, DBNode } from "app-types/workflow";
 import { convertUINodeToDBNode } from "../shared.workflow";
 import { createUINode } from "../create-ui-node";
+import { NODE_ERROR_HANDLE } from "../node-policy";
 
 describe("addEdgeBranchLabel", () => {
   // Helper function to create a node
@@ -314,4 +315,33 @@ describe("addEdgeBranchLabel", () => {
     // The traversal should continue from llm2 since it was reached
     expect(edges[2].uiConfig.label).toBeUndefined(); // but this won't be labeled since traversal stops at existing label
   });
+
+  it("should keep the error edge of a node on the same branch as its regular edge", () => {
+    const nodes: DBNode[] = [
+      createNode("start", NodeKind.Input, "Start"),
+      createNode("http", NodeKind.Http, "Http"),
+      createNode("llm1", NodeKind.LLM, "LLM1"),
+      createNode("fallback", NodeKind.Template, "Fallback"),
+      createNode("end", NodeKind.Output, "End"),
+    ];
+
+    const edges: DBEdge[] = [
+      createEdge("e1", "start", "http"),
+      createEdge("e2", "http", "llm1", "right"),
+      createEdge("e3", "http", "fallback", NODE_ERROR_HANDLE),
+      createEdge("e4", "llm1", "end"),
+      createEdge("e5", "fallback", "end"),
+    ];
+
+    addEdgeBranchLabel(nodes, edges);
+
+    // Only one of the two edges is followed, so "end" waits for one branch
+    expect(edges.map((edge) => edge.uiConfig.label)).toEqual([
+      "B0",
+      "B0",
+      "B0",
+      "B0",
+      "B0",
+    ]);
+  });
 });
@@ -1,17 +1,29 @@
 import { DBEdge, DBNode } from "app-types/workflow";
 import { NodeKind } from "../workflow.interface";
+import { NODE_ERROR_HANDLE } from "../node-policy";
 
-export function addEdgeBranchLabel(nodes: DBNode[], edges: DBEdge[]) {
+/**
+ * Labels the edges reachable from the start node (the Input node by default)
+ * with the branch they belong to.
+ */
+export function addEdgeBranchLabel(
+  nodes: DBNode[],
+  edges: DBEdge[],
+  startNodeId: string = nodes.find((n) => n.kind === NodeKind.Input)!.id,
+) {
   const outs = (id: string) => edges.filter((e) => e.source === id);
-  const start = nodes.find((n) => n.kind === NodeKind.Input)!;
-  const q: { id: string; bid: string }[] = [{ id: start.id, bid: "B0" }];
+  const q: { id: string; bid: string }[] = [{ id: startNodeId, bid: "B0" }];
 
   while (q.length) {
     const { id, bid } = q.shift()!;
     const node = nodes.find((n) => n.id === id)!;
     const nexts = outs(id);
 
-    if (node.kind === NodeKind.Condition) {
+    // Condition handles and error handles each start their own branch
+    if (
+      node.kind === NodeKind.Condition ||
+      nexts.some((e) => e.uiConfig.sourceHandle === NODE_ERROR_HANDLE)
+    ) {
       const byHandle = new Map<string, DBEdge[]>();
       nexts.forEach((e) => {
         const h = e.uiConfig.sourceHandle ?? "right";
@@ -0,0 +1,230 @@
+import { execSync } from "node:child_process";
+import { existsSync, realpathSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import { CodeRunError, runCode } from "./code-runner";
+
+const hasPython = (() => {
+  try {
+    execSync("python3 --version", { stdio: "ignore" });
+    return true;
+  } catch {
+    return false;
+  }
+})();
+
+describe("runCode", () => {
+  // Network modules, internal ones included, and ways out of the sandbox
+  const blockedModules = [
+    "node:http",
+    "https",
+    "net",
+    "_tls_wrap",
+    "_http_client",
+    "_http_agent",
+    "child_process",
+    "module",
+  ];
+
+  it("should return the result of a JavaScript script with its logs", async () => {
+    const { result, logs } = await runCode({
+      language: "javascript",
+      code: `console.log("sum of", input.numbers.length);
+return { sum: input.numbers.reduce((a, b) => a + b, 0) };`,
+      input: { numbers: [1, 2, 3] },
+      timeout: 5000,
+    });
+
+    expect(result).toEqual({ sum: 6 });
+    expect(logs).toEqual(["sum of 3"]);
+  });
+
+  it("should not expose the app's environment", async () => {
+    process.env.CODE_RUNNER_TEST_SECRET = "secret";
+    const { result } = await runCode({
+      language: "javascript",
+      code: "return process.env.CODE_RUNNER_TEST_SECRET ?? null;",
+      input: {},
+      timeout: 5000,
+    });
+    delete process.env.CODE_RUNNER_TEST_SECRET;
+
+    expect(result).toBeNull();
+  });
+
+  it("should report errors thrown by the script", async () => {
+    const error = await runCode({
+      language: "javascript",
+      code: `console.log("before");
+throw new Error("boom");`,
+      input: {},
+      timeout: 5000,
+    }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(CodeRunError);
+    expect(error.message).toContain("boom");
+    expect(error.logs).toEqual(["before"]);
+  });
+
+  it("should stop scripts that run past the timeout", async () => {
+    const error = await runCode({
+      language: "javascript",
+      code: "while (true) {}",
+      input: {},
+      timeout: 500,
+    }).catch((e) => e);
+
+    expect(error.message).toBe("Code execution timed out after 500ms");
+  });
+
+  it("should keep scripts in a temporary working directory", async () => {
+    const { result } = await runCode({
+      language: "javascript",
+      code: `const fs = require("fs");
+fs.writeFileSync("notes.txt", "kept");
+let env;
+try {
+  env = fs.readFileSync(${JSON.stringify(join(process.cwd(), ".env.example"))}, "utf8");
+} catch (error) {
+  env = error.code;
+}
+return { cwd: process.cwd(), notes: fs.readFileSync("notes.txt", "utf8"), env };`,
+      input: {},
+      timeout: 5000,
+    });
+
+    const { cwd, notes, env } = result as Record<string, string>;
+    expect(cwd.startsWith(realpathSync(tmpdir()))).toBe(true);
+    expect(notes).toBe("kept");
+    expect(env).toBe("ERR_ACCESS_DENIED");
+    expect(existsSync(cwd)).toBe(false);
+  });
+
+  it("should not let scripts reach the network or other processes", async () => {
+    const { result } = await runCode({
+      language: "javascript",
+      code: `const attempt = (name) => {
+  try {
+    require(name);
+    return "loaded";
+  } catch (error) {
+    return error.message;
+  }
+};
+return {
+  fetch: typeof fetch,
+  modules: ${JSON.stringify(blockedModules)}.map(attempt),
+  crypto: attempt("node:crypto"),
+};`,
+      input: {},
+      timeout: 5000,
+    });
+
+    expect(result).toEqual({
+      fetch: "undefined",
+      modules: blockedModules.map(
+        (name) => `The "${name}" module is not available in Code nodes`,
+      ),
+      crypto: "loaded",
+    });
+  });
+
+  it("should refuse to run JavaScript on Node.js without a permission model", async () => {
+    const versions = process.versions;
+    Object.defineProperty(process, "versions", {
+      value: { ...versions, node: "18.20.8" },
+      configurable: true,
+    });
+    const error = await runCode({
+      language: "javascript",
+      code: "return 1;",
+      input: {},
+      timeout: 5000,
+    })
+      .catch((e) => e)
+      .finally(() =>
+        Object.defineProperty(process, "versions", {
+          value: versions,
+          configurable: true,
+        }),
+      );
+
+    expect(error).toBeInstanceOf(CodeRunError);
+    expect(error.message).toBe(
+      "JavaScript Code nodes need Node.js 20.11 or later, the server runs 18.20.8",
+    );
+  });
+
+  it("should stop scripts whose result is too large", async () => {
+    const error = await runCode({
+      language: "javascript",
+      code: `return "x".repeat(2 * 1024 * 1024);`,
+      input: {},
+      timeout: 5000,
+    }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(CodeRunError);
+    expect(error.message).toContain("The result is larger than");
+  });
+
+  it("should only keep the latest logs", async () => {
+    const { logs } = await runCode({
+      language: "javascript",
+      code: `for (let i = 0; i < 5000; i++) console.log("line", i);
+return null;`,
+      input: {},
+      timeout: 5000,
+    });
+
+    expect(logs).toHaveLength(200);
+    expect(logs.at(-1)).toBe("line 4999");
+  });
+
+  it.skipIf(!hasPython)("should run Python scripts", async () => {
+    const { result, logs } = await runCode({
+      language: "python",
+      code: `print("hello", input["name"])
+return {"length": len(input["name"])}`,
+      input: { name: "workflow" },
+      timeout: 5000,
+    });
+
+    expect(result).toEqual({ length: 8 });
+    expect(logs).toEqual(["hello workflow"]);
+  });
+});
+
+describe.skipIf(!hasPython)("runCode with Python", () => {
+  it("should refuse files outside the working directory", async () => {
+    const error = await runCode({
+      language: "python",
+      code: `return open("/etc/hostname").read()`,
+      input: {},
+      timeout: 5000,
+    }).catch((e) => e);
+
+    expect(error.message).toContain("open is not allowed in Code nodes");
+  });
+
+  it("should refuse sockets and processes", async () => {
+    const { result } = await runCode({
+      language: "python",
+      code: `results = []
+for name in ["socket", "subprocess"]:
+    try:
+        __import__(name)
+        results.append("loaded")
+    except PermissionError as error:
+        results.append(str(error))
+return results`,
+      input: {},
+      timeout: 5000,
+    });
+
+    expect(result).toEqual([
+      "import is not allowed in Code nodes",
+      "import is not allowed in Code nodes",
+    ]);
+  });
+});
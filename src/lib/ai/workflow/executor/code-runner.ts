@@ -0,0 +1,251 @@
+import { type ChildProcess, spawn } from "node:child_process";
+import { mkdtemp, realpath, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { CodeLanguage } from "../workflow.interface";
+
+/**
+ * Result of running a script: the returned value and what it printed
+ */
+export type CodeRunResult = {
+  result: unknown;
+  logs: string[];
+};
+
+export class CodeRunError extends Error {
+  constructor(
+    message: string,
+    readonly logs: string[],
+  ) {
+    super(message);
+    this.name = "CodeRunError";
+  }
+}
+
+// Scripts read { code, input } from stdin and write their result to fd 3, so
+// anything they print on stdout or stderr ends up in the logs.
+// Node's permission model keeps JavaScript in its working directory and away
+// from child processes, workers and native addons. It doesn't cover the
+// network, so scripts may only load the builtins listed here and the globals
+// that reach the network are removed before the script runs.
+const JAVASCRIPT_RUNNER = `
+const fs = require("fs");
+const Module = require("module");
+const { code, input } = JSON.parse(fs.readFileSync(0, "utf8"));
+const allowed = new Set(${JSON.stringify([
+  "assert",
+  "buffer",
+  "crypto",
+  "events",
+  "fs",
+  "path",
+  "querystring",
+  "string_decoder",
+  "timers",
+  "url",
+  "util",
+  "zlib",
+])});
+const load = Module._load;
+Module._load = function (request, ...rest) {
+  if (!allowed.has(String(request).replace(/^node:/, "").split("/")[0])) {
+    throw new Error('The "' + request + '" module is not available in Code nodes');
+  }
+  return load.call(this, request, ...rest);
+};
+for (const name of ["fetch", "WebSocket", "EventSource"]) delete globalThis[name];
+delete process.getBuiltinModule;
+const AsyncFunction = Object.getPrototypeOf(async function () {}).constructor;
+// Exits once the logs are written, pipes are flushed asynchronously
+const exit = (code) =>
+  process.stdout.write("", () => process.stderr.write("", () => process.exit(code)));
+new AsyncFunction("input", code)(input).then(
+  (result) => {
+    fs.writeFileSync(3, JSON.stringify({ result: result ?? null }));
+    exit(0);
+  },
+  (error) => {
+    fs.writeFileSync(3, JSON.stringify({ error: String(error?.stack ?? error) }));
+    exit(1);
+  },
+);
+`;
+
+// Python has no permission model, an audit hook refuses file access outside
+// the working directory and the standard library, sockets and processes
+const PYTHON_RUNNER = `
+import json, os, sys, textwrap, traceback
+payload = json.load(sys.stdin)
+out = os.fdopen(3, "w")
+sandbox = os.getcwd()
+readable = [sandbox] + [os.path.realpath(p) for p in sys.path if p]
+blocked_modules = {"_ctypes", "_posixsubprocess", "_socket", "ctypes", "multiprocessing", "socket", "subprocess"}
+blocked_events = ("socket.", "subprocess.", "ctypes.", "os.system", "os.exec", "os.posix_spawn", "os.spawn", "os.fork", "os.kill", "os.chdir")
+write_events = {"os.chmod", "os.chown", "os.link", "os.mkdir", "os.remove", "os.rename", "os.rmdir", "os.symlink", "os.truncate", "os.utime"}
+write_flags = os.O_WRONLY | os.O_RDWR | os.O_APPEND | os.O_CREAT | os.O_TRUNC
+
+def inside(path, roots):
+    if isinstance(path, int):
+        return True
+    path = os.path.realpath(os.fsdecode(path))
+    return any(path == root or path.startswith(root + os.sep) for root in roots)
+
+def audit(event, args):
+    if event == "open":
+        path, mode, flags = args
+        writing = any(c in (mode or "") for c in "wax+") or bool(flags & write_flags)
+        allowed = inside(path, [sandbox] if writing else readable)
+    elif event in ("os.listdir", "os.scandir"):
+        allowed = inside(args[0], readable)
+    elif event in write_events:
+        allowed = all(inside(arg, [sandbox]) for arg in args if isinstance(arg, (str, bytes)))
+    elif event == "import":
+        allowed = args[0] not in blocked_modules
+    else:
+        allowed = not event.startswith(blocked_events)
+    if not allowed:
+        raise PermissionError(f"{event} is not allowed in Code nodes")
+
+sys.addaudithook(audit)
+try:
+    scope = {}
+    exec("def __run(input):\\n" + textwrap.indent(payload["code"], "    ") + "\\n    pass", scope)
+    out.write(json.dumps({"result": scope["__run"](payload["input"])}, default=str))
+except Exception:
+    out.write(json.dumps({"error": traceback.format_exc()}))
+out.close()
+`;
+
+const getCommand = (
+  language: CodeLanguage,
+  workDir: string,
+): [string, string[]] =>
+  language === "python"
+    ? ["python3", ["-I", "-c", PYTHON_RUNNER]]
+    : [
+        process.execPath,
+        [
+          "--max-old-space-size=256",
+          "--experimental-permission",
+          "--disable-warning=ExperimentalWarning",
+          `--allow-fs-read=${workDir}`,
+          `--allow-fs-write=${workDir}`,
+          "-e",
+          JAVASCRIPT_RUNNER,
+        ],
+      ];
+
+/**
+ * Longest a script may run, whatever its node's timeout says
+ */
+export const MAX_CODE_TIMEOUT = 60000;
+
+const MAX_LOG_LINES = 200;
+const MAX_LOG_LENGTH = 64 * 1024;
+const MAX_RESULT_LENGTH = 1024 * 1024;
+
+// Oldest Node.js with the permission model and --disable-warning
+const MIN_NODE_VERSION = [20, 11];
+
+const isNodeVersionSupported = () => {
+  const [major, minor] = process.versions.node.split(".").map(Number);
+  return (
+    major > MIN_NODE_VERSION[0] ||
+    (major == MIN_NODE_VERSION[0] && minor >= MIN_NODE_VERSION[1])
+  );
+};
+
+/**
+ * Whether the admin let workflows run Code nodes, they are off by default
+ */
+export const isCodeExecutionAllowed = () => !!process.env.ALLOW_CODE_NODES;
+
+/**
+ * Runs a script in a separate process that only sees PATH and NODE_ENV of
+ * the app's environment, sandboxed to a fresh temporary working directory
+ * that is removed afterwards.
+ * The script's body receives `input` and returns the result.
+ */
+export async function runCode({
+  language,
+  code,
+  input,
+  timeout,
+}: {
+  language: CodeLanguage;
+  code: string;
+  input: Record<string, unknown>;
+  timeout: number;
+}): Promise<CodeRunResult> {
+  if (language == "javascript" && !isNodeVersionSupported()) {
+    throw new CodeRunError(
+      `JavaScript Code nodes need Node.js ${MIN_NODE_VERSION.join(".")} or later, the server runs ${process.versions.node}`,
+      [],
+    );
+  }
+  const workDir = await realpath(
+    await mkdtemp(join(tmpdir(), "workflow-code-")),
+  );
+  const limit = Math.min(timeout, MAX_CODE_TIMEOUT);
+  const [command, args] = getCommand(language, workDir);
+  return new Promise<CodeRunResult>((resolve, reject) => {
+    const child: ChildProcess = spawn(command, args, {
+      cwd: workDir,
+      env: { PATH: process.env.PATH, NODE_ENV: process.env.NODE_ENV },
+      stdio: ["pipe", "pipe", "pipe", "pipe"],
+    });
+    let output = "";
+    let printed = "";
+    let failure: string | undefined;
+
+    const getLogs = () =>
+      printed.split("\n").filter(Boolean).slice(-MAX_LOG_LINES);
+
+    const stop = (reason: string) => {
+      failure ??= reason;
+      child.kill("SIGKILL");
+    };
+
+    const timer = setTimeout(
+      () => stop(`Code execution timed out after ${limit}ms`),
+      limit,
+    );
+
+    // Only the latest logs are kept, so a chatty script can't fill the memory
+    const print = (chunk: Buffer) => {
+      printed = (printed + chunk).slice(-MAX_LOG_LENGTH);
+    };
+    child.stdout!.on("data", print);
+    child.stderr!.on("data", print);
+    (child.stdio[3] as NodeJS.ReadableStream).on("data", (chunk) => {
+      output += chunk;
+      if (output.length > MAX_RESULT_LENGTH) {
+        output = "";
+        stop(`The result is larger than ${MAX_RESULT_LENGTH} characters`);
+      }
+    });
+
+    child.on("error", (error) => {
+      clearTimeout(timer);
+      reject(new CodeRunError(error.message, getLogs()));
+    });
+
+    child.on("close", () => {
+      clearTimeout(timer);
+      const logs = getLogs();
+      if (failure) return reject(new CodeRunError(failure, logs));
+      let parsed: { result?: unknown; error?: string };
+      try {
+        parsed = JSON.parse(output);
+      } catch {
+        return reject(
+          new CodeRunError("The script exited without a result", logs),
+        );
+      }
+      if (parsed.error) return reject(new CodeRunError(parsed.error, logs));
+      resolve({ result: parsed.result, logs });
+    });
+
+    child.stdin!.end(JSON.stringify({ code, input }));
+  }).finally(() => rm(workDir, { recursive: true, force: true }));
+}
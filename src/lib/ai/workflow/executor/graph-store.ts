@@ -1,5 +1,8 @@
 import { objectFlow, toAny } from "lib/utils";
-import { OutputSchemaSourceKey } from "../workflow.interface";
+import {
+  NodeRuntimeHistory,
+  OutputSchemaSourceKey,
+} from "../workflow.interface";
 import { graphStore } from "ts-edge";
 import { DBEdge, DBNode } from "app-types/workflow";
 import { ObjectJsonSchema7 } from "app-types/util";
@@ -15,6 +18,18 @@ export interface WorkflowRuntimeState {
   outputs: {
     [nodeId: string]: any;
   };
+  // Lines printed by nodes that run scripts
+  logs: {
+    [nodeId: string]: string[];
+  };
+  // Node runs of the workflows called by Workflow nodes
+  histories: {
+    [nodeId: string]: NodeRuntimeHistory[];
+  };
+  // Ids of the workflows that called this run, outermost first
+  workflowCallStack: string[];
+  setLogs(nodeId: string, logs: string[]): void;
+  setHistories(nodeId: string, histories: NodeRuntimeHistory[]): void;
   setInput(nodeId: string, value: any): void;
   getInput(nodeId: string): any;
   setOutput(key: OutputSchemaSourceKey, value: any): void;
@@ -30,6 +45,9 @@ export const createGraphStore = (params: {
       query: {},
       outputs: {},
       inputs: {},
+      logs: {},
+      histories: {},
+      workflowCallStack: [],
       nodes: params.nodes,
       edges: params.edges,
       setInput(nodeId, value) {
@@ -37,6 +55,16 @@ export const createGraphStore = (params: {
           return { inputs: { ...prev.inputs, [nodeId]: value } };
         });
       },
+      setLogs(nodeId, logs) {
+        set((prev) => {
+          return { logs: { ...prev.logs, [nodeId]: logs } };
+        });
+      },
+      setHistories(nodeId, histories) {
+        set((prev) => {
+          return { histories: { ...prev.histories, [nodeId]: histories } };
+        });
+      },
       getInput(nodeId) {
         const { inputs } = get();
         return inputs[nodeId];
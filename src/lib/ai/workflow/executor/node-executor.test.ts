@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { NodeKind, ToolNodeData } from "../workflow.interface";
+import { createGraphStore } from "./graph-store";
+
+vi.mock("server-only", () => ({}));
+vi.mock("auth/server", () => ({
+  getSession: vi.fn().mockResolvedValue({ user: { id: "user-1" } }),
+}));
+vi.mock("lib/db/repository", () => ({
+  mcpMcpToolCustomizationRepository: { select: vi.fn() },
+}));
+vi.mock("lib/ai/mcp/mcp-manager", () => ({ getMCPClientsManager: vi.fn() }));
+
+const { toolNodeExecutor } = await import("./node-executor");
+const { mcpMcpToolCustomizationRepository } = await import("lib/db/repository");
+const { getMCPClientsManager } = await import("lib/ai/mcp/mcp-manager");
+
+describe("toolNodeExecutor", () => {
+  const toolCall = vi.fn().mockResolvedValue({ content: [] });
+
+  const node = {
+    id: "tool",
+    kind: NodeKind.Tool,
+    name: "TOOL",
+    outputSchema: { type: "object", properties: {} },
+    model: { provider: "openai", model: "gpt-4" },
+    tool: {
+      type: "mcp-tool",
+      id: "delete_repo",
+      serverId: "server-1",
+      serverName: "github",
+      description: "Deletes a repository",
+    },
+  } as unknown as ToolNodeData;
+
+  const run = () =>
+    toolNodeExecutor({
+      node,
+      state: createGraphStore({ nodes: [], edges: [] })(),
+    });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getMCPClientsManager).mockResolvedValue({ toolCall } as any);
+  });
+
+  it("should refuse MCP tools the user denied", async () => {
+    vi.mocked(mcpMcpToolCustomizationRepository.select).mockResolvedValue({
+      policy: "deny",
+    } as any);
+
+    await expect(run()).rejects.toThrow(
+      'Tool "delete_repo" is denied by your tool policies',
+    );
+    expect(mcpMcpToolCustomizationRepository.select).toHaveBeenCalledWith({
+      userId: "user-1",
+      mcpServerId: "server-1",
+      toolName: "delete_repo",
+    });
+    expect(toolCall).not.toHaveBeenCalled();
+  });
+
+  it("should call MCP tools without a deny policy", async () => {
+    vi.mocked(mcpMcpToolCustomizationRepository.select).mockResolvedValue({
+      policy: "ask",
+    } as any);
+
+    const result = await run();
+
+    expect(toolCall).toHaveBeenCalledWith("server-1", "delete_repo", undefined);
+    expect(result.output).toEqual({ tool_result: { content: [] } });
+  });
+});
@@ -8,6 +8,7 @@ import {
   ToolNodeData,
   HttpNodeData,
   TemplateNodeData,
+  CodeNodeData,
   OutputSchemaSourceKey,
 } from "../workflow.interface";
 import { WorkflowRuntimeState } from "./graph-store";
@@ -25,7 +26,10 @@ import {
   tavilySearchToolForWorkflow,
   tavilyWebContentToolForWorkflow,
 } from "lib/ai/tools/web/web-search";
-import { mcpClientsManager } from "lib/ai/mcp/mcp-manager";
+import { getMCPClientsManager } from "lib/ai/mcp/mcp-manager";
+import { mcpMcpToolCustomizationRepository } from "lib/db/repository";
+import { getSession } from "auth/server";
+import { CodeRunError, isCodeExecutionAllowed, runCode } from "./code-runner";
 
 /**
  * Interface for node executor functions.
@@ -191,6 +195,20 @@ export const toolNodeExecutor: NodeExecutor<ToolNodeData> = async ({
 
   if (!node.tool) throw new Error("Tool not found");
 
+  // Same policies as in chat, from the user whose MCP servers run the tool.
+  // A run can't stop for approval, so only denied tools are refused.
+  if (node.tool.type == "mcp-tool") {
+    const session = await getSession();
+    const customization = await mcpMcpToolCustomizationRepository.select({
+      userId: session.user.id,
+      mcpServerId: node.tool.serverId,
+      toolName: node.tool.id,
+    });
+    if (customization?.policy == "deny") {
+      throw new Error(`Tool "${node.tool.id}" is denied by your tool policies`);
+    }
+  }
+
   // Handle parameter generation
   if (!node.tool?.parameterSchema) {
     // Tool doesn't need parameters
@@ -230,6 +248,7 @@ export const toolNodeExecutor: NodeExecutor<ToolNodeData> = async ({
 
   // Execute the tool based on its type
   if (node.tool.type == "mcp-tool") {
+    const mcpClientsManager = await getMCPClientsManager();
     const toolResult = (await mcpClientsManager.toolCall(
       node.tool.serverId,
       node.tool.id,
@@ -497,3 +516,60 @@ export const templateNodeExecutor: NodeExecutor<TemplateNodeData> = ({
     },
   };
 };
+
+/**
+ * Code Node Executor
+ * Runs the node's script with the configured inputs and checks that the
+ * returned value matches the declared `result` schema.
+ * What the script prints is kept as the node's logs, also when it fails.
+ * Only runs when the admin allowed Code nodes with ALLOW_CODE_NODES.
+ */
+export const codeNodeExecutor: NodeExecutor<CodeNodeData> = async ({
+  node,
+  state,
+}) => {
+  if (!isCodeExecutionAllowed()) {
+    throw new Error("Code nodes are disabled on this server");
+  }
+
+  // Default timeout of 10 seconds, runCode caps it
+  const timeout = node.timeout || 10000;
+
+  const input = node.inputs.reduce(
+    (acc, cur) => {
+      acc[cur.key] = cur.source ? state.getOutput(cur.source) : undefined;
+      return acc;
+    },
+    {} as Record<string, unknown>,
+  );
+  state.setInput(node.id, { language: node.language, input });
+
+  try {
+    const { result, logs } = await runCode({
+      language: node.language,
+      code: node.code,
+      input,
+      timeout,
+    });
+    state.setLogs(node.id, logs);
+
+    const resultSchema = node.outputSchema.properties?.result;
+    const parsed = resultSchema
+      ? jsonSchemaToZod(resultSchema).safeParse(result)
+      : undefined;
+    if (parsed && !parsed.success) {
+      throw new Error(
+        `The result doesn't match the output schema: ${parsed.error.message}`,
+      );
+    }
+
+    return {
+      output: {
+        result: parsed ? parsed.data : result,
+      },
+    };
+  } catch (error) {
+    if (error instanceof CodeRunError) state.setLogs(node.id, error.logs);
+    throw error;
+  }
+};
@@ -1,12 +1,26 @@
-import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  describe,
+  it,
+  expect,
+  vi,
+  beforeEach,
+  beforeAll,
+  afterAll,
+} from "vitest";
 import { createWorkflowExecutor } from "./workflow-executor";
 import { DBEdge, DBNode } from "app-types/workflow";
 import { NodeKind } from "../workflow.interface";
+import { LOOP_BODY_HANDLE } from "../loop";
 import {
   StringConditionOperator,
   BooleanConditionOperator,
 } from "../condition";
 
+// The executor's Tool and Workflow nodes load these, they only run on the server
+vi.mock("server-only", () => ({}));
+vi.mock("lib/db/repository", () => ({ workflowRepository: {} }));
+vi.mock("lib/ai/mcp/mcp-manager", () => ({ getMCPClientsManager: vi.fn() }));
+
 // Mock node executors with proper implementations
 vi.mock("./node-executor", async (importOriginal) => {
   const actual = await importOriginal<typeof import("./node-executor")>();
@@ -16,10 +30,10 @@ vi.mock("./node-executor", async (importOriginal) => {
 
   return {
     ...actual,
-    inputNodeExecutor: vi.fn().mockImplementation(() => {
-      // Return the test input data in output field
+    inputNodeExecutor: vi.fn().mockImplementation(({ state }) => {
+      // Return the test input data in output field, with the run's query
       return {
-        output: testInputData,
+        output: { ...testInputData, ...state.query },
       };
     }),
     outputNodeExecutor: vi.fn().mockImplementation(({ node, state }) => {
@@ -52,7 +66,8 @@ vi.mock("./node-executor", async (importOriginal) => {
 });
 
 // Mock other dependencies
-vi.mock("../shared.workflow", () => ({
+vi.mock("../shared.workflow", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../shared.workflow")>()),
   convertDBNodeToUINode: vi.fn().mockImplementation((dbNode) => ({
     id: dbNode.id,
     type: "default",
@@ -598,4 +613,129 @@ describe("createWorkflowExecutor", () => {
     // Note: input data in WORKFLOW_START event is a known limitation of the current implementation
     // The important thing is that the workflow executes correctly with the provided input data
   });
+
+  describe("loop nodes", () => {
+    // ts-edge leaves the task of a failed node unhandled, the failure itself
+    // is reported by the run's result
+    const ignoreRejection = () => {};
+    beforeAll(() => {
+      process.on("unhandledRejection", ignoreRejection);
+    });
+    afterAll(async () => {
+      // Rejections are reported once the pending callbacks ran
+      await new Promise((resolve) => setTimeout(resolve));
+      process.off("unhandledRejection", ignoreRejection);
+    });
+
+    const createLoopWorkflow = (loopConfig: Record<string, any> = {}) => ({
+      nodes: [
+        createNode("start", NodeKind.Input, "Start"),
+        createNode("loop", NodeKind.Loop, "Loop", {
+          source: { nodeId: "start", path: ["items"] },
+          result: { nodeId: "body", path: ["answer"] },
+          concurrency: 1,
+          maxIterations: 10,
+          ...loopConfig,
+        }),
+        createNode("body", NodeKind.LLM, "Body"),
+        createNode("end", NodeKind.Output, "End", {
+          outputData: [
+            { key: "results", source: { nodeId: "loop", path: ["results"] } },
+          ],
+        }),
+      ],
+      edges: [
+        createEdge("e1", "start", "loop"),
+        createEdge("e2", "loop", "body", LOOP_BODY_HANDLE),
+        createEdge("e3", "loop", "end"),
+      ],
+    });
+
+    // Answers with the iteration's item and the outer run's prefix
+    const answerWithItem = async ({ state }: any) => {
+      const item = state.getOutput({ nodeId: "loop", path: ["item"] });
+      const prefix = state.getOutput({ nodeId: "start", path: ["prefix"] });
+      return { output: { answer: `${prefix}${item}` } };
+    };
+
+    it("7. should run the body once per item with the outer outputs", async () => {
+      const { llmNodeExecutor } = await import("./node-executor");
+      vi.mocked(llmNodeExecutor).mockImplementation(answerWithItem);
+      const executor = createWorkflowExecutor(createLoopWorkflow());
+
+      const visitedNodes: string[] = [];
+      executor.subscribe((event: any) => {
+        if (event.eventType === "NODE_START") {
+          visitedNodes.push(event.node.name);
+        }
+      });
+
+      const result = await executor.run({
+        query: { items: ["a", "b", "c"], prefix: "#" },
+      });
+
+      expect(result.isOk).toBe(true);
+      expect(llmNodeExecutor).toHaveBeenCalledTimes(3);
+      expect(visitedNodes).toEqual(["start", "loop", "end"]);
+      expect(
+        result.output?.getOutput({ nodeId: "loop", path: ["results"] }),
+      ).toEqual(["#a", "#b", "#c"]);
+    });
+
+    it("8. should collect the results in item order when iterations overlap", async () => {
+      const { llmNodeExecutor } = await import("./node-executor");
+      // Earlier items take longer, so they finish last
+      vi.mocked(llmNodeExecutor).mockImplementation(async (params: any) => {
+        const item = params.state.getOutput({
+          nodeId: "loop",
+          path: ["item"],
+        });
+        await new Promise((resolve) => setTimeout(resolve, (4 - item) * 20));
+        return answerWithItem(params);
+      });
+      const executor = createWorkflowExecutor(
+        createLoopWorkflow({ concurrency: 3 }),
+      );
+
+      const result = await executor.run({
+        query: { items: [1, 2, 3], prefix: "" },
+      });
+
+      expect(result.isOk).toBe(true);
+      expect(
+        result.output?.getOutput({ nodeId: "loop", path: ["results"] }),
+      ).toEqual(["1", "2", "3"]);
+    });
+
+    it("9. should fail when the source has more items than allowed", async () => {
+      const { llmNodeExecutor } = await import("./node-executor");
+      const executor = createWorkflowExecutor(
+        createLoopWorkflow({ maxIterations: 2 }),
+      );
+
+      const result = await executor.run({ query: { items: [1, 2, 3] } });
+
+      expect(result.isOk).toBe(false);
+      expect(result.error?.message).toBe(
+        "Loop source has 3 items, more than the limit of 2 iterations",
+      );
+      expect(llmNodeExecutor).not.toHaveBeenCalled();
+    });
+
+    it("10. should fail the loop when an iteration fails", async () => {
+      const { llmNodeExecutor } = await import("./node-executor");
+      vi.mocked(llmNodeExecutor)
+        .mockImplementationOnce(answerWithItem)
+        .mockRejectedValueOnce(new Error("model unavailable"));
+      const executor = createWorkflowExecutor(createLoopWorkflow());
+
+      const result = await executor.run({ query: { items: [1, 2, 3] } });
+
+      expect(result.isOk).toBe(false);
+      expect(result.error?.message).toBe(
+        "Loop iteration 1 failed: model unavailable",
+      );
+      expect(llmNodeExecutor).toHaveBeenCalledTimes(2);
+    });
+  });
 });
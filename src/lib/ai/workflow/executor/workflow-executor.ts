@@ -1,4 +1,9 @@
-import { NodeKind } from "../workflow.interface";
+import {
+  LoopNodeData,
+  NodeKind,
+  NodeRuntimeHistory,
+  SubWorkflowNodeData,
+} from "../workflow.interface";
 import { createGraphStore, WorkflowRuntimeState } from "./graph-store";
 import { createStateGraph, graphNode, StateGraphRegistry } from "ts-edge";
 import {
@@ -10,11 +15,22 @@ import {
   toolNodeExecutor,
   httpNodeExecutor,
   templateNodeExecutor,
+  codeNodeExecutor,
 } from "./node-executor";
-import { toAny } from "lib/utils";
+import { errorToString, toAny } from "lib/utils";
+import { workflowRepository } from "lib/db/repository";
 import { addEdgeBranchLabel } from "./add-edge-branch-label";
 import { DBEdge, DBNode } from "app-types/workflow";
-import { convertDBNodeToUINode } from "../shared.workflow";
+import {
+  convertDBEdgeToUIEdge,
+  convertDBNodeToUINode,
+} from "../shared.workflow";
+import {
+  findLoopBodyNodeIds,
+  LOOP_BODY_HANDLE,
+  mapWithConcurrency,
+} from "../loop";
+import { NODE_ERROR_HANDLE, runWithPolicy } from "../node-policy";
 import globalLogger from "logger";
 import { ConsolaInstance } from "consola";
 import { colorize } from "consola/utils";
@@ -39,6 +55,12 @@ function getExecutorByKind(kind: NodeKind): NodeExecutor {
       return httpNodeExecutor;
     case NodeKind.Template:
       return templateNodeExecutor;
+    case NodeKind.Code:
+      return codeNodeExecutor;
+    case NodeKind.Loop:
+      return loopNodeExecutor;
+    case NodeKind.Workflow:
+      return subWorkflowNodeExecutor;
     case "NOOP" as any:
       return () => {
         return {
@@ -53,6 +75,197 @@ function getExecutorByKind(kind: NodeKind): NodeExecutor {
   };
 }
 
+/**
+ * Loop Node Executor
+ * Runs the loop body once per item of the source array, each iteration in its
+ * own executor whose Input node stands in for the Loop node and provides
+ * `item` and `index`. The body's `result` value of every iteration is
+ * collected in item order.
+ *
+ * Lives here rather than in node-executor.ts because it needs
+ * createWorkflowExecutor.
+ */
+const loopNodeExecutor: NodeExecutor<LoopNodeData> = async ({
+  node,
+  state,
+}) => {
+  const items = state.getOutput(node.source!);
+  if (!Array.isArray(items)) {
+    throw new Error("Loop source must be an array");
+  }
+  const maxIterations = node.maxIterations || 100;
+  if (items.length > maxIterations) {
+    throw new Error(
+      `Loop source has ${items.length} items, more than the limit of ${maxIterations} iterations`,
+    );
+  }
+
+  const bodyNodeIds = findLoopBodyNodeIds({
+    nodeId: node.id,
+    edges: state.edges.map(convertDBEdgeToUIEdge),
+  });
+  const loopNode = state.nodes.find((n) => n.id === node.id)!;
+  const bodyNodes = state.nodes.filter((n) => bodyNodeIds.includes(n.id));
+  const bodyEdges = state.edges.filter(
+    (e) =>
+      bodyNodeIds.includes(e.source) ||
+      (e.source === node.id && e.uiConfig.sourceHandle == LOOP_BODY_HANDLE),
+  );
+
+  const results = await mapWithConcurrency(
+    items,
+    node.concurrency || 1,
+    async (item, index) => {
+      const app = createWorkflowExecutor({
+        nodes: [{ ...loopNode, kind: NodeKind.Input }, ...bodyNodes],
+        // Copied because branch labels are written onto the edges
+        edges: bodyEdges.map((e) => ({
+          ...e,
+          uiConfig: {
+            ...e.uiConfig,
+            sourceHandle:
+              e.source === node.id ? undefined : e.uiConfig.sourceHandle,
+            label: undefined,
+          },
+        })),
+      });
+      const result = await app.run(
+        {
+          query: { item, index },
+          outputs: { ...state.outputs },
+          workflowCallStack: state.workflowCallStack,
+        },
+        { disableHistory: true },
+      );
+      if (!result.isOk) {
+        throw new Error(
+          `Loop iteration ${index} failed: ${result.error?.message}`,
+        );
+      }
+      return result.output.getOutput(node.result!) ?? null;
+    },
+  );
+
+  return {
+    input: {
+      count: items.length,
+      concurrency: node.concurrency || 1,
+    },
+    output: {
+      results,
+    },
+  };
+};
+
+/**
+ * Workflow Node Executor
+ * Runs another published workflow with its own executor. The workflows above
+ * this one are passed down so a workflow never ends up calling itself, and the
+ * called workflow's node runs are kept for the run view.
+ */
+const subWorkflowNodeExecutor: NodeExecutor<SubWorkflowNodeData> = async ({
+  node,
+  state,
+}) => {
+  if (!node.workflow) throw new Error("Workflow not found");
+  const name = node.workflow.name;
+
+  const callerId = state.nodes[0]?.workflowId;
+  const workflowCallStack = [...state.workflowCallStack, callerId];
+  if (workflowCallStack.includes(node.workflow.id)) {
+    throw new Error(`Workflow "${name}" cannot be called recursively`);
+  }
+
+  const [caller, workflow] = await Promise.all([
+    workflowRepository.selectById(callerId),
+    workflowRepository.selectStructureById(node.workflow.id, {
+      ignoreNote: true,
+    }),
+  ]);
+  if (!workflow) throw new Error(`Workflow "${name}" not found`);
+  if (!workflow.isPublished) {
+    throw new Error(`Workflow "${name}" is not published`);
+  }
+  // Same rule as the workflows a user can pick, applied to the caller's owner
+  const hasAccess =
+    caller &&
+    (await workflowRepository.checkAccess(workflow.id, caller.userId));
+  if (!hasAccess) throw new Error(`Workflow "${name}" is not accessible`);
+
+  const query = node.inputs.reduce(
+    (acc, cur) => {
+      acc[cur.key] = state.getOutput(cur.source!);
+      return acc;
+    },
+    {} as Record<string, unknown>,
+  );
+  state.setInput(node.id, query);
+
+  const app = createWorkflowExecutor({
+    nodes: workflow.nodes,
+    edges: workflow.edges,
+  });
+  const histories = recordNodeHistories(app, workflow.nodes);
+  const result = await app.run(
+    { query, workflowCallStack },
+    { disableHistory: true },
+  );
+  state.setHistories(node.id, histories);
+  if (!result.isOk) {
+    throw new Error(`Workflow "${name}" failed: ${result.error?.message}`);
+  }
+
+  const outputs = histories
+    .filter((h) => h.kind == NodeKind.Output)
+    .map((h) => h.result?.output)
+    .filter(Boolean);
+  return {
+    input: query,
+    output: {
+      result: outputs.length == 1 ? outputs[0] : outputs,
+    },
+  };
+};
+
+/**
+ * Collects a history entry for every node the executor runs, the same way the
+ * run view builds its own from the streamed events.
+ */
+export function recordNodeHistories(
+  app: ReturnType<typeof createWorkflowExecutor>,
+  nodes: DBNode[],
+): NodeRuntimeHistory[] {
+  const histories: NodeRuntimeHistory[] = [];
+  app.subscribe((event) => {
+    if (event.eventType == "NODE_START") {
+      const node = nodes.find((node) => node.id == event.node.name);
+      if (!node) return;
+      histories.push({
+        id: event.nodeExecutionId,
+        nodeId: node.id,
+        name: node.name,
+        kind: node.kind as NodeKind,
+        startedAt: event.startedAt,
+        status: "running",
+      });
+    } else if (event.eventType == "NODE_END") {
+      const history = histories.find((h) => h.id == event.nodeExecutionId);
+      if (!history) return;
+      const source = event.isOk ? event.node.output : event.node.input;
+      history.endedAt = event.endedAt;
+      history.status = event.isOk ? "success" : "fail";
+      history.error = event.error ? errorToString(event.error) : undefined;
+      history.result = {
+        input: source?.inputs?.[history.nodeId],
+        output: source?.outputs?.[history.nodeId],
+      };
+      history.logs = source?.logs?.[history.nodeId];
+      history.histories = source?.histories?.[history.nodeId];
+    }
+  });
+  return histories;
+}
+
 /**
  * Creates a workflow executor that can run a complete workflow.
  * The executor manages:
@@ -61,14 +274,37 @@ function getExecutorByKind(kind: NodeKind): NodeExecutor {
  * - Error handling and logging
  * - Branch synchronization for condition nodes
  *
- * @param workflow - Contains nodes and edges defining the workflow structure
+ * @param workflow - Contains nodes and edges defining the workflow structure,
+ * and optionally the node to start from instead of the Input node
  * @returns Compiled workflow executor ready to run
  */
 export const createWorkflowExecutor = (workflow: {
   nodes: DBNode[];
   edges: DBEdge[];
   logger?: ConsolaInstance;
+  startNodeId?: string;
 }) => {
+  // Loop bodies run inside their Loop node, not as part of this graph
+  const loopBodyNodeIds = new Set(
+    workflow.nodes
+      .filter((node) => node.kind == NodeKind.Loop)
+      .flatMap((node) =>
+        findLoopBodyNodeIds({
+          nodeId: node.id,
+          edges: workflow.edges.map(convertDBEdgeToUIEdge),
+        }),
+      ),
+  );
+  const graphNodes = workflow.nodes.filter(
+    (node) => !loopBodyNodeIds.has(node.id),
+  );
+  const graphEdges = workflow.edges.filter(
+    (edge) =>
+      edge.uiConfig.sourceHandle != LOOP_BODY_HANDLE &&
+      !loopBodyNodeIds.has(edge.source) &&
+      !loopBodyNodeIds.has(edge.target),
+  );
+
   // Create runtime state store for the workflow
   const store = createGraphStore({
     nodes: workflow.nodes,
@@ -81,6 +317,9 @@ export const createWorkflowExecutor = (workflow: {
       message: colorize("cyan", `Workflow Executor:`),
     });
 
+  // Nodes that failed but let the workflow go on, per run
+  let failedNodeIds = new Set<string>();
+
   // Create mapping for node ID to name for logging
   const nodeNameByNodeId = new Map<string, string>(
     workflow.nodes.map((node) => [node.id, node.name]),
@@ -92,8 +331,28 @@ export const createWorkflowExecutor = (workflow: {
     string
   >;
 
+  const startNodeId =
+    workflow.startNodeId ??
+    workflow.nodes.find((node) => node.kind == NodeKind.Input)!.id;
+
   // Add branch labels for condition node edges
-  addEdgeBranchLabel(workflow.nodes, workflow.edges);
+  addEdgeBranchLabel(graphNodes, graphEdges, startNodeId);
+
+  // Edges the run can't reach from its start never deliver a branch,
+  // so they must not hold back the nodes they lead to
+  const reachableNodeIds = new Set<string>();
+  const queue = [startNodeId];
+  while (queue.length) {
+    const nodeId = queue.shift()!;
+    if (reachableNodeIds.has(nodeId)) continue;
+    reachableNodeIds.add(nodeId);
+    graphEdges
+      .filter((edge) => edge.source == nodeId)
+      .forEach((edge) => queue.push(edge.target));
+  }
+  const syncEdges = graphEdges.filter((edge) =>
+    reachableNodeIds.has(edge.source),
+  );
 
   /**
    * Special SKIP node used to handle excess branches from condition nodes.
@@ -114,7 +373,7 @@ export const createWorkflowExecutor = (workflow: {
   graph.addNode(skipNode);
 
   // Add all workflow nodes to the execution graph
-  workflow.nodes.forEach((node) => {
+  graphNodes.forEach((node) => {
     graph.addNode({
       name: node.id,
       metadata: {
@@ -123,12 +382,33 @@ export const createWorkflowExecutor = (workflow: {
       async execute(state) {
         // Get the appropriate executor for this node type
         const executor = getExecutorByKind(node.kind as NodeKind);
+        const nodeData = convertDBNodeToUINode(node).data;
+        const policy = nodeData.policy;
 
-        // Execute the node with current state
-        const result = await executor({
-          node: convertDBNodeToUINode(node).data,
-          state,
-        });
+        // Execute the node with current state, as its policy allows
+        let result: Awaited<ReturnType<NodeExecutor>>;
+        try {
+          result = await runWithPolicy(
+            async () => executor({ node: nodeData, state }),
+            policy,
+            (attempt, error) =>
+              logger.warn(
+                `${node.name} failed, retrying (${attempt}/${policy!.maxRetries}): ${errorToString(error)}`,
+              ),
+          );
+        } catch (error) {
+          if (!policy?.onError || policy.onError == "fail") throw error;
+          failedNodeIds.add(node.id);
+          result = {
+            output: {
+              ...(policy.onError == "continue" ? policy.defaultOutput : {}),
+              error: {
+                name: toAny(error)?.name || "Error",
+                message: errorToString(error),
+              },
+            },
+          };
+        }
 
         // Store the execution results in the workflow state
         if (result?.output) {
@@ -159,22 +439,37 @@ export const createWorkflowExecutor = (workflow: {
       });
     } else {
       // Regular nodes have static edges defined in the workflow
-      const targetEdges = workflow.edges
-        .filter((edge) => edge.source == node.id)
+      const outEdges = graphEdges.filter((edge) => edge.source == node.id);
+      const targetEdges = outEdges
+        .filter((edge) => edge.uiConfig.sourceHandle != NODE_ERROR_HANDLE)
         .map((v) => v.target);
 
-      if (targetEdges.length) toAny(graph.edge)(node.id, targetEdges);
+      if (toAny(node.nodeConfig.policy)?.onError == "branch") {
+        // A failed node only continues through its error edges
+        const errorTargetEdges = outEdges
+          .filter((edge) => edge.uiConfig.sourceHandle == NODE_ERROR_HANDLE)
+          .map((v) => v.target);
+        graph.dynamicEdge(node.id, () => {
+          const next = failedNodeIds.has(node.id)
+            ? errorTargetEdges
+            : targetEdges;
+          if (!next.length) return;
+          return next;
+        });
+      } else if (targetEdges.length) {
+        toAny(graph.edge)(node.id, targetEdges);
+      }
     }
   });
 
   // Build table to track how many branches need to reach each node
   // Used to prevent duplicate execution when multiple condition branches
   // converge on the same target node
-  let needTable: Record<string, number> = buildNeedTable(workflow.edges);
+  let needTable: Record<string, number> = buildNeedTable(syncEdges);
 
-  // Compile the graph starting from the Input node
+  // Compile the graph starting from the start node
   const app = graph
-    .compile(workflow.nodes.find((node) => node.kind == NodeKind.Input)!.id)
+    .compile(startNodeId)
     .use(async ({ name: nodeId, input }, next) => {
       // Check if this node is expecting multiple incoming branches
       if (!(nodeId in needTable)) return;
@@ -191,7 +486,8 @@ export const createWorkflowExecutor = (workflow: {
   // Set up event logging for workflow execution monitoring
   app.subscribe((event) => {
     if (event.eventType == "WORKFLOW_START") {
-      needTable = buildNeedTable(workflow.edges);
+      needTable = buildNeedTable(syncEdges);
+      failedNodeIds = new Set();
       logger.debug(
         `[${event.eventType}] ${workflow.nodes.length} nodes, ${workflow.edges.length} edges`,
       );
@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import {
+  findLoopBodyNodeIds,
+  LOOP_BODY_HANDLE,
+  mapWithConcurrency,
+} from "./loop";
+
+describe("findLoopBodyNodeIds", () => {
+  const createEdge = (
+    source: string,
+    target: string,
+    sourceHandle?: string,
+  ) => ({
+    source,
+    target,
+    sourceHandle,
+  });
+
+  it("should collect nodes reachable from the loop handle", () => {
+    const edges = [
+      createEdge("input", "loop"),
+      createEdge("loop", "a", LOOP_BODY_HANDLE),
+      createEdge("a", "b"),
+      createEdge("a", "c"),
+      createEdge("loop", "after", "right"),
+      createEdge("after", "output"),
+    ];
+
+    expect(findLoopBodyNodeIds({ nodeId: "loop", edges }).sort()).toEqual([
+      "a",
+      "b",
+      "c",
+    ]);
+  });
+
+  it("should return an empty body when the loop handle is not connected", () => {
+    const edges = [createEdge("input", "loop"), createEdge("loop", "output")];
+
+    expect(findLoopBodyNodeIds({ nodeId: "loop", edges })).toEqual([]);
+  });
+
+  it("should visit converging branches only once", () => {
+    const edges = [
+      createEdge("loop", "a", LOOP_BODY_HANDLE),
+      createEdge("loop", "b", LOOP_BODY_HANDLE),
+      createEdge("a", "c"),
+      createEdge("b", "c"),
+    ];
+
+    expect(findLoopBodyNodeIds({ nodeId: "loop", edges }).sort()).toEqual([
+      "a",
+      "b",
+      "c",
+    ]);
+  });
+});
+
+describe("mapWithConcurrency", () => {
+  const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+  it("should keep the order of the items", async () => {
+    const results = await mapWithConcurrency([30, 10, 20], 3, async (ms, i) => {
+      await sleep(ms);
+      return `${i}:${ms}`;
+    });
+
+    expect(results).toEqual(["0:30", "1:10", "2:20"]);
+  });
+
+  it("should not run more calls than the concurrency at a time", async () => {
+    let running = 0;
+    let maxRunning = 0;
+    await mapWithConcurrency(Array.from({ length: 6 }), 2, async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await sleep(5);
+      running--;
+    });
+
+    expect(maxRunning).toBe(2);
+  });
+
+  it("should reject with the first failure and stop taking new items", async () => {
+    const started: number[] = [];
+    const promise = mapWithConcurrency([0, 1, 2, 3], 1, async (item) => {
+      started.push(item);
+      if (item === 1) throw new Error("boom");
+      return item;
+    });
+
+    await expect(promise).rejects.toThrow("boom");
+    expect(started).toEqual([0, 1]);
+  });
+
+  it("should resolve an empty array", async () => {
+    expect(await mapWithConcurrency([], 4, async () => 1)).toEqual([]);
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Handle id of a Loop node's body connector.
+ * Edges leaving a Loop node through this handle start its body, edges leaving
+ * through the regular handle continue after the loop has finished.
+ */
+export const LOOP_BODY_HANDLE = "loop";
+
+/**
+ * Finds the nodes that make up a Loop node's body: every node reachable from
+ * the edges that leave the loop handle.
+ */
+export function findLoopBodyNodeIds({
+  nodeId,
+  edges,
+}: {
+  nodeId: string;
+  edges: { source: string; target: string; sourceHandle?: string | null }[];
+}): string[] {
+  const bodyNodeIds = new Set<string>();
+  let currentNodes = edges
+    .filter(
+      (edge) => edge.source === nodeId && edge.sourceHandle == LOOP_BODY_HANDLE,
+    )
+    .map((edge) => edge.target);
+  while (currentNodes.length > 0) {
+    const sources = currentNodes.filter(
+      (id) => id !== nodeId && !bodyNodeIds.has(id),
+    );
+    sources.forEach((id) => bodyNodeIds.add(id));
+    currentNodes = edges
+      .filter((edge) => sources.includes(edge.source))
+      .map((edge) => edge.target);
+  }
+  return Array.from(bodyNodeIds);
+}
+
+/**
+ * Maps items with an async function, running at most `concurrency` calls at
+ * a time. Results keep the order of the items, and the first failure rejects.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  let failed = false;
+  const worker = async () => {
+    while (!failed && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await fn(items[index], index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+  await Promise.all(
+    Array.from(
+      { length: Math.max(1, Math.min(concurrency, items.length)) },
+      worker,
+    ),
+  );
+  return results;
+}
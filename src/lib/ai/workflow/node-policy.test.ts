@@ -0,0 +1,60 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { NodeTimeoutError, runWithPolicy } from "./node-policy";
+
+describe("runWithPolicy", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should not retry without a policy", async () => {
+    const fn = vi.fn().mockRejectedValue(new Error("boom"));
+
+    await expect(runWithPolicy(fn)).rejects.toThrow("boom");
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it("should retry with a doubling delay until an attempt succeeds", async () => {
+    vi.useFakeTimers();
+    const fn = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("first"))
+      .mockRejectedValueOnce(new Error("second"))
+      .mockResolvedValue("done");
+    const onRetry = vi.fn();
+
+    const promise = runWithPolicy(
+      fn,
+      { maxRetries: 3, retryDelay: 100 },
+      onRetry,
+    );
+    await vi.advanceTimersByTimeAsync(100);
+    expect(fn).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(199);
+    expect(fn).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+
+    await expect(promise).resolves.toBe("done");
+    expect(fn).toHaveBeenCalledTimes(3);
+    expect(onRetry.mock.calls.map(([attempt]) => attempt)).toEqual([1, 2]);
+  });
+
+  it("should throw the last error once the retries are used up", async () => {
+    const fn = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("first"))
+      .mockRejectedValueOnce(new Error("last"));
+
+    await expect(
+      runWithPolicy(fn, { maxRetries: 1, retryDelay: 0 }),
+    ).rejects.toThrow("last");
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it("should time out an attempt that takes too long", async () => {
+    const fn = () => new Promise((resolve) => setTimeout(resolve, 1000));
+
+    await expect(runWithPolicy(fn, { timeout: 10 })).rejects.toBeInstanceOf(
+      NodeTimeoutError,
+    );
+  });
+});
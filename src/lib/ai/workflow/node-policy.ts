@@ -0,0 +1,78 @@
+import { JSONSchema7 } from "json-schema";
+import { NodeExecutionPolicy, NodeKind } from "./workflow.interface";
+
+/**
+ * Handle id of a node's error connector.
+ * Edges leaving through it are followed instead of the regular ones when the
+ * node fails and its error mode is "branch".
+ */
+export const NODE_ERROR_HANDLE = "error";
+
+/**
+ * Node kinds that run work which can fail, and so take an execution policy
+ */
+export const POLICY_NODE_KINDS = [
+  NodeKind.LLM,
+  NodeKind.Tool,
+  NodeKind.Http,
+  NodeKind.Template,
+  NodeKind.Code,
+  NodeKind.Loop,
+  NodeKind.Workflow,
+];
+
+/**
+ * Schema of the `error` field a failed node outputs when the workflow goes on
+ */
+export const nodeErrorOutputSchema: JSONSchema7 = {
+  type: "object",
+  properties: {
+    name: { type: "string" },
+    message: { type: "string" },
+  },
+};
+
+export const DEFAULT_RETRY_DELAY = 1000;
+
+export class NodeTimeoutError extends Error {
+  constructor(timeout: number) {
+    super(`Node execution timed out after ${timeout}ms`);
+    this.name = "NodeTimeoutError";
+  }
+}
+
+/**
+ * Runs a node's executor with the retries and time limit of its policy.
+ * A timed out attempt is abandoned, not cancelled: the executor keeps running
+ * in the background but its result is ignored.
+ */
+export async function runWithPolicy<T>(
+  fn: () => Promise<T>,
+  policy: NodeExecutionPolicy = {},
+  onRetry?: (attempt: number, error: unknown) => void,
+): Promise<T> {
+  const maxRetries = policy.maxRetries ?? 0;
+  const retryDelay = policy.retryDelay ?? DEFAULT_RETRY_DELAY;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await withTimeout(fn(), policy.timeout);
+    } catch (error) {
+      if (attempt >= maxRetries) throw error;
+      onRetry?.(attempt + 1, error);
+      await new Promise((resolve) =>
+        setTimeout(resolve, retryDelay * 2 ** attempt),
+      );
+    }
+  }
+}
+
+function withTimeout<T>(promise: Promise<T>, timeout?: number): Promise<T> {
+  if (!timeout) return promise;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  return Promise.race([
+    promise,
+    new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new NodeTimeoutError(timeout)), timeout);
+    }),
+  ]).finally(() => clearTimeout(timer));
+}
@@ -6,8 +6,13 @@ import {
   inputNodeValidate,
   outputNodeValidate,
   llmNodeValidate,
+  codeNodeValidate,
+  loopNodeValidate,
+  subWorkflowNodeValidate,
+  nodePolicyValidate,
 } from "./node-validate";
 import { UINode, NodeKind } from "./workflow.interface";
+import { NODE_ERROR_HANDLE } from "./node-policy";
 
 describe("node-validate", () => {
   const createInputNodeData = (
@@ -65,10 +70,58 @@ describe("node-validate", () => {
     },
   });
 
-  const createEdge = (id: string, source: string, target: string): Edge => ({
+  const createCodeNodeData = (
+    id: string,
+    name: string,
+    inputs: any[] = [],
+    code = "return input;",
+  ): UINode<NodeKind.Code> => ({
+    id,
+    type: "default",
+    position: { x: 0, y: 0 },
+    data: {
+      id,
+      name,
+      kind: NodeKind.Code,
+      outputSchema: {
+        type: "object",
+        properties: { result: { type: "object" } },
+      },
+      language: "javascript",
+      code,
+      inputs,
+    },
+  });
+
+  const createLoopNodeData = (
+    id: string,
+    name: string,
+    data: Partial<UINode<NodeKind.Loop>["data"]> = {},
+  ): UINode<NodeKind.Loop> => ({
+    id,
+    type: "default",
+    position: { x: 0, y: 0 },
+    data: {
+      id,
+      name,
+      kind: NodeKind.Loop,
+      outputSchema: { type: "object", properties: {} },
+      concurrency: 1,
+      maxIterations: 100,
+      ...data,
+    },
+  });
+
+  const createEdge = (
+    id: string,
+    source: string,
+    target: string,
+    sourceHandle?: string,
+  ): Edge => ({
     id,
     source,
     target,
+    sourceHandle,
   });
 
   describe("validateSchema", () => {
@@ -170,6 +223,238 @@ describe("node-validate", () => {
     });
   });
 
+  describe("codeNodeValidate", () => {
+    it("should validate code node with inputs from other nodes", () => {
+      const startNode = createInputNodeData("start", "Start Node");
+      const codeNode = createCodeNodeData("code", "Code Node", [
+        { key: "text", source: { nodeId: "start", path: ["input"] } },
+      ]);
+
+      expect(() => {
+        codeNodeValidate({
+          node: codeNode.data,
+          nodes: [startNode, codeNode],
+          edges: [],
+        });
+      }).not.toThrow();
+    });
+
+    it("should throw error when code node has no code", () => {
+      const codeNode = createCodeNodeData("code", "Code Node", [], "  ");
+
+      expect(() => {
+        codeNodeValidate({ node: codeNode.data, nodes: [], edges: [] });
+      }).toThrow("Code node must have a code");
+    });
+
+    it("should throw error when an input has no source", () => {
+      const codeNode = createCodeNodeData("code", "Code Node", [
+        { key: "text" },
+      ]);
+
+      expect(() => {
+        codeNodeValidate({ node: codeNode.data, nodes: [], edges: [] });
+      }).toThrow("Input variable must have a source");
+    });
+  });
+
+  describe("loopNodeValidate", () => {
+    const startNode = createInputNodeData("start", "Start Node", {
+      type: "object",
+      properties: {
+        items: { type: "array", items: { type: "string" } },
+      } as any,
+    });
+    const bodyNode = createCodeNodeData("body", "Body Node");
+    const afterNode = createCodeNodeData("after", "After Node");
+    const loopNode = createLoopNodeData("loop", "Loop Node", {
+      source: { nodeId: "start", path: ["items"] },
+      result: { nodeId: "body", path: ["result"] },
+    });
+    const nodes = [startNode, loopNode, bodyNode, afterNode];
+
+    it("should validate loop node with a body", () => {
+      const edges = [
+        createEdge("edge1", "start", "loop"),
+        createEdge("edge2", "loop", "body", "loop"),
+        createEdge("edge3", "loop", "after", "right"),
+      ];
+
+      expect(() => {
+        loopNodeValidate({ node: loopNode.data, nodes, edges });
+      }).not.toThrow();
+    });
+
+    it("should throw error when the source is not an array", () => {
+      const node = createLoopNodeData("loop", "Loop Node", {
+        source: { nodeId: "body", path: ["result"] },
+      });
+
+      expect(() => {
+        loopNodeValidate({ node: node.data, nodes, edges: [] });
+      }).toThrow("Loop source must be an array");
+    });
+
+    it("should throw error when the body joins nodes after the loop", () => {
+      const edges = [
+        createEdge("edge1", "loop", "body", "loop"),
+        createEdge("edge2", "body", "after"),
+        createEdge("edge3", "loop", "after", "right"),
+      ];
+
+      expect(() => {
+        loopNodeValidate({ node: loopNode.data, nodes, edges });
+      }).toThrow("Loop body can only be entered from the loop handle");
+    });
+
+    it("should throw error when the result is outside the body", () => {
+      const node = createLoopNodeData("loop", "Loop Node", {
+        source: { nodeId: "start", path: ["items"] },
+        result: { nodeId: "after", path: ["result"] },
+      });
+      const edges = [createEdge("edge1", "loop", "body", "loop")];
+
+      expect(() => {
+        loopNodeValidate({ node: node.data, nodes, edges });
+      }).toThrow("Loop result must come from the loop body");
+    });
+
+    it("should throw error when max iterations is not a positive integer", () => {
+      const node = createLoopNodeData("loop", "Loop Node", {
+        source: { nodeId: "start", path: ["items"] },
+        maxIterations: 0,
+      });
+
+      expect(() => {
+        loopNodeValidate({ node: node.data, nodes, edges: [] });
+      }).toThrow("Loop max iterations must be a positive integer");
+    });
+  });
+
+  describe("subWorkflowNodeValidate", () => {
+    const startNode = createInputNodeData("start", "Start Node");
+    const createSubWorkflowNodeData = (
+      inputs: any[],
+    ): UINode<NodeKind.Workflow> => ({
+      id: "sub",
+      type: "default",
+      position: { x: 0, y: 0 },
+      data: {
+        id: "sub",
+        name: "Sub Workflow",
+        kind: NodeKind.Workflow,
+        outputSchema: { type: "object", properties: {} },
+        workflow: { id: "workflow-2", name: "Summarize" },
+        inputSchema: {
+          type: "object",
+          properties: { text: { type: "string" }, lang: { type: "string" } },
+          required: ["text"],
+        },
+        inputs,
+      },
+    });
+
+    it("should validate workflow node with required inputs mapped", () => {
+      const node = createSubWorkflowNodeData([
+        { key: "text", source: { nodeId: "start", path: ["input"] } },
+        { key: "lang" },
+      ]);
+
+      expect(() => {
+        subWorkflowNodeValidate({
+          node: node.data,
+          nodes: [startNode, node],
+          edges: [],
+        });
+      }).not.toThrow();
+    });
+
+    it("should throw error when a required input is not mapped", () => {
+      const node = createSubWorkflowNodeData([
+        { key: "text" },
+        { key: "lang", source: { nodeId: "start", path: ["input"] } },
+      ]);
+
+      expect(() => {
+        subWorkflowNodeValidate({
+          node: node.data,
+          nodes: [startNode, node],
+          edges: [],
+        });
+      }).toThrow('Input field "text" is required');
+    });
+
+    it("should throw error when no workflow is selected", () => {
+      const node = createSubWorkflowNodeData([]);
+
+      expect(() => {
+        subWorkflowNodeValidate({
+          node: { ...node.data, workflow: undefined },
+          nodes: [],
+          edges: [],
+        });
+      }).toThrow("Workflow node must have a workflow");
+    });
+  });
+
+  describe("nodePolicyValidate", () => {
+    const createPolicyNode = (
+      policy: UINode<NodeKind.Code>["data"]["policy"],
+    ) => {
+      const node = createCodeNodeData("code", "Code Node");
+      node.data.policy = policy;
+      return node;
+    };
+
+    it("should validate retries and a timeout within the limits", () => {
+      const node = createPolicyNode({
+        maxRetries: 3,
+        retryDelay: 500,
+        timeout: 5000,
+      });
+
+      expect(() => {
+        nodePolicyValidate({ node: node.data, nodes: [node], edges: [] });
+      }).not.toThrow();
+    });
+
+    it("should throw error when retries are out of range", () => {
+      const node = createPolicyNode({ maxRetries: 6 });
+
+      expect(() => {
+        nodePolicyValidate({ node: node.data, nodes: [node], edges: [] });
+      }).toThrow("Max retries must be an integer between 0 and 5");
+    });
+
+    it("should require an error edge in the error branch mode", () => {
+      const node = createPolicyNode({ onError: "branch" });
+      const errorEdge = createEdge(
+        "edge1",
+        "code",
+        "fallback",
+        NODE_ERROR_HANDLE,
+      );
+
+      expect(() => {
+        nodePolicyValidate({ node: node.data, nodes: [node], edges: [] });
+      }).toThrow("Connect the error handle to route failures");
+      expect(() => {
+        nodePolicyValidate({
+          node: node.data,
+          nodes: [node],
+          edges: [errorEdge],
+        });
+      }).not.toThrow();
+      expect(() => {
+        nodePolicyValidate({
+          node: createPolicyNode({ onError: "fail" }).data,
+          nodes: [node],
+          edges: [errorEdge],
+        });
+      }).toThrow("Error edges are only followed in the error branch mode");
+    });
+  });
+
   describe("allNodeValidate", () => {
     it("should validate workflow with start and end nodes", () => {
       const startNode = createInputNodeData("start", "Start Node");
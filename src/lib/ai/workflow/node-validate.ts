@@ -11,11 +11,16 @@ import {
   ToolNodeData,
   HttpNodeData,
   TemplateNodeData,
+  CodeNodeData,
+  LoopNodeData,
+  SubWorkflowNodeData,
 } from "lib/ai/workflow/workflow.interface";
 import { cleanVariableName } from "lib/utils";
 import { safe } from "ts-safe";
 import { findJsonSchemaByPath } from "./shared.workflow";
 import { ConditionBranch } from "./condition";
+import { findLoopBodyNodeIds, LOOP_BODY_HANDLE } from "./loop";
+import { NODE_ERROR_HANDLE } from "./node-policy";
 
 export function validateSchema(key: string, schema: JSONSchema7) {
   const variableName = cleanVariableName(key);
@@ -94,6 +99,7 @@ export const nodeValidate: NodeValidate<WorkflowNodeData> = ({
   ) {
     throw new Error("Node name must be unique");
   }
+  nodePolicyValidate({ node, nodes, edges });
   switch (node.kind) {
     case NodeKind.Input:
       return inputNodeValidate({ node, nodes, edges });
@@ -109,6 +115,58 @@ export const nodeValidate: NodeValidate<WorkflowNodeData> = ({
       return httpNodeValidate({ node, nodes, edges });
     case NodeKind.Template:
       return templateNodeValidate({ node, nodes, edges });
+    case NodeKind.Code:
+      return codeNodeValidate({ node, nodes, edges });
+    case NodeKind.Loop:
+      return loopNodeValidate({ node, nodes, edges });
+    case NodeKind.Workflow:
+      return subWorkflowNodeValidate({ node, nodes, edges });
+  }
+};
+
+export const nodePolicyValidate: NodeValidate<WorkflowNodeData> = ({
+  node,
+  edges,
+}) => {
+  const policy = node.policy ?? {};
+  const isIntegerBetween = (value: number, min: number, max: number) =>
+    Number.isInteger(value) && value >= min && value <= max;
+
+  if (
+    policy.maxRetries !== undefined &&
+    !isIntegerBetween(policy.maxRetries, 0, 5)
+  ) {
+    throw new Error("Max retries must be an integer between 0 and 5");
+  }
+  if (
+    policy.retryDelay !== undefined &&
+    !isIntegerBetween(policy.retryDelay, 0, 60000)
+  ) {
+    throw new Error("Retry delay must be between 0 and 60000ms");
+  }
+  if (
+    policy.timeout !== undefined &&
+    !isIntegerBetween(policy.timeout, 1, 600000)
+  ) {
+    throw new Error("Node timeout must be between 1 and 600000ms (10 minutes)");
+  }
+  if (
+    policy.defaultOutput !== undefined &&
+    (typeof policy.defaultOutput !== "object" ||
+      Array.isArray(policy.defaultOutput) ||
+      policy.defaultOutput === null)
+  ) {
+    throw new Error("Default output must be a JSON object");
+  }
+
+  const hasErrorEdge = edges.some(
+    (e) => e.source === node.id && e.sourceHandle === NODE_ERROR_HANDLE,
+  );
+  if (policy.onError == "branch" && !hasErrorEdge) {
+    throw new Error("Connect the error handle to route failures");
+  }
+  if (policy.onError != "branch" && hasErrorEdge) {
+    throw new Error("Error edges are only followed in the error branch mode");
   }
 };
 
@@ -270,3 +328,123 @@ export const templateNodeValidate: NodeValidate<TemplateNodeData> = ({
   // Template content can be undefined/empty - that's valid
   // The actual content validation is handled by the TipTap editor
 };
+
+export const codeNodeValidate: NodeValidate<CodeNodeData> = ({
+  node,
+  nodes,
+}) => {
+  const validLanguages = ["javascript", "python"];
+  if (!validLanguages.includes(node.language)) {
+    throw new Error(
+      `Code language must be one of: ${validLanguages.join(", ")}`,
+    );
+  }
+  if (!node.code?.trim()) throw new Error("Code node must have a code");
+
+  const keys = node.inputs.map((input) => input.key);
+  if (keys.length !== new Set(keys).size) {
+    throw new Error("Input variables must have unique keys");
+  }
+  node.inputs.forEach((input) => {
+    if (cleanVariableName(input.key).length === 0) {
+      throw new Error("Invalid Variable Name");
+    }
+    if (!input.source) throw new Error("Input variable must have a source");
+    const sourceNode = nodes.find((n) => n.data.id === input.source?.nodeId);
+    if (!sourceNode) throw new Error("Source node not found");
+    if (!findJsonSchemaByPath(sourceNode.data.outputSchema, input.source.path))
+      throw new Error("Source schema not found");
+  });
+
+  if (node.timeout !== undefined) {
+    if (typeof node.timeout !== "number" || node.timeout <= 0) {
+      throw new Error("Code timeout must be a positive number");
+    }
+    if (node.timeout > 60000) {
+      throw new Error("Code timeout cannot exceed 60000ms (1 minute)");
+    }
+  }
+};
+
+export const loopNodeValidate: NodeValidate<LoopNodeData> = ({
+  node,
+  nodes,
+  edges,
+}) => {
+  if (!node.source) throw new Error("Loop node must have a source array");
+  const sourceNode = nodes.find((n) => n.data.id === node.source?.nodeId);
+  if (!sourceNode) throw new Error("Source node not found");
+  const sourceSchema = findJsonSchemaByPath(
+    sourceNode.data.outputSchema,
+    node.source.path,
+  );
+  if (!sourceSchema) throw new Error("Source schema not found");
+  if (sourceSchema.type !== "array") {
+    throw new Error("Loop source must be an array");
+  }
+
+  if (!Number.isInteger(node.concurrency) || node.concurrency < 1) {
+    throw new Error("Loop concurrency must be a positive integer");
+  }
+  if (node.concurrency > 10) {
+    throw new Error("Loop concurrency cannot exceed 10");
+  }
+  if (!Number.isInteger(node.maxIterations) || node.maxIterations < 1) {
+    throw new Error("Loop max iterations must be a positive integer");
+  }
+  if (node.maxIterations > 1000) {
+    throw new Error("Loop max iterations cannot exceed 1000");
+  }
+
+  const bodyNodeIds = findLoopBodyNodeIds({ nodeId: node.id, edges });
+  if (bodyNodeIds.length === 0) throw new Error("Loop node must have a body");
+  const bodyNodes = nodes.filter((n) => bodyNodeIds.includes(n.data.id));
+  if (
+    bodyNodes.some((n) =>
+      [NodeKind.Input, NodeKind.Output].includes(n.data.kind),
+    )
+  ) {
+    throw new Error("Loop body cannot contain Input or Output nodes");
+  }
+  // Everything reachable from the loop handle is part of the body, so a body
+  // node connected from anywhere else would also run outside the loop
+  edges.forEach((edge) => {
+    if (
+      bodyNodeIds.includes(edge.target) &&
+      !bodyNodeIds.includes(edge.source) &&
+      !(edge.source === node.id && edge.sourceHandle == LOOP_BODY_HANDLE)
+    ) {
+      throw new Error("Loop body can only be entered from the loop handle");
+    }
+  });
+
+  if (!node.result) throw new Error("Loop node must have a result");
+  const resultNode = bodyNodes.find((n) => n.data.id === node.result?.nodeId);
+  if (!resultNode) throw new Error("Loop result must come from the loop body");
+  if (!findJsonSchemaByPath(resultNode.data.outputSchema, node.result.path))
+    throw new Error("Result schema not found");
+};
+
+export const subWorkflowNodeValidate: NodeValidate<SubWorkflowNodeData> = ({
+  node,
+  nodes,
+}) => {
+  if (!node.workflow) throw new Error("Workflow node must have a workflow");
+
+  const keys = node.inputs.map((input) => input.key);
+  if (keys.length !== new Set(keys).size) {
+    throw new Error("Input fields must have unique keys");
+  }
+  node.inputSchema?.required?.forEach((key) => {
+    if (!node.inputs.some((input) => input.key === key && input.source)) {
+      throw new Error(`Input field "${key}" is required`);
+    }
+  });
+  node.inputs.forEach((input) => {
+    if (!input.source) return;
+    const sourceNode = nodes.find((n) => n.data.id === input.source?.nodeId);
+    if (!sourceNode) throw new Error("Source node not found");
+    if (!findJsonSchemaByPath(sourceNode.data.outputSchema, input.source.path))
+      throw new Error("Source schema not found");
+  });
+};
@@ -0,0 +1,176 @@
+import { describe, it, expect } from "vitest";
+import { DBEdge, DBNode } from "app-types/workflow";
+import { getRunResumePoint } from "./resume-run";
+import { NodeKind, NodeRuntimeHistory } from "./workflow.interface";
+
+describe("getRunResumePoint", () => {
+  const createHistory = (
+    nodeId: string,
+    status: NodeRuntimeHistory["status"],
+    output?: any,
+    kind: NodeKind = NodeKind.Template,
+  ): NodeRuntimeHistory => ({
+    id: `${nodeId}-execution`,
+    nodeId,
+    name: nodeId.toUpperCase(),
+    kind,
+    startedAt: 0,
+    endedAt: 1,
+    status,
+    result: { input: { from: nodeId }, output },
+  });
+
+  const createWorkflow = (edges: [string, string][]) => {
+    const nodeIds = Array.from(new Set(edges.flat()));
+    return {
+      nodes: nodeIds.map(
+        (id) => ({ id, name: id.toUpperCase(), nodeConfig: {} }) as DBNode,
+      ),
+      edges: edges.map(
+        ([source, target]) =>
+          ({
+            id: `${source}-${target}`,
+            source,
+            target,
+            uiConfig: {},
+          }) as DBEdge,
+      ),
+    };
+  };
+
+  const linear = createWorkflow([
+    ["input", "a"],
+    ["a", "b"],
+  ]);
+
+  it("should resume from the failed node with the finished outputs", () => {
+    const resumePoint = getRunResumePoint(
+      {
+        status: "fail",
+        query: { topic: "cats" },
+        histories: [
+          createHistory("input", "success", { topic: "cats" }),
+          createHistory("a", "success", { text: "A" }),
+          createHistory("b", "fail"),
+        ],
+      },
+      linear,
+    );
+
+    expect(resumePoint?.nodeId).toBe("b");
+    expect(resumePoint?.pendingNodeIds).toEqual([]);
+    expect(resumePoint?.histories.map((h) => h.nodeId)).toEqual(["input", "a"]);
+    expect(resumePoint?.state).toEqual({
+      query: { topic: "cats" },
+      inputs: { input: { from: "input" }, a: { from: "a" } },
+      outputs: { input: { topic: "cats" }, a: { text: "A" } },
+    });
+  });
+
+  it("should resume an aborted run from the node that was running", () => {
+    const resumePoint = getRunResumePoint(
+      {
+        status: "fail",
+        query: {},
+        histories: [
+          createHistory("input", "success"),
+          createHistory("a", "running"),
+        ],
+      },
+      linear,
+    );
+
+    expect(resumePoint?.nodeId).toBe("a");
+  });
+
+  it("should not resume runs that succeeded", () => {
+    expect(
+      getRunResumePoint(
+        {
+          status: "success",
+          query: {},
+          histories: [createHistory("input", "success")],
+        },
+        linear,
+      ),
+    ).toBeNull();
+  });
+
+  it("should list the branches that hadn't run yet", () => {
+    // input fans out to a and b, which both lead to merge
+    const workflow = createWorkflow([
+      ["input", "a"],
+      ["input", "b"],
+      ["a", "merge"],
+      ["b", "merge"],
+    ]);
+
+    const resumePoint = getRunResumePoint(
+      {
+        status: "fail",
+        query: {},
+        histories: [
+          createHistory("input", "success"),
+          createHistory("a", "fail"),
+        ],
+      },
+      workflow,
+    );
+
+    expect(resumePoint?.nodeId).toBe("a");
+    expect(resumePoint?.pendingNodeIds).toEqual(["b"]);
+  });
+
+  it("should not list nodes the failed node leads to", () => {
+    const workflow = createWorkflow([
+      ["input", "a"],
+      ["input", "b"],
+      ["a", "merge"],
+      ["b", "merge"],
+    ]);
+
+    const resumePoint = getRunResumePoint(
+      {
+        status: "fail",
+        query: {},
+        histories: [
+          createHistory("input", "success"),
+          createHistory("b", "success"),
+          createHistory("a", "fail"),
+        ],
+      },
+      workflow,
+    );
+
+    expect(resumePoint?.pendingNodeIds).toEqual([]);
+  });
+
+  it("should only follow the branch a condition took", () => {
+    const workflow = createWorkflow([
+      ["input", "condition"],
+      ["condition", "yes"],
+      ["condition", "no"],
+    ]);
+
+    const resumePoint = getRunResumePoint(
+      {
+        status: "fail",
+        query: {},
+        histories: [
+          createHistory("input", "success"),
+          createHistory(
+            "condition",
+            "success",
+            { nextNodes: [{ id: "yes" }] },
+            NodeKind.Condition,
+          ),
+          createHistory("yes", "fail"),
+        ],
+      },
+      workflow,
+    );
+
+    expect(resumePoint?.nodeId).toBe("yes");
+    expect(resumePoint?.pendingNodeIds).toEqual([]);
+  });
+});
@@ -0,0 +1,102 @@
+import { DBEdge, DBNode, DBWorkflowRun } from "app-types/workflow";
+import { NodeKind, NodeRuntimeHistory } from "./workflow.interface";
+import { LOOP_BODY_HANDLE } from "./loop";
+import { NODE_ERROR_HANDLE } from "./node-policy";
+
+export type RunResumePoint = {
+  // Node the new run starts from
+  nodeId: string;
+  // Nodes other branches of the run still had to run, a run that started
+  // from `nodeId` would never reach them
+  pendingNodeIds: string[];
+  // Node runs that finished before the failure, carried over to the new run
+  histories: NodeRuntimeHistory[];
+  // Runtime state those node runs left behind
+  state: {
+    query: Record<string, any>;
+    inputs: Record<string, any>;
+    outputs: Record<string, any>;
+  };
+};
+
+/**
+ * Finds where a failed run can be picked up again: the node that didn't
+ * finish, with the outputs of every node that did. Nodes of other branches
+ * that hadn't run yet are listed, as the new run can't start from them too.
+ * Returns null for runs that succeeded.
+ */
+export function getRunResumePoint(
+  run: Pick<DBWorkflowRun, "status" | "query" | "histories">,
+  workflow: { nodes: DBNode[]; edges: DBEdge[] },
+): RunResumePoint | null {
+  if (run.status != "fail") return null;
+  // An aborted run leaves its last node running
+  const failed = run.histories.find((history) => history.status != "success");
+  if (!failed) return null;
+
+  const histories = run.histories.filter(
+    (history) => history.status == "success",
+  );
+  const reachedNodeIds = findReachableNodeIds(failed.nodeId, workflow.edges);
+  return {
+    nodeId: failed.nodeId,
+    pendingNodeIds: findNextNodeIds(histories, workflow).filter(
+      (nodeId) => !reachedNodeIds.has(nodeId),
+    ),
+    histories,
+    state: {
+      query: run.query,
+      inputs: Object.fromEntries(
+        histories.map((history) => [history.nodeId, history.result?.input]),
+      ),
+      outputs: Object.fromEntries(
+        histories.map((history) => [history.nodeId, history.result?.output]),
+      ),
+    },
+  };
+}
+
+/**
+ * Nodes that didn't finish but one of the finished nodes led to, following
+ * only the branch each condition and failed node took
+ */
+function findNextNodeIds(
+  histories: NodeRuntimeHistory[],
+  workflow: { nodes: DBNode[]; edges: DBEdge[] },
+): string[] {
+  const finishedNodeIds = new Set(histories.map((history) => history.nodeId));
+  const nextNodeIds = histories.flatMap((history) => {
+    const output = history.result?.output;
+    if (history.kind == NodeKind.Condition) {
+      return ((output?.nextNodes ?? []) as DBNode[]).map((node) => node.id);
+    }
+    const node = workflow.nodes.find((node) => node.id == history.nodeId);
+    const followsError =
+      node?.nodeConfig.policy?.onError == "branch" && !!output?.error;
+    return workflow.edges
+      .filter(
+        (edge) =>
+          edge.source == history.nodeId &&
+          edge.uiConfig.sourceHandle != LOOP_BODY_HANDLE &&
+          (edge.uiConfig.sourceHandle == NODE_ERROR_HANDLE) == followsError,
+      )
+      .map((edge) => edge.target);
+  });
+  return Array.from(new Set(nextNodeIds)).filter(
+    (nodeId) => !finishedNodeIds.has(nodeId),
+  );
+}
+
+function findReachableNodeIds(nodeId: string, edges: DBEdge[]) {
+  const reachable = new Set<string>();
+  const queue = [nodeId];
+  while (queue.length) {
+    const id = queue.shift()!;
+    if (reachable.has(id)) continue;
+    reachable.add(id);
+    edges
+      .filter((edge) => edge.source == id)
+      .forEach((edge) => queue.push(edge.target));
+  }
+  return reachable;
+}
@@ -3,6 +3,7 @@ import { ChatModel } from "app-types/chat";
 import { ObjectJsonSchema7, TipTapMentionJsonContent } from "app-types/util";
 import { ConditionBranches } from "./condition";
 import { JSONSchema7 } from "json-schema";
+import { WorkflowIcon } from "app-types/workflow";
 
 /**
  * Enum defining all available node types in the workflow system.
@@ -21,7 +22,9 @@ export enum NodeKind {
   Tool = "tool", // MCP tool execution node
   Http = "http", // HTTP request node
   Template = "template", // Template processing node
-  Code = "code", // Code execution node (future implementation)
+  Code = "code", // Code execution node
+  Loop = "loop", // Runs a sub-graph once per array item
+  Workflow = "workflow", // Runs another published workflow
   Output = "output", // Exit point of workflow - produces final result
 }
 
@@ -43,8 +46,28 @@ export type BaseWorkflowNodeDataData<
    * This enables data flow between connected nodes.
    */
   outputSchema: ObjectJsonSchema7;
+  policy?: NodeExecutionPolicy; // How the node's execution is retried and how its failure is handled
 } & T;
 
+/**
+ * What the workflow does once a node has failed for good:
+ * - fail: the workflow fails
+ * - continue: the node outputs `defaultOutput` and the workflow goes on
+ * - branch: the workflow continues through the node's error edges only
+ */
+export type NodeErrorMode = "fail" | "continue" | "branch";
+
+/**
+ * Execution policy of a node, enforced by the workflow executor.
+ */
+export type NodeExecutionPolicy = {
+  maxRetries?: number; // Extra attempts after a failure (default: 0)
+  retryDelay?: number; // Delay before the first retry in milliseconds, doubled on each following one (default: 1000)
+  timeout?: number; // Time limit of a single attempt in milliseconds
+  onError?: NodeErrorMode; // Default: "fail"
+  defaultOutput?: Record<string, any>; // Output of a failed node in "continue" mode
+};
+
 /**
  * Reference to a field from another node's output.
  * Used to create data dependencies between nodes.
@@ -188,6 +211,63 @@ export type TemplateNodeData = BaseWorkflowNodeDataData<{
   };
 };
 
+/**
+ * Language of a Code node's script
+ */
+export type CodeLanguage = "javascript" | "python";
+
+/**
+ * Code node: Runs a script on the server
+ * The script receives the configured inputs as `input` and returns the result,
+ * which must match the `result` field of the output schema
+ */
+export type CodeNodeData = BaseWorkflowNodeDataData<{
+  kind: NodeKind.Code;
+}> & {
+  language: CodeLanguage;
+  code: string;
+  inputs: {
+    key: string; // Key name in the script's `input`
+    source?: OutputSchemaSourceKey; // Reference to source node's output
+  }[];
+  timeout?: number; // Execution timeout in milliseconds (default: 10000)
+};
+
+/**
+ * Loop node: Runs its body once per item of an array
+ * The body is every node reachable from the loop handle. Inside the body the
+ * current `item` and `index` are available as the Loop node's output, and
+ * after the loop the collected values are available as `results`
+ */
+export type LoopNodeData = BaseWorkflowNodeDataData<{
+  kind: NodeKind.Loop;
+}> & {
+  source?: OutputSchemaSourceKey; // Array to iterate over
+  result?: OutputSchemaSourceKey; // Value collected from the body per item
+  concurrency: number; // Items processed at the same time (default: 1)
+  maxIterations: number; // Fails the loop when the array is longer (default: 100)
+};
+
+/**
+ * Workflow node: Runs another published workflow as a step
+ * The called workflow's input fields are filled from upstream outputs, and
+ * what its Output node returns is available as `result`
+ */
+export type SubWorkflowNodeData = BaseWorkflowNodeDataData<{
+  kind: NodeKind.Workflow;
+}> & {
+  workflow?: {
+    id: string;
+    name: string;
+    icon?: WorkflowIcon;
+  }; // Selected workflow to run
+  inputSchema?: ObjectJsonSchema7; // Input schema of the selected workflow
+  inputs: {
+    key: string; // Input field of the selected workflow
+    source?: OutputSchemaSourceKey; // Reference to source node's output
+  }[];
+};
+
 /**
  * Union type of all possible node data types.
  * When adding a new node type, include it in this union.
@@ -200,7 +280,10 @@ export type WorkflowNodeData =
   | ToolNodeData
   | ConditionNodeData
   | HttpNodeData
-  | TemplateNodeData;
+  | TemplateNodeData
+  | CodeNodeData
+  | LoopNodeData
+  | SubWorkflowNodeData;
 
 /**
  * Runtime fields added during workflow execution
@@ -234,4 +317,6 @@ export type NodeRuntimeHistory = {
     input?: any; // Input data passed to the node
     output?: any; // Output data produced by the node
   };
+  logs?: string[]; // Lines the node printed while running (Code nodes)
+  histories?: NodeRuntimeHistory[]; // Nodes run by the called workflow (Workflow nodes)
 };
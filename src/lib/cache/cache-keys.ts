@@ -3,5 +3,7 @@ export const CacheKeys = {
   user: (userId: string) => `user-${userId}`,
   mcpServerCustomizations: (userId: string) =>
     `mcp-server-customizations-${userId}`,
+  mcpToolPolicies: (userId: string) => `mcp-tool-policies-${userId}`,
   agentInstructions: (agent: string) => `agent-instructions-${agent}`,
+  storageBackend: (userId: string) => `storage-backend-${userId}`,
 };
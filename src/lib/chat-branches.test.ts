@@ -0,0 +1,78 @@
+import { describe, expect, test } from "vitest";
+import {
+  buildBranchPoints,
+  getMessagesAfter,
+  splitAtMessage,
+} from "./chat-branches";
+
+const message = (id: string, createdAt: number) => ({ id, createdAt });
+
+describe("chat branches", () => {
+  const messages = [
+    message("u1", 1000),
+    message("a1", 2000),
+    message("u2", 3000),
+    message("a2", 4000),
+  ];
+
+  test("splits a thread at a message", () => {
+    expect(splitAtMessage(messages, "u2")).toEqual({
+      forkedFromMessageId: "a1",
+      tail: [message("u2", 3000), message("a2", 4000)],
+    });
+    expect(splitAtMessage(messages, "u1")?.forkedFromMessageId).toBeNull();
+    expect(splitAtMessage(messages, "missing")).toBeNull();
+  });
+
+  test("gets the messages after a fork point", () => {
+    expect(getMessagesAfter(messages, "a2")).toEqual([]);
+    expect(getMessagesAfter(messages, null)).toEqual(messages);
+    expect(getMessagesAfter(messages, "missing")).toBeNull();
+  });
+
+  test("orders branches by their first message", () => {
+    const points = buildBranchPoints("t1", messages, [
+      {
+        threadId: "b2",
+        forkedFromMessageId: "a1",
+        messages: [message("u2-old", 2500)],
+      },
+      {
+        threadId: "b1",
+        forkedFromMessageId: null,
+        messages: [message("u1-old", 500)],
+      },
+    ]);
+
+    expect(points).toEqual([
+      {
+        forkedFromMessageId: null,
+        branches: [
+          { threadId: "b1", firstMessageId: "u1-old" },
+          { threadId: "t1", firstMessageId: "u1" },
+        ],
+        activeIndex: 1,
+      },
+      {
+        forkedFromMessageId: "a1",
+        branches: [
+          { threadId: "b2", firstMessageId: "u2-old" },
+          { threadId: "t1", firstMessageId: "u2" },
+        ],
+        activeIndex: 1,
+      },
+    ]);
+  });
+
+  test("skips branches forked from a message in an inactive branch", () => {
+    const points = buildBranchPoints("t1", messages.slice(0, 1), [
+      {
+        threadId: "b1",
+        forkedFromMessageId: "a1",
+        messages: [message("u2-old", 2500)],
+      },
+    ]);
+
+    expect(points).toEqual([]);
+  });
+});
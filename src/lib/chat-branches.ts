@@ -0,0 +1,115 @@
+/**
+ * Conversation branches
+ *
+ * Editing or regenerating a message forks the thread: the message and
+ * everything after it move into a hidden branch thread, and the thread
+ * continues from the fork point. Switching branches swaps the thread's
+ * messages after the fork point with the branch's messages.
+ */
+
+import type { ChatBranchPoint } from "app-types/chat";
+
+export interface BranchMessage {
+  id: string;
+  createdAt: Date | string | number;
+}
+
+export interface StoredBranch {
+  threadId: string;
+  forkedFromMessageId: string | null;
+  messages: BranchMessage[];
+}
+
+function toTime(value: Date | string | number): number {
+  return value instanceof Date ? value.getTime() : new Date(value).getTime();
+}
+
+/**
+ * Split sorted messages at a message: the last message before it becomes
+ * the fork point, it and every later message form the branch.
+ * Returns null when the message isn't in the list.
+ */
+export function splitAtMessage<T extends BranchMessage>(
+  messages: T[],
+  messageId: string,
+): { forkedFromMessageId: string | null; tail: T[] } | null {
+  const target = messages.find((message) => message.id === messageId);
+  if (!target) return null;
+
+  const createdAt = toTime(target.createdAt);
+  const head = messages.filter(
+    (message) => toTime(message.createdAt) < createdAt,
+  );
+  return {
+    forkedFromMessageId: head.at(-1)?.id ?? null,
+    tail: messages.filter((message) => toTime(message.createdAt) >= createdAt),
+  };
+}
+
+/**
+ * Get the sorted messages after a fork point (all of them for null).
+ * Returns null when the fork point isn't in the list.
+ */
+export function getMessagesAfter<T extends BranchMessage>(
+  messages: T[],
+  forkedFromMessageId: string | null,
+): T[] | null {
+  if (!forkedFromMessageId) return messages;
+  const index = messages.findIndex(
+    (message) => message.id === forkedFromMessageId,
+  );
+  return index === -1 ? null : messages.slice(index + 1);
+}
+
+/**
+ * Group the branches of a thread by fork point. Branches forked from a
+ * message that currently sits in another branch are left out until that
+ * branch is active again. Branches are ordered by their first message so
+ * their position stays stable while switching.
+ */
+export function buildBranchPoints(
+  threadId: string,
+  threadMessages: BranchMessage[],
+  branches: StoredBranch[],
+): ChatBranchPoint[] {
+  const forkPoints = new Map<string | null, StoredBranch[]>();
+  for (const branch of branches) {
+    if (!branch.messages.length) continue;
+    const group = forkPoints.get(branch.forkedFromMessageId) ?? [];
+    group.push(branch);
+    forkPoints.set(branch.forkedFromMessageId, group);
+  }
+
+  const points: (ChatBranchPoint & { position: number })[] = [];
+  for (const [forkedFromMessageId, group] of forkPoints) {
+    const activeTail = getMessagesAfter(threadMessages, forkedFromMessageId);
+    if (!activeTail) continue;
+
+    const candidates = [
+      { threadId, messages: activeTail },
+      ...group.map(({ threadId, messages }) => ({ threadId, messages })),
+    ].sort(
+      (a, b) =>
+        (a.messages[0] ? toTime(a.messages[0].createdAt) : Infinity) -
+        (b.messages[0] ? toTime(b.messages[0].createdAt) : Infinity),
+    );
+
+    points.push({
+      forkedFromMessageId,
+      branches: candidates.map((candidate) => ({
+        threadId: candidate.threadId,
+        firstMessageId: candidate.messages[0]?.id ?? null,
+      })),
+      activeIndex: candidates.findIndex(
+        (candidate) => candidate.threadId === threadId,
+      ),
+      position: forkedFromMessageId
+        ? threadMessages.findIndex((m) => m.id === forkedFromMessageId)
+        : -1,
+    });
+  }
+
+  return points
+    .sort((a, b) => a.position - b.position)
+    .map(({ position: _position, ...point }) => point);
+}
@@ -15,6 +15,7 @@ export const FILE_BASED_MCP_CONFIG =
 
 export const COOKIE_KEY_SIDEBAR_STATE = "sidebar:state";
 export const COOKIE_KEY_LOCALE = "i18n:locale";
+export const COOKIE_KEY_DIFFDB_ENCRYPTION_KEY = "diffdb:encryption-key";
 
 export const BASE_THEMES = [
   "default",
@@ -0,0 +1,2 @@
+ALTER TABLE "chat_thread" ADD COLUMN "parent_thread_id" uuid;--> statement-breakpoint
+ALTER TABLE "chat_thread" ADD COLUMN "forked_from_message_id" text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "user" ADD COLUMN "storage_backend" varchar;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "chat_thread" ADD COLUMN "allowed_tools" json;--> statement-breakpoint
+ALTER TABLE "mcp_server_tool_custom_instructions" ADD COLUMN "policy" text;
\ No newline at end of file
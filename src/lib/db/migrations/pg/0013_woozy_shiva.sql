@@ -0,0 +1,18 @@
+CREATE TABLE "workflow_run" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"workflow_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"version" text NOT NULL,
+	"status" varchar NOT NULL,
+	"query" json DEFAULT '{}'::json NOT NULL,
+	"histories" json DEFAULT '[]'::json NOT NULL,
+	"error" text,
+	"parent_run_id" uuid,
+	"start_node_id" uuid,
+	"started_at" timestamp NOT NULL,
+	"ended_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "workflow_run" ADD CONSTRAINT "workflow_run_workflow_id_workflow_id_fk" FOREIGN KEY ("workflow_id") REFERENCES "public"."workflow"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "workflow_run" ADD CONSTRAINT "workflow_run_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "workflow_run_workflow_id_idx" ON "workflow_run" USING btree ("workflow_id","started_at");
\ No newline at end of file
@@ -0,0 +1,15 @@
+ALTER TABLE "mcp_server" ADD COLUMN "user_id" uuid;--> statement-breakpoint
+ALTER TABLE "mcp_server" ADD CONSTRAINT "mcp_server_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+-- Servers added before servers had an owner go to the user who customized them first
+UPDATE "mcp_server" SET "user_id" = "owner"."user_id" FROM (
+	SELECT DISTINCT ON ("mcp_server_id") "mcp_server_id", "user_id" FROM (
+		SELECT "mcp_server_id", "user_id", "created_at" FROM "mcp_server_custom_instructions"
+		UNION ALL
+		SELECT "mcp_server_id", "user_id", "created_at" FROM "mcp_server_tool_custom_instructions"
+	) AS "customizations"
+	ORDER BY "mcp_server_id", "created_at"
+) AS "owner"
+WHERE "mcp_server"."id" = "owner"."mcp_server_id" AND "mcp_server"."user_id" IS NULL;--> statement-breakpoint
+-- On a single-user deployment the other servers are that user's
+UPDATE "mcp_server" SET "user_id" = (SELECT "id" FROM "user" LIMIT 1)
+WHERE "user_id" IS NULL AND (SELECT count(*) FROM "user") = 1;
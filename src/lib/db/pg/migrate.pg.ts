@@ -1,6 +1,8 @@
 import { migrate } from "drizzle-orm/node-postgres/migrator";
 import { join } from "path";
 import { pgDb } from "lib/db/pg/db.pg";
+import { McpServerSchema } from "lib/db/pg/schema.pg";
+import { count, isNull } from "drizzle-orm";
 
 export const runMigrate = async () => {
   console.log("⏳ Running PostgreSQL migrations...");
@@ -18,4 +20,16 @@ export const runMigrate = async () => {
   const end = Date.now();
 
   console.log("✅ PostgreSQL migrations completed in", end - start, "ms");
+
+  // Servers from before servers had an owner that the migration couldn't
+  // assign are hidden from everyone
+  const [{ unowned }] = await pgDb
+    .select({ unowned: count() })
+    .from(McpServerSchema)
+    .where(isNull(McpServerSchema.userId));
+  if (unowned > 0) {
+    console.warn(
+      `⚠️ ${unowned} MCP server(s) have no owner and are hidden, see docs/tips-guides/mcp-server-setup-and-tool-testing.md#-server-owners`,
+    );
+  }
 };
@@ -0,0 +1,20 @@
+import type { ChatHistoryRepository } from "app-types/chat";
+
+const unsupported = () =>
+  new Error("Chat history is only kept by the DiffDB storage backend");
+
+/**
+ * Postgres keeps no past versions, so every thread has an empty history
+ */
+export const pgChatHistoryRepository: ChatHistoryRepository = {
+  selectThreadHistory: async () => [],
+  diffThread: async () => {
+    throw unsupported();
+  },
+  restoreThread: async () => {
+    throw unsupported();
+  },
+  restoreMessage: async () => {
+    throw unsupported();
+  },
+};
@@ -1,4 +1,14 @@
-import { ChatMessage, ChatRepository, ChatThread } from "app-types/chat";
+import {
+  ChatBranchPoint,
+  ChatMessage,
+  ChatRepository,
+  ChatThread,
+} from "app-types/chat";
+import {
+  buildBranchPoints,
+  getMessagesAfter,
+  splitAtMessage,
+} from "lib/chat-branches";
 
 import { pgDb as db } from "../db.pg";
 import {
@@ -8,7 +18,7 @@ import {
   ArchiveItemSchema,
 } from "../schema.pg";
 
-import { and, desc, eq, gte, sql } from "drizzle-orm";
+import { and, desc, eq, gte, inArray, isNull, or, sql } from "drizzle-orm";
 
 export const pgChatRepository: ChatRepository = {
   insertThread: async (
@@ -20,6 +30,8 @@ export const pgChatRepository: ChatRepository = {
         title: thread.title,
         userId: thread.userId,
         id: thread.id,
+        parentThreadId: thread.parentThreadId,
+        forkedFromMessageId: thread.forkedFromMessageId,
       })
       .returning();
     return result;
@@ -57,6 +69,7 @@ export const pgChatRepository: ChatRepository = {
       title: thread.chat_thread.title,
       userId: thread.chat_thread.userId,
       createdAt: thread.chat_thread.createdAt,
+      allowedTools: thread.chat_thread.allowedTools,
       userPreferences: thread.user?.preferences ?? undefined,
       messages,
     };
@@ -95,7 +108,12 @@ export const pgChatRepository: ChatRepository = {
         ChatMessageSchema,
         eq(ChatThreadSchema.id, ChatMessageSchema.threadId),
       )
-      .where(eq(ChatThreadSchema.userId, userId))
+      .where(
+        and(
+          eq(ChatThreadSchema.userId, userId),
+          isNull(ChatThreadSchema.parentThreadId),
+        ),
+      )
       .groupBy(ChatThreadSchema.id)
       .orderBy(desc(sql`last_message_at`));
 
@@ -120,6 +138,7 @@ export const pgChatRepository: ChatRepository = {
       .update(ChatThreadSchema)
       .set({
         title: thread.title,
+        allowedTools: thread.allowedTools,
       })
       .where(eq(ChatThreadSchema.id, id))
       .returning();
@@ -142,16 +161,29 @@ export const pgChatRepository: ChatRepository = {
   },
 
   deleteThread: async (id: string): Promise<void> => {
-    // 1. Delete all messages in the thread
+    const branches = await db
+      .select({ id: ChatThreadSchema.id })
+      .from(ChatThreadSchema)
+      .where(eq(ChatThreadSchema.parentThreadId, id));
+    const threadIds = [id, ...branches.map((branch) => branch.id)];
+
+    // 1. Delete all messages in the thread and its branches
     await db
       .delete(ChatMessageSchema)
-      .where(eq(ChatMessageSchema.threadId, id));
+      .where(inArray(ChatMessageSchema.threadId, threadIds));
 
     // 2. Remove thread from all archives
     await db.delete(ArchiveItemSchema).where(eq(ArchiveItemSchema.itemId, id));
 
-    // 3. Delete the thread itself
-    await db.delete(ChatThreadSchema).where(eq(ChatThreadSchema.id, id));
+    // 3. Delete the thread itself and its branches
+    await db
+      .delete(ChatThreadSchema)
+      .where(
+        or(
+          eq(ChatThreadSchema.id, id),
+          eq(ChatThreadSchema.parentThreadId, id),
+        ),
+      );
   },
 
   insertMessage: async (
@@ -187,6 +219,30 @@ export const pgChatRepository: ChatRepository = {
     return result[0] as ChatMessage;
   },
 
+  upsertMessages: async (
+    messages: Omit<ChatMessage, "createdAt">[],
+  ): Promise<ChatMessage[]> => {
+    if (messages.length === 0) return [];
+    const result = await db
+      .insert(ChatMessageSchema)
+      .values(messages)
+      .onConflictDoUpdate({
+        target: [ChatMessageSchema.id],
+        set: {
+          parts: sql.raw(`excluded.${ChatMessageSchema.parts.name}`),
+          annotations: sql.raw(
+            `excluded.${ChatMessageSchema.annotations.name}`,
+          ),
+          attachments: sql.raw(
+            `excluded.${ChatMessageSchema.attachments.name}`,
+          ),
+          model: sql.raw(`excluded.${ChatMessageSchema.model.name}`),
+        },
+      })
+      .returning();
+    return result as ChatMessage[];
+  },
+
   deleteMessagesByChatIdAfterTimestamp: async (
     messageId: string,
   ): Promise<void> => {
@@ -208,6 +264,128 @@ export const pgChatRepository: ChatRepository = {
       );
   },
 
+  forkThreadAt: async (
+    threadId: string,
+    messageId: string,
+  ): Promise<ChatThread> => {
+    const thread = await pgChatRepository.selectThread(threadId);
+    if (!thread) {
+      throw new Error(`Thread ${threadId} not found`);
+    }
+    const messages = await pgChatRepository.selectMessagesByThreadId(threadId);
+    const fork = splitAtMessage(messages, messageId);
+    if (!fork) {
+      throw new Error(`Message ${messageId} not found in thread`);
+    }
+
+    return db.transaction(async (tx) => {
+      const [branch] = await tx
+        .insert(ChatThreadSchema)
+        .values({
+          title: thread.title,
+          userId: thread.userId,
+          parentThreadId: threadId,
+          forkedFromMessageId: fork.forkedFromMessageId,
+        })
+        .returning();
+      await tx
+        .update(ChatMessageSchema)
+        .set({ threadId: branch.id })
+        .where(
+          inArray(
+            ChatMessageSchema.id,
+            fork.tail.map((message) => message.id),
+          ),
+        );
+      return branch;
+    });
+  },
+
+  selectThreadBranches: async (
+    threadId: string,
+  ): Promise<ChatBranchPoint[]> => {
+    const branchThreads = await db
+      .select()
+      .from(ChatThreadSchema)
+      .where(eq(ChatThreadSchema.parentThreadId, threadId));
+    if (branchThreads.length === 0) {
+      return [];
+    }
+
+    const branches = await Promise.all(
+      branchThreads.map(async (branch) => ({
+        threadId: branch.id,
+        forkedFromMessageId: branch.forkedFromMessageId,
+        messages: await pgChatRepository.selectMessagesByThreadId(branch.id),
+      })),
+    );
+    const messages = await pgChatRepository.selectMessagesByThreadId(threadId);
+    return buildBranchPoints(threadId, messages, branches);
+  },
+
+  switchThreadBranch: async (
+    threadId: string,
+    branchThreadId: string,
+  ): Promise<ChatMessage[]> => {
+    const [branch] = await db
+      .select()
+      .from(ChatThreadSchema)
+      .where(
+        and(
+          eq(ChatThreadSchema.id, branchThreadId),
+          eq(ChatThreadSchema.parentThreadId, threadId),
+        ),
+      );
+    if (!branch) {
+      throw new Error(`Branch ${branchThreadId} not found`);
+    }
+
+    const messages = await pgChatRepository.selectMessagesByThreadId(threadId);
+    const activeMessages = getMessagesAfter(
+      messages,
+      branch.forkedFromMessageId,
+    );
+    if (!activeMessages) {
+      throw new Error(
+        `Branch ${branchThreadId} forks from a message that is not in the thread`,
+      );
+    }
+    const branchMessages =
+      await pgChatRepository.selectMessagesByThreadId(branchThreadId);
+
+    await db.transaction(async (tx) => {
+      if (branchMessages.length) {
+        await tx
+          .update(ChatMessageSchema)
+          .set({ threadId })
+          .where(
+            inArray(
+              ChatMessageSchema.id,
+              branchMessages.map((message) => message.id),
+            ),
+          );
+      }
+      if (activeMessages.length) {
+        await tx
+          .update(ChatMessageSchema)
+          .set({ threadId: branchThreadId })
+          .where(
+            inArray(
+              ChatMessageSchema.id,
+              activeMessages.map((message) => message.id),
+            ),
+          );
+      } else {
+        // Nothing left to keep in the branch
+        await tx
+          .delete(ChatThreadSchema)
+          .where(eq(ChatThreadSchema.id, branchThreadId));
+      }
+    });
+
+    return pgChatRepository.selectMessagesByThreadId(threadId);
+  },
+
   deleteAllThreads: async (userId: string): Promise<void> => {
     const threadIds = await db
       .select({ id: ChatThreadSchema.id })
@@ -229,6 +407,7 @@ export const pgChatRepository: ChatRepository = {
       .where(
         and(
           eq(ChatThreadSchema.userId, userId),
+          isNull(ChatThreadSchema.parentThreadId),
           sql`${ArchiveItemSchema.id} IS NULL`,
         ),
       );
@@ -1,63 +1,117 @@
 import { pgDb as db } from "../db.pg";
-import { McpServerSchema } from "../schema.pg";
-import { eq } from "drizzle-orm";
+import { McpOAuthSessionSchema, McpServerSchema } from "../schema.pg";
+import { and, eq } from "drizzle-orm";
 import { generateUUID } from "lib/utils";
 import type { MCPRepository } from "app-types/mcp";
 
-export const pgMcpRepository: MCPRepository = {
-  async save(server) {
-    const [result] = await db
-      .insert(McpServerSchema)
-      .values({
-        id: server.id ?? generateUUID(),
-        name: server.name,
-        config: server.config,
-        enabled: true,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      })
-      .onConflictDoUpdate({
-        target: [McpServerSchema.id],
-        set: {
+/**
+ * MCP servers of one user: Postgres keeps every user's servers in one
+ * table, so each query is scoped to the owner
+ */
+export const createPgMcpRepository = (userId: string): MCPRepository => {
+  const ownedBy = eq(McpServerSchema.userId, userId);
+
+  return {
+    async save(server) {
+      const [result] = await db
+        .insert(McpServerSchema)
+        .values({
+          id: server.id ?? generateUUID(),
+          name: server.name,
           config: server.config,
+          userId,
+          enabled: true,
+          createdAt: new Date(),
           updatedAt: new Date(),
-        },
-      })
-      .returning();
-
-    return result;
-  },
-
-  async selectById(id) {
-    const [result] = await db
-      .select()
-      .from(McpServerSchema)
-      .where(eq(McpServerSchema.id, id));
-    return result;
-  },
-
-  async selectAll() {
-    const results = await db.select().from(McpServerSchema);
-    return results;
-  },
-
-  async deleteById(id) {
-    await db.delete(McpServerSchema).where(eq(McpServerSchema.id, id));
-  },
-
-  async selectByServerName(name) {
-    const [result] = await db
-      .select()
-      .from(McpServerSchema)
-      .where(eq(McpServerSchema.name, name));
-    return result;
-  },
-  async existsByServerName(name) {
-    const [result] = await db
-      .select({ id: McpServerSchema.id })
-      .from(McpServerSchema)
-      .where(eq(McpServerSchema.name, name));
-
-    return !!result;
-  },
+        })
+        .onConflictDoUpdate({
+          target: [McpServerSchema.id],
+          set: {
+            config: server.config,
+            updatedAt: new Date(),
+          },
+          // Another user's server with the same id is left alone
+          setWhere: ownedBy,
+        })
+        .returning();
+
+      if (!result) {
+        throw new Error(`MCP server ${server.id} belongs to another user`);
+      }
+      return result;
+    },
+
+    async selectById(id) {
+      const [result] = await db
+        .select()
+        .from(McpServerSchema)
+        .where(and(eq(McpServerSchema.id, id), ownedBy));
+      return result ?? null;
+    },
+
+    async selectAll() {
+      return db.select().from(McpServerSchema).where(ownedBy);
+    },
+
+    async deleteById(id) {
+      await db
+        .delete(McpServerSchema)
+        .where(and(eq(McpServerSchema.id, id), ownedBy));
+    },
+
+    async selectByServerName(name) {
+      const [result] = await db
+        .select()
+        .from(McpServerSchema)
+        .where(and(eq(McpServerSchema.name, name), ownedBy));
+      return result ?? null;
+    },
+    async existsByServerName(name) {
+      const [result] = await db
+        .select({ id: McpServerSchema.id })
+        .from(McpServerSchema)
+        .where(and(eq(McpServerSchema.name, name), ownedBy));
+
+      return !!result;
+    },
+
+    async selectOAuthSession(mcpServerId, userId) {
+      const [result] = await db
+        .select()
+        .from(McpOAuthSessionSchema)
+        .where(
+          and(
+            eq(McpOAuthSessionSchema.mcpServerId, mcpServerId),
+            eq(McpOAuthSessionSchema.userId, userId),
+          ),
+        );
+      return result ?? null;
+    },
+
+    async saveOAuthSession(mcpServerId, userId, update) {
+      const [result] = await db
+        .insert(McpOAuthSessionSchema)
+        .values({ mcpServerId, userId, ...update })
+        .onConflictDoUpdate({
+          target: [
+            McpOAuthSessionSchema.userId,
+            McpOAuthSessionSchema.mcpServerId,
+          ],
+          set: { ...update, updatedAt: new Date() },
+        })
+        .returning();
+      return result;
+    },
+
+    async deleteOAuthSession(mcpServerId, userId) {
+      await db
+        .delete(McpOAuthSessionSchema)
+        .where(
+          and(
+            eq(McpOAuthSessionSchema.mcpServerId, mcpServerId),
+            eq(McpOAuthSessionSchema.userId, userId),
+          ),
+        );
+    },
+  };
 };
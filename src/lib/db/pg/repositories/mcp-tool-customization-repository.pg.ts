@@ -16,7 +16,7 @@ export const pgMcpMcpToolCustomizationRepository: McpToolCustomizationRepository
             eq(McpToolCustomizationSchema.toolName, key.toolName),
           ),
         );
-      return result;
+      return result ?? null;
     },
     async selectByUserIdAndMcpServerId(key) {
       const rows = await db
@@ -39,6 +39,7 @@ export const pgMcpMcpToolCustomizationRepository: McpToolCustomizationRepository
           toolName: McpToolCustomizationSchema.toolName,
           mcpServerId: McpToolCustomizationSchema.mcpServerId,
           prompt: McpToolCustomizationSchema.prompt,
+          policy: McpToolCustomizationSchema.policy,
           serverName: McpServerSchema.name,
         })
         .from(McpToolCustomizationSchema)
@@ -58,6 +59,7 @@ export const pgMcpMcpToolCustomizationRepository: McpToolCustomizationRepository
           toolName: data.toolName,
           mcpServerId: data.mcpServerId,
           prompt: data.prompt,
+          policy: data.policy,
         })
         .onConflictDoUpdate({
           target: [
@@ -67,6 +69,7 @@ export const pgMcpMcpToolCustomizationRepository: McpToolCustomizationRepository
           ],
           set: {
             prompt: data.prompt ?? null,
+            policy: data.policy ?? null,
             updatedAt: now,
           },
         })
@@ -4,13 +4,16 @@ import {
   UserSchema,
   WorkflowEdgeSchema,
   WorkflowNodeDataSchema,
+  WorkflowRunSchema,
   WorkflowSchema,
 } from "../schema.pg";
 import {
   DBWorkflow,
+  DBWorkflowRun,
   DBEdge,
   DBNode,
   WorkflowRepository,
+  WorkflowRunSummary,
   WorkflowSummary,
 } from "app-types/workflow";
 import { NodeKind } from "lib/ai/workflow/workflow.interface";
@@ -266,4 +269,45 @@ export const pgWorkflowRepository: WorkflowRepository = {
       edges: edges as DBEdge[],
     };
   },
+  async saveRun(run) {
+    const [row] = await pgDb.insert(WorkflowRunSchema).values(run).returning();
+    return row as DBWorkflowRun;
+  },
+  async selectRunsByWorkflowId(workflowId, userId, limit = 50) {
+    const rows = await pgDb
+      .select({
+        id: WorkflowRunSchema.id,
+        workflowId: WorkflowRunSchema.workflowId,
+        userId: WorkflowRunSchema.userId,
+        version: WorkflowRunSchema.version,
+        status: WorkflowRunSchema.status,
+        error: WorkflowRunSchema.error,
+        parentRunId: WorkflowRunSchema.parentRunId,
+        startNodeId: WorkflowRunSchema.startNodeId,
+        startedAt: WorkflowRunSchema.startedAt,
+        endedAt: WorkflowRunSchema.endedAt,
+      })
+      .from(WorkflowRunSchema)
+      .where(
+        and(
+          eq(WorkflowRunSchema.workflowId, workflowId),
+          eq(WorkflowRunSchema.userId, userId),
+        ),
+      )
+      .orderBy(desc(WorkflowRunSchema.startedAt))
+      .limit(limit);
+    return rows as WorkflowRunSummary[];
+  },
+  async selectRunById(workflowId, runId) {
+    const [row] = await pgDb
+      .select()
+      .from(WorkflowRunSchema)
+      .where(
+        and(
+          eq(WorkflowRunSchema.workflowId, workflowId),
+          eq(WorkflowRunSchema.id, runId),
+        ),
+      );
+    return (row as DBWorkflowRun) ?? null;
+  },
 };
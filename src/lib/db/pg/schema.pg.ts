@@ -1,7 +1,7 @@
 import { ChatMessage } from "app-types/chat";
 import { Agent } from "app-types/agent";
 import { UserPreferences } from "app-types/user";
-import { MCPServerConfig } from "app-types/mcp";
+import { MCPServerConfig, McpOAuthSession, McpToolPolicy } from "app-types/mcp";
 import { sql } from "drizzle-orm";
 import {
   pgTable,
@@ -14,7 +14,7 @@ import {
   varchar,
   index,
 } from "drizzle-orm/pg-core";
-import { DBWorkflow, DBEdge, DBNode } from "app-types/workflow";
+import { DBWorkflow, DBEdge, DBNode, DBWorkflowRun } from "app-types/workflow";
 
 export const ChatThreadSchema = pgTable("chat_thread", {
   id: uuid("id").primaryKey().notNull().defaultRandom(),
@@ -23,6 +23,9 @@ export const ChatThreadSchema = pgTable("chat_thread", {
     .notNull()
     .references(() => UserSchema.id),
   createdAt: timestamp("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
+  parentThreadId: uuid("parent_thread_id"),
+  forkedFromMessageId: text("forked_from_message_id"),
+  allowedTools: json("allowed_tools").$type<string[]>(),
 });
 
 export const ChatMessageSchema = pgTable("chat_message", {
@@ -56,6 +59,10 @@ export const McpServerSchema = pgTable("mcp_server", {
   id: uuid("id").primaryKey().notNull().defaultRandom(),
   name: text("name").notNull(),
   config: json("config").notNull().$type<MCPServerConfig>(),
+  // The user who added the server, only they can use it
+  userId: uuid("user_id").references(() => UserSchema.id, {
+    onDelete: "cascade",
+  }),
   enabled: boolean("enabled").notNull().default(true),
   createdAt: timestamp("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
   updatedAt: timestamp("updated_at").notNull().default(sql`CURRENT_TIMESTAMP`),
@@ -69,6 +76,10 @@ export const UserSchema = pgTable("user", {
   password: text("password"),
   image: text("image"),
   preferences: json("preferences").default({}).$type<UserPreferences>(),
+  // null = the deployment's STORAGE_BACKEND
+  storageBackend: varchar("storage_backend", {
+    enum: ["diffdb", "postgres"],
+  }),
   createdAt: timestamp("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
   updatedAt: timestamp("updated_at").notNull().default(sql`CURRENT_TIMESTAMP`),
 });
@@ -130,6 +141,7 @@ export const McpToolCustomizationSchema = pgTable(
       .notNull()
       .references(() => McpServerSchema.id, { onDelete: "cascade" }),
     prompt: text("prompt"),
+    policy: text("policy").$type<McpToolPolicy>(),
     createdAt: timestamp("created_at")
       .notNull()
       .default(sql`CURRENT_TIMESTAMP`),
@@ -161,6 +173,31 @@ export const McpServerCustomizationSchema = pgTable(
   (table) => [unique().on(table.userId, table.mcpServerId)],
 );
 
+export const McpOAuthSessionSchema = pgTable(
+  "mcp_oauth_session",
+  {
+    id: uuid("id").primaryKey().notNull().defaultRandom(),
+    userId: uuid("user_id")
+      .notNull()
+      .references(() => UserSchema.id, { onDelete: "cascade" }),
+    mcpServerId: uuid("mcp_server_id")
+      .notNull()
+      .references(() => McpServerSchema.id, { onDelete: "cascade" }),
+    state: text("state"),
+    codeVerifier: text("code_verifier"),
+    clientInformation:
+      json("client_information").$type<McpOAuthSession["clientInformation"]>(),
+    tokens: json("tokens").$type<McpOAuthSession["tokens"]>(),
+    createdAt: timestamp("created_at")
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+    updatedAt: timestamp("updated_at")
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+  },
+  (table) => [unique().on(table.userId, table.mcpServerId)],
+);
+
 export const WorkflowSchema = pgTable("workflow", {
   id: uuid("id").primaryKey().notNull().defaultRandom(),
   version: text("version").notNull().default("0.1.0"),
@@ -221,6 +258,32 @@ export const WorkflowEdgeSchema = pgTable("workflow_edge", {
   createdAt: timestamp("created_at").notNull().default(sql`CURRENT_TIMESTAMP`),
 });
 
+export const WorkflowRunSchema = pgTable(
+  "workflow_run",
+  {
+    id: uuid("id").primaryKey().notNull().defaultRandom(),
+    workflowId: uuid("workflow_id")
+      .notNull()
+      .references(() => WorkflowSchema.id, { onDelete: "cascade" }),
+    userId: uuid("user_id")
+      .notNull()
+      .references(() => UserSchema.id, { onDelete: "cascade" }),
+    version: text("version").notNull(),
+    status: varchar("status", { enum: ["success", "fail"] }).notNull(),
+    query: json("query").$type<DBWorkflowRun["query"]>().notNull().default({}),
+    histories: json("histories")
+      .$type<DBWorkflowRun["histories"]>()
+      .notNull()
+      .default([]),
+    error: text("error"),
+    parentRunId: uuid("parent_run_id"),
+    startNodeId: uuid("start_node_id"),
+    startedAt: timestamp("started_at").notNull(),
+    endedAt: timestamp("ended_at").notNull(),
+  },
+  (t) => [index("workflow_run_workflow_id_idx").on(t.workflowId, t.startedAt)],
+);
+
 export const ArchiveSchema = pgTable("archive", {
   id: uuid("id").primaryKey().notNull().defaultRandom(),
   name: text("name").notNull(),
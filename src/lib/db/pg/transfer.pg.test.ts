@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { generateUUID } from "lib/utils";
+import type { UserDataSnapshot } from "../transfer";
+
+// Needs a migrated database: TEST_POSTGRES_URL=postgres://... pnpm test
+describe.runIf(process.env.TEST_POSTGRES_URL)(
+  "Postgres user data import",
+  () => {
+    const users = [generateUUID(), generateUUID()];
+
+    const load = async () => {
+      process.env.POSTGRES_URL = process.env.TEST_POSTGRES_URL;
+      const { pgDb } = await import("./db.pg");
+      const schema = await import("./schema.pg");
+      const { pgUserDataStore } = await import("./transfer.pg");
+      return { pgDb, schema, pgUserDataStore };
+    };
+
+    beforeEach(async () => {
+      const { pgDb, schema } = await load();
+      await pgDb.insert(schema.UserSchema).values(
+        users.map((id) => ({
+          id,
+          name: "Transfer",
+          email: `${id}@transfer.test`,
+        })),
+      );
+    });
+
+    afterEach(async () => {
+      const { pgDb, schema } = await load();
+      const { inArray } = await import("drizzle-orm");
+      await pgDb
+        .delete(schema.UserSchema)
+        .where(inArray(schema.UserSchema.id, users));
+    });
+
+    it("should not add messages to another user's thread with the same id", async () => {
+      const { pgDb, schema, pgUserDataStore } = await load();
+      const { eq } = await import("drizzle-orm");
+      const threadId = generateUUID();
+      await pgDb
+        .insert(schema.ChatThreadSchema)
+        .values({ id: threadId, title: "Theirs", userId: users[1] });
+
+      const snapshot: UserDataSnapshot = {
+        userId: users[0],
+        mcpServers: [],
+        threads: [
+          {
+            id: threadId,
+            title: "Mine",
+            userId: users[0],
+            createdAt: new Date(),
+          },
+        ],
+        messages: [
+          {
+            id: generateUUID(),
+            threadId,
+            role: "user",
+            parts: [{ type: "text", text: "injected" }],
+            createdAt: new Date(),
+          } as UserDataSnapshot["messages"][number],
+        ],
+        agents: [],
+        workflows: [],
+        mcpServerCustomizations: [],
+        mcpToolCustomizations: [],
+        archives: [],
+        archiveItems: [],
+      };
+      const report = await pgUserDataStore.importUserData(snapshot);
+
+      expect(report.threads).toEqual({ total: 1, imported: 0, skipped: 1 });
+      expect(report.messages).toEqual({ total: 1, imported: 0, skipped: 1 });
+      const messages = await pgDb
+        .select()
+        .from(schema.ChatMessageSchema)
+        .where(eq(schema.ChatMessageSchema.threadId, threadId));
+      expect(messages).toEqual([]);
+    });
+  },
+);
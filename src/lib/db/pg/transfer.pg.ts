@@ -0,0 +1,252 @@
+import type { Agent } from "app-types/agent";
+import type { ChatMessage, ChatThread } from "app-types/chat";
+import type { DBEdge, DBNode, DBWorkflow } from "app-types/workflow";
+import { and, eq, inArray, isNull, or } from "drizzle-orm";
+import {
+  getReferencedMcpServerIds,
+  keepRecordsWithParent,
+  planImport,
+  type TransferEntity,
+  type UserDataStore,
+  withUuidIds,
+} from "../transfer";
+import { pgDb as db } from "./db.pg";
+import {
+  AgentSchema,
+  ArchiveItemSchema,
+  ArchiveSchema,
+  ChatMessageSchema,
+  ChatThreadSchema,
+  McpServerCustomizationSchema,
+  McpServerSchema,
+  McpToolCustomizationSchema,
+  WorkflowEdgeSchema,
+  WorkflowNodeDataSchema,
+  WorkflowSchema,
+} from "./schema.pg";
+
+export const pgUserDataStore: UserDataStore = {
+  async exportUserData(userId) {
+    const threads = await db
+      .select()
+      .from(ChatThreadSchema)
+      .where(eq(ChatThreadSchema.userId, userId));
+    const messages = threads.length
+      ? await db
+          .select()
+          .from(ChatMessageSchema)
+          .where(
+            inArray(
+              ChatMessageSchema.threadId,
+              threads.map((thread) => thread.id),
+            ),
+          )
+      : [];
+
+    const workflows = await db
+      .select()
+      .from(WorkflowSchema)
+      .where(eq(WorkflowSchema.userId, userId));
+    const workflowIds = workflows.map((workflow) => workflow.id);
+    const [nodes, edges] = workflowIds.length
+      ? await Promise.all([
+          db
+            .select()
+            .from(WorkflowNodeDataSchema)
+            .where(inArray(WorkflowNodeDataSchema.workflowId, workflowIds)),
+          db
+            .select()
+            .from(WorkflowEdgeSchema)
+            .where(inArray(WorkflowEdgeSchema.workflowId, workflowIds)),
+        ])
+      : [[], []];
+
+    const archives = await db
+      .select()
+      .from(ArchiveSchema)
+      .where(eq(ArchiveSchema.userId, userId));
+    const archiveItems = archives.length
+      ? await db
+          .select()
+          .from(ArchiveItemSchema)
+          .where(
+            inArray(
+              ArchiveItemSchema.archiveId,
+              archives.map((archive) => archive.id),
+            ),
+          )
+      : [];
+
+    const agents = (await db
+      .select()
+      .from(AgentSchema)
+      .where(eq(AgentSchema.userId, userId))) as Agent[];
+    const workflowsWithGraphs = workflows.map((workflow) => ({
+      ...(workflow as DBWorkflow),
+      nodes: nodes.filter(
+        (node) => node.workflowId === workflow.id,
+      ) as DBNode[],
+      edges: edges.filter(
+        (edge) => edge.workflowId === workflow.id,
+      ) as DBEdge[],
+    }));
+    const mcpServerCustomizations = await db
+      .select()
+      .from(McpServerCustomizationSchema)
+      .where(eq(McpServerCustomizationSchema.userId, userId));
+    const mcpToolCustomizations = await db
+      .select()
+      .from(McpToolCustomizationSchema)
+      .where(eq(McpToolCustomizationSchema.userId, userId));
+
+    // The user's own MCP servers, and servers from before servers had an
+    // owner that the user's data refers to
+    const mcpServerIds = getReferencedMcpServerIds({
+      agents,
+      workflows: workflowsWithGraphs,
+      mcpServerCustomizations,
+      mcpToolCustomizations,
+    });
+    const mcpServers = await db
+      .select()
+      .from(McpServerSchema)
+      .where(
+        mcpServerIds.length
+          ? or(
+              eq(McpServerSchema.userId, userId),
+              and(
+                isNull(McpServerSchema.userId),
+                inArray(McpServerSchema.id, mcpServerIds),
+              ),
+            )
+          : eq(McpServerSchema.userId, userId),
+      );
+
+    return {
+      userId,
+      mcpServers,
+      threads: threads as ChatThread[],
+      messages: messages as ChatMessage[],
+      agents,
+      workflows: workflowsWithGraphs,
+      mcpServerCustomizations,
+      mcpToolCustomizations,
+      archives,
+      archiveItems,
+    };
+  },
+
+  async importUserData(snapshot, options) {
+    // Postgres keys are UUIDs, other stores may use any string id
+    const normalized = withUuidIds(snapshot);
+    const { userId } = normalized;
+    const existing = await this.exportUserData(userId);
+    const { pending, report } = planImport(normalized, existing);
+    if (options?.dryRun) return report;
+
+    await db.transaction(async (tx) => {
+      // Rows whose id another user already has are not inserted, count only
+      // the rows that were and return their ids
+      const insert = async <T>(
+        table: Parameters<typeof tx.insert>[0],
+        rows: T[],
+        entity?: TransferEntity,
+      ) => {
+        if (!rows.length) return new Set<string>();
+        const inserted = (await tx
+          .insert(table)
+          .values(rows as any)
+          .onConflictDoNothing()
+          .returning()) as { id: string }[];
+        if (entity) {
+          const conflicts = rows.length - inserted.length;
+          report[entity].imported -= conflicts;
+          report[entity].skipped += conflicts;
+        }
+        return new Set(inserted.map((row) => row.id));
+      };
+      // The snapshot comes from storage the user controls, every record is
+      // written as theirs
+      const owned = <T extends { userId: string }>(rows: T[]) =>
+        rows.map((row) => ({ ...row, userId }));
+      const withOwned = (ids: Set<string>, rows: { id: string }[]) =>
+        new Set([...ids, ...rows.map((row) => row.id)]);
+
+      await insert(
+        McpServerSchema,
+        pending.mcpServers.map((server) => ({ ...server, userId })),
+        "mcpServers",
+      );
+      const threadIds = await insert(
+        ChatThreadSchema,
+        owned(pending.threads),
+        "threads",
+      );
+      await insert(
+        ChatMessageSchema,
+        keepRecordsWithParent(
+          pending.messages,
+          "threadId",
+          withOwned(threadIds, existing.threads),
+          report.messages,
+        ).map((message) => ({
+          ...message,
+          attachments: message.attachments ?? null,
+          annotations: message.annotations ?? null,
+        })),
+        "messages",
+      );
+      await insert(AgentSchema, owned(pending.agents), "agents");
+      const workflowIds = await insert(
+        WorkflowSchema,
+        owned(
+          pending.workflows.map(
+            ({ nodes: _nodes, edges: _edges, ...workflow }) => workflow,
+          ),
+        ),
+        "workflows",
+      );
+      // Existing workflows are never pending, their graphs stay as they are
+      const insertedWorkflows = pending.workflows.filter((workflow) =>
+        workflowIds.has(workflow.id),
+      );
+      await insert(
+        WorkflowNodeDataSchema,
+        insertedWorkflows.flatMap((workflow) => workflow.nodes),
+      );
+      await insert(
+        WorkflowEdgeSchema,
+        insertedWorkflows.flatMap((workflow) => workflow.edges),
+      );
+      await insert(
+        McpServerCustomizationSchema,
+        owned(pending.mcpServerCustomizations),
+        "mcpServerCustomizations",
+      );
+      await insert(
+        McpToolCustomizationSchema,
+        owned(pending.mcpToolCustomizations),
+        "mcpToolCustomizations",
+      );
+      const archiveIds = await insert(
+        ArchiveSchema,
+        owned(pending.archives),
+        "archives",
+      );
+      await insert(
+        ArchiveItemSchema,
+        owned(
+          keepRecordsWithParent(
+            pending.archiveItems,
+            "archiveId",
+            withOwned(archiveIds, existing.archives),
+            report.archiveItems,
+          ),
+        ),
+        "archiveItems",
+      );
+    });
+
+    return report;
+  },
+};
@@ -0,0 +1,112 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { describe } from "vitest";
+import { LocalGitStorageBackend } from "lib/diffdb/local-git-backend";
+import { createDiffDBAgentRepository } from "lib/diffdb/repositories/agent-repository.diffdb";
+import { createDiffDBArchiveRepository } from "lib/diffdb/repositories/archive-repository.diffdb";
+import { createDiffDBChatHistoryRepository } from "lib/diffdb/repositories/chat-history-repository.diffdb";
+import { createDiffDBChatRepository } from "lib/diffdb/repositories/chat-repository.diffdb";
+import { createDiffDBMcpRepository } from "lib/diffdb/repositories/mcp-repository.diffdb";
+import { createDiffDBMcpServerCustomizationRepository } from "lib/diffdb/repositories/mcp-server-customization-repository.diffdb";
+import { createDiffDBMcpToolCustomizationRepository } from "lib/diffdb/repositories/mcp-tool-customization-repository.diffdb";
+import { createDiffDBUserRepository } from "lib/diffdb/repositories/user-repository.diffdb";
+import { createDiffDBWorkflowRepository } from "lib/diffdb/repositories/workflow-repository.diffdb";
+import { generateUUID } from "lib/utils";
+import { describeRepositoryContract } from "./repository.contract";
+
+const REPO = "contract-data";
+const OTHER_REPO = "contract-data-other";
+
+describeRepositoryContract("DiffDB", async () => {
+  const baseDir = await mkdtemp(path.join(os.tmpdir(), "diffdb-contract-"));
+  const backend = new LocalGitStorageBackend(baseDir);
+  await backend.ensureRepository(REPO);
+  // Every DiffDB user has a repository of their own
+  await backend.ensureRepository(OTHER_REPO);
+
+  return {
+    userId: generateUUID(),
+    otherUserId: generateUUID(),
+    chatRepository: createDiffDBChatRepository(backend, REPO),
+    agentRepository: createDiffDBAgentRepository(backend, REPO),
+    archiveRepository: createDiffDBArchiveRepository(backend, REPO),
+    workflowRepository: createDiffDBWorkflowRepository(backend, REPO),
+    mcpRepository: createDiffDBMcpRepository(backend, REPO),
+    otherMcpRepository: createDiffDBMcpRepository(backend, OTHER_REPO),
+    mcpServerCustomizationRepository:
+      createDiffDBMcpServerCustomizationRepository(backend, REPO),
+    mcpToolCustomizationRepository: createDiffDBMcpToolCustomizationRepository(
+      backend,
+      REPO,
+    ),
+    chatHistoryRepository: createDiffDBChatHistoryRepository(backend, REPO),
+    userRepository: createDiffDBUserRepository(backend, REPO),
+    cleanup: () => rm(baseDir, { recursive: true, force: true }),
+  };
+});
+
+// Needs a migrated database: TEST_POSTGRES_URL=postgres://... pnpm test
+describe.runIf(process.env.TEST_POSTGRES_URL)("Postgres", () => {
+  describeRepositoryContract("Postgres", async () => {
+    process.env.POSTGRES_URL = process.env.TEST_POSTGRES_URL;
+    const { pgDb } = await import("./pg/db.pg");
+    const { UserSchema } = await import("./pg/schema.pg");
+    const { inArray } = await import("drizzle-orm");
+    const { pgChatRepository } = await import(
+      "./pg/repositories/chat-repository.pg"
+    );
+    const { pgAgentRepository } = await import(
+      "./pg/repositories/agent-repository.pg"
+    );
+    const { pgArchiveRepository } = await import(
+      "./pg/repositories/archive-repository.pg"
+    );
+    const { pgWorkflowRepository } = await import(
+      "./pg/repositories/workflow-repository.pg"
+    );
+    const { createPgMcpRepository } = await import(
+      "./pg/repositories/mcp-repository.pg"
+    );
+    const { pgMcpServerCustomizationRepository } = await import(
+      "./pg/repositories/mcp-server-customization-repository.pg"
+    );
+    const { pgMcpMcpToolCustomizationRepository } = await import(
+      "./pg/repositories/mcp-tool-customization-repository.pg"
+    );
+    const { pgChatHistoryRepository } = await import(
+      "./pg/repositories/chat-history-repository.pg"
+    );
+    const { pgUserRepository } = await import(
+      "./pg/repositories/user-repository.pg"
+    );
+
+    const users = [generateUUID(), generateUUID()];
+    await pgDb.insert(UserSchema).values(
+      users.map((id) => ({
+        id,
+        name: "Contract",
+        email: `${id}@contract.test`,
+      })),
+    );
+
+    return {
+      userId: users[0],
+      otherUserId: users[1],
+      chatRepository: pgChatRepository,
+      agentRepository: pgAgentRepository,
+      archiveRepository: pgArchiveRepository,
+      workflowRepository: pgWorkflowRepository,
+      mcpRepository: createPgMcpRepository(users[0]),
+      otherMcpRepository: createPgMcpRepository(users[1]),
+      mcpServerCustomizationRepository: pgMcpServerCustomizationRepository,
+      mcpToolCustomizationRepository: pgMcpMcpToolCustomizationRepository,
+      chatHistoryRepository: pgChatHistoryRepository,
+      userRepository: pgUserRepository,
+      // The user's rows go with them
+      cleanup: async () => {
+        await pgDb.delete(UserSchema).where(inArray(UserSchema.id, users));
+      },
+    };
+  });
+});
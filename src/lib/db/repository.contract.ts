@@ -0,0 +1,628 @@
+/**
+ * Repository Contract Suite
+ *
+ * Behaviour every storage backend has to share, so the app works the same
+ * on each of them. A backend's test file runs the suite with repositories
+ * for a user that exists in that backend.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import type { AgentRepository } from "app-types/agent";
+import type { ArchiveRepository } from "app-types/archive";
+import type { ChatHistoryRepository, ChatRepository } from "app-types/chat";
+import type {
+  MCPRepository,
+  McpServerCustomizationRepository,
+  McpToolCustomizationRepository,
+} from "app-types/mcp";
+import type { UserRepository } from "app-types/user";
+import type { WorkflowRepository } from "app-types/workflow";
+import { createUINode } from "lib/ai/workflow/create-ui-node";
+import { convertUINodeToDBNode } from "lib/ai/workflow/shared.workflow";
+import { NodeKind } from "lib/ai/workflow/workflow.interface";
+import { generateUUID } from "lib/utils";
+
+export interface RepositoryContractContext {
+  userId: string;
+  /** A second user, for access checks */
+  otherUserId: string;
+  chatRepository: ChatRepository;
+  agentRepository: AgentRepository;
+  archiveRepository: ArchiveRepository;
+  workflowRepository: WorkflowRepository;
+  mcpRepository: MCPRepository;
+  /** The MCP servers of the other user */
+  otherMcpRepository: MCPRepository;
+  mcpServerCustomizationRepository: McpServerCustomizationRepository;
+  mcpToolCustomizationRepository: McpToolCustomizationRepository;
+  chatHistoryRepository: ChatHistoryRepository;
+  userRepository: UserRepository;
+  cleanup(): Promise<void>;
+}
+
+export function describeRepositoryContract(
+  backendName: string,
+  setup: () => Promise<RepositoryContractContext>,
+) {
+  describe(`${backendName} repositories`, () => {
+    let ctx: RepositoryContractContext;
+
+    beforeEach(async () => {
+      ctx = await setup();
+    });
+
+    afterEach(async () => {
+      await ctx.cleanup();
+    });
+
+    const insertThread = async (title = "Thread") => {
+      const thread = await ctx.chatRepository.insertThread({
+        id: generateUUID(),
+        title,
+        userId: ctx.userId,
+      });
+      await ctx.chatRepository.insertMessage({
+        id: generateUUID(),
+        threadId: thread.id,
+        role: "user",
+        parts: [{ type: "text", text: `Hello from ${title}` }],
+        model: null,
+      });
+      return thread;
+    };
+
+    describe("ChatRepository", () => {
+      it("should keep the id of an inserted thread", async () => {
+        const thread = await insertThread("Kept");
+
+        expect((await ctx.chatRepository.selectThread(thread.id))?.title).toBe(
+          "Kept",
+        );
+        const threads = await ctx.chatRepository.selectThreadsByUserId(
+          ctx.userId,
+        );
+        expect(threads.map((item) => item.id)).toEqual([thread.id]);
+      });
+
+      it("should remember the tools allowed in a thread", async () => {
+        const thread = await insertThread();
+        await ctx.chatRepository.updateThread(thread.id, {
+          allowedTools: ["github_create_issue"],
+        });
+
+        const details = await ctx.chatRepository.selectThreadDetails(thread.id);
+        expect(details?.allowedTools).toEqual(["github_create_issue"]);
+        expect(details?.title).toBe("Thread");
+      });
+
+      it("should insert and upsert messages in order", async () => {
+        const thread = await insertThread();
+        const reply = {
+          id: generateUUID(),
+          threadId: thread.id,
+          role: "assistant" as const,
+          parts: [{ type: "text" as const, text: "draft" }],
+          model: "test-model",
+        };
+        await ctx.chatRepository.insertMessage(reply);
+        // Streaming appends parts to the message it already saved
+        const parts = [...reply.parts, { type: "text" as const, text: "done" }];
+        await ctx.chatRepository.upsertMessage({ ...reply, parts });
+
+        const messages = await ctx.chatRepository.selectMessagesByThreadId(
+          thread.id,
+        );
+        expect(messages.map((message) => message.role)).toEqual([
+          "user",
+          "assistant",
+        ]);
+        expect(messages[1].parts).toEqual(parts);
+
+        // Replacing or dropping parts is stored as given, not merged
+        const replaced = [{ type: "text" as const, text: "final answer" }];
+        await ctx.chatRepository.upsertMessage({ ...reply, parts: replaced });
+        const [, updated] = await ctx.chatRepository.selectMessagesByThreadId(
+          thread.id,
+        );
+        expect(updated.parts).toEqual(replaced);
+      });
+
+      it("should delete a thread with its messages and archive entries", async () => {
+        const thread = await insertThread();
+        const archive = await ctx.archiveRepository.createArchive({
+          name: "Saved",
+          description: null,
+          userId: ctx.userId,
+        });
+        await ctx.archiveRepository.addItemToArchive(
+          archive.id,
+          thread.id,
+          ctx.userId,
+        );
+
+        await ctx.chatRepository.deleteThread(thread.id);
+
+        expect(await ctx.chatRepository.selectThread(thread.id)).toBeNull();
+        expect(
+          await ctx.chatRepository.selectMessagesByThreadId(thread.id),
+        ).toEqual([]);
+        expect(await ctx.archiveRepository.getArchiveItems(archive.id)).toEqual(
+          [],
+        );
+      });
+
+      it("should keep archived threads when deleting unarchived ones", async () => {
+        const archived = await insertThread("Archived");
+        await insertThread("Loose");
+        const archive = await ctx.archiveRepository.createArchive({
+          name: "Saved",
+          description: null,
+          userId: ctx.userId,
+        });
+        await ctx.archiveRepository.addItemToArchive(
+          archive.id,
+          archived.id,
+          ctx.userId,
+        );
+
+        await ctx.chatRepository.deleteUnarchivedThreads(ctx.userId);
+
+        const threads = await ctx.chatRepository.selectThreadsByUserId(
+          ctx.userId,
+        );
+        expect(threads.map((thread) => thread.id)).toEqual([archived.id]);
+      });
+    });
+
+    describe("ChatHistoryRepository", () => {
+      it("should list the history of a thread", async () => {
+        const thread = await insertThread();
+
+        // Backends without versions report an empty history
+        const history = await ctx.chatHistoryRepository.selectThreadHistory(
+          thread.id,
+        );
+        expect(Array.isArray(history)).toBe(true);
+      });
+
+      it("should refuse to restore an unknown version", async () => {
+        const thread = await insertThread();
+
+        await expect(
+          ctx.chatHistoryRepository.restoreThread(thread.id, "not-a-commit"),
+        ).rejects.toThrow();
+        expect((await ctx.chatRepository.selectThread(thread.id))?.id).toBe(
+          thread.id,
+        );
+      });
+    });
+
+    describe("AgentRepository", () => {
+      it("should store agents for their owner only", async () => {
+        const agent = await ctx.agentRepository.insertAgent({
+          name: "Helper",
+          description: "Helps",
+          icon: { type: "emoji", value: "🤖" },
+          userId: ctx.userId,
+          isPublic: false,
+          instructions: { role: "helper", systemPrompt: "Be helpful" },
+        });
+
+        const stored = await ctx.agentRepository.selectAgentById(
+          agent.id,
+          ctx.userId,
+        );
+        expect(stored?.instructions.systemPrompt).toBe("Be helpful");
+        expect(stored?.icon?.value).toBe("🤖");
+        expect(
+          await ctx.agentRepository.selectAgentById(agent.id, ctx.otherUserId),
+        ).toBeNull();
+        expect(
+          await ctx.agentRepository.selectPublicAgentById(agent.id),
+        ).toBeNull();
+
+        const [summary] = await ctx.agentRepository.selectAgentsByUserId(
+          ctx.userId,
+        );
+        expect(summary.id).toBe(agent.id);
+        expect(summary).not.toHaveProperty("instructions");
+      });
+
+      it("should update and delete agents", async () => {
+        const agent = await ctx.agentRepository.insertAgent({
+          name: "Draft",
+          userId: ctx.userId,
+          instructions: { systemPrompt: "v1" },
+        });
+
+        const updated = await ctx.agentRepository.updateAgent(
+          agent.id,
+          ctx.userId,
+          { name: "Final", isPublic: true },
+        );
+        expect(updated.name).toBe("Final");
+        expect(updated.instructions.systemPrompt).toBe("v1");
+        expect(
+          (await ctx.agentRepository.selectPublicAgentById(agent.id))?.name,
+        ).toBe("Final");
+
+        await ctx.agentRepository.deleteAgent(agent.id, ctx.userId);
+        expect(
+          await ctx.agentRepository.selectAgentById(agent.id, ctx.userId),
+        ).toBeNull();
+      });
+    });
+
+    describe("ArchiveRepository", () => {
+      it("should track the items of an archive", async () => {
+        const thread = await insertThread();
+        const archive = await ctx.archiveRepository.createArchive({
+          name: "Reading",
+          description: "Later",
+          userId: ctx.userId,
+        });
+        await ctx.archiveRepository.addItemToArchive(
+          archive.id,
+          thread.id,
+          ctx.userId,
+        );
+        await ctx.archiveRepository.addItemToArchive(
+          archive.id,
+          thread.id,
+          ctx.userId,
+        );
+
+        const [withCount] = await ctx.archiveRepository.getArchivesByUserId(
+          ctx.userId,
+        );
+        expect(withCount).toMatchObject({ id: archive.id, itemCount: 1 });
+        expect(
+          (
+            await ctx.archiveRepository.getItemArchives(thread.id, ctx.userId)
+          ).map((item) => item.id),
+        ).toEqual([archive.id]);
+
+        await ctx.archiveRepository.removeItemFromArchive(
+          archive.id,
+          thread.id,
+        );
+        expect(await ctx.archiveRepository.getArchiveItems(archive.id)).toEqual(
+          [],
+        );
+      });
+
+      it("should update and delete archives", async () => {
+        const archive = await ctx.archiveRepository.createArchive({
+          name: "Old",
+          description: null,
+          userId: ctx.userId,
+        });
+
+        const updated = await ctx.archiveRepository.updateArchive(archive.id, {
+          name: "New",
+        });
+        expect(updated.name).toBe("New");
+        expect(
+          (await ctx.archiveRepository.getArchiveById(archive.id))?.name,
+        ).toBe("New");
+
+        await ctx.archiveRepository.deleteArchive(archive.id);
+        expect(
+          await ctx.archiveRepository.getArchiveById(archive.id),
+        ).toBeFalsy();
+      });
+    });
+
+    describe("WorkflowRepository", () => {
+      const saveWorkflow = () =>
+        ctx.workflowRepository.save({
+          name: "Flow",
+          description: "Does things",
+          userId: ctx.userId,
+        });
+
+      it("should create a workflow with an input node", async () => {
+        const workflow = await saveWorkflow();
+        expect(workflow).toMatchObject({
+          isPublished: false,
+          visibility: "private",
+        });
+
+        const structure = await ctx.workflowRepository.selectStructureById(
+          workflow.id,
+        );
+        expect(structure?.nodes.map((node) => node.kind)).toEqual([
+          NodeKind.Input,
+        ]);
+        expect(
+          (await ctx.workflowRepository.selectByUserId(ctx.userId)).map(
+            (item) => item.id,
+          ),
+        ).toEqual([workflow.id]);
+      });
+
+      it("should apply structure changes", async () => {
+        const workflow = await saveWorkflow();
+        const structure = await ctx.workflowRepository.selectStructureById(
+          workflow.id,
+        );
+        const input = structure!.nodes[0];
+        const output = convertUINodeToDBNode(
+          workflow.id,
+          createUINode(NodeKind.Output, { name: "OUTPUT" }),
+        );
+        const edge = {
+          id: generateUUID(),
+          workflowId: workflow.id,
+          source: input.id,
+          target: output.id,
+          uiConfig: {},
+        };
+
+        await ctx.workflowRepository.saveStructure({
+          workflowId: workflow.id,
+          nodes: [output as any],
+          edges: [edge as any],
+        });
+        let saved = await ctx.workflowRepository.selectStructureById(
+          workflow.id,
+        );
+        expect(saved?.nodes).toHaveLength(2);
+        expect(saved?.edges.map((item) => item.id)).toEqual([edge.id]);
+
+        await ctx.workflowRepository.saveStructure({
+          workflowId: workflow.id,
+          deleteEdges: [edge.id],
+          deleteNodes: [output.id],
+        });
+        saved = await ctx.workflowRepository.selectStructureById(workflow.id);
+        expect(saved?.nodes.map((node) => node.id)).toEqual([input.id]);
+        expect(saved?.edges).toEqual([]);
+      });
+
+      it("should check access by visibility", async () => {
+        const workflow = await saveWorkflow();
+        const { checkAccess } = ctx.workflowRepository;
+
+        expect(await checkAccess(workflow.id, ctx.userId, false)).toBe(true);
+        expect(await checkAccess(workflow.id, ctx.otherUserId)).toBe(false);
+
+        await ctx.workflowRepository.save({
+          ...workflow,
+          visibility: "readonly",
+        });
+        expect(await checkAccess(workflow.id, ctx.otherUserId)).toBe(true);
+        expect(await checkAccess(workflow.id, ctx.otherUserId, false)).toBe(
+          false,
+        );
+
+        await ctx.workflowRepository.delete(workflow.id);
+        expect(
+          await ctx.workflowRepository.selectById(workflow.id),
+        ).toBeFalsy();
+      });
+
+      it("should keep runs per user, newest first", async () => {
+        const workflow = await saveWorkflow();
+        const saveRun = (startedAt: number, status: "success" | "fail") =>
+          ctx.workflowRepository.saveRun({
+            id: generateUUID(),
+            workflowId: workflow.id,
+            userId: ctx.userId,
+            version: workflow.version,
+            status,
+            query: { topic: "runs" },
+            histories: [],
+            startedAt: new Date(startedAt),
+            endedAt: new Date(startedAt + 1000),
+          });
+        const first = await saveRun(1000, "fail");
+        const second = await saveRun(5000, "success");
+
+        const runs = await ctx.workflowRepository.selectRunsByWorkflowId(
+          workflow.id,
+          ctx.userId,
+        );
+        expect(runs.map((run) => run.id)).toEqual([second.id, first.id]);
+        expect(runs[0]).not.toHaveProperty("histories");
+        expect(
+          await ctx.workflowRepository.selectRunsByWorkflowId(
+            workflow.id,
+            ctx.otherUserId,
+          ),
+        ).toEqual([]);
+
+        const run = await ctx.workflowRepository.selectRunById(
+          workflow.id,
+          first.id,
+        );
+        expect(run).toMatchObject({
+          status: "fail",
+          query: { topic: "runs" },
+          histories: [],
+        });
+        expect(run?.startedAt.getTime()).toBe(1000);
+      });
+    });
+
+    describe("MCPRepository", () => {
+      it("should save servers by id and find them by name", async () => {
+        const name = `server-${generateUUID()}`;
+        const server = await ctx.mcpRepository.save({
+          name,
+          config: { command: "node", args: ["v1.js"] },
+        });
+        await ctx.mcpRepository.save({
+          ...server,
+          config: { command: "node", args: ["v2.js"] },
+        });
+
+        expect(await ctx.mcpRepository.existsByServerName(name)).toBe(true);
+        expect(
+          (await ctx.mcpRepository.selectByServerName(name))?.config,
+        ).toEqual({ command: "node", args: ["v2.js"] });
+
+        await ctx.mcpRepository.deleteById(server.id);
+        expect(await ctx.mcpRepository.existsByServerName(name)).toBe(false);
+      });
+
+      it("should only show servers to the user who added them", async () => {
+        const name = `server-${generateUUID()}`;
+        const server = await ctx.mcpRepository.save({
+          name,
+          config: { command: "node", args: ["server.js"] },
+        });
+
+        expect(
+          (await ctx.otherMcpRepository.selectAll()).map(({ id }) => id),
+        ).not.toContain(server.id);
+        expect(await ctx.otherMcpRepository.selectById(server.id)).toBeNull();
+        expect(await ctx.otherMcpRepository.existsByServerName(name)).toBe(
+          false,
+        );
+
+        await ctx.otherMcpRepository.deleteById(server.id);
+        expect((await ctx.mcpRepository.selectById(server.id))?.name).toBe(
+          name,
+        );
+        await ctx.mcpRepository.deleteById(server.id);
+      });
+
+      it("should keep OAuth sessions per server and user", async () => {
+        const server = await ctx.mcpRepository.save({
+          name: `server-${generateUUID()}`,
+          config: { url: "https://mcp.example.com/mcp" },
+        });
+        await ctx.mcpRepository.saveOAuthSession(server.id, ctx.userId, {
+          state: "pending",
+          codeVerifier: "verifier",
+        });
+        await ctx.mcpRepository.saveOAuthSession(server.id, ctx.userId, {
+          state: null,
+          tokens: { access_token: "token", token_type: "Bearer" },
+        });
+
+        expect(
+          await ctx.mcpRepository.selectOAuthSession(server.id, ctx.userId),
+        ).toMatchObject({
+          state: null,
+          codeVerifier: "verifier",
+          tokens: { access_token: "token" },
+        });
+        expect(
+          await ctx.mcpRepository.selectOAuthSession(
+            server.id,
+            ctx.otherUserId,
+          ),
+        ).toBeNull();
+
+        await ctx.mcpRepository.deleteOAuthSession(server.id, ctx.userId);
+        expect(
+          await ctx.mcpRepository.selectOAuthSession(server.id, ctx.userId),
+        ).toBeNull();
+        await ctx.mcpRepository.deleteById(server.id);
+      });
+    });
+
+    describe("McpServerCustomizationRepository", () => {
+      it("should keep server prompts per user", async () => {
+        const server = await ctx.mcpRepository.save({
+          name: `server-${generateUUID()}`,
+          config: { command: "node", args: ["server.js"] },
+        });
+        const key = { userId: ctx.userId, mcpServerId: server.id };
+        await ctx.mcpServerCustomizationRepository.upsertMcpServerCustomization(
+          { ...key, prompt: "Draft" },
+        );
+        await ctx.mcpServerCustomizationRepository.upsertMcpServerCustomization(
+          { ...key, prompt: "Use the staging project" },
+        );
+
+        expect(
+          await ctx.mcpServerCustomizationRepository.selectByUserIdAndMcpServerId(
+            key,
+          ),
+        ).toMatchObject({
+          prompt: "Use the staging project",
+          serverName: server.name,
+        });
+        expect(
+          await ctx.mcpServerCustomizationRepository.selectByUserId(
+            ctx.otherUserId,
+          ),
+        ).toEqual([]);
+
+        await ctx.mcpServerCustomizationRepository.deleteMcpServerCustomizationByMcpServerIdAndUserId(
+          key,
+        );
+        expect(
+          await ctx.mcpServerCustomizationRepository.selectByUserIdAndMcpServerId(
+            key,
+          ),
+        ).toBeNull();
+        await ctx.mcpRepository.deleteById(server.id);
+      });
+    });
+
+    describe("McpToolCustomizationRepository", () => {
+      it("should keep tool prompts and policies per user", async () => {
+        const server = await ctx.mcpRepository.save({
+          name: `server-${generateUUID()}`,
+          config: { command: "node", args: ["server.js"] },
+        });
+        const key = {
+          userId: ctx.userId,
+          mcpServerId: server.id,
+          toolName: "create_issue",
+        };
+        await ctx.mcpToolCustomizationRepository.upsertToolCustomization({
+          ...key,
+          prompt: "Label it",
+          policy: "ask",
+        });
+        await ctx.mcpToolCustomizationRepository.upsertToolCustomization({
+          ...key,
+          prompt: "Label it",
+          policy: "deny",
+        });
+
+        expect(
+          await ctx.mcpToolCustomizationRepository.select(key),
+        ).toMatchObject({ prompt: "Label it", policy: "deny" });
+        expect(
+          await ctx.mcpToolCustomizationRepository.selectByUserId(ctx.userId),
+        ).toEqual([
+          expect.objectContaining({
+            toolName: "create_issue",
+            serverName: server.name,
+          }),
+        ]);
+        expect(
+          await ctx.mcpToolCustomizationRepository.selectByUserIdAndMcpServerId(
+            { userId: ctx.otherUserId, mcpServerId: server.id },
+          ),
+        ).toEqual([]);
+
+        await ctx.mcpToolCustomizationRepository.deleteToolCustomization(key);
+        expect(await ctx.mcpToolCustomizationRepository.select(key)).toBeNull();
+        await ctx.mcpRepository.deleteById(server.id);
+      });
+    });
+
+    describe("UserRepository", () => {
+      it("should replace a user's preferences", async () => {
+        await ctx.userRepository.updatePreferences(ctx.userId, {
+          displayName: "Ada",
+          botName: "Babbage",
+        });
+        await ctx.userRepository.updatePreferences(ctx.userId, {
+          displayName: "Grace",
+        });
+
+        expect(await ctx.userRepository.getPreferences(ctx.userId)).toEqual({
+          displayName: "Grace",
+        });
+      });
+    });
+  });
+}
@@ -1,9 +1,17 @@
-// DiffDB-only repository system (no PostgreSQL fallback)
-import { isDiffDBEnabled } from "../diffdb";
 import { getGitHubAccessToken } from "../auth/github-helper";
 import { getSession } from "../auth/server";
-import { ChatRepository } from "app-types/chat";
+import { AgentRepository } from "app-types/agent";
+import { ArchiveRepository } from "app-types/archive";
+import { ChatHistoryRepository, ChatRepository } from "app-types/chat";
+import {
+  MCPRepository,
+  McpServerCustomizationRepository,
+  McpToolCustomizationRepository,
+} from "app-types/mcp";
+import { UserRepository } from "app-types/user";
+import { WorkflowRepository } from "app-types/workflow";
 import { createDiffDBChatRepository } from "../diffdb/repositories/chat-repository.diffdb";
+import { createDiffDBChatHistoryRepository } from "../diffdb/repositories/chat-history-repository.diffdb";
 import { createDiffDBArchiveRepository } from "../diffdb/repositories/archive-repository.diffdb";
 import { createDiffDBUserRepository } from "../diffdb/repositories/user-repository.diffdb";
 import { createDiffDBMcpRepository } from "../diffdb/repositories/mcp-repository.diffdb";
@@ -11,64 +19,122 @@ import { createDiffDBMcpServerCustomizationRepository } from "../diffdb/reposito
 import { createDiffDBMcpToolCustomizationRepository } from "../diffdb/repositories/mcp-tool-customization-repository.diffdb";
 import { createDiffDBWorkflowRepository } from "../diffdb/repositories/workflow-repository.diffdb";
 import { createDiffDBAgentRepository } from "../diffdb/repositories/agent-repository.diffdb";
-import { DiffDBClient } from "../diffdb/client";
+import {
+  createDiffDBStorageBackend,
+  type DiffDBStorageBackend,
+  getDiffDBBackendKind,
+} from "../diffdb/storage-backend";
+import { getSessionEncryptionKey } from "../diffdb/encryption-session";
+import { DiffDBLockedError } from "../errors";
+import { pgAgentRepository } from "./pg/repositories/agent-repository.pg";
+import { pgArchiveRepository } from "./pg/repositories/archive-repository.pg";
+import { pgChatHistoryRepository } from "./pg/repositories/chat-history-repository.pg";
+import { pgChatRepository } from "./pg/repositories/chat-repository.pg";
+import { createPgMcpRepository } from "./pg/repositories/mcp-repository.pg";
+import { pgMcpServerCustomizationRepository } from "./pg/repositories/mcp-server-customization-repository.pg";
+import { pgMcpMcpToolCustomizationRepository } from "./pg/repositories/mcp-tool-customization-repository.pg";
+import { pgUserRepository } from "./pg/repositories/user-repository.pg";
+import { pgWorkflowRepository } from "./pg/repositories/workflow-repository.pg";
+import { getUserStorageBackendKind } from "./storage";
 
 /**
- * Session-aware DiffDB repository system
+ * Session-aware repository system
  *
- * NO POSTGRESQL FALLBACK - GitHub repositories are the only storage backend.
- * All repositories perfectly simulate PostgreSQL behavior using GitHub storage.
- * Existing application code works identically without any changes.
+ * Every user's data lives in one storage backend (see lib/db/storage):
+ * DiffDB git repositories, on GitHub or the local filesystem (see
+ * DIFFDB_BACKEND), or Postgres. Both implement the same repository
+ * contracts, so application code doesn't know which one it talks to.
  */
 
-// Global repository cache per user session
+type UserRepositories = {
+  chatRepository: ChatRepository;
+  chatHistoryRepository: ChatHistoryRepository;
+  archiveRepository: ArchiveRepository;
+  userRepository: UserRepository;
+  mcpRepository: MCPRepository;
+  mcpServerCustomizationRepository: McpServerCustomizationRepository;
+  mcpToolCustomizationRepository: McpToolCustomizationRepository;
+  workflowRepository: WorkflowRepository;
+  agentRepository: AgentRepository;
+};
+
+const pgRepositories: Omit<UserRepositories, "mcpRepository"> = {
+  chatRepository: pgChatRepository,
+  chatHistoryRepository: pgChatHistoryRepository,
+  archiveRepository: pgArchiveRepository,
+  userRepository: pgUserRepository,
+  mcpServerCustomizationRepository: pgMcpServerCustomizationRepository,
+  mcpToolCustomizationRepository: pgMcpMcpToolCustomizationRepository,
+  workflowRepository: pgWorkflowRepository,
+  agentRepository: pgAgentRepository,
+};
+
+// Global DiffDB repository cache per user session
 const userRepositoryCache = new Map<
   string,
-  {
-    chatRepository: ChatRepository;
-    archiveRepository: any;
-    userRepository: any;
-    mcpRepository: any;
-    mcpServerCustomizationRepository: any;
-    mcpToolCustomizationRepository: any;
-    workflowRepository: any;
-    agentRepository: any;
-    lastAccessed: number;
-  }
+  UserRepositories & { lastAccessed: number }
 >();
 
+async function getSessionUser() {
+  // Handle case where no session exists (e.g. server startup)
+  let session;
+  try {
+    session = await getSession();
+  } catch (error) {
+    // If we're outside a request context (server startup), return error
+    if (error instanceof Error && error.message.includes("headers")) {
+      throw new Error(
+        "No active user session - repositories can only be accessed within request context",
+      );
+    }
+    throw error;
+  }
+
+  if (!session?.user?.id) {
+    throw new Error("User not authenticated. Please sign in.");
+  }
+  return { session, userId: session.user.id };
+}
+
+/**
+ * Open the current user's DiffDB repository, decrypted with the key of
+ * their session
+ */
+async function openUserDiffDBBackend(
+  session: Awaited<ReturnType<typeof getSession>>,
+  encryptionKey: Awaited<ReturnType<typeof getSessionEncryptionKey>>,
+) {
+  // Only the GitHub backend needs an access token
+  const accessToken =
+    getDiffDBBackendKind() === "github"
+      ? await getGitHubAccessToken(session)
+      : null;
+
+  const repoName = process.env.DIFFDB_REPOSITORY_NAME || "diffchat-data";
+  const backend = await createDiffDBStorageBackend({
+    userId: session.user.id,
+    repoName,
+    accessToken,
+    encryption: { key: encryptionKey },
+    migrate: true,
+  });
+  return { backend, repoName };
+}
+
 /**
  * Get repositories for current user session
- * This creates all repository instances with proper GitHub authentication
  */
-async function getUserRepositories() {
-  if (!isDiffDBEnabled()) {
-    throw new Error(
-      "DiffDB is disabled. This app requires GitHub authentication and repository access.",
-    );
+async function getUserRepositories(): Promise<UserRepositories> {
+  const { session, userId } = await getSessionUser();
+  if ((await getUserStorageBackendKind(userId)) === "postgres") {
+    // MCP servers are the user's own, the other tables are queried by user
+    return { ...pgRepositories, mcpRepository: createPgMcpRepository(userId) };
   }
 
   try {
-    // Get current session - handle case where no session exists (e.g. server startup)
-    let session;
-    try {
-      session = await getSession();
-    } catch (error) {
-      // If we're outside a request context (server startup), return error
-      if (error instanceof Error && error.message.includes("headers")) {
-        throw new Error(
-          "No active user session - repositories can only be accessed within request context",
-        );
-      }
-      throw error;
-    }
-
-    if (!session?.user?.id) {
-      throw new Error("User not authenticated. Please sign in with GitHub.");
-    }
-
-    const userId = session.user.id;
-    const cacheKey = userId;
+    // Unlocking or locking encrypted data must not reuse the other state
+    const encryptionKey = await getSessionEncryptionKey();
+    const cacheKey = `${userId}:${encryptionKey?.id ?? "locked"}`;
 
     // Check if we have cached repositories for this user (within 5 minutes)
     const cached = userRepositoryCache.get(cacheKey);
@@ -77,23 +143,18 @@ async function getUserRepositories() {
       return cached;
     }
 
-    // Get GitHub access token
-    const accessToken = await getGitHubAccessToken(session);
-    if (!accessToken) {
-      throw new Error(
-        "GitHub access token not found. Please re-authenticate with GitHub.",
-      );
-    }
-
-    // Create DiffDB client and repositories
-    const diffdbClient = new DiffDBClient(accessToken);
-    await diffdbClient.initialize(); // Initialize with user info
-
-    const repoName = process.env.DIFFDB_REPOSITORY_NAME || "diffchat-data";
+    const { backend: diffdbClient, repoName } = await openUserDiffDBBackend(
+      session,
+      encryptionKey,
+    );
 
     // Create all repository instances
     const repositories = {
       chatRepository: createDiffDBChatRepository(diffdbClient, repoName),
+      chatHistoryRepository: createDiffDBChatHistoryRepository(
+        diffdbClient,
+        repoName,
+      ),
       archiveRepository: createDiffDBArchiveRepository(diffdbClient, repoName),
       userRepository: createDiffDBUserRepository(diffdbClient, repoName),
       mcpRepository: createDiffDBMcpRepository(diffdbClient, repoName),
@@ -114,11 +175,60 @@ async function getUserRepositories() {
 
     return repositories;
   } catch (error) {
+    if (error instanceof DiffDBLockedError) throw error;
     console.error("Failed to get user repositories:", error);
     throw new Error(
-      `GitHub database access failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+      `DiffDB access failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+    );
+  }
+}
+
+/**
+ * Get the repositories of a user by id, for work outside of their requests
+ * such as background reconnects. DiffDB repositories need the user's
+ * session to open, so they are the ones their last request opened.
+ */
+export async function getRepositoriesForUser(
+  userId: string,
+): Promise<UserRepositories> {
+  if ((await getUserStorageBackendKind(userId)) === "postgres") {
+    return { ...pgRepositories, mcpRepository: createPgMcpRepository(userId) };
+  }
+
+  const [cached] = [...userRepositoryCache.entries()]
+    .filter(([cacheKey]) => cacheKey.startsWith(`${userId}:`))
+    .map(([, repositories]) => repositories)
+    .sort((a, b) => b.lastAccessed - a.lastAccessed);
+  if (!cached) {
+    throw new Error(
+      "No active user session - the user's DiffDB repository is not open",
     );
   }
+  return cached;
+}
+
+/**
+ * Get the current user's DiffDB repository, whichever backend they use,
+ * for work that spans all repositories such as bulk imports
+ */
+export async function getUserStorageBackend(): Promise<{
+  backend: DiffDBStorageBackend;
+  repoName: string;
+}> {
+  const { session } = await getSessionUser();
+  return openUserDiffDBBackend(session, await getSessionEncryptionKey());
+}
+
+/**
+ * Drop the cached repositories of a user, e.g. after their encryption
+ * settings changed
+ */
+export function invalidateUserRepositories(userId: string) {
+  for (const cacheKey of userRepositoryCache.keys()) {
+    if (cacheKey.startsWith(`${userId}:`)) {
+      userRepositoryCache.delete(cacheKey);
+    }
+  }
 }
 
 /**
@@ -147,6 +257,11 @@ export const chatRepository = createRepositoryProxy(async () => {
   return repos.chatRepository;
 });
 
+export const chatHistoryRepository = createRepositoryProxy(async () => {
+  const repos = await getUserRepositories();
+  return repos.chatHistoryRepository;
+});
+
 export const archiveRepository = createRepositoryProxy(async () => {
   const repos = await getUserRepositories();
   return repos.archiveRepository;
@@ -0,0 +1,73 @@
+/**
+ * Storage Backend Selection
+ *
+ * STORAGE_BACKEND decides where a deployment keeps its data: in DiffDB git
+ * repositories (the default) or in Postgres. With STORAGE_BACKEND_SELECTABLE
+ * each user can pick one for themselves. That choice is stored on their
+ * account, which lives in Postgres with either backend.
+ */
+
+import { serverCache } from "lib/cache";
+import { CacheKeys } from "lib/cache/cache-keys";
+import { eq } from "drizzle-orm";
+import { pgDb as db } from "./pg/db.pg";
+import { UserSchema } from "./pg/schema.pg";
+
+export const STORAGE_BACKENDS = ["diffdb", "postgres"] as const;
+
+export type StorageBackendKind = (typeof STORAGE_BACKENDS)[number];
+
+export function getDefaultStorageBackend(): StorageBackendKind {
+  const kind = process.env.STORAGE_BACKEND?.trim().toLowerCase() || "diffdb";
+  if (!STORAGE_BACKENDS.includes(kind as StorageBackendKind)) {
+    throw new Error(
+      `Unknown STORAGE_BACKEND "${kind}". Expected "diffdb" or "postgres".`,
+    );
+  }
+  return kind as StorageBackendKind;
+}
+
+export function isStorageBackendSelectable(): boolean {
+  return process.env.STORAGE_BACKEND_SELECTABLE === "true";
+}
+
+/**
+ * The backend holding a user's data
+ */
+export async function getUserStorageBackendKind(
+  userId: string,
+): Promise<StorageBackendKind> {
+  if (!isStorageBackendSelectable()) return getDefaultStorageBackend();
+
+  // Asked on every repository call, so keep it off the database
+  const key = CacheKeys.storageBackend(userId);
+  const cached = await serverCache.get<StorageBackendKind>(key);
+  if (cached) return cached;
+
+  const [user] = await db
+    .select({ storageBackend: UserSchema.storageBackend })
+    .from(UserSchema)
+    .where(eq(UserSchema.id, userId));
+  const kind = user?.storageBackend ?? getDefaultStorageBackend();
+  await serverCache.set(key, kind, 1000 * 60 * 5);
+  return kind;
+}
+
+/**
+ * Choose a user's backend (null = the deployment's default). Their data is
+ * not moved, see lib/db/transfer for that.
+ */
+export async function setUserStorageBackendKind(
+  userId: string,
+  kind: StorageBackendKind | null,
+): Promise<void> {
+  if (!isStorageBackendSelectable()) {
+    throw new Error("This deployment doesn't allow choosing a storage backend");
+  }
+
+  await db
+    .update(UserSchema)
+    .set({ storageBackend: kind, updatedAt: new Date() })
+    .where(eq(UserSchema.id, userId));
+  await serverCache.delete(CacheKeys.storageBackend(userId));
+}
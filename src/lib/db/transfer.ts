@@ -0,0 +1,234 @@
+/**
+ * User data transfer between storage backends
+ *
+ * Every backend exports a user's data into the same UserDataSnapshot and
+ * imports one again. Ids are kept, so a transfer can be repeated: records
+ * that already exist in the target are skipped instead of duplicated.
+ */
+
+import { createHash } from "node:crypto";
+import type { Agent } from "app-types/agent";
+import type { Archive, ArchiveItem } from "app-types/archive";
+import type { ChatMessage, ChatThread } from "app-types/chat";
+import type {
+  McpServerCustomization,
+  McpServerSelect,
+  McpToolCustomization,
+} from "app-types/mcp";
+import type { DBEdge, DBNode, DBWorkflow } from "app-types/workflow";
+
+export const TRANSFER_ENTITIES = [
+  "mcpServers",
+  "threads",
+  "messages",
+  "agents",
+  "workflows",
+  "mcpServerCustomizations",
+  "mcpToolCustomizations",
+  "archives",
+  "archiveItems",
+] as const;
+
+export type TransferEntity = (typeof TRANSFER_ENTITIES)[number];
+
+export type TransferWorkflow = DBWorkflow & {
+  nodes: DBNode[];
+  edges: DBEdge[];
+};
+
+export type TransferMcpServer = McpServerSelect & {
+  enabled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export interface UserDataSnapshot {
+  userId: string;
+  mcpServers: TransferMcpServer[];
+  threads: ChatThread[];
+  messages: ChatMessage[];
+  agents: Agent[];
+  workflows: TransferWorkflow[];
+  mcpServerCustomizations: McpServerCustomization[];
+  mcpToolCustomizations: McpToolCustomization[];
+  archives: Archive[];
+  archiveItems: ArchiveItem[];
+}
+
+export type TransferReport = Record<
+  TransferEntity,
+  { total: number; imported: number; skipped: number }
+>;
+
+export interface UserDataStore {
+  exportUserData(userId: string): Promise<UserDataSnapshot>;
+  /** With `dryRun` only reports what would be imported */
+  importUserData(
+    snapshot: UserDataSnapshot,
+    options?: { dryRun?: boolean },
+  ): Promise<TransferReport>;
+}
+
+/**
+ * Export a user's data from one store and import it into another
+ */
+export async function transferUserData(options: {
+  from: UserDataStore;
+  to: UserDataStore;
+  userId: string;
+  dryRun?: boolean;
+}): Promise<TransferReport> {
+  const snapshot = await options.from.exportUserData(options.userId);
+  return options.to.importUserData(snapshot, { dryRun: options.dryRun });
+}
+
+/**
+ * Split a snapshot into the records missing from the target (given as the
+ * target's own export) and a report of what is imported and skipped
+ */
+export function planImport(
+  snapshot: UserDataSnapshot,
+  existing: UserDataSnapshot,
+): { pending: UserDataSnapshot; report: TransferReport } {
+  const pending = { userId: snapshot.userId } as UserDataSnapshot;
+  const report = {} as TransferReport;
+
+  for (const entity of TRANSFER_ENTITIES) {
+    const existingIds = new Set(
+      (existing[entity] as { id: string }[]).map((record) => record.id),
+    );
+    const records = snapshot[entity] as { id: string }[];
+    const missing = records.filter((record) => !existingIds.has(record.id));
+    (pending as any)[entity] = missing;
+    report[entity] = {
+      total: records.length,
+      imported: missing.length,
+      skipped: records.length - missing.length,
+    };
+  }
+
+  return { pending, report };
+}
+
+/**
+ * Keeps the records whose parent is in `parentIds`, the parents the import
+ * wrote and the ones the user already owns. A snapshot could otherwise add
+ * messages or items to another user's thread or archive that has the same id.
+ * The dropped records are counted as skipped.
+ */
+export function keepRecordsWithParent<T>(
+  records: T[],
+  parentKey: keyof T,
+  parentIds: Set<string>,
+  count?: TransferReport[TransferEntity],
+): T[] {
+  const kept = records.filter((record) =>
+    parentIds.has(record[parentKey] as string),
+  );
+  if (count) {
+    count.imported -= records.length - kept.length;
+    count.skipped += records.length - kept.length;
+  }
+  return kept;
+}
+
+/**
+ * Ids of the MCP servers that a user's agents, workflows and customizations
+ * refer to, the servers that belong in the user's export
+ */
+export function getReferencedMcpServerIds(
+  snapshot: Pick<
+    UserDataSnapshot,
+    "agents" | "workflows" | "mcpServerCustomizations" | "mcpToolCustomizations"
+  >,
+): string[] {
+  const ids = new Set<string>();
+  const collect = (value: unknown) => {
+    if (Array.isArray(value)) return value.forEach(collect);
+    if (!value || typeof value !== "object" || value instanceof Date) return;
+    for (const [key, item] of Object.entries(value)) {
+      // Agent mentions and workflow tool nodes name the server by serverId
+      if (key === "serverId" && typeof item === "string") ids.add(item);
+      else collect(item);
+    }
+  };
+
+  collect(snapshot.agents.map((agent) => agent.instructions));
+  collect(snapshot.workflows.map((workflow) => workflow.nodes));
+  for (const customization of [
+    ...snapshot.mcpServerCustomizations,
+    ...snapshot.mcpToolCustomizations,
+  ]) {
+    ids.add(customization.mcpServerId);
+  }
+  return [...ids];
+}
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Keep an id that already is a UUID, otherwise derive a stable one from it
+ * so that repeated transfers map it to the same record
+ */
+export function toUuid(id: string): string {
+  if (UUID_PATTERN.test(id)) return id;
+  const hex = createHash("sha256").update(id).digest("hex");
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    `5${hex.slice(13, 16)}`,
+    ((parseInt(hex.slice(16, 18), 16) & 0x3f) | 0x80).toString(16) +
+      hex.slice(18, 20),
+    hex.slice(20, 32),
+  ].join("-");
+}
+
+/**
+ * Replace every record id that isn't a UUID, for stores with UUID keys.
+ * References to a replaced id anywhere in the snapshot (thread ids of
+ * messages, workflow mentions in agent instructions, ...) follow along.
+ */
+export function withUuidIds(snapshot: UserDataSnapshot): UserDataSnapshot {
+  const replaced = new Map<string, string>();
+  const collect = (records: { id: string }[]) => {
+    for (const { id } of records) {
+      const uuid = toUuid(id);
+      if (uuid !== id) replaced.set(id, uuid);
+    }
+  };
+
+  for (const entity of TRANSFER_ENTITIES) {
+    // Message ids are free-form text in every store
+    if (entity !== "messages") collect(snapshot[entity] as { id: string }[]);
+  }
+  for (const workflow of snapshot.workflows) {
+    collect(workflow.nodes);
+    collect(workflow.edges);
+  }
+  if (!replaced.size) return snapshot;
+
+  const replace = (value: unknown): unknown => {
+    if (typeof value === "string") return replaced.get(value) ?? value;
+    if (value instanceof Date) return value;
+    if (Array.isArray(value)) return value.map(replace);
+    if (value && typeof value === "object") {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, replace(item)]),
+      );
+    }
+    return value;
+  };
+  return replace(snapshot) as UserDataSnapshot;
+}
+
+export function formatTransferReport(
+  report: TransferReport,
+  dryRun?: boolean,
+): string {
+  const lines = TRANSFER_ENTITIES.map((entity) => {
+    const { total, imported, skipped } = report[entity];
+    return `  ${entity.padEnd(24)} ${String(total).padStart(6)} total  ${String(imported).padStart(6)} ${dryRun ? "to import" : "imported"}  ${String(skipped).padStart(6)} skipped`;
+  });
+  return lines.join("\n");
+}
@@ -9,12 +9,66 @@
 "use server";
 
 import { getSession } from "@/lib/auth/server";
-import { validateGitHubAuth } from "@/lib/auth/github-helper";
+import {
+  getGitHubAccessToken,
+  validateGitHubAuth,
+} from "@/lib/auth/github-helper";
 import {
   initializeDiffDB,
   isDiffDBEnabled,
   getDiffDBState,
 } from "@/lib/diffdb";
+import {
+  createDiffDBStorageBackend,
+  getDiffDBBackendKind,
+} from "@/lib/diffdb/storage-backend";
+import { rebuildChatIndex } from "@/lib/diffdb/chat-index";
+import {
+  readEncryptionMetadata,
+  reencryptRepository,
+} from "@/lib/diffdb/encrypted-backend";
+import { fromBase64, importEncryptionKey } from "@/lib/diffdb/encryption";
+import {
+  clearSessionEncryptionKey,
+  getSessionEncryptionKey,
+  setSessionEncryptionKey,
+} from "@/lib/diffdb/encryption-session";
+import { invalidateUserRepositories } from "@/lib/db/repository";
+import { getUserStorageBackendKind } from "@/lib/db/storage";
+import { z } from "zod";
+
+/**
+ * Prepare the current user's repository on the local git backend,
+ * which needs no GitHub account
+ */
+async function setupLocalRepository(userId: string) {
+  const repoName = process.env.DIFFDB_REPOSITORY_NAME || "diffchat-data";
+  const backend = await createDiffDBStorageBackend({ userId, repoName });
+  const schema = await backend.readFile(repoName, "schema.json");
+  return { repoName, structureValid: !!schema };
+}
+
+/**
+ * Open the current user's repository without decrypting anything
+ */
+async function openRawRepository() {
+  const session = await getSession();
+  if (!session?.user) {
+    throw new Error("User not authenticated");
+  }
+
+  const repoName = process.env.DIFFDB_REPOSITORY_NAME || "diffchat-data";
+  const accessToken =
+    getDiffDBBackendKind() === "github"
+      ? await getGitHubAccessToken(session)
+      : null;
+  const backend = await createDiffDBStorageBackend({
+    userId: session.user.id,
+    repoName,
+    accessToken,
+  });
+  return { userId: session.user.id, repoName, backend };
+}
 
 /**
  * Initialize DiffDB for the current authenticated user
@@ -38,6 +92,18 @@ export async function initializeDiffDBAction() {
       };
     }
 
+    if (getDiffDBBackendKind() === "local") {
+      const { repoName } = await setupLocalRepository(session.user.id);
+      return {
+        success: true,
+        data: {
+          user: null,
+          repository: { name: repoName, html_url: undefined },
+          isNewRepository: false,
+        },
+      };
+    }
+
     // Use the helper to get GitHub access token
     const githubAuth = await validateGitHubAuth(session);
 
@@ -175,6 +241,38 @@ export async function validateGitHubRepoAction() {
       };
     }
 
+    // Users storing their data in Postgres have no repository to set up
+    if ((await getUserStorageBackendKind(session.user.id)) === "postgres") {
+      return {
+        success: true,
+        data: {
+          repositoryExists: true,
+          structureValid: true,
+          repositoryName: null,
+        },
+      };
+    }
+
+    if (getDiffDBBackendKind() === "local") {
+      const { repoName, structureValid } = await setupLocalRepository(
+        session.user.id,
+      );
+      if (!structureValid) {
+        return {
+          success: false,
+          error: "Repository structure incomplete",
+        };
+      }
+      return {
+        success: true,
+        data: {
+          repositoryExists: true,
+          structureValid: true,
+          repositoryName: repoName,
+        },
+      };
+    }
+
     // Use the helper to get GitHub access token
     const githubAuth = await validateGitHubAuth(session);
 
@@ -233,3 +331,150 @@ export async function validateGitHubRepoAction() {
     };
   }
 }
+
+/**
+ * Rebuild the chat index of the current user's repository
+ */
+export async function rebuildChatIndexAction() {
+  try {
+    const session = await getSession();
+    if (!session?.user) {
+      return {
+        success: false,
+        error: "User not authenticated",
+      };
+    }
+
+    const repoName = process.env.DIFFDB_REPOSITORY_NAME || "diffchat-data";
+    const accessToken =
+      getDiffDBBackendKind() === "github"
+        ? await getGitHubAccessToken(session)
+        : null;
+    const backend = await createDiffDBStorageBackend({
+      userId: session.user.id,
+      repoName,
+      accessToken,
+    });
+
+    return {
+      success: true,
+      data: await rebuildChatIndex(backend, repoName),
+    };
+  } catch (error: any) {
+    console.error("Chat index rebuild failed:", error);
+    return {
+      success: false,
+      error: error.message || "Failed to rebuild chat index",
+    };
+  }
+}
+
+/**
+ * Get the encryption state of the current user's repository, including
+ * the KDF parameters the browser needs to derive the key
+ */
+export async function getDiffDBEncryptionStatusAction() {
+  try {
+    const { repoName, backend } = await openRawRepository();
+    const stored = await readEncryptionMetadata(backend, repoName);
+    const sessionKey = await getSessionEncryptionKey();
+
+    return {
+      success: true,
+      data: {
+        enabled: !!stored,
+        unlocked: !!stored && sessionKey?.id === stored.metadata.keyId,
+        salt: stored?.metadata.kdf.salt ?? null,
+        iterations: stored?.metadata.kdf.iterations ?? null,
+      },
+    };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error.message || "Failed to get encryption status",
+    };
+  }
+}
+
+const EnableEncryptionSchema = z.object({
+  key: z.string().min(1),
+  salt: z.string().min(1),
+  iterations: z.number().int().positive(),
+});
+
+/**
+ * Encrypt the current user's repository with a key derived in the browser
+ * and unlock it for this session
+ */
+export async function enableDiffDBEncryptionAction(
+  input: z.infer<typeof EnableEncryptionSchema>,
+) {
+  try {
+    const { key, salt, iterations } = EnableEncryptionSchema.parse(input);
+    const { userId, repoName, backend } = await openRawRepository();
+
+    const encryptionKey = await importEncryptionKey(fromBase64(key));
+    const result = await reencryptRepository(backend, repoName, {
+      from: null,
+      to: { key: encryptionKey, salt, iterations },
+    });
+
+    await setSessionEncryptionKey(key);
+    invalidateUserRepositories(userId);
+
+    return { success: true, data: result };
+  } catch (error: any) {
+    console.error("Enabling DiffDB encryption failed:", error);
+    return {
+      success: false,
+      error: error.message || "Failed to enable encryption",
+    };
+  }
+}
+
+/**
+ * Unlock the current user's encrypted repository for this session
+ */
+export async function unlockDiffDBEncryptionAction(key: string) {
+  try {
+    const { userId, repoName, backend } = await openRawRepository();
+    const stored = await readEncryptionMetadata(backend, repoName);
+    if (!stored) {
+      return { success: false, error: "Encryption is not enabled" };
+    }
+
+    const encryptionKey = await importEncryptionKey(fromBase64(key));
+    if (encryptionKey.id !== stored.metadata.keyId) {
+      return { success: false, error: "Wrong passphrase" };
+    }
+
+    await setSessionEncryptionKey(key);
+    invalidateUserRepositories(userId);
+
+    return { success: true, data: { unlocked: true } };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error.message || "Failed to unlock encryption",
+    };
+  }
+}
+
+/**
+ * Forget the encryption key of this session
+ */
+export async function lockDiffDBEncryptionAction() {
+  try {
+    const session = await getSession();
+    await clearSessionEncryptionKey();
+    if (session?.user) {
+      invalidateUserRepositories(session.user.id);
+    }
+    return { success: true, data: { unlocked: false } };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error.message || "Failed to lock encryption",
+    };
+  }
+}
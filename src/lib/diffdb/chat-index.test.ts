@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import {
+  ChatIndex,
+  MESSAGES_INDEX_PATH,
+  THREADS_INDEX_PATH,
+  indexMessages,
+  indexThread,
+  loadChatIndex,
+  removeMessages,
+  removeThreads,
+} from "./chat-index";
+import { LocalGitStorageBackend } from "./local-git-backend";
+import { DiffDBChatRepository } from "./repositories/chat-repository.diffdb";
+
+const REPO = "diffchat-data";
+
+describe("chat index updates", () => {
+  let index: ChatIndex;
+
+  beforeEach(() => {
+    index = { threads: {}, messages: {} };
+    indexThread(index, {
+      id: "t1",
+      title: "Thread",
+      userId: "u1",
+      createdAt: 1000,
+    });
+  });
+
+  it("should track the last message time of a thread", () => {
+    expect(index.threads.t1.lastMessageAt).toBe(1000);
+
+    indexMessages(index, [
+      { id: "m1", threadId: "t1", createdAt: 2000 },
+      { id: "m2", threadId: "t1", createdAt: 3000 },
+    ]);
+    expect(index.threads.t1.lastMessageAt).toBe(3000);
+
+    removeMessages(index, ["m2"]);
+    expect(index.threads.t1.lastMessageAt).toBe(2000);
+
+    removeMessages(index, ["m1"]);
+    expect(index.threads.t1.lastMessageAt).toBe(1000);
+  });
+
+  it("should keep the last message time when a thread is renamed", () => {
+    indexMessages(index, [{ id: "m1", threadId: "t1", createdAt: 2000 }]);
+    indexThread(index, {
+      id: "t1",
+      title: "Renamed",
+      userId: "u1",
+      createdAt: new Date(1000).toISOString(),
+    });
+
+    expect(index.threads.t1).toMatchObject({
+      title: "Renamed",
+      lastMessageAt: 2000,
+    });
+  });
+
+  it("should drop the messages of removed threads", () => {
+    indexMessages(index, [
+      { id: "m1", threadId: "t1", createdAt: 2000 },
+      { id: "m2", threadId: "t2", createdAt: 2000 },
+    ]);
+    removeThreads(index, ["t1"]);
+
+    expect(index.threads).toEqual({});
+    expect(Object.keys(index.messages)).toEqual(["m2"]);
+  });
+});
+
+describe("DiffDBChatRepository with the chat index", () => {
+  let baseDir: string;
+  let backend: LocalGitStorageBackend;
+  let repository: DiffDBChatRepository;
+
+  const message = (id: string, threadId: string) => ({
+    id,
+    threadId,
+    role: "user" as const,
+    parts: [{ type: "text" as const, text: id }],
+    model: null,
+  });
+
+  beforeEach(async () => {
+    baseDir = await mkdtemp(path.join(os.tmpdir(), "diffdb-index-"));
+    backend = new LocalGitStorageBackend(baseDir);
+    await backend.ensureRepository(REPO);
+    repository = new DiffDBChatRepository(backend, REPO);
+
+    await repository.insertThread({ id: "t1", title: "One", userId: "u1" });
+    await repository.insertThread({ id: "t2", title: "Two", userId: "u2" });
+    await repository.insertMessages([
+      { ...message("m1", "t1"), createdAt: new Date(5000) },
+      { ...message("m2", "t1"), createdAt: new Date(6000) },
+      { ...message("m3", "t1"), createdAt: new Date(7000) },
+    ]);
+  });
+
+  afterEach(async () => {
+    await rm(baseDir, { recursive: true, force: true });
+  });
+
+  it("should list threads of a user from the index", async () => {
+    const threads = await repository.selectThreadsByUserId("u1");
+
+    expect(threads).toHaveLength(1);
+    expect(threads[0]).toMatchObject({ id: "t1", lastMessageAt: 7000 });
+  });
+
+  it("should find and delete messages through the index", async () => {
+    await repository.deleteMessagesByChatIdAfterTimestamp("m2");
+
+    const messages = await repository.selectMessagesByThreadId("t1");
+    expect(messages.map((m) => m.id)).toEqual(["m1"]);
+
+    await repository.deleteChatMessage("m1");
+    expect(await repository.selectMessagesByThreadId("t1")).toEqual([]);
+
+    const { index } = await loadChatIndex(backend, REPO);
+    expect(index.messages).toEqual({});
+    expect(index.threads.t1.lastMessageAt).toBe(index.threads.t1.createdAt);
+  });
+
+  it("should remove a deleted thread from the index", async () => {
+    await repository.deleteThread("t1");
+
+    const { index } = await loadChatIndex(backend, REPO);
+    expect(Object.keys(index.threads)).toEqual(["t2"]);
+    expect(index.messages).toEqual({});
+  });
+
+  it("should rebuild a missing or corrupt index from the stored files", async () => {
+    await backend.commitChanges(REPO, {
+      writes: [{ path: THREADS_INDEX_PATH, content: "{ not json" }],
+      deletes: [MESSAGES_INDEX_PATH],
+      message: "Break the index",
+    });
+
+    const loaded = await loadChatIndex(backend, REPO);
+    expect(loaded.rebuilt).toBe(true);
+    expect(Object.keys(loaded.index.messages).sort()).toEqual([
+      "m1",
+      "m2",
+      "m3",
+    ]);
+
+    // The next write stores the rebuilt index again
+    await repository.upsertMessage(message("m4", "t2"));
+    const reloaded = await loadChatIndex(backend, REPO);
+    expect(reloaded.rebuilt).toBe(false);
+    expect(Object.keys(reloaded.index.messages)).toHaveLength(4);
+  });
+});
@@ -0,0 +1,326 @@
+/**
+ * DiffDB Chat Index
+ *
+ * Index documents that let chat queries skip scanning the repository.
+ * `_metadata/threads.index.json` lists every thread with its last message
+ * time, `_metadata/messages.index.json` maps every message to its thread.
+ * Branch threads carry their parent so thread lists can hide them.
+ * The chat repository rewrites them in the same commit as the files they
+ * describe; a missing or corrupt index is rebuilt from a full scan.
+ */
+
+import { z } from "zod";
+import type { DiffDBChangeSet, DiffDBFileWrite } from "./client";
+import type { DiffDBStorageBackend } from "./storage-backend";
+
+export const THREADS_INDEX_PATH = "_metadata/threads.index.json";
+export const MESSAGES_INDEX_PATH = "_metadata/messages.index.json";
+
+const INDEX_VERSION = 1;
+
+const ThreadIndexEntrySchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  userId: z.string(),
+  createdAt: z.number(),
+  lastMessageAt: z.number(),
+  parentThreadId: z.string().optional(),
+});
+
+const MessageIndexEntrySchema = z.object({
+  threadId: z.string(),
+  createdAt: z.number(),
+});
+
+const ThreadsIndexSchema = z.object({
+  version: z.literal(INDEX_VERSION),
+  threads: z.record(z.string(), ThreadIndexEntrySchema),
+});
+
+const MessagesIndexSchema = z.object({
+  version: z.literal(INDEX_VERSION),
+  messages: z.record(z.string(), MessageIndexEntrySchema),
+});
+
+export type ThreadIndexEntry = z.infer<typeof ThreadIndexEntrySchema>;
+export type MessageIndexEntry = z.infer<typeof MessageIndexEntrySchema>;
+
+export interface ChatIndex {
+  threads: Record<string, ThreadIndexEntry>;
+  messages: Record<string, MessageIndexEntry>;
+}
+
+export interface LoadedChatIndex {
+  index: ChatIndex;
+  /** Blob shas of the stored index files, to guard the next commit */
+  shas: Record<string, string | null>;
+  /** The stored index was missing or corrupt and was rebuilt by a scan */
+  rebuilt: boolean;
+}
+
+function toTime(value: Date | string | number): number {
+  return value instanceof Date ? value.getTime() : new Date(value).getTime();
+}
+
+function parseIndex<T>(
+  content: string | undefined,
+  schema: z.ZodType<T>,
+): T | null {
+  if (!content) return null;
+  try {
+    const result = schema.safeParse(JSON.parse(content));
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read the stored chat index, rebuilding it in memory when it can't be used
+ */
+export async function loadChatIndex(
+  client: DiffDBStorageBackend,
+  repoName: string,
+): Promise<LoadedChatIndex> {
+  const [threadsFile, messagesFile] = await Promise.all([
+    client.readFile(repoName, THREADS_INDEX_PATH),
+    client.readFile(repoName, MESSAGES_INDEX_PATH),
+  ]);
+  const shas = {
+    [THREADS_INDEX_PATH]: threadsFile?.sha ?? null,
+    [MESSAGES_INDEX_PATH]: messagesFile?.sha ?? null,
+  };
+
+  const threadsIndex = parseIndex(threadsFile?.content, ThreadsIndexSchema);
+  const messagesIndex = parseIndex(messagesFile?.content, MessagesIndexSchema);
+  if (threadsIndex && messagesIndex) {
+    return {
+      index: {
+        threads: threadsIndex.threads,
+        messages: messagesIndex.messages,
+      },
+      shas,
+      rebuilt: false,
+    };
+  }
+
+  console.warn(
+    `DiffDB: Chat index in ${repoName} is missing or corrupt, rebuilding it`,
+  );
+  return { index: await scanChatIndex(client, repoName), shas, rebuilt: true };
+}
+
+/**
+ * Build the chat index by reading every thread and message file
+ */
+export async function scanChatIndex(
+  client: DiffDBStorageBackend,
+  repoName: string,
+): Promise<ChatIndex> {
+  const index: ChatIndex = { threads: {}, messages: {} };
+
+  const threadFiles = await client.listDirectory(repoName, "threads");
+  for (const threadFile of threadFiles) {
+    if (threadFile.type !== "file" || !threadFile.name.endsWith(".json")) {
+      continue;
+    }
+    try {
+      const threadContent = await client.readFile(repoName, threadFile.path);
+      if (threadContent) {
+        indexThread(index, JSON.parse(threadContent.content));
+      }
+    } catch (error) {
+      console.error(`DiffDB: Failed to index ${threadFile.path}:`, error);
+    }
+  }
+
+  const messageDirs = await client.listDirectory(repoName, "messages");
+  for (const messageDir of messageDirs) {
+    if (messageDir.type !== "dir") continue;
+
+    const messageFiles = await client.listDirectory(repoName, messageDir.path);
+    const messages: MessageIndexInput[] = [];
+    for (const messageFile of messageFiles) {
+      if (messageFile.type !== "file" || !messageFile.name.endsWith(".json")) {
+        continue;
+      }
+      try {
+        const messageContent = await client.readFile(
+          repoName,
+          messageFile.path,
+        );
+        if (messageContent) {
+          messages.push(JSON.parse(messageContent.content));
+        }
+      } catch (error) {
+        console.error(`DiffDB: Failed to index ${messageFile.path}:`, error);
+      }
+    }
+    indexMessages(index, messages);
+  }
+
+  return index;
+}
+
+/**
+ * Scan the repository and commit a fresh chat index
+ */
+export async function rebuildChatIndex(
+  client: DiffDBStorageBackend,
+  repoName: string,
+): Promise<{ threads: number; messages: number }> {
+  const index = await scanChatIndex(client, repoName);
+
+  await client.commitChanges(repoName, {
+    writes: serializeChatIndex(index),
+    message: "Rebuild chat index",
+  });
+
+  return {
+    threads: Object.keys(index.threads).length,
+    messages: Object.keys(index.messages).length,
+  };
+}
+
+/**
+ * Commit changes together with the chat index updates they imply, so the
+ * index never disagrees with the files it describes. A stale index makes
+ * the commit fail with a conflict.
+ */
+export async function commitWithChatIndex(
+  client: DiffDBStorageBackend,
+  repoName: string,
+  changes: DiffDBChangeSet,
+  updateIndex: (index: ChatIndex) => void,
+) {
+  if (!changes.writes?.length && !changes.deletes?.length) {
+    return null;
+  }
+
+  const { index, shas } = await loadChatIndex(client, repoName);
+  updateIndex(index);
+
+  return client.commitChanges(repoName, {
+    ...changes,
+    writes: [...(changes.writes ?? []), ...serializeChatIndex(index)],
+    expectedShas: { ...changes.expectedShas, ...shas },
+  });
+}
+
+export function serializeChatIndex(index: ChatIndex): DiffDBFileWrite[] {
+  return [
+    {
+      path: THREADS_INDEX_PATH,
+      content: JSON.stringify(
+        { version: INDEX_VERSION, threads: index.threads },
+        null,
+        2,
+      ),
+    },
+    {
+      path: MESSAGES_INDEX_PATH,
+      content: JSON.stringify(
+        { version: INDEX_VERSION, messages: index.messages },
+        null,
+        2,
+      ),
+    },
+  ];
+}
+
+type ThreadIndexInput = {
+  id: string;
+  title?: string | null;
+  userId: string;
+  createdAt: Date | string | number;
+  parentThreadId?: string | null;
+};
+
+type MessageIndexInput = {
+  id: string;
+  threadId: string;
+  createdAt: Date | string | number;
+};
+
+export function indexThread(index: ChatIndex, thread: ThreadIndexInput) {
+  const createdAt = toTime(thread.createdAt);
+  index.threads[thread.id] = {
+    id: thread.id,
+    title: thread.title ?? "",
+    userId: thread.userId,
+    createdAt,
+    lastMessageAt: createdAt,
+    ...(thread.parentThreadId ? { parentThreadId: thread.parentThreadId } : {}),
+  };
+  refreshLastMessageAt(index, [thread.id]);
+}
+
+export function indexMessages(index: ChatIndex, messages: MessageIndexInput[]) {
+  for (const message of messages) {
+    index.messages[message.id] = {
+      threadId: message.threadId,
+      createdAt: toTime(message.createdAt),
+    };
+  }
+  refreshLastMessageAt(
+    index,
+    messages.map((message) => message.threadId),
+  );
+}
+
+export function removeMessages(index: ChatIndex, messageIds: string[]) {
+  const threadIds = messageIds
+    .map((id) => index.messages[id]?.threadId)
+    .filter((threadId): threadId is string => !!threadId);
+  for (const id of messageIds) {
+    delete index.messages[id];
+  }
+  refreshLastMessageAt(index, threadIds);
+}
+
+export function removeThreads(index: ChatIndex, threadIds: string[]) {
+  const removed = new Set(threadIds);
+  for (const [id, message] of Object.entries(index.messages)) {
+    if (removed.has(message.threadId)) {
+      delete index.messages[id];
+    }
+  }
+  for (const threadId of threadIds) {
+    delete index.threads[threadId];
+  }
+}
+
+/**
+ * Get the ids of the indexed messages of a thread, oldest first
+ */
+export function getIndexedMessageIds(
+  index: ChatIndex,
+  threadId: string,
+): string[] {
+  return Object.entries(index.messages)
+    .filter(([, message]) => message.threadId === threadId)
+    .sort(([, a], [, b]) => a.createdAt - b.createdAt)
+    .map(([id]) => id);
+}
+
+/**
+ * A thread without messages sorts by its creation time
+ */
+function refreshLastMessageAt(index: ChatIndex, threadIds: string[]) {
+  const threads = new Set(threadIds.filter((id) => index.threads[id]));
+  if (threads.size === 0) return;
+
+  const lastMessageAt = new Map<string, number>();
+  for (const message of Object.values(index.messages)) {
+    if (!threads.has(message.threadId)) continue;
+    lastMessageAt.set(
+      message.threadId,
+      Math.max(lastMessageAt.get(message.threadId) ?? 0, message.createdAt),
+    );
+  }
+
+  for (const threadId of threads) {
+    const thread = index.threads[threadId];
+    thread.lastMessageAt = lastMessageAt.get(threadId) ?? thread.createdAt;
+  }
+}
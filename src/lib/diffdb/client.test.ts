@@ -0,0 +1,238 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const octokit = {
+  users: {
+    getAuthenticated: vi.fn(),
+  },
+  repos: {
+    get: vi.fn(),
+    getContent: vi.fn(),
+    createOrUpdateFileContents: vi.fn(),
+  },
+  git: {
+    getRef: vi.fn(),
+    getCommit: vi.fn(),
+    createBlob: vi.fn(),
+    createTree: vi.fn(),
+    createCommit: vi.fn(),
+    updateRef: vi.fn(),
+  },
+};
+
+vi.mock("@octokit/rest", () => ({
+  Octokit: vi.fn(() => octokit),
+}));
+
+const { DiffDBClient } = await import("./client");
+const { DiffDBConflictError } = await import("lib/errors");
+
+describe("DiffDBClient.commitChanges", () => {
+  let client: InstanceType<typeof DiffDBClient>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    octokit.users.getAuthenticated.mockResolvedValue({
+      data: {
+        id: 1,
+        login: "octocat",
+        name: null,
+        email: null,
+        avatar_url: "",
+        html_url: "",
+      },
+    });
+    octokit.repos.get.mockResolvedValue({ data: { default_branch: "main" } });
+    octokit.git.getRef.mockResolvedValue({
+      data: { object: { sha: "parent-sha" } },
+    });
+    octokit.git.getCommit.mockResolvedValue({
+      data: { tree: { sha: "base-tree-sha" } },
+    });
+    octokit.git.createBlob.mockImplementation(async ({ content }) => ({
+      data: { sha: `blob-${content}` },
+    }));
+    octokit.git.createTree.mockResolvedValue({ data: { sha: "tree-sha" } });
+    octokit.git.createCommit.mockImplementation(async ({ message }) => ({
+      data: { sha: "commit-sha", message },
+    }));
+    octokit.git.updateRef.mockResolvedValue({ data: {} });
+    client = new DiffDBClient("token");
+  });
+
+  it("should create a single commit for multiple writes and deletes", async () => {
+    const result = await client.commitChanges("repo", {
+      writes: [
+        { path: "messages/thread-1/message-a.json", content: "a" },
+        { path: "messages/thread-1/message-b.json", content: "b" },
+      ],
+      deletes: ["messages/thread-1/message-c.json"],
+      message: "Add 2 messages",
+    });
+
+    expect(octokit.git.createBlob).toHaveBeenCalledTimes(2);
+    expect(octokit.git.createTree).toHaveBeenCalledOnce();
+    expect(octokit.git.createTree).toHaveBeenCalledWith(
+      expect.objectContaining({
+        base_tree: "base-tree-sha",
+        tree: [
+          expect.objectContaining({
+            path: "messages/thread-1/message-a.json",
+            sha: `blob-${Buffer.from("a").toString("base64")}`,
+          }),
+          expect.objectContaining({
+            path: "messages/thread-1/message-b.json",
+            sha: `blob-${Buffer.from("b").toString("base64")}`,
+          }),
+          expect.objectContaining({
+            path: "messages/thread-1/message-c.json",
+            sha: null,
+          }),
+        ],
+      }),
+    );
+    expect(octokit.git.createCommit).toHaveBeenCalledWith(
+      expect.objectContaining({
+        tree: "tree-sha",
+        parents: ["parent-sha"],
+        message: "Add 2 messages",
+      }),
+    );
+    expect(octokit.git.updateRef).toHaveBeenCalledWith(
+      expect.objectContaining({ ref: "heads/main", sha: "commit-sha" }),
+    );
+    expect(result).toEqual({
+      sha: "commit-sha",
+      message: "Add 2 messages",
+      paths: [
+        "messages/thread-1/message-a.json",
+        "messages/thread-1/message-b.json",
+        "messages/thread-1/message-c.json",
+      ],
+    });
+  });
+
+  it("should not delete a path that is also written", async () => {
+    await client.commitChanges("repo", {
+      writes: [{ path: "threads/thread-1.json", content: "{}" }],
+      deletes: ["threads/thread-1.json"],
+      message: "Rewrite thread",
+    });
+
+    const { tree } = octokit.git.createTree.mock.calls[0][0];
+    expect(tree).toHaveLength(1);
+    expect(tree[0].sha).not.toBeNull();
+  });
+
+  it("should skip the commit when there are no changes", async () => {
+    const result = await client.commitChanges("repo", {
+      writes: [],
+      deletes: [],
+      message: "Nothing",
+    });
+
+    expect(result).toBeNull();
+    expect(octokit.git.getRef).not.toHaveBeenCalled();
+    expect(octokit.git.createCommit).not.toHaveBeenCalled();
+  });
+
+  it("should cache the default branch between commits", async () => {
+    octokit.repos.get.mockResolvedValue({
+      data: { default_branch: "trunk" },
+    });
+
+    await client.commitChanges("repo", {
+      writes: [{ path: "a.json", content: "1" }],
+      message: "First",
+    });
+    await client.commitChanges("repo", {
+      writes: [{ path: "b.json", content: "2" }],
+      message: "Second",
+    });
+
+    expect(octokit.repos.get).toHaveBeenCalledOnce();
+    expect(octokit.git.updateRef).toHaveBeenLastCalledWith(
+      expect.objectContaining({ ref: "heads/trunk" }),
+    );
+  });
+
+  it("should reject the commit when an expected sha is stale", async () => {
+    octokit.repos.getContent.mockResolvedValue({ data: { sha: "newer" } });
+
+    await expect(
+      client.commitChanges("repo", {
+        writes: [{ path: "threads/thread-1.json", content: "{}" }],
+        message: "Update thread",
+        expectedShas: { "threads/thread-1.json": "older" },
+      }),
+    ).rejects.toBeInstanceOf(DiffDBConflictError);
+    expect(octokit.git.createCommit).not.toHaveBeenCalled();
+  });
+
+  it("should treat a missing file as matching a null expected sha", async () => {
+    octokit.repos.getContent.mockRejectedValue({ status: 404 });
+
+    await expect(
+      client.commitChanges("repo", {
+        writes: [{ path: "threads/thread-1.json", content: "{}" }],
+        message: "Create thread",
+        expectedShas: { "threads/thread-1.json": null },
+      }),
+    ).resolves.toMatchObject({ sha: "commit-sha" });
+  });
+
+  it("should re-apply the commit on a moved head", async () => {
+    octokit.git.getRef
+      .mockResolvedValueOnce({ data: { object: { sha: "old-head" } } })
+      .mockResolvedValueOnce({ data: { object: { sha: "new-head" } } });
+    octokit.git.updateRef.mockRejectedValueOnce({
+      status: 422,
+      message: "Update is not a fast forward",
+    });
+
+    await client.commitChanges("repo", {
+      writes: [{ path: "a.json", content: "1" }],
+      message: "Write a",
+    });
+
+    expect(octokit.git.createBlob).toHaveBeenCalledOnce();
+    expect(octokit.git.createCommit).toHaveBeenCalledTimes(2);
+    expect(octokit.git.createCommit).toHaveBeenLastCalledWith(
+      expect.objectContaining({ parents: ["new-head"] }),
+    );
+  });
+
+  it("should give up with a conflict when the head keeps moving", async () => {
+    octokit.git.updateRef.mockRejectedValue({ status: 422 });
+
+    await expect(
+      client.commitChanges("repo", {
+        writes: [{ path: "a.json", content: "1" }],
+        message: "Write a",
+      }),
+    ).rejects.toBeInstanceOf(DiffDBConflictError);
+  });
+});
+
+describe("DiffDBClient.writeFile", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    octokit.users.getAuthenticated.mockResolvedValue({
+      data: { id: 1, login: "octocat" },
+    });
+  });
+
+  it("should surface a stale sha as a conflict", async () => {
+    octokit.repos.createOrUpdateFileContents.mockRejectedValue({
+      status: 409,
+      message: "threads/thread-1.json does not match sha",
+    });
+    const client = new DiffDBClient("token");
+
+    await expect(
+      client.writeFile("repo", "threads/thread-1.json", "{}", "msg", "stale"),
+    ).rejects.toMatchObject({
+      name: "DiffDBConflictError",
+      paths: ["threads/thread-1.json"],
+    });
+  });
+});
@@ -7,6 +7,18 @@
  */
 
 import { Octokit } from "@octokit/rest";
+import { DiffDBConflictError } from "lib/errors";
+import type {
+  DiffDBDirectoryEntry,
+  DiffDBStorageBackend,
+} from "./storage-backend";
+import { createSchemaFile, createStructureFiles } from "./structure";
+
+/**
+ * How often a batched commit is re-applied on top of a moved branch head
+ * before giving up with a conflict
+ */
+const MAX_REF_UPDATE_ATTEMPTS = 3;
 
 export interface GitHubUserInfo {
   id: number;
@@ -43,12 +55,43 @@ export interface DiffDBCommitResult {
   size: number;
 }
 
+export interface DiffDBFileWrite {
+  path: string;
+  content: string;
+}
+
+export interface DiffDBChangeSet {
+  writes?: DiffDBFileWrite[];
+  deletes?: string[];
+  message: string;
+  /**
+   * Blob shas the caller based its changes on, keyed by path.
+   * `null` means the path must not exist yet. If any path no longer
+   * matches, the commit is rejected with a DiffDBConflictError.
+   */
+  expectedShas?: Record<string, string | null>;
+}
+
+export interface DiffDBBatchCommitResult {
+  sha: string;
+  message: string;
+  paths: string[];
+}
+
+export interface DiffDBCommitInfo {
+  sha: string;
+  message: string;
+  author: string | null;
+  date: string;
+}
+
 /**
- * Core GitHub API client for DiffDB operations
+ * Core GitHub API client for DiffDB operations (the "github" storage backend)
  */
-export class DiffDBClient {
+export class DiffDBClient implements DiffDBStorageBackend {
   private octokit: Octokit;
   private username: string | null = null;
+  private defaultBranches = new Map<string, string>();
 
   constructor(accessToken: string) {
     this.octokit = new Octokit({
@@ -179,11 +222,12 @@ export class DiffDBClient {
   }
 
   /**
-   * Read file content from repository
+   * Read file content from repository, optionally as of a commit
    */
   async readFile(
     repoName: string,
     filePath: string,
+    ref?: string,
   ): Promise<GitHubFileInfo | null> {
     if (!this.username) {
       await this.initialize();
@@ -194,6 +238,7 @@ export class DiffDBClient {
         owner: this.username!,
         repo: repoName,
         path: filePath,
+        ...(ref ? { ref } : {}),
       })) as { data: any };
 
       if (data.type !== "file") {
@@ -258,7 +303,14 @@ export class DiffDBClient {
         path: data.content?.path || filePath,
         size: data.content?.size || 0,
       };
-    } catch (error) {
+    } catch (error: any) {
+      // 409: the sha we sent is stale, 422: the file appeared since we read it
+      if (
+        error.status === 409 ||
+        (error.status === 422 && /sha/i.test(error.message ?? ""))
+      ) {
+        throw new DiffDBConflictError([filePath]);
+      }
       throw new Error(`Failed to write file ${filePath}: ${error}`);
     }
   }
@@ -297,20 +349,205 @@ export class DiffDBClient {
   }
 
   /**
-   * List directory contents
+   * Commit multiple file writes and deletes as a single commit
+   *
+   * Uses the Git Data API (blobs -> tree -> commit -> ref update) so that
+   * one logical operation produces exactly one commit, regardless of how
+   * many files it touches. The repository must already have a commit.
+   *
+   * If the branch moves while committing, the changes are re-applied on the
+   * new head as long as every path in `expectedShas` is still unchanged.
+   */
+  async commitChanges(
+    repoName: string,
+    changes: DiffDBChangeSet,
+  ): Promise<DiffDBBatchCommitResult | null> {
+    if (!this.username) {
+      await this.initialize();
+    }
+
+    const writes = changes.writes ?? [];
+    const writtenPaths = new Set(writes.map((write) => write.path));
+    const deletes = (changes.deletes ?? []).filter(
+      (path) => !writtenPaths.has(path),
+    );
+
+    if (writes.length === 0 && deletes.length === 0) {
+      return null;
+    }
+
+    try {
+      const owner = this.username!;
+      const branch = await this.getDefaultBranch(repoName);
+
+      // Blobs are content-addressed, so they survive a retry unchanged
+      const blobEntries = await Promise.all(
+        writes.map(async (write) => {
+          const { data: blob } = await this.octokit.git.createBlob({
+            owner,
+            repo: repoName,
+            content: Buffer.from(write.content, "utf8").toString("base64"),
+            encoding: "base64",
+          });
+          return {
+            path: write.path,
+            mode: "100644" as const,
+            type: "blob" as const,
+            sha: blob.sha,
+          };
+        }),
+      );
+
+      // A null sha removes the path from the base tree
+      const deleteEntries = deletes.map((path) => ({
+        path,
+        mode: "100644" as const,
+        type: "blob" as const,
+        sha: null,
+      }));
+
+      for (let attempt = 1; attempt <= MAX_REF_UPDATE_ATTEMPTS; attempt++) {
+        const { data: ref } = await this.octokit.git.getRef({
+          owner,
+          repo: repoName,
+          ref: `heads/${branch}`,
+        });
+        const parentSha = ref.object.sha;
+
+        await this.assertExpectedShas(
+          repoName,
+          parentSha,
+          changes.expectedShas,
+        );
+
+        const { data: parentCommit } = await this.octokit.git.getCommit({
+          owner,
+          repo: repoName,
+          commit_sha: parentSha,
+        });
+
+        const { data: tree } = await this.octokit.git.createTree({
+          owner,
+          repo: repoName,
+          base_tree: parentCommit.tree.sha,
+          tree: [...blobEntries, ...deleteEntries],
+        });
+
+        const { data: commit } = await this.octokit.git.createCommit({
+          owner,
+          repo: repoName,
+          message: changes.message,
+          tree: tree.sha,
+          parents: [parentSha],
+        });
+
+        try {
+          await this.octokit.git.updateRef({
+            owner,
+            repo: repoName,
+            ref: `heads/${branch}`,
+            sha: commit.sha,
+          });
+        } catch (error: any) {
+          // Another writer moved the branch: re-apply on top of the new head.
+          // The expected shas are re-checked, so only untouched paths rebase.
+          if (error.status === 422) {
+            continue;
+          }
+          throw error;
+        }
+
+        return {
+          sha: commit.sha,
+          message: commit.message,
+          paths: [...writtenPaths, ...deletes],
+        };
+      }
+
+      throw new DiffDBConflictError([...writtenPaths, ...deletes]);
+    } catch (error) {
+      if (error instanceof DiffDBConflictError) {
+        throw error;
+      }
+      throw new Error(`Failed to commit changes: ${error}`);
+    }
+  }
+
+  /**
+   * Verify that the given paths still have the blob shas the caller read
+   */
+  private async assertExpectedShas(
+    repoName: string,
+    ref: string,
+    expectedShas?: Record<string, string | null>,
+  ): Promise<void> {
+    if (!expectedShas) {
+      return;
+    }
+
+    const entries = Object.entries(expectedShas);
+    const actualShas = await Promise.all(
+      entries.map(([path]) => this.getFileSha(repoName, path, ref)),
+    );
+    const conflicts = entries
+      .filter(([, expected], index) => (expected ?? null) !== actualShas[index])
+      .map(([path]) => path);
+
+    if (conflicts.length > 0) {
+      throw new DiffDBConflictError(conflicts);
+    }
+  }
+
+  /**
+   * Get the blob sha of a file at a given ref, or null if it doesn't exist
+   */
+  private async getFileSha(
+    repoName: string,
+    filePath: string,
+    ref: string,
+  ): Promise<string | null> {
+    try {
+      const { data } = (await this.octokit.repos.getContent({
+        owner: this.username!,
+        repo: repoName,
+        path: filePath,
+        ref,
+      })) as { data: any };
+      return Array.isArray(data) ? null : data.sha;
+    } catch (error: any) {
+      if (error.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get the default branch of a repository (cached per repository)
+   */
+  private async getDefaultBranch(repoName: string): Promise<string> {
+    const cached = this.defaultBranches.get(repoName);
+    if (cached) {
+      return cached;
+    }
+
+    const { data } = await this.octokit.repos.get({
+      owner: this.username!,
+      repo: repoName,
+    });
+    const branch = data.default_branch || "main";
+    this.defaultBranches.set(repoName, branch);
+    return branch;
+  }
+
+  /**
+   * List directory contents, optionally as of a commit
    */
   async listDirectory(
     repoName: string,
     dirPath: string = "",
-  ): Promise<
-    Array<{
-      name: string;
-      path: string;
-      type: "file" | "dir";
-      size: number;
-      sha: string;
-    }>
-  > {
+    ref?: string,
+  ): Promise<DiffDBDirectoryEntry[]> {
     if (!this.username) {
       await this.initialize();
     }
@@ -320,6 +557,7 @@ export class DiffDBClient {
         owner: this.username!,
         repo: repoName,
         path: dirPath,
+        ...(ref ? { ref } : {}),
       })) as { data: any };
 
       if (Array.isArray(data)) {
@@ -351,98 +589,76 @@ export class DiffDBClient {
   }
 
   /**
-   * Initialize repository with DiffDB structure
+   * List the commits touching any of the given paths, newest first
    */
-  async initializeDiffDBStructure(repoName: string): Promise<void> {
+  async listCommits(
+    repoName: string,
+    paths: string[],
+    limit: number = 50,
+  ): Promise<DiffDBCommitInfo[]> {
     if (!this.username) {
       await this.initialize();
     }
 
     try {
-      // Create schema.json with metadata
-      const schemaContent = JSON.stringify(
-        {
-          version: "1.0.0",
-          created_at: new Date().toISOString(),
-          description: "DiffDB Repository",
-          structure: {
-            users: "User profiles and preferences",
-            sessions: "Active user sessions",
-            threads: "Chat thread metadata",
-            messages: "Chat messages organized by thread",
-            agents: "Custom AI agents",
-            mcp_servers: "MCP server configurations",
-            workflows: "Custom workflow definitions",
-            archives: "Archived conversations",
-          },
-        },
-        null,
-        2,
-      );
-
-      await this.writeFile(
-        repoName,
-        "schema.json",
-        schemaContent,
-        "Initialize DiffDB schema",
+      // The commits API filters by a single path, so merge per-path results
+      const pages = await Promise.all(
+        paths.map((path) =>
+          this.octokit.repos.listCommits({
+            owner: this.username!,
+            repo: repoName,
+            path,
+            per_page: limit,
+          }),
+        ),
       );
 
-      // Create directory structure with .gitkeep files
-      const directories = [
-        "users",
-        "sessions",
-        "threads",
-        "messages",
-        "agents",
-        "mcp_servers",
-        "workflows",
-        "archives",
-        "_metadata",
-      ];
-
-      for (const dir of directories) {
-        const keepFile = `${dir}/.gitkeep`;
-        const keepContent = `# ${dir.charAt(0).toUpperCase() + dir.slice(1)} directory\n\nThis directory stores ${dir.replace("_", " ")} data for DiffChat.\n`;
-        await this.writeFile(
-          repoName,
-          keepFile,
-          keepContent,
-          `Initialize ${dir} directory`,
-        );
+      const commits = new Map<string, DiffDBCommitInfo>();
+      for (const { data } of pages) {
+        for (const item of data) {
+          commits.set(item.sha, {
+            sha: item.sha,
+            message: item.commit.message,
+            author: item.commit.author?.name ?? null,
+            date: item.commit.author?.date ?? item.commit.committer?.date ?? "",
+          });
+        }
       }
 
-      // Create README
-      const readmeContent = `# DiffChat - Personal Database
-
-This repository contains your personal DiffChat data stored using DiffDB (GitHub-as-Database).
-
-## Structure
-
-${directories.map((dir) => `- \`${dir}/\` - ${dir.replace("_", " ").charAt(0).toUpperCase()}${dir.replace("_", " ").slice(1)} data`).join("\n")}
-
-## Security
-
-This repository is private and only accessible by you. Your chat data, preferences, and configurations are stored securely.
-
-## DiffDB
-
-DiffDB allows DiffChat to use GitHub repositories as a database backend, giving you:
-- Full control over your data
-- Version history of all changes  
-- Backup and sync across devices
-- No vendor lock-in
-
----
+      return [...commits.values()]
+        .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+        .slice(0, limit);
+    } catch (error: any) {
+      if (error.status === 409) {
+        return []; // Repository is empty
+      }
+      throw new Error(`Failed to list commits: ${error.message}`);
+    }
+  }
 
-*Generated by DiffChat DiffDB - ${new Date().toISOString()}*
-`;
+  /**
+   * Initialize repository with DiffDB structure
+   */
+  async initializeDiffDBStructure(repoName: string): Promise<void> {
+    if (!this.username) {
+      await this.initialize();
+    }
 
+    try {
+      const schemaFile = createSchemaFile();
       await this.writeFile(
         repoName,
-        "README.md",
-        readmeContent,
-        "Initialize repository README",
+        schemaFile.path,
+        schemaFile.content,
+        "Initialize DiffDB schema",
       );
+
+      // schema.json above created the initial commit, so the rest of the
+      // structure can go in as a single batched commit
+      await this.commitChanges(repoName, {
+        writes: createStructureFiles(),
+        message: "Initialize DiffDB directory structure",
+      });
     } catch (error) {
       throw new Error(`Failed to initialize DiffDB structure: ${error}`);
     }
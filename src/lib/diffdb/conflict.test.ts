@@ -0,0 +1,105 @@
+import { describe, it, expect, vi } from "vitest";
+import { DiffDBConflictError } from "lib/errors";
+import { mergeAppendOnly, mergeFields, withConflictRetry } from "./conflict";
+
+describe("mergeAppendOnly", () => {
+  it("should take the local list when it extends the remote one", () => {
+    expect(mergeAppendOnly([1, 2], [1, 2, 3])).toEqual([1, 2, 3]);
+  });
+
+  it("should keep the remote list when it already extends the local one", () => {
+    expect(mergeAppendOnly([1, 2, 3], [1, 2])).toEqual([1, 2, 3]);
+  });
+
+  it("should append local-only items after diverged remote items", () => {
+    const remote = [
+      { type: "text", text: "a" },
+      { type: "text", text: "b" },
+    ];
+    const local = [
+      { type: "text", text: "a" },
+      { type: "text", text: "c" },
+    ];
+
+    expect(mergeAppendOnly(remote, local)).toEqual([
+      { type: "text", text: "a" },
+      { type: "text", text: "b" },
+      { type: "text", text: "c" },
+    ]);
+  });
+
+  it("should handle missing lists", () => {
+    expect(mergeAppendOnly(undefined, [1])).toEqual([1]);
+    expect(mergeAppendOnly([1], undefined)).toEqual([1]);
+  });
+});
+
+describe("mergeFields", () => {
+  const base = { id: "1", title: "old", description: "desc", pinned: false };
+
+  it("should keep concurrent changes to different fields", () => {
+    const local = { ...base, title: "local title" };
+    const remote = { ...base, description: "remote desc" };
+
+    expect(mergeFields(base, local, remote)).toEqual({
+      id: "1",
+      title: "local title",
+      description: "remote desc",
+      pinned: false,
+    });
+  });
+
+  it("should let the local writer win on the same field", () => {
+    const local = { ...base, title: "local" };
+    const remote = { ...base, title: "remote" };
+
+    expect(mergeFields(base, local, remote).title).toBe("local");
+  });
+
+  it("should drop fields removed locally unless changed remotely", () => {
+    const { description: _removed, ...local } = base;
+
+    expect(mergeFields(base, local as any, base)).not.toHaveProperty(
+      "description",
+    );
+    expect(
+      mergeFields(base, local as any, { ...base, description: "new" })
+        .description,
+    ).toBe("new");
+  });
+
+  it("should return the local document when nothing is stored", () => {
+    expect(mergeFields(null, base, null)).toEqual(base);
+  });
+});
+
+describe("withConflictRetry", () => {
+  it("should retry on conflicts and return the first success", async () => {
+    const operation = vi
+      .fn()
+      .mockRejectedValueOnce(new DiffDBConflictError(["a.json"]))
+      .mockResolvedValueOnce("ok");
+
+    await expect(withConflictRetry(operation)).resolves.toBe("ok");
+    expect(operation).toHaveBeenCalledTimes(2);
+    expect(operation).toHaveBeenLastCalledWith(2);
+  });
+
+  it("should throw the conflict once attempts are exhausted", async () => {
+    const operation = vi
+      .fn()
+      .mockRejectedValue(new DiffDBConflictError(["a.json"]));
+
+    await expect(withConflictRetry(operation, 2)).rejects.toBeInstanceOf(
+      DiffDBConflictError,
+    );
+    expect(operation).toHaveBeenCalledTimes(2);
+  });
+
+  it("should not retry other errors", async () => {
+    const operation = vi.fn().mockRejectedValue(new Error("boom"));
+
+    await expect(withConflictRetry(operation)).rejects.toThrow("boom");
+    expect(operation).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * DiffDB Conflict Resolution
+ *
+ * Merge strategies and a retry helper for concurrent writes to the same
+ * DiffDB documents (e.g. two browser tabs or two devices). Writers pass the
+ * sha they read as `expectedShas`; when it is stale the client throws a
+ * DiffDBConflictError and the operation is re-run against fresh data.
+ */
+
+import equal from "lib/equal";
+import { DiffDBConflictError } from "lib/errors";
+
+export const MAX_CONFLICT_RETRIES = 3;
+
+/**
+ * Re-run a read-modify-write operation while it fails with a conflict.
+ * The operation must re-read its documents on every attempt.
+ */
+export async function withConflictRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  attempts: number = MAX_CONFLICT_RETRIES,
+): Promise<T> {
+  let lastConflict: DiffDBConflictError | undefined;
+
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (!(error instanceof DiffDBConflictError)) {
+        throw error;
+      }
+      lastConflict = error;
+    }
+  }
+
+  throw lastConflict!;
+}
+
+function isPrefixOf<T>(prefix: T[], list: T[]): boolean {
+  return (
+    prefix.length <= list.length &&
+    prefix.every((item, index) => equal(item, list[index]))
+  );
+}
+
+/**
+ * Append-only merge for ordered lists such as message parts.
+ * When one side extends the other the longer list wins; otherwise the
+ * local items missing from the remote list are appended after it.
+ */
+export function mergeAppendOnly<T>(remote: T[] = [], local: T[] = []): T[] {
+  if (isPrefixOf(remote, local)) return local;
+  if (isPrefixOf(local, remote)) return remote;
+  return [
+    ...remote,
+    ...local.filter((item) => !remote.some((r) => equal(r, item))),
+  ];
+}
+
+/**
+ * Three-way, field-level merge for metadata documents.
+ * Fields the local writer changed relative to `base` win (last writer
+ * wins), every other field keeps the remote value.
+ */
+export function mergeFields<T extends Record<string, any>>(
+  base: T | null,
+  local: T,
+  remote: T | null,
+): T {
+  if (!remote) return local;
+  if (!base) return { ...remote, ...local };
+
+  const merged: Record<string, any> = { ...remote };
+
+  for (const key of Object.keys(local)) {
+    if (!equal(base[key], local[key])) {
+      merged[key] = local[key];
+    }
+  }
+
+  // Fields removed locally are removed unless the remote changed them too
+  for (const key of Object.keys(base)) {
+    if (!(key in local) && equal(base[key], remote[key])) {
+      delete merged[key];
+    }
+  }
+
+  return merged as T;
+}
@@ -0,0 +1,255 @@
+/**
+ * DiffDB Encrypted Storage Backend
+ *
+ * Wraps a storage backend so repositories keep reading and writing plain
+ * JSON while the sensitive fields listed in ENCRYPTED_FIELDS are stored
+ * encrypted. Without a key an encrypted repository stays readable except
+ * for those fields, and refuses writes that would store them in plaintext.
+ */
+
+import { DiffDBLockedError } from "lib/errors";
+import type {
+  DiffDBBatchCommitResult,
+  DiffDBChangeSet,
+  DiffDBCommitInfo,
+  DiffDBCommitResult,
+  DiffDBFileWrite,
+  GitHubFileInfo,
+} from "./client";
+import {
+  createEncryptionMetadata,
+  decryptDocument,
+  type DiffDBEncryptionKey,
+  ENCRYPTED_FIELDS,
+  ENCRYPTION_METADATA_PATH,
+  type EncryptionMetadata,
+  EncryptionMetadataSchema,
+  encryptDocument,
+  getEncryptedFields,
+} from "./encryption";
+import {
+  type DiffDBDirectoryEntry,
+  type DiffDBStorageBackend,
+  listFilesRecursive,
+} from "./storage-backend";
+
+export interface StoredEncryptionMetadata {
+  metadata: EncryptionMetadata;
+  sha: string;
+}
+
+/**
+ * Read the encryption settings of a repository (null = not encrypted)
+ */
+export async function readEncryptionMetadata(
+  backend: DiffDBStorageBackend,
+  repoName: string,
+): Promise<StoredEncryptionMetadata | null> {
+  const file = await backend.readFile(repoName, ENCRYPTION_METADATA_PATH);
+  if (!file) return null;
+  return {
+    metadata: EncryptionMetadataSchema.parse(JSON.parse(file.content)),
+    sha: file.sha,
+  };
+}
+
+export class EncryptedStorageBackend implements DiffDBStorageBackend {
+  private constructor(
+    private readonly inner: DiffDBStorageBackend,
+    private readonly key: DiffDBEncryptionKey | null,
+    private readonly encryption: StoredEncryptionMetadata | null,
+  ) {}
+
+  /**
+   * Wrap a backend for a repository. A key that doesn't match the
+   * repository's key is rejected up front.
+   */
+  static async open(
+    inner: DiffDBStorageBackend,
+    repoName: string,
+    key: DiffDBEncryptionKey | null,
+  ): Promise<EncryptedStorageBackend> {
+    const encryption = await readEncryptionMetadata(inner, repoName);
+    if (key && encryption && encryption.metadata.keyId !== key.id) {
+      throw new DiffDBLockedError(
+        "The passphrase doesn't match the one your data is encrypted with.",
+      );
+    }
+    return new EncryptedStorageBackend(
+      inner,
+      encryption ? key : null,
+      encryption,
+    );
+  }
+
+  get isEncrypted(): boolean {
+    return !!this.encryption;
+  }
+
+  get isUnlocked(): boolean {
+    return !!this.key;
+  }
+
+  async readFile(
+    repoName: string,
+    filePath: string,
+    ref?: string,
+  ): Promise<GitHubFileInfo | null> {
+    const file = await this.inner.readFile(repoName, filePath, ref);
+    if (!file) return null;
+    return {
+      ...file,
+      content: await decryptDocument(this.key, filePath, file.content),
+    };
+  }
+
+  async writeFile(
+    repoName: string,
+    filePath: string,
+    content: string,
+    commitMessage?: string,
+    sha?: string,
+  ): Promise<DiffDBCommitResult> {
+    return this.inner.writeFile(
+      repoName,
+      filePath,
+      await this.seal(filePath, content),
+      commitMessage,
+      sha,
+    );
+  }
+
+  deleteFile(
+    repoName: string,
+    filePath: string,
+    commitMessage?: string,
+  ): Promise<void> {
+    return this.inner.deleteFile(repoName, filePath, commitMessage);
+  }
+
+  listDirectory(
+    repoName: string,
+    dirPath?: string,
+    ref?: string,
+  ): Promise<DiffDBDirectoryEntry[]> {
+    return this.inner.listDirectory(repoName, dirPath, ref);
+  }
+
+  async commitChanges(
+    repoName: string,
+    changes: DiffDBChangeSet,
+  ): Promise<DiffDBBatchCommitResult | null> {
+    const writes: DiffDBFileWrite[] = [];
+    for (const write of changes.writes ?? []) {
+      writes.push({
+        ...write,
+        content: await this.seal(write.path, write.content),
+      });
+    }
+
+    return this.inner.commitChanges(repoName, {
+      ...changes,
+      writes,
+      // A key rotation in between would leave these writes unreadable
+      expectedShas: this.encryption
+        ? {
+            ...changes.expectedShas,
+            [ENCRYPTION_METADATA_PATH]: this.encryption.sha,
+          }
+        : changes.expectedShas,
+    });
+  }
+
+  listCommits(
+    repoName: string,
+    paths: string[],
+    limit?: number,
+  ): Promise<DiffDBCommitInfo[]> {
+    return this.inner.listCommits(repoName, paths, limit);
+  }
+
+  private async seal(filePath: string, content: string): Promise<string> {
+    if (!this.encryption || !getEncryptedFields(filePath).length) {
+      return content;
+    }
+    if (!this.key) {
+      throw new DiffDBLockedError();
+    }
+    return encryptDocument(this.key, filePath, content);
+  }
+}
+
+/**
+ * Re-encrypt every encrypted field of a repository in one commit: enable
+ * encryption (`from` null), rotate the key, or disable it (`to` null).
+ * Must be given the unwrapped backend.
+ */
+export async function reencryptRepository(
+  backend: DiffDBStorageBackend,
+  repoName: string,
+  options: {
+    from: DiffDBEncryptionKey | null;
+    to: { key: DiffDBEncryptionKey; salt: string; iterations?: number } | null;
+  },
+): Promise<{ files: number }> {
+  const { from, to } = options;
+  const current = await readEncryptionMetadata(backend, repoName);
+  if (!current && !to) {
+    return { files: 0 };
+  }
+  if (current && (!from || current.metadata.keyId !== from.id)) {
+    throw new DiffDBLockedError(
+      "The current passphrase is required to change the encryption key.",
+    );
+  }
+
+  const writes: DiffDBFileWrite[] = [];
+  const expectedShas: Record<string, string | null> = {
+    [ENCRYPTION_METADATA_PATH]: current?.sha ?? null,
+  };
+
+  for (const dir of Object.keys(ENCRYPTED_FIELDS)) {
+    for (const entry of await listFilesRecursive(backend, repoName, dir)) {
+      if (!getEncryptedFields(entry.path).length) continue;
+
+      const file = await backend.readFile(repoName, entry.path);
+      if (!file) continue;
+
+      const plain = await decryptDocument(from, entry.path, file.content);
+      const content = to
+        ? await encryptDocument(to.key, entry.path, plain)
+        : plain;
+      if (content !== file.content) {
+        writes.push({ path: entry.path, content });
+        expectedShas[entry.path] = file.sha;
+      }
+    }
+  }
+
+  if (to) {
+    writes.push({
+      path: ENCRYPTION_METADATA_PATH,
+      content: JSON.stringify(
+        createEncryptionMetadata(to.key, to.salt, to.iterations),
+        null,
+        2,
+      ),
+    });
+  }
+
+  await backend.commitChanges(repoName, {
+    writes,
+    deletes: !to && current ? [ENCRYPTION_METADATA_PATH] : [],
+    message: !current
+      ? "Enable encryption"
+      : to
+        ? "Rotate encryption key"
+        : "Disable encryption",
+    expectedShas,
+  });
+
+  return {
+    files: writes.filter((write) => write.path !== ENCRYPTION_METADATA_PATH)
+      .length,
+  };
+}
@@ -0,0 +1,39 @@
+import "server-only";
+import { cookies } from "next/headers";
+import { COOKIE_KEY_DIFFDB_ENCRYPTION_KEY } from "lib/const";
+import {
+  type DiffDBEncryptionKey,
+  fromBase64,
+  importEncryptionKey,
+} from "./encryption";
+
+/**
+ * The unlocked encryption key travels with the browser session only: a
+ * session cookie that is dropped when the browser closes and is never
+ * readable from client scripts.
+ */
+export async function getSessionEncryptionKey(): Promise<DiffDBEncryptionKey | null> {
+  const cookieStore = await cookies();
+  const value = cookieStore.get(COOKIE_KEY_DIFFDB_ENCRYPTION_KEY)?.value;
+  if (!value) return null;
+  try {
+    return await importEncryptionKey(fromBase64(value));
+  } catch {
+    return null;
+  }
+}
+
+export async function setSessionEncryptionKey(rawKey: string) {
+  const cookieStore = await cookies();
+  cookieStore.set(COOKIE_KEY_DIFFDB_ENCRYPTION_KEY, rawKey, {
+    httpOnly: true,
+    sameSite: "strict",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+  });
+}
+
+export async function clearSessionEncryptionKey() {
+  const cookieStore = await cookies();
+  cookieStore.delete(COOKIE_KEY_DIFFDB_ENCRYPTION_KEY);
+}
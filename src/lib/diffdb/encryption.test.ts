@@ -0,0 +1,195 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { DiffDBLockedError } from "lib/errors";
+import {
+  EncryptedStorageBackend,
+  readEncryptionMetadata,
+  reencryptRepository,
+} from "./encrypted-backend";
+import {
+  decryptDocument,
+  deriveKeyBytes,
+  encryptDocument,
+  generateSalt,
+  importEncryptionKey,
+} from "./encryption";
+import { LocalGitStorageBackend } from "./local-git-backend";
+import { DiffDBChatRepository } from "./repositories/chat-repository.diffdb";
+import { createDiffDBMcpRepository } from "./repositories/mcp-repository.diffdb";
+
+const REPO = "diffchat-data";
+const MESSAGE_PATH = "messages/thread-t1/message-m1.json";
+
+// Keep key derivation fast, the iteration count is not under test
+const deriveKey = async (passphrase: string, salt = generateSalt()) => ({
+  key: await importEncryptionKey(await deriveKeyBytes(passphrase, salt, 1000)),
+  salt,
+  iterations: 1000,
+});
+
+describe("DiffDB encryption", () => {
+  let baseDir: string;
+  let raw: LocalGitStorageBackend;
+
+  const insertThread = async (backend: EncryptedStorageBackend) => {
+    const chat = new DiffDBChatRepository(backend, REPO);
+    await chat.insertThread({ id: "t1", title: "Secret", userId: "u1" });
+    await chat.insertMessage({
+      id: "m1",
+      threadId: "t1",
+      role: "user",
+      parts: [{ type: "text", text: "my secret" }],
+      model: null,
+    });
+    return chat;
+  };
+
+  beforeEach(async () => {
+    baseDir = await mkdtemp(path.join(os.tmpdir(), "diffdb-encryption-"));
+    raw = new LocalGitStorageBackend(baseDir);
+    await raw.ensureRepository(REPO);
+  });
+
+  afterEach(async () => {
+    await rm(baseDir, { recursive: true, force: true });
+  });
+
+  it("should only encrypt the sensitive fields of a document", async () => {
+    const { key } = await deriveKey("passphrase");
+    const content = JSON.stringify({ id: "m1", parts: [{ text: "hi" }] });
+
+    const encrypted = await encryptDocument(key, MESSAGE_PATH, content);
+    expect(JSON.parse(encrypted).id).toBe("m1");
+    expect(encrypted).not.toContain("hi");
+    expect(
+      JSON.parse(await decryptDocument(key, MESSAGE_PATH, encrypted)),
+    ).toEqual(JSON.parse(content));
+    await expect(
+      decryptDocument(null, MESSAGE_PATH, encrypted),
+    ).rejects.toBeInstanceOf(DiffDBLockedError);
+
+    // Paths without sensitive fields are left alone
+    expect(await encryptDocument(key, "threads/t1.json", content)).toBe(
+      content,
+    );
+  });
+
+  it("should store encrypted payloads and read them back transparently", async () => {
+    const { key, salt, iterations } = await deriveKey("passphrase");
+    await reencryptRepository(raw, REPO, {
+      from: null,
+      to: { key, salt, iterations },
+    });
+
+    const chat = await insertThread(
+      await EncryptedStorageBackend.open(raw, REPO, key),
+    );
+
+    const stored = await raw.readFile(REPO, MESSAGE_PATH);
+    expect(stored?.content).not.toContain("my secret");
+    expect(stored?.content).toContain("$encrypted");
+
+    const messages = await chat.selectMessagesByThreadId("t1");
+    expect(messages[0].parts).toEqual([{ type: "text", text: "my secret" }]);
+  });
+
+  it("should encrypt the OAuth secrets of MCP servers", async () => {
+    const { key, salt } = await deriveKey("passphrase");
+    await reencryptRepository(raw, REPO, { from: null, to: { key, salt } });
+    const mcp = createDiffDBMcpRepository(
+      await EncryptedStorageBackend.open(raw, REPO, key),
+      REPO,
+    );
+
+    await mcp.saveOAuthSession("s1", "u1", {
+      state: "pending",
+      codeVerifier: "secret-verifier",
+      clientInformation: {
+        client_id: "secret-client",
+        redirect_uris: ["https://app.example.com/api/mcp/oauth/callback"],
+      },
+      tokens: { access_token: "secret-token", token_type: "Bearer" },
+    });
+
+    const stored = await raw.readFile(REPO, "mcp_oauth/s1/u1.json");
+    expect(stored?.content).not.toContain("secret-");
+    expect(JSON.parse(stored!.content).state).toBe("pending");
+    expect(await mcp.selectOAuthSession("s1", "u1")).toMatchObject({
+      codeVerifier: "secret-verifier",
+      clientInformation: { client_id: "secret-client" },
+      tokens: { access_token: "secret-token" },
+    });
+  });
+
+  it("should refuse to read or write encrypted fields while locked", async () => {
+    const { key, salt } = await deriveKey("passphrase");
+    await reencryptRepository(raw, REPO, { from: null, to: { key, salt } });
+    await insertThread(await EncryptedStorageBackend.open(raw, REPO, key));
+
+    const locked = await EncryptedStorageBackend.open(raw, REPO, null);
+    expect(locked.isEncrypted).toBe(true);
+    expect(locked.isUnlocked).toBe(false);
+    await expect(locked.readFile(REPO, MESSAGE_PATH)).rejects.toBeInstanceOf(
+      DiffDBLockedError,
+    );
+    await expect(
+      locked.writeFile(REPO, MESSAGE_PATH, JSON.stringify({ parts: [] })),
+    ).rejects.toBeInstanceOf(DiffDBLockedError);
+
+    // Threads carry no encrypted fields
+    expect(
+      await locked.readFile(REPO, "threads/thread-t1.json"),
+    ).not.toBeNull();
+
+    const { key: wrongKey } = await deriveKey("wrong", salt);
+    await expect(
+      EncryptedStorageBackend.open(raw, REPO, wrongKey),
+    ).rejects.toBeInstanceOf(DiffDBLockedError);
+  });
+
+  it("should encrypt existing data and rotate the key in one commit each", async () => {
+    await insertThread(await EncryptedStorageBackend.open(raw, REPO, null));
+    expect((await raw.readFile(REPO, MESSAGE_PATH))?.content).toContain(
+      "my secret",
+    );
+
+    const first = await deriveKey("first");
+    const enabled = await reencryptRepository(raw, REPO, {
+      from: null,
+      to: first,
+    });
+    expect(enabled.files).toBe(1);
+    expect((await raw.readFile(REPO, MESSAGE_PATH))?.content).not.toContain(
+      "my secret",
+    );
+
+    const before = await raw.listCommits(REPO, [], 100);
+    const second = await deriveKey("second");
+    await expect(
+      reencryptRepository(raw, REPO, { from: second.key, to: second }),
+    ).rejects.toBeInstanceOf(DiffDBLockedError);
+    await reencryptRepository(raw, REPO, { from: first.key, to: second });
+
+    const after = await raw.listCommits(REPO, [], 100);
+    expect(after).toHaveLength(before.length + 1);
+    expect(after[0].message).toContain("Rotate encryption key");
+    expect((await readEncryptionMetadata(raw, REPO))?.metadata.keyId).toBe(
+      second.key.id,
+    );
+
+    const chat = new DiffDBChatRepository(
+      await EncryptedStorageBackend.open(raw, REPO, second.key),
+      REPO,
+    );
+    const messages = await chat.selectMessagesByThreadId("t1");
+    expect(messages[0].parts).toEqual([{ type: "text", text: "my secret" }]);
+
+    await reencryptRepository(raw, REPO, { from: second.key, to: null });
+    expect(await readEncryptionMetadata(raw, REPO)).toBeNull();
+    expect((await raw.readFile(REPO, MESSAGE_PATH))?.content).toContain(
+      "my secret",
+    );
+  });
+});
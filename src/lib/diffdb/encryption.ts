@@ -0,0 +1,224 @@
+/**
+ * DiffDB Encryption
+ *
+ * Optional AES-256-GCM encryption of the sensitive fields of DiffDB
+ * documents. The key is derived from a user passphrase with PBKDF2 in the
+ * browser and only lives there and in the user's session cookie; the
+ * repository stores the salt and a key fingerprint, never the key.
+ *
+ * Only uses Web Crypto so the same code runs in the browser and on the
+ * server.
+ */
+
+import { DiffDBLockedError } from "lib/errors";
+import { z } from "zod";
+
+export const ENCRYPTION_METADATA_PATH = "_metadata/encryption.json";
+
+export const ENCRYPTION_KDF_ITERATIONS = 600_000;
+
+const ENVELOPE_MARKER = "$encrypted";
+
+/**
+ * Document fields encrypted per repository directory
+ */
+export const ENCRYPTED_FIELDS: Record<string, string[]> = {
+  messages: ["parts"],
+  agents: ["instructions", "systemPrompt", "role", "mentions"],
+  mcp_servers: ["config"],
+  mcp_oauth: ["tokens", "clientInformation", "codeVerifier"],
+};
+
+export const EncryptionMetadataSchema = z.object({
+  version: z.literal(1),
+  algorithm: z.literal("AES-256-GCM"),
+  kdf: z.object({
+    name: z.literal("PBKDF2-SHA256"),
+    iterations: z.number().int().positive(),
+    salt: z.string(),
+  }),
+  keyId: z.string(),
+  updatedAt: z.string(),
+});
+
+export type EncryptionMetadata = z.infer<typeof EncryptionMetadataSchema>;
+
+const EncryptedValueSchema = z.object({
+  [ENVELOPE_MARKER]: z.literal("AES-256-GCM"),
+  keyId: z.string(),
+  iv: z.string(),
+  data: z.string(),
+});
+
+export type EncryptedValue = z.infer<typeof EncryptedValueSchema>;
+
+export interface DiffDBEncryptionKey {
+  /** Fingerprint of the key, stored next to every encrypted value */
+  id: string;
+  cryptoKey: CryptoKey;
+}
+
+export function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+export function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
+
+export function generateSalt(): string {
+  return toBase64(crypto.getRandomValues(new Uint8Array(16)));
+}
+
+/**
+ * Derive the raw 256-bit key for a passphrase
+ */
+export async function deriveKeyBytes(
+  passphrase: string,
+  salt: string,
+  iterations: number = ENCRYPTION_KDF_ITERATIONS,
+): Promise<Uint8Array> {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveBits"],
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt: fromBase64(salt), iterations },
+    material,
+    256,
+  );
+  return new Uint8Array(bits);
+}
+
+export async function importEncryptionKey(
+  raw: Uint8Array,
+): Promise<DiffDBEncryptionKey> {
+  if (raw.length !== 32) {
+    throw new Error("Encryption key must be 256 bits");
+  }
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", raw));
+  return {
+    id: Array.from(digest.slice(0, 8), (byte) =>
+      byte.toString(16).padStart(2, "0"),
+    ).join(""),
+    cryptoKey: await crypto.subtle.importKey("raw", raw, "AES-GCM", false, [
+      "encrypt",
+      "decrypt",
+    ]),
+  };
+}
+
+export function createEncryptionMetadata(
+  key: DiffDBEncryptionKey,
+  salt: string,
+  iterations: number = ENCRYPTION_KDF_ITERATIONS,
+): EncryptionMetadata {
+  return {
+    version: 1,
+    algorithm: "AES-256-GCM",
+    kdf: { name: "PBKDF2-SHA256", iterations, salt },
+    keyId: key.id,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+export function isEncryptedValue(value: unknown): value is EncryptedValue {
+  return EncryptedValueSchema.safeParse(value).success;
+}
+
+export async function encryptValue(
+  key: DiffDBEncryptionKey,
+  value: unknown,
+): Promise<EncryptedValue> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key.cryptoKey,
+    new TextEncoder().encode(JSON.stringify(value)),
+  );
+  return {
+    [ENVELOPE_MARKER]: "AES-256-GCM",
+    keyId: key.id,
+    iv: toBase64(iv),
+    data: toBase64(new Uint8Array(data)),
+  };
+}
+
+export async function decryptValue(
+  key: DiffDBEncryptionKey,
+  value: EncryptedValue,
+): Promise<unknown> {
+  if (value.keyId !== key.id) {
+    throw new DiffDBLockedError(
+      "Data was encrypted with a different key. Unlock with the current passphrase.",
+    );
+  }
+  const data = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: fromBase64(value.iv) },
+    key.cryptoKey,
+    fromBase64(value.data),
+  );
+  return JSON.parse(new TextDecoder().decode(data));
+}
+
+/**
+ * Get the encrypted fields of the document at a path (none for most paths)
+ */
+export function getEncryptedFields(filePath: string): string[] {
+  if (!filePath.endsWith(".json")) return [];
+  return ENCRYPTED_FIELDS[filePath.split("/")[0]] ?? [];
+}
+
+/**
+ * Encrypt the sensitive fields of a stored JSON document. Returns the
+ * content unchanged when the path has no encrypted fields.
+ */
+export async function encryptDocument(
+  key: DiffDBEncryptionKey,
+  filePath: string,
+  content: string,
+): Promise<string> {
+  const fields = getEncryptedFields(filePath);
+  if (!fields.length) return content;
+
+  const document = JSON.parse(content);
+  let changed = false;
+  for (const field of fields) {
+    if (document[field] === undefined || isEncryptedValue(document[field])) {
+      continue;
+    }
+    document[field] = await encryptValue(key, document[field]);
+    changed = true;
+  }
+  return changed ? JSON.stringify(document, null, 2) : content;
+}
+
+/**
+ * Decrypt the encrypted fields of a stored JSON document. Returns the
+ * content unchanged when nothing in it is encrypted.
+ */
+export async function decryptDocument(
+  key: DiffDBEncryptionKey | null,
+  filePath: string,
+  content: string,
+): Promise<string> {
+  const fields = getEncryptedFields(filePath);
+  if (!fields.length || !content.includes(ENVELOPE_MARKER)) return content;
+
+  const document = JSON.parse(content);
+  let changed = false;
+  for (const field of fields) {
+    if (!isEncryptedValue(document[field])) continue;
+    if (!key) {
+      throw new DiffDBLockedError();
+    }
+    document[field] = await decryptValue(key, document[field]);
+    changed = true;
+  }
+  return changed ? JSON.stringify(document, null, 2) : content;
+}
@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { execFileSync } from "node:child_process";
+import { mkdtemp, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { DiffDBConflictError } from "lib/errors";
+import { LocalGitStorageBackend, getGitBlobSha } from "./local-git-backend";
+
+const REPO = "diffchat-data";
+
+describe("LocalGitStorageBackend", () => {
+  let baseDir: string;
+  let backend: LocalGitStorageBackend;
+
+  const gitLog = () =>
+    execFileSync("git", ["-C", path.join(baseDir, REPO), "log", "--format=%s"])
+      .toString()
+      .trim()
+      .split("\n");
+
+  beforeEach(async () => {
+    baseDir = await mkdtemp(path.join(os.tmpdir(), "diffdb-local-"));
+    backend = new LocalGitStorageBackend(baseDir);
+    await backend.ensureRepository(REPO);
+  });
+
+  afterEach(async () => {
+    await rm(baseDir, { recursive: true, force: true });
+  });
+
+  it("should initialize the DiffDB structure in a single commit", async () => {
+    expect(await backend.ensureRepository(REPO)).toBe(false);
+    expect(await backend.readFile(REPO, "schema.json")).not.toBeNull();
+    expect(await backend.readFile(REPO, "threads/.gitkeep")).not.toBeNull();
+    expect(gitLog()).toEqual(["Initialize DiffDB repository"]);
+  });
+
+  it("should commit batched writes and deletes once", async () => {
+    await backend.commitChanges(REPO, {
+      writes: [
+        { path: "messages/thread-1/message-a.json", content: "a" },
+        { path: "messages/thread-1/message-b.json", content: "b" },
+      ],
+      message: "Add 2 messages",
+    });
+    const result = await backend.commitChanges(REPO, {
+      writes: [{ path: "messages/thread-1/message-c.json", content: "c" }],
+      deletes: ["messages/thread-1/message-a.json"],
+      message: "Replace a message",
+    });
+
+    expect(result?.paths).toEqual([
+      "messages/thread-1/message-c.json",
+      "messages/thread-1/message-a.json",
+    ]);
+    expect(gitLog().slice(0, 2)).toEqual([
+      "Replace a message",
+      "Add 2 messages",
+    ]);
+
+    const entries = await backend.listDirectory(REPO, "messages/thread-1");
+    expect(entries.map((entry) => entry.name)).toEqual([
+      "message-b.json",
+      "message-c.json",
+    ]);
+    expect(entries[0]).toMatchObject({
+      path: "messages/thread-1/message-b.json",
+      type: "file",
+      size: 1,
+      sha: getGitBlobSha(Buffer.from("b")),
+    });
+  });
+
+  it("should report directories and missing paths like the GitHub client", async () => {
+    const root = await backend.listDirectory(REPO);
+    expect(root.find((entry) => entry.name === "threads")?.type).toBe("dir");
+    expect(await backend.listDirectory(REPO, "nope")).toEqual([]);
+    expect(await backend.readFile(REPO, "threads/nope.json")).toBeNull();
+  });
+
+  it("should return git blob shas that match expectedShas", async () => {
+    await backend.writeFile(REPO, "threads/thread-1.json", "{}");
+    const file = await backend.readFile(REPO, "threads/thread-1.json");
+    const rev = execFileSync("git", [
+      "-C",
+      path.join(baseDir, REPO),
+      "rev-parse",
+      "HEAD:threads/thread-1.json",
+    ])
+      .toString()
+      .trim();
+
+    expect(file?.sha).toBe(rev);
+    await expect(
+      backend.commitChanges(REPO, {
+        writes: [{ path: "threads/thread-1.json", content: '{"a":1}' }],
+        message: "Update thread",
+        expectedShas: { "threads/thread-1.json": file!.sha },
+      }),
+    ).resolves.not.toBeNull();
+  });
+
+  it("should reject stale writes with a conflict", async () => {
+    await backend.writeFile(REPO, "threads/thread-1.json", "{}");
+
+    await expect(
+      backend.commitChanges(REPO, {
+        writes: [{ path: "threads/thread-1.json", content: "[]" }],
+        message: "Update thread",
+        expectedShas: { "threads/thread-1.json": null },
+      }),
+    ).rejects.toBeInstanceOf(DiffDBConflictError);
+    await expect(
+      backend.writeFile(REPO, "threads/thread-1.json", "[]", "msg", "stale"),
+    ).rejects.toBeInstanceOf(DiffDBConflictError);
+  });
+
+  it("should serialize concurrent commits", async () => {
+    await Promise.all(
+      ["a", "b", "c"].map((name) =>
+        backend.commitChanges(REPO, {
+          writes: [{ path: `agents/${name}.json`, content: name }],
+          message: `Create agent ${name}`,
+        }),
+      ),
+    );
+
+    expect(gitLog()).toHaveLength(4);
+  });
+
+  it("should skip commits that change nothing", async () => {
+    await backend.writeFile(REPO, "threads/thread-1.json", "{}");
+    const result = await backend.commitChanges(REPO, {
+      writes: [{ path: "threads/thread-1.json", content: "{}" }],
+      message: "No-op",
+    });
+
+    expect(result).toBeNull();
+  });
+
+  it("should refuse paths outside the repository", async () => {
+    await expect(backend.readFile(REPO, "../escape.json")).rejects.toThrow(
+      "Invalid file path",
+    );
+    await expect(
+      backend.commitChanges(REPO, {
+        writes: [{ path: ".git/config", content: "" }],
+        message: "Break git",
+      }),
+    ).rejects.toThrow("Invalid file path");
+  });
+
+  it("should fail to delete a missing file", async () => {
+    await expect(backend.deleteFile(REPO, "threads/nope.json")).rejects.toThrow(
+      "not found",
+    );
+  });
+});
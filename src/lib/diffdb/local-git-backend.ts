@@ -0,0 +1,501 @@
+/**
+ * DiffDB Local Git Backend
+ *
+ * Stores DiffDB repositories as plain git repositories on the local
+ * filesystem, so DiffChat can run without a GitHub account. Every write
+ * is a real git commit, which keeps the history features of DiffDB.
+ */
+
+import { execFile } from "node:child_process";
+import { createHash } from "node:crypto";
+import { existsSync } from "node:fs";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { promisify } from "node:util";
+import { DiffDBConflictError } from "lib/errors";
+import type {
+  DiffDBBatchCommitResult,
+  DiffDBChangeSet,
+  DiffDBCommitInfo,
+  DiffDBCommitResult,
+  GitHubFileInfo,
+} from "./client";
+import type {
+  DiffDBDirectoryEntry,
+  DiffDBStorageBackend,
+} from "./storage-backend";
+import { createSchemaFile, createStructureFiles } from "./structure";
+
+const execFileAsync = promisify(execFile);
+
+export interface LocalGitAuthor {
+  name: string;
+  email: string;
+}
+
+/**
+ * Pending mutations per repository directory, shared by all backend
+ * instances in this process since git allows one writer at a time
+ */
+const repositoryLocks = new Map<string, Promise<unknown>>();
+
+const DEFAULT_AUTHOR: LocalGitAuthor = {
+  name: "DiffChat",
+  email: "diffchat@localhost",
+};
+
+/**
+ * Compute the sha git assigns to a blob, so shas from this backend mean
+ * the same thing as the ones GitHub returns
+ */
+export function getGitBlobSha(content: Buffer): string {
+  return createHash("sha1")
+    .update(`blob ${content.length}\0`)
+    .update(content)
+    .digest("hex");
+}
+
+/**
+ * Local filesystem implementation of the DiffDB storage backend
+ */
+export class LocalGitStorageBackend implements DiffDBStorageBackend {
+  private baseDir: string;
+  private author: LocalGitAuthor;
+
+  constructor(baseDir: string, author: LocalGitAuthor = DEFAULT_AUTHOR) {
+    this.baseDir = path.resolve(baseDir);
+    this.author = author;
+  }
+
+  /**
+   * Create the repository with the DiffDB structure if it doesn't exist.
+   * Returns true when a new repository was created.
+   */
+  async ensureRepository(repoName: string): Promise<boolean> {
+    return this.withLock(repoName, async () => {
+      const repoDir = this.getRepoDir(repoName);
+      if (existsSync(path.join(repoDir, ".git"))) {
+        return false;
+      }
+
+      await mkdir(repoDir, { recursive: true });
+      await this.git(repoName, ["init", "--quiet", "--initial-branch=main"]);
+      await this.applyChanges(repoName, {
+        writes: [createSchemaFile(), ...createStructureFiles()],
+        message: "Initialize DiffDB repository",
+      });
+      return true;
+    });
+  }
+
+  /**
+   * Check if repository exists
+   */
+  async repositoryExists(repoName: string): Promise<boolean> {
+    return existsSync(path.join(this.getRepoDir(repoName), ".git"));
+  }
+
+  /**
+   * Read file content from repository, optionally as of a commit
+   */
+  async readFile(
+    repoName: string,
+    filePath: string,
+    ref?: string,
+  ): Promise<GitHubFileInfo | null> {
+    if (ref) {
+      return this.readFileAt(repoName, filePath, ref);
+    }
+
+    try {
+      const buffer = await readFile(this.resolvePath(repoName, filePath));
+      return {
+        path: filePath,
+        content: buffer.toString("utf8"),
+        sha: getGitBlobSha(buffer),
+        size: buffer.length,
+        download_url: null,
+      };
+    } catch (error: any) {
+      if (error.code === "ENOENT") {
+        return null; // File doesn't exist
+      }
+      if (error.code === "EISDIR") {
+        throw new Error(`Failed to read file ${filePath}: not a file`);
+      }
+      throw new Error(`Failed to read file ${filePath}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Create or update a file in repository
+   */
+  async writeFile(
+    repoName: string,
+    filePath: string,
+    content: string,
+    commitMessage?: string,
+    sha?: string,
+  ): Promise<DiffDBCommitResult> {
+    const message = commitMessage || `${sha ? "Update" : "Create"} ${filePath}`;
+
+    return this.withLock(repoName, async () => {
+      const result = await this.applyChanges(repoName, {
+        writes: [{ path: filePath, content }],
+        message,
+        expectedShas: sha ? { [filePath]: sha } : undefined,
+      });
+
+      return {
+        sha: result?.sha ?? (await this.getHead(repoName)) ?? "",
+        message,
+        path: filePath,
+        size: Buffer.byteLength(content, "utf8"),
+      };
+    });
+  }
+
+  /**
+   * Delete a file from repository
+   */
+  async deleteFile(
+    repoName: string,
+    filePath: string,
+    commitMessage?: string,
+  ): Promise<void> {
+    await this.withLock(repoName, async () => {
+      if (!existsSync(this.resolvePath(repoName, filePath))) {
+        throw new Error(
+          `Failed to delete file ${filePath}: File ${filePath} not found`,
+        );
+      }
+
+      await this.applyChanges(repoName, {
+        deletes: [filePath],
+        message: commitMessage || `Delete ${filePath}`,
+      });
+    });
+  }
+
+  /**
+   * Commit multiple file writes and deletes as a single commit
+   */
+  async commitChanges(
+    repoName: string,
+    changes: DiffDBChangeSet,
+  ): Promise<DiffDBBatchCommitResult | null> {
+    return this.withLock(repoName, () => this.applyChanges(repoName, changes));
+  }
+
+  /**
+   * List directory contents at HEAD or at a given commit
+   */
+  async listDirectory(
+    repoName: string,
+    dirPath: string = "",
+    ref: string = "HEAD",
+  ): Promise<DiffDBDirectoryEntry[]> {
+    const normalized = dirPath.replace(/^\/+|\/+$/g, "");
+
+    try {
+      let entries = await this.lsTree(
+        repoName,
+        ref,
+        normalized ? `${normalized}/` : undefined,
+      );
+      if (entries.length === 0 && normalized) {
+        // Single file
+        entries = await this.lsTree(repoName, ref, normalized);
+      }
+      return entries;
+    } catch (error: any) {
+      // A repository without commits has no HEAD yet
+      if (/not a valid object name|bad revision/i.test(error.stderr ?? "")) {
+        return [];
+      }
+      throw new Error(`Failed to list directory ${dirPath}: ${error.message}`);
+    }
+  }
+
+  /**
+   * List the commits touching any of the given paths, newest first
+   */
+  async listCommits(
+    repoName: string,
+    paths: string[],
+    limit: number = 50,
+  ): Promise<DiffDBCommitInfo[]> {
+    try {
+      const output = await this.git(repoName, [
+        "log",
+        "-z",
+        `--max-count=${limit}`,
+        "--format=%H%x1f%an%x1f%aI%x1f%B",
+        "HEAD",
+        "--",
+        ...paths,
+      ]);
+
+      return output
+        .split("\0")
+        .filter(Boolean)
+        .map((record) => {
+          const [sha, author, date, message] = record.split("\x1f");
+          return {
+            sha,
+            message: message.trim(),
+            author: author || null,
+            date,
+          };
+        });
+    } catch (error: any) {
+      // A repository without commits has no HEAD yet
+      if (/bad revision|unknown revision/i.test(error.stderr ?? "")) {
+        return [];
+      }
+      throw new Error(`Failed to list commits: ${error.message}`);
+    }
+  }
+
+  /**
+   * Read a file as of a commit from the object database
+   */
+  private async readFileAt(
+    repoName: string,
+    filePath: string,
+    ref: string,
+  ): Promise<GitHubFileInfo | null> {
+    this.assertRef(ref);
+    this.resolvePath(repoName, filePath);
+
+    let buffer: Buffer;
+    try {
+      buffer = await this.gitBuffer(repoName, [
+        "cat-file",
+        "blob",
+        `${ref}:${filePath}`,
+      ]);
+    } catch {
+      return null; // Unknown commit, or the file didn't exist at that commit
+    }
+
+    return {
+      path: filePath,
+      content: buffer.toString("utf8"),
+      sha: getGitBlobSha(buffer),
+      size: buffer.length,
+      download_url: null,
+    };
+  }
+
+  /**
+   * Write, delete, stage and commit. Callers must hold the repository lock.
+   */
+  private async applyChanges(
+    repoName: string,
+    changes: DiffDBChangeSet,
+  ): Promise<DiffDBBatchCommitResult | null> {
+    const writes = changes.writes ?? [];
+    const writtenPaths = new Set(writes.map((write) => write.path));
+    const deletes = (changes.deletes ?? []).filter(
+      (filePath) => !writtenPaths.has(filePath),
+    );
+
+    if (writes.length === 0 && deletes.length === 0) {
+      return null;
+    }
+
+    await this.assertExpectedShas(repoName, changes.expectedShas);
+
+    const paths = [...writtenPaths, ...deletes];
+
+    try {
+      for (const write of writes) {
+        const fullPath = this.resolvePath(repoName, write.path);
+        await mkdir(path.dirname(fullPath), { recursive: true });
+        await writeFile(fullPath, write.content, "utf8");
+      }
+      for (const filePath of deletes) {
+        await rm(this.resolvePath(repoName, filePath), { force: true });
+      }
+
+      await this.git(repoName, ["add", "--all"]);
+
+      // Nothing staged means every write matched the stored content
+      const hasChanges = await this.git(repoName, [
+        "diff",
+        "--cached",
+        "--quiet",
+      ]).then(
+        () => false,
+        () => true,
+      );
+      if (!hasChanges) {
+        return null;
+      }
+
+      await this.git(repoName, ["commit", "--quiet", "-m", changes.message]);
+
+      return {
+        sha: (await this.getHead(repoName))!,
+        message: changes.message,
+        paths,
+      };
+    } catch (error) {
+      // Leave the working tree matching HEAD for the next writer
+      await this.git(repoName, ["reset", "--quiet", "--hard", "HEAD"]).catch(
+        () => {},
+      );
+      throw new Error(`Failed to commit changes: ${error}`);
+    }
+  }
+
+  /**
+   * Verify that the given paths still have the blob shas the caller read
+   */
+  private async assertExpectedShas(
+    repoName: string,
+    expectedShas?: Record<string, string | null>,
+  ): Promise<void> {
+    if (!expectedShas) {
+      return;
+    }
+
+    const conflicts: string[] = [];
+    for (const [filePath, expected] of Object.entries(expectedShas)) {
+      const current = await this.readFile(repoName, filePath);
+      if ((expected ?? null) !== (current?.sha ?? null)) {
+        conflicts.push(filePath);
+      }
+    }
+
+    if (conflicts.length > 0) {
+      throw new DiffDBConflictError(conflicts);
+    }
+  }
+
+  private async lsTree(
+    repoName: string,
+    ref: string,
+    treePath?: string,
+  ): Promise<DiffDBDirectoryEntry[]> {
+    this.assertRef(ref);
+    const output = await this.git(repoName, [
+      "ls-tree",
+      "-l",
+      "-z",
+      ref,
+      ...(treePath ? ["--", treePath] : []),
+    ]);
+
+    return output
+      .split("\0")
+      .filter(Boolean)
+      .map((line) => {
+        // <mode> SP <type> SP <sha> SP+ <size> TAB <path>
+        const [meta, entryPath] = line.split("\t");
+        const [, type, sha, size] = meta.split(/\s+/);
+        return {
+          name: path.posix.basename(entryPath),
+          path: entryPath,
+          type: type === "tree" ? ("dir" as const) : ("file" as const),
+          size: Number(size) || 0,
+          sha,
+        };
+      });
+  }
+
+  private async getHead(repoName: string): Promise<string | null> {
+    try {
+      return (await this.git(repoName, ["rev-parse", "HEAD"])).trim();
+    } catch {
+      return null;
+    }
+  }
+
+  private async git(repoName: string, args: string[]): Promise<string> {
+    const { stdout } = await execFileAsync(
+      "git",
+      this.gitArgs(repoName, args),
+      {
+        maxBuffer: 64 * 1024 * 1024,
+      },
+    );
+    return stdout;
+  }
+
+  private async gitBuffer(repoName: string, args: string[]): Promise<Buffer> {
+    const { stdout } = await execFileAsync(
+      "git",
+      this.gitArgs(repoName, args),
+      {
+        encoding: "buffer",
+        maxBuffer: 64 * 1024 * 1024,
+      },
+    );
+    return stdout;
+  }
+
+  private gitArgs(repoName: string, args: string[]): string[] {
+    return [
+      "-C",
+      this.getRepoDir(repoName),
+      "-c",
+      `user.name=${this.author.name}`,
+      "-c",
+      `user.email=${this.author.email}`,
+      "-c",
+      "commit.gpgsign=false",
+      ...args,
+    ];
+  }
+
+  /**
+   * Refs come from requests, so only allow plain revision names
+   */
+  private assertRef(ref: string) {
+    if (!/^[\w./^~-]+$/.test(ref) || ref.startsWith("-")) {
+      throw new Error(`Invalid ref: ${ref}`);
+    }
+  }
+
+  private getRepoDir(repoName: string): string {
+    if (!/^[\w.-]+$/.test(repoName) || repoName.startsWith(".")) {
+      throw new Error(`Invalid repository name: ${repoName}`);
+    }
+    return path.join(this.baseDir, repoName);
+  }
+
+  /**
+   * Resolve a repository path, refusing anything that escapes the repository
+   */
+  private resolvePath(repoName: string, filePath: string): string {
+    const repoDir = this.getRepoDir(repoName);
+    const fullPath = path.resolve(repoDir, filePath);
+    const relative = path.relative(repoDir, fullPath);
+    if (
+      !relative ||
+      relative.startsWith("..") ||
+      path.isAbsolute(relative) ||
+      relative.split(path.sep)[0] === ".git"
+    ) {
+      throw new Error(`Invalid file path: ${filePath}`);
+    }
+    return fullPath;
+  }
+
+  private withLock<T>(repoName: string, task: () => Promise<T>): Promise<T> {
+    const repoDir = this.getRepoDir(repoName);
+    const previous = repositoryLocks.get(repoDir) ?? Promise.resolve();
+    const next = previous.then(task, task);
+    const settled = next.catch(() => {});
+    repositoryLocks.set(repoDir, settled);
+    // Drop the entry once idle so the map doesn't grow with every user
+    settled.then(() => {
+      if (repositoryLocks.get(repoDir) === settled) {
+        repositoryLocks.delete(repoDir);
+      }
+    });
+    return next;
+  }
+}
@@ -5,7 +5,13 @@
  * and provides high-level operations for DiffDB management.
  */
 
-import { DiffDBClient, GitHubUserInfo, DiffDBRepositoryInfo } from "./client";
+import {
+  DiffDBClient,
+  DiffDBFileWrite,
+  GitHubUserInfo,
+  DiffDBRepositoryInfo,
+} from "./client";
+import { createKeepFile } from "./structure";
 
 export interface DiffDBUserSetup {
   user: GitHubUserInfo;
@@ -191,19 +197,20 @@ export class DiffDBManager {
         "archives",
       ];
 
+      const missingKeepFiles: DiffDBFileWrite[] = [];
       for (const dir of requiredDirs) {
         const keepFile = `${dir}/.gitkeep`;
         const exists = await this.client.readFile(this.repoName, keepFile);
         if (!exists) {
-          const keepContent = `# ${dir.charAt(0).toUpperCase() + dir.slice(1)} directory\n\nThis directory stores ${dir.replace("_", " ")} data for DiffChat.\n`;
-          await this.client.writeFile(
-            this.repoName,
-            keepFile,
-            keepContent,
-            `Restore ${dir} directory`,
-          );
+          missingKeepFiles.push(createKeepFile(dir));
         }
       }
+
+      // Restore every missing directory in a single commit
+      await this.client.commitChanges(this.repoName, {
+        writes: missingKeepFiles,
+        message: `Restore ${missingKeepFiles.map((file) => file.path.split("/")[0]).join(", ")} directories`,
+      });
     } catch (error) {
       throw new Error(`Failed to verify database structure: ${error}`);
     }
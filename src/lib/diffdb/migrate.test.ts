@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { DiffDBSchemaVersionError } from "lib/errors";
+import { MESSAGES_INDEX_PATH, THREADS_INDEX_PATH } from "./chat-index";
+import { LocalGitStorageBackend } from "./local-git-backend";
+import {
+  type DiffDBMigration,
+  migrateDiffDBRepository,
+  openVersionedBackend,
+  readSchema,
+  SCHEMA_PATH,
+} from "./migrate";
+import { DIFFDB_MIGRATIONS } from "./migrations";
+import { DIFFDB_SCHEMA_VERSION } from "./structure";
+
+const REPO = "diffchat-data";
+
+describe("DiffDB migrations", () => {
+  let baseDir: string;
+  let backend: LocalGitStorageBackend;
+
+  const setSchemaVersion = async (version: string) => {
+    const current = await readSchema(backend, REPO);
+    await backend.commitChanges(REPO, {
+      writes: [
+        {
+          path: SCHEMA_PATH,
+          content: JSON.stringify({ ...current!.schema, version }, null, 2),
+        },
+      ],
+      message: `Set schema ${version}`,
+    });
+  };
+
+  beforeEach(async () => {
+    baseDir = await mkdtemp(path.join(os.tmpdir(), "diffdb-migrate-"));
+    backend = new LocalGitStorageBackend(baseDir);
+    await backend.ensureRepository(REPO);
+  });
+
+  afterEach(async () => {
+    await rm(baseDir, { recursive: true, force: true });
+  });
+
+  it("should end at the app's schema version", () => {
+    expect(DIFFDB_MIGRATIONS.at(-1)?.version).toBe(DIFFDB_SCHEMA_VERSION);
+  });
+
+  it("should leave a new repository untouched", async () => {
+    expect((await readSchema(backend, REPO))?.version).toBe(
+      DIFFDB_SCHEMA_VERSION,
+    );
+    const result = await migrateDiffDBRepository(backend, REPO);
+    expect(result.applied).toEqual([]);
+  });
+
+  it("should add the chat index to a 1.0.0 repository", async () => {
+    await backend.writeFile(
+      REPO,
+      "threads/thread-t1.json",
+      JSON.stringify({ id: "t1", userId: "u1", createdAt: 1000 }),
+    );
+    await backend.commitChanges(REPO, {
+      deletes: [THREADS_INDEX_PATH, MESSAGES_INDEX_PATH],
+      message: "Remove index",
+    });
+    await setSchemaVersion("1.0.0");
+    const before = await backend.listCommits(REPO, [], 100);
+
+    const result = await migrateDiffDBRepository(backend, REPO);
+
+    expect(result).toEqual({
+      from: "1.0.0",
+      to: DIFFDB_SCHEMA_VERSION,
+      applied: ["1.1.0"],
+    });
+    expect(await backend.listCommits(REPO, [], 100)).toHaveLength(
+      before.length + 1,
+    );
+    const threads = await backend.readFile(REPO, THREADS_INDEX_PATH);
+    expect(JSON.parse(threads!.content).threads.t1).toBeDefined();
+    expect((await readSchema(backend, REPO))?.version).toBe(
+      DIFFDB_SCHEMA_VERSION,
+    );
+  });
+
+  it("should run pending steps in order in a single commit", async () => {
+    await setSchemaVersion("2.0.0");
+    const migrations: DiffDBMigration[] = [
+      {
+        version: "2.0.0",
+        description: "Already applied",
+        migrate: async () => {
+          throw new Error("should not run");
+        },
+      },
+      {
+        version: "2.1.0",
+        description: "Write a file",
+        migrate: async ({ writeFile }) => {
+          writeFile("_metadata/note.json", JSON.stringify({ step: 1 }));
+        },
+      },
+      {
+        version: "2.2.0",
+        description: "Read the previous step's file",
+        migrate: async ({ readFile, writeFile, listFiles }) => {
+          const note = JSON.parse((await readFile("_metadata/note.json"))!);
+          expect(await listFiles("_metadata")).toContain("_metadata/note.json");
+          writeFile(
+            "_metadata/note.json",
+            JSON.stringify({ step: note.step + 1 }),
+          );
+        },
+      },
+    ];
+    const before = await backend.listCommits(REPO, [], 100);
+
+    const result = await migrateDiffDBRepository(backend, REPO, migrations);
+
+    expect(result.applied).toEqual(["2.1.0", "2.2.0"]);
+    const commits = await backend.listCommits(REPO, [], 100);
+    expect(commits).toHaveLength(before.length + 1);
+    expect(commits[0].message).toContain("Migrate schema 2.0.0 → 2.2.0");
+    const note = await backend.readFile(REPO, "_metadata/note.json");
+    expect(JSON.parse(note!.content)).toEqual({ step: 2 });
+  });
+
+  it("should open a newer repository read-only", async () => {
+    await setSchemaVersion("99.0.0");
+
+    const guarded = await openVersionedBackend(backend, REPO, {
+      migrate: true,
+    });
+
+    expect(await guarded.readFile(REPO, SCHEMA_PATH)).not.toBeNull();
+    await expect(
+      guarded.writeFile(REPO, "threads/thread-t1.json", "{}"),
+    ).rejects.toBeInstanceOf(DiffDBSchemaVersionError);
+    await expect(
+      guarded.commitChanges(REPO, { deletes: [SCHEMA_PATH], message: "x" }),
+    ).rejects.toBeInstanceOf(DiffDBSchemaVersionError);
+    await expect(migrateDiffDBRepository(backend, REPO)).rejects.toBeInstanceOf(
+      DiffDBSchemaVersionError,
+    );
+  });
+});
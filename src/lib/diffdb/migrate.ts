@@ -0,0 +1,278 @@
+/**
+ * DiffDB Schema Migrations
+ *
+ * `schema.json` records the repository format version. Repositories
+ * written by an older app are brought up to DIFFDB_SCHEMA_VERSION by
+ * running the pending steps of DIFFDB_MIGRATIONS in order and committing
+ * all of their changes together with the new version in a single commit.
+ * Repositories written by a newer app stay readable but refuse writes, so
+ * an outdated deployment can't corrupt data it doesn't understand.
+ */
+
+import { DiffDBSchemaVersionError } from "lib/errors";
+import type {
+  DiffDBBatchCommitResult,
+  DiffDBChangeSet,
+  DiffDBCommitInfo,
+  DiffDBCommitResult,
+  DiffDBFileWrite,
+  GitHubFileInfo,
+} from "./client";
+import { DIFFDB_MIGRATIONS } from "./migrations";
+import {
+  type DiffDBDirectoryEntry,
+  type DiffDBStorageBackend,
+  listFilesRecursive,
+} from "./storage-backend";
+import { DIFFDB_SCHEMA_VERSION } from "./structure";
+
+export const SCHEMA_PATH = "schema.json";
+
+/**
+ * Files a migration step reads and changes. Reads see the changes of the
+ * steps that ran before it.
+ */
+export interface DiffDBMigrationContext {
+  backend: DiffDBStorageBackend;
+  repoName: string;
+  readFile(filePath: string): Promise<string | null>;
+  /** Every file below a directory, recursively */
+  listFiles(dirPath: string): Promise<string[]>;
+  writeFile(filePath: string, content: string): void;
+  deleteFile(filePath: string): void;
+}
+
+export interface DiffDBMigration {
+  /** Schema version the repository has after this step */
+  version: string;
+  description: string;
+  migrate(context: DiffDBMigrationContext): Promise<void>;
+}
+
+export interface DiffDBMigrationResult {
+  from: string;
+  to: string;
+  applied: string[];
+}
+
+/**
+ * Compare two "major.minor.patch" versions
+ */
+export function compareSchemaVersions(a: string, b: string): number {
+  const left = a.split(".").map(Number);
+  const right = b.split(".").map(Number);
+  for (let i = 0; i < 3; i++) {
+    const diff = (left[i] || 0) - (right[i] || 0);
+    if (diff !== 0) return Math.sign(diff);
+  }
+  return 0;
+}
+
+/**
+ * Read the schema of a repository (null = not initialized)
+ */
+export async function readSchema(
+  backend: DiffDBStorageBackend,
+  repoName: string,
+): Promise<{
+  schema: Record<string, any>;
+  version: string;
+  sha: string;
+} | null> {
+  const file = await backend.readFile(repoName, SCHEMA_PATH);
+  if (!file) return null;
+  const schema = JSON.parse(file.content);
+  return { schema, version: schema.version || "1.0.0", sha: file.sha };
+}
+
+export function getPendingMigrations(
+  version: string,
+  migrations: DiffDBMigration[] = DIFFDB_MIGRATIONS,
+): DiffDBMigration[] {
+  return migrations.filter(
+    (migration) => compareSchemaVersions(migration.version, version) > 0,
+  );
+}
+
+/**
+ * Bring a repository to the app's schema version in one commit
+ */
+export async function migrateDiffDBRepository(
+  backend: DiffDBStorageBackend,
+  repoName: string,
+  migrations: DiffDBMigration[] = DIFFDB_MIGRATIONS,
+): Promise<DiffDBMigrationResult> {
+  const current = await readSchema(backend, repoName);
+  if (!current) {
+    throw new Error(`${repoName} is not a DiffDB repository`);
+  }
+
+  const target = migrations.at(-1)?.version ?? DIFFDB_SCHEMA_VERSION;
+  if (compareSchemaVersions(current.version, target) > 0) {
+    throw new DiffDBSchemaVersionError(current.version, target);
+  }
+
+  const pending = getPendingMigrations(current.version, migrations);
+  if (!pending.length) {
+    return { from: current.version, to: current.version, applied: [] };
+  }
+
+  const writes = new Map<string, string>();
+  const deletes = new Set<string>();
+  const expectedShas: Record<string, string | null> = {
+    [SCHEMA_PATH]: current.sha,
+  };
+
+  const context: DiffDBMigrationContext = {
+    backend,
+    repoName,
+    async readFile(filePath) {
+      if (writes.has(filePath)) return writes.get(filePath)!;
+      if (deletes.has(filePath)) return null;
+      const file = await backend.readFile(repoName, filePath);
+      if (!(filePath in expectedShas)) {
+        expectedShas[filePath] = file?.sha ?? null;
+      }
+      return file?.content ?? null;
+    },
+    async listFiles(dirPath) {
+      const files = new Set(
+        (await listFilesRecursive(backend, repoName, dirPath))
+          .map((entry) => entry.path)
+          .filter((file) => !deletes.has(file)),
+      );
+      for (const file of writes.keys()) {
+        if (file.startsWith(`${dirPath}/`)) files.add(file);
+      }
+      return [...files];
+    },
+    writeFile(filePath, content) {
+      deletes.delete(filePath);
+      writes.set(filePath, content);
+    },
+    deleteFile(filePath) {
+      writes.delete(filePath);
+      deletes.add(filePath);
+    },
+  };
+
+  for (const migration of pending) {
+    await migration.migrate(context);
+  }
+
+  const schemaWrite: DiffDBFileWrite = {
+    path: SCHEMA_PATH,
+    content: JSON.stringify(
+      {
+        ...current.schema,
+        version: target,
+        migrated_at: new Date().toISOString(),
+      },
+      null,
+      2,
+    ),
+  };
+
+  await backend.commitChanges(repoName, {
+    writes: [
+      ...Array.from(writes, ([path, content]) => ({ path, content })),
+      schemaWrite,
+    ],
+    deletes: [...deletes],
+    message: `Migrate schema ${current.version} → ${target}\n\n${pending
+      .map((migration) => `- ${migration.version}: ${migration.description}`)
+      .join("\n")}`,
+    expectedShas,
+  });
+
+  return {
+    from: current.version,
+    to: target,
+    applied: pending.map((migration) => migration.version),
+  };
+}
+
+/**
+ * Check a repository's schema version before the app works with it.
+ * Older repositories are migrated when `migrate` is set, newer ones are
+ * opened read-only.
+ */
+export async function openVersionedBackend(
+  backend: DiffDBStorageBackend,
+  repoName: string,
+  options: { migrate?: boolean } = {},
+): Promise<DiffDBStorageBackend> {
+  const current = await readSchema(backend, repoName);
+  if (!current) return backend;
+
+  const order = compareSchemaVersions(current.version, DIFFDB_SCHEMA_VERSION);
+  if (order > 0) {
+    console.warn(
+      `DiffDB: ${repoName} uses schema ${current.version}, newer than ${DIFFDB_SCHEMA_VERSION}. Opening it read-only.`,
+    );
+    return new ReadOnlyStorageBackend(backend, current.version);
+  }
+  if (order < 0 && options.migrate) {
+    const result = await migrateDiffDBRepository(backend, repoName);
+    console.info(
+      `DiffDB: Migrated ${repoName} from schema ${result.from} to ${result.to}`,
+    );
+  }
+  return backend;
+}
+
+/**
+ * Serves reads and rejects every write
+ */
+class ReadOnlyStorageBackend implements DiffDBStorageBackend {
+  constructor(
+    private readonly inner: DiffDBStorageBackend,
+    private readonly repositoryVersion: string,
+  ) {}
+
+  readFile(
+    repoName: string,
+    filePath: string,
+    ref?: string,
+  ): Promise<GitHubFileInfo | null> {
+    return this.inner.readFile(repoName, filePath, ref);
+  }
+
+  async writeFile(): Promise<DiffDBCommitResult> {
+    throw this.error();
+  }
+
+  async deleteFile(): Promise<void> {
+    throw this.error();
+  }
+
+  listDirectory(
+    repoName: string,
+    dirPath?: string,
+    ref?: string,
+  ): Promise<DiffDBDirectoryEntry[]> {
+    return this.inner.listDirectory(repoName, dirPath, ref);
+  }
+
+  async commitChanges(
+    _repoName: string,
+    _changes: DiffDBChangeSet,
+  ): Promise<DiffDBBatchCommitResult | null> {
+    throw this.error();
+  }
+
+  listCommits(
+    repoName: string,
+    paths: string[],
+    limit?: number,
+  ): Promise<DiffDBCommitInfo[]> {
+    return this.inner.listCommits(repoName, paths, limit);
+  }
+
+  private error() {
+    return new DiffDBSchemaVersionError(
+      this.repositoryVersion,
+      DIFFDB_SCHEMA_VERSION,
+    );
+  }
+}
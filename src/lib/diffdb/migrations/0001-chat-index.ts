@@ -0,0 +1,28 @@
+import {
+  MESSAGES_INDEX_PATH,
+  THREADS_INDEX_PATH,
+  loadChatIndex,
+  serializeChatIndex,
+} from "../chat-index";
+import type { DiffDBMigration } from "../migrate";
+
+/**
+ * Repositories created before the chat index have no index files, and
+ * every read would otherwise have to rebuild it in memory
+ */
+export const chatIndexMigration: DiffDBMigration = {
+  version: "1.1.0",
+  description: "Add the thread and message index",
+  async migrate({ backend, repoName, readFile, writeFile }) {
+    const [threads, messages] = await Promise.all([
+      readFile(THREADS_INDEX_PATH),
+      readFile(MESSAGES_INDEX_PATH),
+    ]);
+    if (threads && messages) return;
+
+    const { index } = await loadChatIndex(backend, repoName);
+    for (const file of serializeChatIndex(index)) {
+      writeFile(file.path, file.content);
+    }
+  },
+};
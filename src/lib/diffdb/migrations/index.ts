@@ -0,0 +1,8 @@
+import type { DiffDBMigration } from "../migrate";
+import { chatIndexMigration } from "./0001-chat-index";
+
+/**
+ * Every repository format change, oldest first. The last version must
+ * match DIFFDB_SCHEMA_VERSION.
+ */
+export const DIFFDB_MIGRATIONS: DiffDBMigration[] = [chatIndexMigration];
@@ -1,313 +1,198 @@
 /**
  * DiffDB Agent Repository
  *
- * GitHub-based implementation of agent repository for AI agents/personas.
+ * Git-based implementation of AgentRepository for AI agents/personas.
+ * Agents are stored flat: the instructions are kept as separate
+ * `systemPrompt`, `role` and `mentions` fields and the icon as `avatar`.
  */
 
-import { DiffDBClient } from "../client";
+import type { Agent, AgentRepository } from "app-types/agent";
+import { generateUUID } from "lib/utils";
+import type { DiffDBStorageBackend } from "../storage-backend";
+import { mergeFields, withConflictRetry } from "../conflict";
 
-export interface Agent {
-  id: string;
-  userId: string;
-  name: string;
-  description?: string;
-  systemPrompt: string;
-  role?: string;
-  mentions?: Array<{
-    type: string;
-    value: string;
-    [key: string]: any;
-  }>;
-  model?: string;
-  temperature?: number;
-  maxTokens?: number;
-  isPublic: boolean;
-  tags: string[];
-  avatar?: string;
-  createdAt: string;
-  updatedAt: string;
+const AGENTS_PATH = "agents";
+
+/**
+ * Turn a stored agent document into an Agent
+ */
+export function toAgent({
+  systemPrompt,
+  role,
+  mentions,
+  avatar,
+  instructions,
+  ...document
+}: any): Agent {
+  return {
+    ...document,
+    icon:
+      document.icon ?? (avatar ? { type: "emoji", value: avatar } : undefined),
+    instructions: instructions ?? { systemPrompt, role, mentions },
+    isPublic: document.isPublic ?? false,
+    createdAt: new Date(document.createdAt),
+    updatedAt: new Date(document.updatedAt),
+  };
+}
+
+/**
+ * Turn an Agent into the stored document
+ */
+export function toAgentDocument({ instructions, icon, ...agent }: Agent) {
+  return {
+    ...agent,
+    systemPrompt: instructions?.systemPrompt,
+    role: instructions?.role,
+    mentions: instructions?.mentions,
+    ...(icon ? { avatar: icon.value } : {}),
+  };
 }
 
 export function createDiffDBAgentRepository(
-  client: DiffDBClient,
+  client: DiffDBStorageBackend,
   repositoryName: string,
-) {
-  const AGENTS_PATH = "agents";
-
-  return {
-    async selectAgentById(id: string, userId: string): Promise<Agent | null> {
+): AgentRepository {
+  const getAgentPath = (id: string) => `${AGENTS_PATH}/${id}.json`;
+
+  async function readAgents(): Promise<Agent[]> {
+    const agents: Agent[] = [];
+    for (const file of await client.listDirectory(
+      repositoryName,
+      AGENTS_PATH,
+    )) {
+      if (file.type !== "file" || !file.name.endsWith(".json")) continue;
       try {
-        const filePath = `${AGENTS_PATH}/${id}.json`;
-        const fileInfo = await client.readFile(repositoryName, filePath);
-        if (!fileInfo) return null;
-
-        const agent = JSON.parse(fileInfo.content);
-        // Check access: user owns it or it's public
-        if (agent.userId === userId || agent.isPublic) {
-          // Transform DiffDB format back to frontend format
-          return this.transformToFrontend(agent);
-        }
-
-        return null;
+        const fileInfo = await client.readFile(repositoryName, file.path);
+        if (fileInfo) agents.push(toAgent(JSON.parse(fileInfo.content)));
       } catch (error) {
-        console.error(`Failed to get agent ${id}:`, error);
-        return null;
-      }
-    },
-
-    // Helper to transform DiffDB format to frontend format
-    transformToFrontend(agent: any): any {
-      const transformed = { ...agent };
-
-      // Create nested instructions object if we have the flat fields
-      if (agent.systemPrompt || agent.role || agent.mentions) {
-        transformed.instructions = {
-          systemPrompt: agent.systemPrompt,
-          role: agent.role,
-          mentions: agent.mentions,
-        };
-        delete transformed.systemPrompt;
-        delete transformed.role;
-        delete transformed.mentions;
-      }
-
-      // Create nested icon object if we have avatar
-      if (agent.avatar) {
-        transformed.icon = {
-          type: "emoji" as const,
-          value: agent.avatar,
-        };
-        delete transformed.avatar;
+        console.error(`Failed to read agent file ${file.path}:`, error);
       }
-
-      return transformed;
+    }
+    return agents.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  }
+
+  async function readAgent(id: string): Promise<Agent | null> {
+    const fileInfo = await client.readFile(repositoryName, getAgentPath(id));
+    return fileInfo ? toAgent(JSON.parse(fileInfo.content)) : null;
+  }
+
+  const withoutInstructions = ({
+    instructions: _instructions,
+    ...agent
+  }: Agent) => agent;
+
+  const repository: AgentRepository = {
+    async insertAgent(agent) {
+      return repository.upsertAgent(agent);
     },
 
-    async selectAgentsByUserId(userId: string): Promise<Agent[]> {
-      try {
-        const files = await client.listDirectory(repositoryName, AGENTS_PATH);
-        const agents: Agent[] = [];
-
-        for (const file of files) {
-          if (file.type === "file" && file.name.endsWith(".json")) {
-            try {
-              const fileInfo = await client.readFile(repositoryName, file.path);
-              if (fileInfo) {
-                const agent = JSON.parse(fileInfo.content);
-                if (agent.userId === userId) {
-                  agents.push(this.transformToFrontend(agent));
-                }
-              }
-            } catch (error) {
-              console.error(`Failed to read agent file ${file.path}:`, error);
-            }
-          }
-        }
-
-        return agents.sort(
-          (a, b) =>
-            new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
-        );
-      } catch (error) {
-        console.error(`Failed to get agents for user ${userId}:`, error);
-        return [];
-      }
+    async selectAgentById(id, userId) {
+      const agent = await readAgent(id);
+      return agent?.userId === userId ? agent : null;
     },
 
-    async selectPublicAgents(): Promise<Agent[]> {
-      try {
-        const files = await client.listDirectory(repositoryName, AGENTS_PATH);
-        const publicAgents: Agent[] = [];
-
-        for (const file of files) {
-          if (file.type === "file" && file.name.endsWith(".json")) {
-            try {
-              const fileInfo = await client.readFile(repositoryName, file.path);
-              if (fileInfo) {
-                const agent = JSON.parse(fileInfo.content);
-                if (agent.isPublic) {
-                  publicAgents.push(this.transformToFrontend(agent));
-                }
-              }
-            } catch (error) {
-              console.error(`Failed to read agent file ${file.path}:`, error);
-            }
-          }
-        }
-
-        return publicAgents.sort(
-          (a, b) =>
-            new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
-        );
-      } catch (error) {
-        console.error("Failed to get public agents:", error);
-        return [];
-      }
+    async selectAgentsByUserId(userId) {
+      return (await readAgents())
+        .filter((agent) => agent.userId === userId)
+        .map(withoutInstructions);
     },
 
-    async selectPublicAgentById(id: string): Promise<Agent | null> {
-      try {
-        const agent = await this.selectAgentById(id, ""); // Empty userId since we only want public
-        // Already transformed by selectAgentById
-        return agent && agent.isPublic ? agent : null;
-      } catch (error) {
-        console.error(`Failed to get public agent ${id}:`, error);
-        return null;
+    async updateAgent(id, userId, update) {
+      const existing = await repository.selectAgentById(id, userId);
+      if (!existing) {
+        throw new Error("Agent not found or access denied");
       }
+      return repository.upsertAgent({ ...existing, ...update, id, userId });
     },
 
-    async upsertAgent(
-      agent: Omit<Agent, "id" | "createdAt" | "updatedAt"> | Agent,
-    ): Promise<Agent> {
-      const isUpdate = "id" in agent && agent.id;
-      const id = isUpdate
-        ? agent.id
-        : `agent_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      const now = new Date().toISOString();
-
-      // Transform frontend format to DiffDB format
-      const transformedAgent: any = { ...agent };
-
-      // Handle nested instructions -> flat structure
-      if ((agent as any).instructions) {
-        const instructions = (agent as any).instructions;
-
-        // Extract systemPrompt
-        if (instructions.systemPrompt && !agent.systemPrompt) {
-          transformedAgent.systemPrompt = instructions.systemPrompt;
-        }
-
-        // Extract role
-        if (instructions.role && !transformedAgent.role) {
-          transformedAgent.role = instructions.role;
-        }
-
-        // Extract mentions (MCP tools access)
-        if (instructions.mentions && !transformedAgent.mentions) {
-          transformedAgent.mentions = instructions.mentions;
+    async upsertAgent(agent) {
+      const id = agent.id || generateUUID();
+      const filePath = getAgentPath(id);
+      let baseAgent: Agent | null = null;
+
+      // Field-level merge against the latest stored agent, so a concurrent
+      // edit of other fields (e.g. from another device) is kept
+      return withConflictRetry(async (attempt) => {
+        const currentFile = await client.readFile(repositoryName, filePath);
+        const currentAgent = currentFile
+          ? toAgent(JSON.parse(currentFile.content))
+          : null;
+        if (attempt === 1) {
+          baseAgent = currentAgent;
         }
 
-        // Remove nested instructions object
-        delete transformedAgent.instructions;
-      }
-
-      // Handle icon.value -> avatar
-      if ((agent as any).icon?.value && !agent.avatar) {
-        transformedAgent.avatar = (agent as any).icon.value;
-        delete transformedAgent.icon;
-      }
-
-      let savedAgent: Agent;
-
-      if (isUpdate) {
-        const existing = await this.selectAgentById(
-          transformedAgent.id,
-          transformedAgent.userId,
-        );
-        if (!existing) {
-          throw new Error(`Agent with ID ${transformedAgent.id} not found`);
-        }
-
-        savedAgent = {
-          ...existing,
-          ...transformedAgent,
-          id: existing.id,
-          createdAt: existing.createdAt,
-          updatedAt: now,
-        };
-      } else {
-        savedAgent = {
+        const now = new Date();
+        const savedAgent: Agent = {
+          ...currentAgent,
+          name: agent.name,
+          description: agent.description,
+          icon: agent.icon,
+          userId: currentAgent?.userId ?? agent.userId,
+          isPublic: agent.isPublic ?? false,
+          instructions: agent.instructions,
           id,
-          ...transformedAgent,
-          createdAt: now,
+          createdAt: currentAgent?.createdAt ?? now,
           updatedAt: now,
         };
-      }
-
-      const filePath = `${AGENTS_PATH}/${id}.json`;
-      await client.writeFile(
-        repositoryName,
-        filePath,
-        JSON.stringify(savedAgent, null, 2),
-        `${isUpdate ? "Update" : "Create"} agent: ${savedAgent.name}`,
-      );
-
-      return savedAgent;
-    },
+        const mergedAgent: Agent = currentAgent
+          ? mergeFields(baseAgent, savedAgent, currentAgent)
+          : savedAgent;
+
+        await client.commitChanges(repositoryName, {
+          writes: [
+            {
+              path: filePath,
+              content: JSON.stringify(toAgentDocument(mergedAgent), null, 2),
+            },
+          ],
+          message: `${currentAgent ? "Update" : "Create"} agent: ${mergedAgent.name}`,
+          expectedShas: { [filePath]: currentFile?.sha ?? null },
+        });
 
-    async insertAgent(
-      agent: Omit<Agent, "id" | "createdAt" | "updatedAt">,
-    ): Promise<Agent> {
-      return this.upsertAgent(agent);
+        return mergedAgent;
+      });
     },
 
-    async updateAgent(
-      id: string,
-      userId: string,
-      update: Partial<Agent>,
-    ): Promise<Agent | null> {
-      try {
-        const existing = await this.selectAgentById(id, userId);
-        if (!existing || existing.userId !== userId) {
-          return null; // Can only update own agents
-        }
+    async deleteAgent(id, userId) {
+      const existing = await repository.selectAgentById(id, userId);
+      if (!existing) return;
 
-        return await this.upsertAgent({
-          ...existing,
-          ...update,
-          id: existing.id,
-          userId: existing.userId, // Prevent user change
-        });
-      } catch (error) {
-        console.error(`Failed to update agent ${id}:`, error);
-        return null;
-      }
+      await client.commitChanges(repositoryName, {
+        deletes: [getAgentPath(id)],
+        message: `Delete agent: ${existing.name}`,
+      });
     },
 
-    async deleteAgent(id: string, userId: string): Promise<void> {
-      try {
-        const existing = await this.selectAgentById(id, userId);
-        if (!existing || existing.userId !== userId) {
-          throw new Error("Agent not found or access denied");
+    async selectPublicAgents() {
+      const creatorNames = new Map<string, string>();
+      const agents: Awaited<ReturnType<AgentRepository["selectPublicAgents"]>> =
+        [];
+      for (const agent of await readAgents()) {
+        if (!agent.isPublic) continue;
+        if (!creatorNames.has(agent.userId)) {
+          const fileInfo = await client.readFile(
+            repositoryName,
+            `users/${agent.userId}.json`,
+          );
+          const profile = fileInfo ? JSON.parse(fileInfo.content) : {};
+          creatorNames.set(
+            agent.userId,
+            profile.name ?? profile.username ?? "",
+          );
         }
-
-        const filePath = `${AGENTS_PATH}/${id}.json`;
-        await client.deleteFile(
-          repositoryName,
-          filePath,
-          `Delete agent: ${existing.name}`,
-        );
-      } catch (error) {
-        console.error(`Failed to delete agent ${id}:`, error);
-        throw error;
+        agents.push({
+          ...withoutInstructions(agent),
+          creatorName: creatorNames.get(agent.userId)!,
+        });
       }
+      return agents;
     },
 
-    async findAll(): Promise<Agent[]> {
-      try {
-        const files = await client.listDirectory(repositoryName, AGENTS_PATH);
-        const agents: Agent[] = [];
-
-        for (const file of files) {
-          if (file.type === "file" && file.name.endsWith(".json")) {
-            try {
-              const fileInfo = await client.readFile(repositoryName, file.path);
-              if (fileInfo) {
-                agents.push(
-                  this.transformToFrontend(JSON.parse(fileInfo.content)),
-                );
-              }
-            } catch (error) {
-              console.error(`Failed to read agent file ${file.path}:`, error);
-            }
-          }
-        }
-
-        return agents;
-      } catch (error) {
-        console.error("Failed to get all agents:", error);
-        return [];
-      }
+    async selectPublicAgentById(id) {
+      const agent = await readAgent(id);
+      return agent?.isPublic ? agent : null;
     },
   };
+
+  return repository;
 }
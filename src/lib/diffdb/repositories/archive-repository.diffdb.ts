@@ -1,215 +1,221 @@
 /**
  * DiffDB Archive Repository
  *
- * GitHub-based implementation of archive repository that perfectly
- * simulates PostgreSQL behavior for archive operations.
+ * Git-based implementation of ArchiveRepository. Each archive is one
+ * document, its items are kept as a single list per archive.
  */
 
-import { DiffDBClient } from "../client";
+import type {
+  Archive,
+  ArchiveItem,
+  ArchiveRepository,
+  ArchiveWithItemCount,
+} from "app-types/archive";
+import { generateUUID } from "lib/utils";
+import type { DiffDBStorageBackend } from "../storage-backend";
 
-export interface Archive {
-  id: string;
-  userId: string;
-  title: string;
-  description?: string;
-  createdAt: string;
-  updatedAt: string;
+const ARCHIVES_PATH = "archives";
+const ARCHIVE_ITEMS_PATH = "archive_items";
+
+/**
+ * Archives written before the repository followed ArchiveRepository
+ * stored their name as `title`
+ */
+export function toArchive({ title, ...document }: any): Archive {
+  return {
+    ...document,
+    name: document.name ?? title,
+    description: document.description ?? null,
+    createdAt: new Date(document.createdAt),
+    updatedAt: new Date(document.updatedAt),
+  };
 }
 
-export interface ArchiveItem {
-  id: string;
-  archiveId: string;
-  itemId: string;
-  itemType: string;
-  addedAt: string;
+export function toArchiveItem(
+  { itemType: _itemType, ...document }: any,
+  userId: string,
+): ArchiveItem {
+  return {
+    ...document,
+    userId: document.userId ?? userId,
+    addedAt: new Date(document.addedAt),
+  };
 }
 
 export function createDiffDBArchiveRepository(
-  client: DiffDBClient,
+  client: DiffDBStorageBackend,
   repositoryName: string,
-) {
-  const ARCHIVES_PATH = "archives";
-  const ARCHIVE_ITEMS_PATH = "archive_items";
-
-  return {
-    async getArchiveById(id: string): Promise<Archive | null> {
+): ArchiveRepository {
+  const getArchivePath = (id: string) => `${ARCHIVES_PATH}/${id}.json`;
+  const getItemsPath = (archiveId: string) =>
+    `${ARCHIVE_ITEMS_PATH}/${archiveId}.json`;
+
+  async function readArchives(): Promise<Archive[]> {
+    const archives: Archive[] = [];
+    for (const file of await client.listDirectory(
+      repositoryName,
+      ARCHIVES_PATH,
+    )) {
+      if (file.type !== "file" || !file.name.endsWith(".json")) continue;
       try {
-        const filePath = `${ARCHIVES_PATH}/${id}.json`;
-        const fileInfo = await client.readFile(repositoryName, filePath);
-        return fileInfo ? JSON.parse(fileInfo.content) : null;
+        const fileInfo = await client.readFile(repositoryName, file.path);
+        if (fileInfo) archives.push(toArchive(JSON.parse(fileInfo.content)));
       } catch (error) {
-        console.error(`Failed to get archive ${id}:`, error);
-        return null;
+        console.error(`Failed to read archive file ${file.path}:`, error);
       }
-    },
-
-    async getArchivesByUserId(userId: string): Promise<Archive[]> {
-      try {
-        // List all archive files
-        const files = await client.listDirectory(repositoryName, ARCHIVES_PATH);
-        const archives: Archive[] = [];
-
-        // Read each archive file and filter by userId
-        for (const file of files) {
-          if (file.type === "file" && file.name.endsWith(".json")) {
-            try {
-              const fileInfo = await client.readFile(repositoryName, file.path);
-              if (fileInfo) {
-                const archive = JSON.parse(fileInfo.content);
-                if (archive.userId === userId) {
-                  archives.push(archive);
-                }
-              }
-            } catch (error) {
-              console.error(`Failed to read archive file ${file.path}:`, error);
-            }
-          }
-        }
-
-        return archives.sort(
-          (a, b) =>
-            new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
-        );
-      } catch (error) {
-        console.error(`Failed to get archives for user ${userId}:`, error);
-        return [];
-      }
-    },
-
-    async getArchiveItems(archiveId: string): Promise<ArchiveItem[]> {
-      try {
-        const filePath = `${ARCHIVE_ITEMS_PATH}/${archiveId}.json`;
-        const fileInfo = await client.readFile(repositoryName, filePath);
-        return fileInfo ? JSON.parse(fileInfo.content) : [];
-      } catch (error) {
-        console.error(`Failed to get archive items for ${archiveId}:`, error);
-        return [];
-      }
-    },
-
-    async create(
-      archive: Omit<Archive, "id" | "createdAt" | "updatedAt">,
-    ): Promise<Archive> {
-      const id = `archive_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      const now = new Date().toISOString();
-
+    }
+    return archives;
+  }
+
+  async function readItems(archiveId: string) {
+    const fileInfo = await client.readFile(
+      repositoryName,
+      getItemsPath(archiveId),
+    );
+    return {
+      items: (fileInfo ? JSON.parse(fileInfo.content) : []) as any[],
+      sha: fileInfo?.sha ?? null,
+    };
+  }
+
+  async function writeArchive(archive: Archive, message: string) {
+    await client.writeFile(
+      repositoryName,
+      getArchivePath(archive.id),
+      JSON.stringify(archive, null, 2),
+      message,
+    );
+  }
+
+  const repository: ArchiveRepository = {
+    async createArchive(archive) {
+      const now = new Date();
       const newArchive: Archive = {
-        id,
-        ...archive,
+        id: generateUUID(),
+        name: archive.name,
+        description: archive.description ?? null,
+        userId: archive.userId,
         createdAt: now,
         updatedAt: now,
       };
+      await writeArchive(newArchive, `Create archive: ${newArchive.name}`);
+      return newArchive;
+    },
 
-      const filePath = `${ARCHIVES_PATH}/${id}.json`;
-      await client.writeFile(
-        repositoryName,
-        filePath,
-        JSON.stringify(newArchive, null, 2),
-        `Create archive: ${newArchive.title}`,
+    async getArchivesByUserId(userId) {
+      const archives: ArchiveWithItemCount[] = [];
+      for (const archive of await readArchives()) {
+        if (archive.userId !== userId) continue;
+        const { items } = await readItems(archive.id);
+        archives.push({ ...archive, itemCount: items.length });
+      }
+      return archives.sort(
+        (a, b) => a.updatedAt.getTime() - b.updatedAt.getTime(),
       );
+    },
 
-      return newArchive;
+    async getArchiveById(id) {
+      const fileInfo = await client.readFile(
+        repositoryName,
+        getArchivePath(id),
+      );
+      return fileInfo ? toArchive(JSON.parse(fileInfo.content)) : null;
     },
 
-    async update(
-      id: string,
-      updates: Partial<Archive>,
-    ): Promise<Archive | null> {
-      const existing = await this.getArchiveById(id);
-      if (!existing) return null;
+    async updateArchive(id, archive) {
+      const existing = await repository.getArchiveById(id);
+      if (!existing) {
+        throw new Error(`Archive with ID ${id} not found`);
+      }
 
       const updated: Archive = {
         ...existing,
-        ...updates,
-        id: existing.id, // Prevent ID change
-        createdAt: existing.createdAt, // Prevent createdAt change
-        updatedAt: new Date().toISOString(),
+        name: archive.name ?? existing.name,
+        description:
+          archive.description !== undefined
+            ? archive.description
+            : existing.description,
+        updatedAt: new Date(),
       };
-
-      const filePath = `${ARCHIVES_PATH}/${id}.json`;
-      await client.writeFile(
-        repositoryName,
-        filePath,
-        JSON.stringify(updated, null, 2),
-        `Update archive: ${updated.title}`,
-      );
-
+      await writeArchive(updated, `Update archive: ${updated.name}`);
       return updated;
     },
 
-    async delete(id: string): Promise<void> {
-      try {
-        // Delete archive file
-        const archiveFilePath = `${ARCHIVES_PATH}/${id}.json`;
-        await client.deleteFile(
-          repositoryName,
-          archiveFilePath,
-          `Delete archive: ${id}`,
-        );
-
-        // Delete archive items file
-        const itemsFilePath = `${ARCHIVE_ITEMS_PATH}/${id}.json`;
-        try {
-          await client.deleteFile(
-            repositoryName,
-            itemsFilePath,
-            `Delete archive items: ${id}`,
-          );
-        } catch (_error) {
-          // Items file may not exist, which is fine
-        }
-      } catch (error) {
-        console.error(`Failed to delete archive ${id}:`, error);
-        throw error;
-      }
+    async deleteArchive(id) {
+      const archivePath = getArchivePath(id);
+      const itemsPath = getItemsPath(id);
+      const { sha } = await readItems(id);
+      await client.commitChanges(repositoryName, {
+        deletes: sha ? [archivePath, itemsPath] : [archivePath],
+        message: `Delete archive: ${id}`,
+      });
     },
 
-    async addItem(
-      archiveId: string,
-      itemId: string,
-      itemType: string,
-    ): Promise<ArchiveItem> {
-      const items = await this.getArchiveItems(archiveId);
+    async addItemToArchive(archiveId, itemId, userId) {
+      const archive = await repository.getArchiveById(archiveId);
+      const { items, sha } = await readItems(archiveId);
+
+      // Adding an item twice keeps the first entry
+      const existing = items.find((item) => item.itemId === itemId);
+      if (existing) return toArchiveItem(existing, archive?.userId ?? userId);
 
-      const newItem: ArchiveItem = {
-        id: `item_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      const item = {
+        id: generateUUID(),
         archiveId,
         itemId,
-        itemType,
-        addedAt: new Date().toISOString(),
+        userId,
+        addedAt: new Date(),
       };
-
-      items.push(newItem);
-
-      const filePath = `${ARCHIVE_ITEMS_PATH}/${archiveId}.json`;
-      await client.writeFile(
-        repositoryName,
-        filePath,
-        JSON.stringify(items, null, 2),
-        `Add item to archive: ${itemId}`,
-      );
-
-      return newItem;
+      await client.commitChanges(repositoryName, {
+        writes: [
+          {
+            path: getItemsPath(archiveId),
+            content: JSON.stringify([...items, item], null, 2),
+          },
+        ],
+        message: `Add item to archive: ${itemId}`,
+        expectedShas: { [getItemsPath(archiveId)]: sha },
+      });
+      return item;
     },
 
-    async removeItem(archiveId: string, itemId: string): Promise<void> {
-      const items = await this.getArchiveItems(archiveId);
-      const filteredItems = items.filter((item) => item.itemId !== itemId);
+    async removeItemFromArchive(archiveId, itemId) {
+      const { items, sha } = await readItems(archiveId);
+      const kept = items.filter((item) => item.itemId !== itemId);
+      if (kept.length === items.length) return;
+
+      await client.commitChanges(repositoryName, {
+        writes: [
+          {
+            path: getItemsPath(archiveId),
+            content: JSON.stringify(kept, null, 2),
+          },
+        ],
+        message: `Remove item from archive: ${itemId}`,
+        expectedShas: { [getItemsPath(archiveId)]: sha },
+      });
+    },
 
-      const filePath = `${ARCHIVE_ITEMS_PATH}/${archiveId}.json`;
-      await client.writeFile(
-        repositoryName,
-        filePath,
-        JSON.stringify(filteredItems, null, 2),
-        `Remove item from archive: ${itemId}`,
-      );
+    async getArchiveItems(archiveId) {
+      const archive = await repository.getArchiveById(archiveId);
+      const { items } = await readItems(archiveId);
+      return items
+        .map((item) => toArchiveItem(item, archive?.userId ?? ""))
+        .sort((a, b) => a.addedAt.getTime() - b.addedAt.getTime());
     },
 
-    // Compatibility methods for existing codebase
-    async findAll(): Promise<Archive[]> {
-      // This would need to get all archives across all users
-      // For now, return empty array since we don't have a current user context
-      return [];
+    async getItemArchives(itemId, userId) {
+      const archives: Archive[] = [];
+      for (const archive of await readArchives()) {
+        if (archive.userId !== userId) continue;
+        const { items } = await readItems(archive.id);
+        if (items.some((item) => item.itemId === itemId)) {
+          archives.push(archive);
+        }
+      }
+      return archives.sort((a, b) => a.name.localeCompare(b.name));
     },
   };
+
+  return repository;
 }
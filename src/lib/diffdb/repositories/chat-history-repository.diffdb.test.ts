@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { loadChatIndex } from "../chat-index";
+import { LocalGitStorageBackend } from "../local-git-backend";
+import { createDiffDBChatHistoryRepository } from "./chat-history-repository.diffdb";
+import { DiffDBChatRepository } from "./chat-repository.diffdb";
+
+const REPO = "diffchat-data";
+
+describe("DiffDB chat history", () => {
+  let baseDir: string;
+  let backend: LocalGitStorageBackend;
+  let chat: DiffDBChatRepository;
+  let history: ReturnType<typeof createDiffDBChatHistoryRepository>;
+
+  const message = (id: string, text: string, createdAt: number) => ({
+    id,
+    threadId: "t1",
+    role: "user" as const,
+    parts: [{ type: "text" as const, text }],
+    model: null,
+    createdAt: new Date(createdAt),
+  });
+
+  beforeEach(async () => {
+    baseDir = await mkdtemp(path.join(os.tmpdir(), "diffdb-history-"));
+    backend = new LocalGitStorageBackend(baseDir);
+    await backend.ensureRepository(REPO);
+    chat = new DiffDBChatRepository(backend, REPO);
+    history = createDiffDBChatHistoryRepository(backend, REPO);
+
+    await chat.insertThread({ id: "t1", title: "First", userId: "u1" });
+    await chat.insertMessages([
+      message("m1", "hello", 1000),
+      message("m2", "world", 2000),
+    ]);
+  });
+
+  afterEach(async () => {
+    await rm(baseDir, { recursive: true, force: true });
+  });
+
+  it("should list the commits of a thread, newest first", async () => {
+    await chat.insertThread({ id: "t2", title: "Other", userId: "u1" });
+    await chat.updateThread("t1", { title: "Renamed" });
+
+    const commits = await history.selectThreadHistory("t1");
+
+    expect(commits).toHaveLength(3);
+    expect(commits[0].message).toBe("Update thread: Renamed");
+    expect(commits.some((commit) => commit.message.includes("Other"))).toBe(
+      false,
+    );
+  });
+
+  it("should diff messages and title between commits", async () => {
+    const [before] = await history.selectThreadHistory("t1");
+    await chat.updateThread("t1", { title: "Renamed" });
+    await chat.upsertMessage(message("m2", "world!", 2000));
+    await chat.deleteChatMessage("m1");
+    await chat.upsertMessage(message("m3", "new", 3000));
+    const [after] = await history.selectThreadHistory("t1");
+
+    const diff = await history.diffThread("t1", before.sha, after.sha);
+
+    expect(diff.title).toEqual({ before: "First", after: "Renamed" });
+    expect(diff.added.map((m) => m.id)).toEqual(["m3"]);
+    expect(diff.removed.map((m) => m.id)).toEqual(["m1"]);
+    expect(diff.changed).toHaveLength(1);
+    expect(diff.changed[0].before.parts).toEqual([
+      { type: "text", text: "world" },
+    ]);
+  });
+
+  it("should restore a thread to a past commit", async () => {
+    const [snapshot] = await history.selectThreadHistory("t1");
+    await chat.updateThread("t1", { title: "Renamed" });
+    await chat.deleteChatMessage("m1");
+    await chat.upsertMessage(message("m3", "new", 3000));
+
+    expect(await history.restoreThread("t1", snapshot.sha)).toBeTruthy();
+
+    const thread = await chat.selectThread("t1");
+    const messages = await chat.selectMessagesByThreadId("t1");
+    expect(thread?.title).toBe("First");
+    expect(messages.map((m) => m.id)).toEqual(["m1", "m2"]);
+
+    const { index } = await loadChatIndex(backend, REPO);
+    expect(Object.keys(index.messages).sort()).toEqual(["m1", "m2"]);
+
+    // Restoring the same state again is a no-op
+    expect(await history.restoreThread("t1", snapshot.sha)).toBeNull();
+  });
+
+  it("should restore a single deleted message", async () => {
+    const [snapshot] = await history.selectThreadHistory("t1");
+    await chat.deleteChatMessage("m1");
+
+    const restored = await history.restoreMessage("t1", "m1", snapshot.sha);
+
+    expect(restored.parts).toEqual([{ type: "text", text: "hello" }]);
+    const messages = await chat.selectMessagesByThreadId("t1");
+    expect(messages.map((m) => m.id)).toEqual(["m1", "m2"]);
+  });
+
+  it("should reject invalid commit shas", async () => {
+    await expect(history.diffThread("t1", null, "HEAD")).rejects.toThrow(
+      "Invalid commit",
+    );
+    await expect(history.restoreThread("t1", "--all")).rejects.toThrow(
+      "Invalid commit",
+    );
+  });
+});
@@ -0,0 +1,267 @@
+/**
+ * DiffDB Chat History Repository
+ *
+ * Reads past versions of a chat thread from the commit history of the
+ * DiffDB repository. Restoring never rewrites history: the old state is
+ * committed again on top of the current one.
+ */
+
+import {
+  ChatHistoryCommit,
+  ChatHistoryDiff,
+  ChatHistoryRepository,
+  ChatMessage,
+  ChatThread,
+} from "app-types/chat";
+import equal from "lib/equal";
+import {
+  commitWithChatIndex,
+  indexMessages,
+  indexThread,
+  removeMessages,
+} from "../chat-index";
+import { withConflictRetry } from "../conflict";
+import type { DiffDBStorageBackend } from "../storage-backend";
+
+const COMMIT_SHA_PATTERN = /^[0-9a-f]{7,40}$/i;
+
+/**
+ * Thread and message documents as stored in the repository
+ */
+interface ThreadSnapshot {
+  thread: Record<string, any> | null;
+  messages: Record<string, any>[];
+}
+
+export function createDiffDBChatHistoryRepository(
+  client: DiffDBStorageBackend,
+  repositoryName: string,
+): ChatHistoryRepository {
+  const getThreadPath = (threadId: string) => `threads/thread-${threadId}.json`;
+  const getMessagesDir = (threadId: string) => `messages/thread-${threadId}`;
+  const getMessagePath = (threadId: string, messageId: string) =>
+    `${getMessagesDir(threadId)}/message-${messageId}.json`;
+
+  function assertCommitSha(sha: string) {
+    if (!COMMIT_SHA_PATTERN.test(sha)) {
+      throw new Error(`Invalid commit: ${sha}`);
+    }
+  }
+
+  function toChatMessage(document: Record<string, any>): ChatMessage {
+    return {
+      id: document.id,
+      threadId: document.threadId,
+      role: document.role,
+      parts: document.parts,
+      attachments: document.attachments || null,
+      annotations: document.annotations || null,
+      model: document.model || null,
+      createdAt: new Date(document.createdAt),
+    } as ChatMessage;
+  }
+
+  /**
+   * Read a thread and its messages as of a commit (HEAD when omitted)
+   */
+  async function readSnapshot(
+    threadId: string,
+    sha?: string,
+  ): Promise<ThreadSnapshot> {
+    const threadFile = await client.readFile(
+      repositoryName,
+      getThreadPath(threadId),
+      sha,
+    );
+    const messageFiles = await client.listDirectory(
+      repositoryName,
+      getMessagesDir(threadId),
+      sha,
+    );
+
+    const messages: Record<string, any>[] = [];
+    for (const messageFile of messageFiles) {
+      if (messageFile.type !== "file" || !messageFile.name.endsWith(".json")) {
+        continue;
+      }
+      const messageContent = await client.readFile(
+        repositoryName,
+        messageFile.path,
+        sha,
+      );
+      if (messageContent) {
+        messages.push(JSON.parse(messageContent.content));
+      }
+    }
+
+    return {
+      thread: threadFile ? JSON.parse(threadFile.content) : null,
+      messages: messages.sort(
+        (a, b) =>
+          new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime(),
+      ),
+    };
+  }
+
+  return {
+    /**
+     * List the commits that touched a thread or its messages, newest first
+     */
+    async selectThreadHistory(
+      threadId: string,
+      limit: number = 50,
+    ): Promise<ChatHistoryCommit[]> {
+      return client.listCommits(
+        repositoryName,
+        [getThreadPath(threadId), getMessagesDir(threadId)],
+        limit,
+      );
+    },
+
+    /**
+     * Compare the messages of a thread between two commits
+     */
+    async diffThread(
+      threadId: string,
+      fromSha: string | null,
+      toSha: string,
+    ): Promise<ChatHistoryDiff> {
+      if (fromSha) assertCommitSha(fromSha);
+      assertCommitSha(toSha);
+
+      const [before, after] = await Promise.all([
+        fromSha
+          ? readSnapshot(threadId, fromSha)
+          : Promise.resolve<ThreadSnapshot>({ thread: null, messages: [] }),
+        readSnapshot(threadId, toSha),
+      ]);
+
+      const beforeById = new Map(before.messages.map((m) => [m.id, m]));
+      const afterById = new Map(after.messages.map((m) => [m.id, m]));
+
+      // Bookkeeping such as _metadata.updated_at isn't a content change
+      const content = ({ _metadata: _ignored, ...message }: any) => message;
+
+      const diff: ChatHistoryDiff = {
+        from: fromSha,
+        to: toSha,
+        added: after.messages
+          .filter((message) => !beforeById.has(message.id))
+          .map(toChatMessage),
+        removed: before.messages
+          .filter((message) => !afterById.has(message.id))
+          .map(toChatMessage),
+        changed: after.messages
+          .filter(
+            (message) =>
+              beforeById.has(message.id) &&
+              !equal(content(beforeById.get(message.id)), content(message)),
+          )
+          .map((message) => ({
+            before: toChatMessage(beforeById.get(message.id)!),
+            after: toChatMessage(message),
+          })),
+      };
+
+      const titleBefore = before.thread?.title ?? null;
+      const titleAfter = after.thread?.title ?? null;
+      if (titleBefore !== titleAfter) {
+        diff.title = { before: titleBefore, after: titleAfter };
+      }
+
+      return diff;
+    },
+
+    /**
+     * Restore a thread and all of its messages to their state at a commit.
+     * Messages added since then are deleted. Returns the new commit sha, or
+     * null when the thread already matches that state.
+     */
+    async restoreThread(threadId: string, sha: string): Promise<string | null> {
+      assertCommitSha(sha);
+
+      return withConflictRetry(async () => {
+        const [past, current] = await Promise.all([
+          readSnapshot(threadId, sha),
+          readSnapshot(threadId),
+        ]);
+        if (!past.thread) {
+          throw new Error(`Thread ${threadId} did not exist at ${sha}`);
+        }
+
+        const pastIds = new Set(past.messages.map((message) => message.id));
+        const removedIds = current.messages
+          .map((message) => message.id)
+          .filter((id) => !pastIds.has(id));
+
+        const result = await commitWithChatIndex(
+          client,
+          repositoryName,
+          {
+            writes: [
+              {
+                path: getThreadPath(threadId),
+                content: JSON.stringify(past.thread, null, 2),
+              },
+              ...past.messages.map((message) => ({
+                path: getMessagePath(threadId, message.id),
+                content: JSON.stringify(message, null, 2),
+              })),
+            ],
+            deletes: removedIds.map((id) => getMessagePath(threadId, id)),
+            message: `Restore thread ${threadId} to ${sha.slice(0, 7)}`,
+          },
+          (index) => {
+            removeMessages(index, removedIds);
+            indexThread(index, past.thread as ChatThread);
+            indexMessages(index, past.messages as ChatMessage[]);
+          },
+        );
+
+        return result?.sha ?? null;
+      });
+    },
+
+    /**
+     * Restore a single message (e.g. a deleted one) to its state at a commit
+     */
+    async restoreMessage(
+      threadId: string,
+      messageId: string,
+      sha: string,
+    ): Promise<ChatMessage> {
+      assertCommitSha(sha);
+
+      const messagePath = getMessagePath(threadId, messageId);
+      const messageFile = await client.readFile(
+        repositoryName,
+        messagePath,
+        sha,
+      );
+      if (!messageFile) {
+        throw new Error(`Message ${messageId} did not exist at ${sha}`);
+      }
+      if (!(await client.readFile(repositoryName, getThreadPath(threadId)))) {
+        throw new Error(
+          `Thread ${threadId} no longer exists, restore the thread instead`,
+        );
+      }
+
+      const document = JSON.parse(messageFile.content);
+
+      await withConflictRetry(() =>
+        commitWithChatIndex(
+          client,
+          repositoryName,
+          {
+            writes: [{ path: messagePath, content: messageFile.content }],
+            message: `Restore message ${messageId} from ${sha.slice(0, 7)}`,
+          },
+          (index) => indexMessages(index, [document]),
+        ),
+      );
+
+      return toChatMessage(document);
+    },
+  };
+}
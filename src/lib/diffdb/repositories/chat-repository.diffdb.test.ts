@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { loadChatIndex } from "../chat-index";
+import { LocalGitStorageBackend } from "../local-git-backend";
+import { DiffDBChatRepository } from "./chat-repository.diffdb";
+
+const REPO = "diffchat-data";
+
+describe("DiffDBChatRepository branches", () => {
+  let baseDir: string;
+  let backend: LocalGitStorageBackend;
+  let repository: DiffDBChatRepository;
+
+  const message = (id: string, createdAt: number) => ({
+    id,
+    threadId: "t1",
+    role: "user" as const,
+    parts: [{ type: "text" as const, text: id }],
+    model: null,
+    createdAt: new Date(createdAt),
+  });
+
+  const messageIds = async (threadId: string) =>
+    (await repository.selectMessagesByThreadId(threadId)).map((m) => m.id);
+
+  beforeEach(async () => {
+    baseDir = await mkdtemp(path.join(os.tmpdir(), "diffdb-branches-"));
+    backend = new LocalGitStorageBackend(baseDir);
+    await backend.ensureRepository(REPO);
+    repository = new DiffDBChatRepository(backend, REPO);
+
+    await repository.insertThread({ id: "t1", title: "One", userId: "u1" });
+    await repository.insertMessages([
+      message("u1", 1000),
+      message("a1", 2000),
+      message("u2", 3000),
+      message("a2", 4000),
+    ]);
+  });
+
+  afterEach(async () => {
+    await rm(baseDir, { recursive: true, force: true });
+  });
+
+  it("should keep forked messages in a hidden branch thread", async () => {
+    const branch = await repository.forkThreadAt("t1", "u2");
+
+    expect(branch).toMatchObject({
+      parentThreadId: "t1",
+      forkedFromMessageId: "a1",
+    });
+    expect(await messageIds("t1")).toEqual(["u1", "a1"]);
+    expect(await messageIds(branch.id)).toEqual(["u2", "a2"]);
+
+    const threads = await repository.selectThreadsByUserId("u1");
+    expect(threads.map((thread) => thread.id)).toEqual(["t1"]);
+  });
+
+  it("should switch between sibling branches", async () => {
+    const branch = await repository.forkThreadAt("t1", "u2");
+    await repository.insertMessages([message("u2-edit", 5000)]);
+
+    let [point] = await repository.selectThreadBranches("t1");
+    expect(point).toEqual({
+      forkedFromMessageId: "a1",
+      branches: [
+        { threadId: branch.id, firstMessageId: "u2" },
+        { threadId: "t1", firstMessageId: "u2-edit" },
+      ],
+      activeIndex: 1,
+    });
+
+    const messages = await repository.switchThreadBranch("t1", branch.id);
+    expect(messages.map((m) => m.id)).toEqual(["u1", "a1", "u2", "a2"]);
+    expect(await messageIds(branch.id)).toEqual(["u2-edit"]);
+
+    [point] = await repository.selectThreadBranches("t1");
+    expect(point.activeIndex).toBe(0);
+
+    const { index } = await loadChatIndex(backend, REPO);
+    expect(index.messages["u2-edit"].threadId).toBe(branch.id);
+    expect(index.threads.t1.lastMessageAt).toBe(4000);
+  });
+
+  it("should delete the branches of a deleted thread", async () => {
+    const branch = await repository.forkThreadAt("t1", "u1");
+    expect(branch.forkedFromMessageId).toBeNull();
+
+    await repository.deleteThread("t1");
+
+    expect(await repository.selectThread(branch.id)).toBeNull();
+    const { index } = await loadChatIndex(backend, REPO);
+    expect(index.threads).toEqual({});
+    expect(index.messages).toEqual({});
+  });
+});
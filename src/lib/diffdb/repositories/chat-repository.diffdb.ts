@@ -6,14 +6,51 @@
  * storing all data in GitHub repositories instead of PostgreSQL.
  */
 
-import { ChatMessage, ChatRepository, ChatThread } from "app-types/chat";
-import { DiffDBClient } from "../client";
+import {
+  ChatBranchPoint,
+  ChatMessage,
+  ChatRepository,
+  ChatThread,
+} from "app-types/chat";
+import {
+  buildBranchPoints,
+  getMessagesAfter,
+  splitAtMessage,
+} from "lib/chat-branches";
+import { DiffDBConflictError } from "lib/errors";
+import { generateUUID } from "lib/utils";
+import { DiffDBChangeSet, DiffDBFileWrite } from "../client";
+import type { DiffDBStorageBackend } from "../storage-backend";
+import { mergeAppendOnly, withConflictRetry } from "../conflict";
+import {
+  ChatIndex,
+  commitWithChatIndex,
+  getIndexedMessageIds,
+  indexMessages,
+  indexThread,
+  loadChatIndex,
+  removeMessages,
+  removeThreads,
+} from "../chat-index";
+
+const ARCHIVE_ITEMS_PATH = "archive_items";
+
+/**
+ * A stored message document with the location it was read from
+ */
+interface StoredMessageFile {
+  id: string;
+  createdAt: string;
+  path: string;
+  sha: string;
+  document: any;
+}
 
 export class DiffDBChatRepository implements ChatRepository {
-  private client: DiffDBClient;
+  private client: DiffDBStorageBackend;
   private repoName: string;
 
-  constructor(client: DiffDBClient, repoName: string) {
+  constructor(client: DiffDBStorageBackend, repoName: string) {
     this.client = client;
     this.repoName = repoName;
   }
@@ -31,27 +68,19 @@ export class DiffDBChatRepository implements ChatRepository {
         createdAt: now,
       };
 
-      const threadPath = `threads/thread-${thread.id}.json`;
-      const threadData = {
-        ...newThread,
-        createdAt: now.toISOString(),
-        _metadata: {
-          type: "thread",
-          version: "1.0.0",
-          created_at: now.toISOString(),
-          updated_at: now.toISOString(),
-        },
-      };
-
-      await this.client.writeFile(
-        this.repoName,
-        threadPath,
-        JSON.stringify(threadData, null, 2),
-        `Create chat thread: ${thread.title || thread.id}`,
+      await withConflictRetry(() =>
+        this.commitWithIndex(
+          {
+            writes: [this.toThreadWrite(newThread)],
+            message: `Create chat thread: ${thread.title || thread.id}`,
+          },
+          (index) => indexThread(index, newThread),
+        ),
       );
 
       return newThread;
     } catch (error) {
+      if (error instanceof DiffDBConflictError) throw error;
       console.error("DiffDB: Failed to insert thread:", error);
       throw new Error(
         `Failed to create chat thread: ${error instanceof Error ? error.message : "Unknown error"}`,
@@ -64,31 +93,24 @@ export class DiffDBChatRepository implements ChatRepository {
    */
   async deleteChatMessage(id: string): Promise<void> {
     try {
-      // Find which thread contains this message
-      const threads = await this.client.listDirectory(this.repoName, "threads");
-
-      for (const threadFile of threads) {
-        if (threadFile.type === "file" && threadFile.name.endsWith(".json")) {
-          const threadId = threadFile.name
-            .replace("thread-", "")
-            .replace(".json", "");
-          const messagePath = `messages/thread-${threadId}/message-${id}.json`;
-
-          const messageExists = await this.client.readFile(
-            this.repoName,
-            messagePath,
-          );
-          if (messageExists) {
-            await this.client.deleteFile(
-              this.repoName,
-              messagePath,
-              `Delete message ${id}`,
-            );
-            return;
-          }
+      await withConflictRetry(async () => {
+        // The message index knows which thread contains this message
+        const { index } = await loadChatIndex(this.client, this.repoName);
+        const indexed = index.messages[id];
+        if (!indexed) {
+          return; // Message not found
         }
-      }
+
+        await this.commitWithIndex(
+          {
+            deletes: [this.getMessagePath(indexed.threadId, id)],
+            message: `Delete message ${id}`,
+          },
+          (index) => removeMessages(index, [id]),
+        );
+      });
     } catch (error) {
+      if (error instanceof DiffDBConflictError) throw error;
       throw new Error(`Failed to delete message ${id}: ${error}`);
     }
   }
@@ -111,6 +133,9 @@ export class DiffDBChatRepository implements ChatRepository {
         title: threadData.title,
         userId: threadData.userId,
         createdAt: new Date(threadData.createdAt),
+        parentThreadId: threadData.parentThreadId ?? null,
+        forkedFromMessageId: threadData.forkedFromMessageId ?? null,
+        allowedTools: threadData.allowedTools ?? null,
       };
     } catch (error) {
       throw new Error(`Failed to select thread ${id}: ${error}`);
@@ -148,6 +173,7 @@ export class DiffDBChatRepository implements ChatRepository {
         title: thread.title,
         userId: thread.userId,
         createdAt: thread.createdAt,
+        allowedTools: thread.allowedTools,
         userPreferences,
         messages,
       };
@@ -161,40 +187,8 @@ export class DiffDBChatRepository implements ChatRepository {
    */
   async selectMessagesByThreadId(threadId: string): Promise<ChatMessage[]> {
     try {
-      const messagesDir = `messages/thread-${threadId}`;
-      const messageFiles = await this.client.listDirectory(
-        this.repoName,
-        messagesDir,
-      );
-
-      const messages: ChatMessage[] = [];
-
-      for (const messageFile of messageFiles) {
-        if (messageFile.type === "file" && messageFile.name.endsWith(".json")) {
-          const messageContent = await this.client.readFile(
-            this.repoName,
-            messageFile.path,
-          );
-          if (messageContent) {
-            const messageData = JSON.parse(messageContent.content);
-            messages.push({
-              id: messageData.id,
-              threadId: messageData.threadId,
-              role: messageData.role,
-              parts: messageData.parts,
-              attachments: messageData.attachments || null,
-              annotations: messageData.annotations || null,
-              model: messageData.model || null,
-              createdAt: new Date(messageData.createdAt),
-            });
-          }
-        }
-      }
-
-      // Sort by creation time
-      return messages.sort(
-        (a, b) => a.createdAt.getTime() - b.createdAt.getTime(),
-      );
+      const messageFiles = await this.readMessageFiles(threadId);
+      return messageFiles.map(({ document }) => this.toChatMessage(document));
     } catch (error) {
       // Return empty array if messages directory doesn't exist yet
       if (error instanceof Error && error.message.includes("404")) {
@@ -208,48 +202,24 @@ export class DiffDBChatRepository implements ChatRepository {
 
   /**
    * Select threads by user ID with last message timestamp
+   *
+   * Served from the threads index instead of reading every thread and
+   * message file.
    */
   async selectThreadsByUserId(
     userId: string,
   ): Promise<(ChatThread & { lastMessageAt: number })[]> {
     try {
-      const threadsDir = await this.client.listDirectory(
-        this.repoName,
-        "threads",
-      );
-      const userThreads: (ChatThread & { lastMessageAt: number })[] = [];
-
-      for (const threadFile of threadsDir) {
-        if (threadFile.type === "file" && threadFile.name.endsWith(".json")) {
-          const threadContent = await this.client.readFile(
-            this.repoName,
-            threadFile.path,
-          );
-          if (threadContent) {
-            const threadData = JSON.parse(threadContent.content);
-
-            // Only include threads for this user
-            if (threadData.userId === userId) {
-              // Get last message timestamp
-              const messages = await this.selectMessagesByThreadId(
-                threadData.id,
-              );
-              const lastMessageAt =
-                messages.length > 0
-                  ? Math.max(...messages.map((m) => m.createdAt.getTime()))
-                  : new Date(threadData.createdAt).getTime();
-
-              userThreads.push({
-                id: threadData.id,
-                title: threadData.title,
-                userId: threadData.userId,
-                createdAt: new Date(threadData.createdAt),
-                lastMessageAt,
-              });
-            }
-          }
-        }
-      }
+      const { index } = await loadChatIndex(this.client, this.repoName);
+      const userThreads = Object.values(index.threads)
+        .filter((thread) => thread.userId === userId && !thread.parentThreadId)
+        .map((thread) => ({
+          id: thread.id,
+          title: thread.title,
+          userId: thread.userId,
+          createdAt: new Date(thread.createdAt),
+          lastMessageAt: thread.lastMessageAt,
+        }));
 
       // Sort by last message timestamp (descending)
       return userThreads.sort((a, b) => b.lastMessageAt - a.lastMessageAt);
@@ -260,6 +230,9 @@ export class DiffDBChatRepository implements ChatRepository {
 
   /**
    * Update a thread
+   *
+   * Only the given fields are applied on top of the latest stored thread,
+   * so concurrent updates to different fields both survive.
    */
   async updateThread(
     id: string,
@@ -267,32 +240,43 @@ export class DiffDBChatRepository implements ChatRepository {
   ): Promise<ChatThread> {
     try {
       const threadPath = `threads/thread-${id}.json`;
-      const existingThread = await this.client.readFile(
-        this.repoName,
-        threadPath,
-      );
 
-      if (!existingThread) {
-        throw new Error(`Thread ${id} not found`);
-      }
+      const updatedThread = await withConflictRetry(async () => {
+        const existingThread = await this.client.readFile(
+          this.repoName,
+          threadPath,
+        );
 
-      const threadData = JSON.parse(existingThread.content);
-      const updatedThread = {
-        ...threadData,
-        ...thread,
-        _metadata: {
-          ...threadData._metadata,
-          updated_at: new Date().toISOString(),
-        },
-      };
+        if (!existingThread) {
+          throw new Error(`Thread ${id} not found`);
+        }
 
-      await this.client.writeFile(
-        this.repoName,
-        threadPath,
-        JSON.stringify(updatedThread, null, 2),
-        `Update thread: ${thread.title || id}`,
-        existingThread.sha,
-      );
+        const threadData = JSON.parse(existingThread.content);
+        const updatedThread = {
+          ...threadData,
+          ...thread,
+          _metadata: {
+            ...threadData._metadata,
+            updated_at: new Date().toISOString(),
+          },
+        };
+
+        await this.commitWithIndex(
+          {
+            writes: [
+              {
+                path: threadPath,
+                content: JSON.stringify(updatedThread, null, 2),
+              },
+            ],
+            message: `Update thread: ${thread.title || id}`,
+            expectedShas: { [threadPath]: existingThread.sha },
+          },
+          (index) => indexThread(index, updatedThread),
+        );
+
+        return updatedThread;
+      });
 
       return {
         id: updatedThread.id,
@@ -301,6 +285,7 @@ export class DiffDBChatRepository implements ChatRepository {
         createdAt: new Date(updatedThread.createdAt),
       };
     } catch (error) {
+      if (error instanceof DiffDBConflictError) throw error;
       throw new Error(`Failed to update thread ${id}: ${error}`);
     }
   }
@@ -321,33 +306,35 @@ export class DiffDBChatRepository implements ChatRepository {
   }
 
   /**
-   * Delete a thread and all its messages
+   * Delete a thread, its branches and all their messages in a single commit
    */
   async deleteThread(id: string): Promise<void> {
     try {
-      // Delete all messages in the thread
-      const messagesDir = `messages/thread-${id}`;
-      const messageFiles = await this.client.listDirectory(
-        this.repoName,
-        messagesDir,
-      );
-
-      for (const messageFile of messageFiles) {
-        if (messageFile.type === "file") {
-          await this.client.deleteFile(this.repoName, messageFile.path);
+      await withConflictRetry(async () => {
+        const { index } = await loadChatIndex(this.client, this.repoName);
+        const threadIds = [
+          id,
+          ...Object.values(index.threads)
+            .filter((thread) => thread.parentThreadId === id)
+            .map((thread) => thread.id),
+        ];
+        const deletes: string[] = [];
+        for (const threadId of threadIds) {
+          deletes.push(...(await this.listMessagePaths(threadId)));
+          deletes.push(`threads/thread-${threadId}.json`);
         }
-      }
-
-      // Delete the thread file
-      const threadPath = `threads/thread-${id}.json`;
-      await this.client.deleteFile(
-        this.repoName,
-        threadPath,
-        `Delete thread ${id}`,
-      );
 
-      // TODO: Remove from archives when archive adapter is implemented
+        await this.commitWithIndex(
+          {
+            writes: await this.removeFromArchives(threadIds),
+            deletes,
+            message: `Delete thread ${id}`,
+          },
+          (index) => removeThreads(index, threadIds),
+        );
+      });
     } catch (error) {
+      if (error instanceof DiffDBConflictError) throw error;
       throw new Error(`Failed to delete thread ${id}: ${error}`);
     }
   }
@@ -365,26 +352,28 @@ export class DiffDBChatRepository implements ChatRepository {
         createdAt: now,
       };
 
-      const messagePath = `messages/thread-${message.threadId}/message-${message.id}.json`;
-      const messageData = {
-        ...newMessage,
-        createdAt: now.toISOString(),
-        _metadata: {
-          type: "message",
-          version: "1.0.0",
-          created_at: now.toISOString(),
-        },
-      };
-
-      await this.client.writeFile(
-        this.repoName,
-        messagePath,
-        JSON.stringify(messageData, null, 2),
-        `Add message to thread ${message.threadId}`,
+      await withConflictRetry(() =>
+        this.commitWithIndex(
+          {
+            writes: [
+              {
+                path: this.getMessagePath(message.threadId, message.id),
+                content: JSON.stringify(
+                  this.toMessageDocument(newMessage),
+                  null,
+                  2,
+                ),
+              },
+            ],
+            message: `Add message to thread ${message.threadId}`,
+          },
+          (index) => indexMessages(index, [newMessage]),
+        ),
       );
 
       return newMessage;
     } catch (error) {
+      if (error instanceof DiffDBConflictError) throw error;
       console.error("DiffDB: Failed to insert message:", error);
       throw new Error(
         `Failed to save chat message: ${error instanceof Error ? error.message : "Unknown error"}`,
@@ -398,46 +387,105 @@ export class DiffDBChatRepository implements ChatRepository {
   async upsertMessage(
     message: Omit<ChatMessage, "createdAt">,
   ): Promise<ChatMessage> {
+    const [upserted] = await this.upsertMessages([message]);
+    return upserted;
+  }
+
+  /**
+   * Upsert multiple messages in a single commit
+   *
+   * Parts and annotations are written as given. Only when a stored message
+   * changed concurrently (detected by a conflict retry) are they merged
+   * append-only, so the other writer's parts are kept.
+   */
+  async upsertMessages(
+    messages: Omit<ChatMessage, "createdAt">[],
+  ): Promise<ChatMessage[]> {
+    // Message file shas seen by the first attempt
+    const baseShas: Record<string, string | null> = {};
+
     try {
-      const messagePath = `messages/thread-${message.threadId}/message-${message.id}.json`;
-      const existingMessage = await this.client.readFile(
-        this.repoName,
-        messagePath,
-      );
+      return await withConflictRetry(async (attempt) => {
+        const now = new Date();
+        const writes: DiffDBFileWrite[] = [];
+        const expectedShas: Record<string, string | null> = {};
+        const results: ChatMessage[] = [];
+
+        for (const message of messages) {
+          const messagePath = this.getMessagePath(message.threadId, message.id);
+          const existingMessage = await this.client.readFile(
+            this.repoName,
+            messagePath,
+          );
+          expectedShas[messagePath] = existingMessage?.sha ?? null;
+          if (attempt === 1) {
+            baseShas[messagePath] = existingMessage?.sha ?? null;
+          }
 
-      if (existingMessage) {
-        // Update existing message
-        const messageData = JSON.parse(existingMessage.content);
-        const updatedMessage = {
-          ...messageData,
-          parts: message.parts,
-          annotations: message.annotations,
-          attachments: message.attachments,
-          model: message.model,
-          _metadata: {
-            ...messageData._metadata,
-            updated_at: new Date().toISOString(),
-          },
-        };
+          if (existingMessage) {
+            // Update existing message
+            const messageData = JSON.parse(existingMessage.content);
+            const changedConcurrently =
+              attempt > 1 && baseShas[messagePath] !== existingMessage.sha;
+            const updatedMessage = {
+              ...messageData,
+              parts: changedConcurrently
+                ? mergeAppendOnly(messageData.parts, message.parts)
+                : message.parts,
+              annotations: changedConcurrently
+                ? mergeAppendOnly(
+                    messageData.annotations ?? [],
+                    message.annotations ?? [],
+                  )
+                : message.annotations,
+              attachments: message.attachments,
+              model: message.model,
+              _metadata: {
+                ...messageData._metadata,
+                updated_at: now.toISOString(),
+              },
+            };
+            writes.push({
+              path: messagePath,
+              content: JSON.stringify(updatedMessage, null, 2),
+            });
+            results.push({
+              ...message,
+              parts: updatedMessage.parts,
+              annotations: updatedMessage.annotations,
+              createdAt: new Date(messageData.createdAt),
+            } as ChatMessage);
+          } else {
+            // Insert new message
+            const newMessage: ChatMessage = { ...message, createdAt: now };
+            writes.push({
+              path: messagePath,
+              content: JSON.stringify(
+                this.toMessageDocument(newMessage),
+                null,
+                2,
+              ),
+            });
+            results.push(newMessage);
+          }
+        }
 
-        await this.client.writeFile(
-          this.repoName,
-          messagePath,
-          JSON.stringify(updatedMessage, null, 2),
-          `Update message ${message.id}`,
-          existingMessage.sha,
+        await this.commitWithIndex(
+          {
+            writes,
+            message: this.describeMessageBatch("Save", messages),
+            expectedShas,
+          },
+          (index) => indexMessages(index, results),
         );
 
-        return {
-          ...message,
-          createdAt: new Date(messageData.createdAt),
-        } as ChatMessage;
-      } else {
-        // Insert new message
-        return await this.insertMessage(message);
-      }
+        return results;
+      });
     } catch (error) {
-      throw new Error(`Failed to upsert message ${message.id}: ${error}`);
+      if (error instanceof DiffDBConflictError) throw error;
+      throw new Error(
+        `Failed to upsert messages ${messages.map((m) => m.id).join(", ")}: ${error}`,
+      );
     }
   }
 
@@ -446,90 +494,495 @@ export class DiffDBChatRepository implements ChatRepository {
    */
   async deleteMessagesByChatIdAfterTimestamp(messageId: string): Promise<void> {
     try {
-      // First find the target message to get its thread and timestamp
-      const threads = await this.client.listDirectory(this.repoName, "threads");
-      let targetMessage: ChatMessage | null = null;
-      let targetThreadId: string | null = null;
-
-      // Find the message
-      for (const threadFile of threads) {
-        if (threadFile.type === "file" && threadFile.name.endsWith(".json")) {
-          const threadId = threadFile.name
-            .replace("thread-", "")
-            .replace(".json", "");
-          const messagePath = `messages/thread-${threadId}/message-${messageId}.json`;
-
-          const messageFile = await this.client.readFile(
-            this.repoName,
-            messagePath,
-          );
-          if (messageFile) {
-            const messageData = JSON.parse(messageFile.content);
-            targetMessage = {
-              ...messageData,
-              createdAt: new Date(messageData.createdAt),
-            };
-            targetThreadId = threadId;
-            break;
-          }
+      await withConflictRetry(async () => {
+        // The message index has the thread and timestamp of every message
+        const { index } = await loadChatIndex(this.client, this.repoName);
+        const target = index.messages[messageId];
+        if (!target) {
+          return; // Message not found
         }
-      }
 
-      if (!targetMessage || !targetThreadId) {
-        return; // Message not found
-      }
+        // Delete messages created at or after the target message in one commit
+        const messageIds = getIndexedMessageIds(index, target.threadId).filter(
+          (id) => index.messages[id].createdAt >= target.createdAt,
+        );
 
-      // Get all messages in the thread
-      const messages = await this.selectMessagesByThreadId(targetThreadId);
+        await this.commitWithIndex(
+          {
+            deletes: messageIds.map((id) =>
+              this.getMessagePath(target.threadId, id),
+            ),
+            message: `Delete messages after ${messageId} in thread ${target.threadId}`,
+          },
+          (index) => removeMessages(index, messageIds),
+        );
+      });
+    } catch (error) {
+      if (error instanceof DiffDBConflictError) throw error;
+      throw new Error(`Failed to delete messages after ${messageId}: ${error}`);
+    }
+  }
+
+  /**
+   * Move a message and everything after it into a new hidden branch thread,
+   * so the thread can continue differently without losing those turns
+   */
+  async forkThreadAt(threadId: string, messageId: string): Promise<ChatThread> {
+    try {
+      return await withConflictRetry(async () => {
+        const thread = await this.selectThread(threadId);
+        if (!thread) {
+          throw new Error(`Thread ${threadId} not found`);
+        }
 
-      // Delete messages created at or after the target message
-      for (const message of messages) {
-        if (message.createdAt >= targetMessage.createdAt) {
-          const messagePath = `messages/thread-${targetThreadId}/message-${message.id}.json`;
-          await this.client.deleteFile(this.repoName, messagePath);
+        const messageFiles = await this.readMessageFiles(threadId);
+        const fork = splitAtMessage(messageFiles, messageId);
+        if (!fork) {
+          throw new Error(`Message ${messageId} not found in thread`);
         }
+
+        const branch: ChatThread = {
+          id: generateUUID(),
+          title: thread.title,
+          userId: thread.userId,
+          createdAt: new Date(),
+          parentThreadId: threadId,
+          forkedFromMessageId: fork.forkedFromMessageId,
+        };
+        const move = this.moveMessageFiles(fork.tail, branch.id);
+
+        await this.commitWithIndex(
+          {
+            writes: [this.toThreadWrite(branch), ...move.writes],
+            deletes: move.deletes,
+            message: `Fork thread ${threadId} at message ${messageId}`,
+            expectedShas: move.expectedShas,
+          },
+          (index) => {
+            indexThread(index, branch);
+            removeMessages(index, move.messageIds);
+            indexMessages(index, move.messages);
+          },
+        );
+
+        return branch;
+      });
+    } catch (error) {
+      if (error instanceof DiffDBConflictError) throw error;
+      throw new Error(`Failed to fork thread ${threadId}: ${error}`);
+    }
+  }
+
+  /**
+   * Select the branch points of a thread from the chat index
+   */
+  async selectThreadBranches(threadId: string): Promise<ChatBranchPoint[]> {
+    try {
+      const { index } = await loadChatIndex(this.client, this.repoName);
+      const toBranchMessages = (id: string) =>
+        getIndexedMessageIds(index, id).map((messageId) => ({
+          id: messageId,
+          createdAt: index.messages[messageId].createdAt,
+        }));
+
+      const branchIds = Object.values(index.threads)
+        .filter((thread) => thread.parentThreadId === threadId)
+        .map((thread) => thread.id);
+      if (branchIds.length === 0) {
+        return [];
       }
+
+      const branches = await Promise.all(
+        branchIds.map(async (branchId) => ({
+          threadId: branchId,
+          forkedFromMessageId:
+            (await this.selectThread(branchId))?.forkedFromMessageId ?? null,
+          messages: toBranchMessages(branchId),
+        })),
+      );
+
+      return buildBranchPoints(threadId, toBranchMessages(threadId), branches);
     } catch (error) {
-      throw new Error(`Failed to delete messages after ${messageId}: ${error}`);
+      throw new Error(
+        `Failed to select branches of thread ${threadId}: ${error}`,
+      );
     }
   }
 
   /**
-   * Delete all threads for a user
+   * Make a branch the active one by swapping its messages with the
+   * thread's messages after the fork point. A branch left without
+   * messages is deleted. Returns the thread's messages afterwards.
    */
-  async deleteAllThreads(userId: string): Promise<void> {
-    const userThreads = await this.selectThreadsByUserId(userId);
+  async switchThreadBranch(
+    threadId: string,
+    branchThreadId: string,
+  ): Promise<ChatMessage[]> {
+    try {
+      return await withConflictRetry(async () => {
+        const branch = await this.selectThread(branchThreadId);
+        if (!branch || branch.parentThreadId !== threadId) {
+          throw new Error(`Branch ${branchThreadId} not found`);
+        }
+
+        const [threadFiles, branchFiles] = await Promise.all([
+          this.readMessageFiles(threadId),
+          this.readMessageFiles(branchThreadId),
+        ]);
+        const activeFiles = getMessagesAfter(
+          threadFiles,
+          branch.forkedFromMessageId ?? null,
+        );
+        if (!activeFiles) {
+          throw new Error(
+            `Branch ${branchThreadId} forks from a message that is not in the thread`,
+          );
+        }
 
-    for (const thread of userThreads) {
-      await this.deleteThread(thread.id);
+        const deactivate = this.moveMessageFiles(activeFiles, branchThreadId);
+        const activate = this.moveMessageFiles(branchFiles, threadId);
+        const deleteBranch = activeFiles.length === 0;
+        const branchPath = `threads/thread-${branchThreadId}.json`;
+
+        await this.commitWithIndex(
+          {
+            writes: [...deactivate.writes, ...activate.writes],
+            deletes: [
+              ...deactivate.deletes,
+              ...activate.deletes,
+              ...(deleteBranch ? [branchPath] : []),
+            ],
+            message: `Switch thread ${threadId} to branch ${branchThreadId}`,
+            expectedShas: {
+              ...deactivate.expectedShas,
+              ...activate.expectedShas,
+            },
+          },
+          (index) => {
+            removeMessages(index, [
+              ...deactivate.messageIds,
+              ...activate.messageIds,
+            ]);
+            indexMessages(index, [
+              ...deactivate.messages,
+              ...activate.messages,
+            ]);
+            if (deleteBranch) removeThreads(index, [branchThreadId]);
+          },
+        );
+
+        const activeIds = new Set(deactivate.messageIds);
+        return [
+          ...threadFiles
+            .filter(({ document }) => !activeIds.has(document.id))
+            .map(({ document }) => document),
+          ...activate.messages,
+        ]
+          .map((document) => this.toChatMessage(document))
+          .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+      });
+    } catch (error) {
+      if (error instanceof DiffDBConflictError) throw error;
+      throw new Error(`Failed to switch thread ${threadId} branch: ${error}`);
     }
   }
 
   /**
-   * Delete unarchived threads for a user
+   * Delete all threads for a user in a single commit
+   */
+  async deleteAllThreads(userId: string): Promise<void> {
+    await this.deleteThreadsOfUser(userId, new Set());
+  }
+
+  /**
+   * Delete the threads of a user that are in no archive. Branches go
+   * along with the thread they belong to.
    */
   async deleteUnarchivedThreads(userId: string): Promise<void> {
-    // TODO: Implement when archive system is ready
-    // For now, just delete all threads (assuming none are archived)
-    await this.deleteAllThreads(userId);
+    await this.deleteThreadsOfUser(userId, await this.readArchivedItemIds());
+  }
+
+  private async deleteThreadsOfUser(
+    userId: string,
+    keepThreadIds: Set<string>,
+  ): Promise<void> {
+    try {
+      await withConflictRetry(async () => {
+        const { index } = await loadChatIndex(this.client, this.repoName);
+        const threadIds = Object.values(index.threads)
+          .filter(
+            (thread) =>
+              thread.userId === userId &&
+              !keepThreadIds.has(thread.parentThreadId ?? thread.id),
+          )
+          .map((thread) => thread.id);
+        const deletes: string[] = [];
+
+        for (const threadId of threadIds) {
+          deletes.push(
+            ...getIndexedMessageIds(index, threadId).map((id) =>
+              this.getMessagePath(threadId, id),
+            ),
+          );
+          deletes.push(`threads/thread-${threadId}.json`);
+        }
+
+        await this.commitWithIndex(
+          {
+            writes: await this.removeFromArchives(threadIds),
+            deletes,
+            message: `Delete ${threadIds.length} threads`,
+          },
+          (index) => removeThreads(index, threadIds),
+        );
+      });
+    } catch (error) {
+      if (error instanceof DiffDBConflictError) throw error;
+      throw new Error(`Failed to delete threads for user ${userId}: ${error}`);
+    }
   }
 
   /**
-   * Insert multiple messages
+   * Insert multiple messages in a single commit
    */
   async insertMessages(
     messages: PartialBy<ChatMessage, "createdAt">[],
   ): Promise<ChatMessage[]> {
-    const insertedMessages: ChatMessage[] = [];
+    try {
+      const now = new Date();
+      const insertedMessages: ChatMessage[] = messages.map((message) => ({
+        ...message,
+        createdAt: message.createdAt ?? now,
+      }));
+
+      await withConflictRetry(() =>
+        this.commitWithIndex(
+          {
+            writes: insertedMessages.map((message) =>
+              this.toMessageWrite(message),
+            ),
+            message: this.describeMessageBatch("Add", insertedMessages),
+          },
+          (index) => indexMessages(index, insertedMessages),
+        ),
+      );
 
-    for (const message of messages) {
-      const insertedMessage = await this.insertMessage(
-        message as Omit<ChatMessage, "createdAt">,
+      return insertedMessages;
+    } catch (error) {
+      if (error instanceof DiffDBConflictError) throw error;
+      console.error("DiffDB: Failed to insert messages:", error);
+      throw new Error(
+        `Failed to save chat messages: ${error instanceof Error ? error.message : "Unknown error"}`,
       );
-      insertedMessages.push(insertedMessage);
     }
+  }
+
+  private commitWithIndex(
+    changes: DiffDBChangeSet,
+    updateIndex: (index: ChatIndex) => void,
+  ) {
+    return commitWithChatIndex(
+      this.client,
+      this.repoName,
+      changes,
+      updateIndex,
+    );
+  }
+
+  /**
+   * Item lists of all archives, by file path
+   */
+  private async readArchiveItemFiles(): Promise<
+    Map<string, { itemId: string }[]>
+  > {
+    const files = new Map<string, { itemId: string }[]>();
+    for (const file of await this.client.listDirectory(
+      this.repoName,
+      ARCHIVE_ITEMS_PATH,
+    )) {
+      if (file.type !== "file" || !file.name.endsWith(".json")) continue;
+      const fileInfo = await this.client.readFile(this.repoName, file.path);
+      if (fileInfo) files.set(file.path, JSON.parse(fileInfo.content));
+    }
+    return files;
+  }
+
+  private async readArchivedItemIds(): Promise<Set<string>> {
+    const ids = new Set<string>();
+    for (const items of (await this.readArchiveItemFiles()).values()) {
+      for (const item of items) ids.add(item.itemId);
+    }
+    return ids;
+  }
+
+  /**
+   * Rewrite the archive item lists that contain one of the threads
+   */
+  private async removeFromArchives(
+    threadIds: string[],
+  ): Promise<DiffDBFileWrite[]> {
+    const removed = new Set(threadIds);
+    const writes: DiffDBFileWrite[] = [];
+    for (const [path, items] of await this.readArchiveItemFiles()) {
+      const kept = items.filter((item) => !removed.has(item.itemId));
+      if (kept.length !== items.length) {
+        writes.push({ path, content: JSON.stringify(kept, null, 2) });
+      }
+    }
+    return writes;
+  }
+
+  private getMessagePath(threadId: string, messageId: string): string {
+    return `messages/thread-${threadId}/message-${messageId}.json`;
+  }
+
+  /**
+   * List the paths of all message files stored for a thread
+   */
+  private async listMessagePaths(threadId: string): Promise<string[]> {
+    const messageFiles = await this.client.listDirectory(
+      this.repoName,
+      `messages/thread-${threadId}`,
+    );
+    return messageFiles
+      .filter((messageFile) => messageFile.type === "file")
+      .map((messageFile) => messageFile.path);
+  }
+
+  /**
+   * Read the stored message documents of a thread, oldest first
+   */
+  private async readMessageFiles(
+    threadId: string,
+  ): Promise<StoredMessageFile[]> {
+    const messageFiles = await this.client.listDirectory(
+      this.repoName,
+      `messages/thread-${threadId}`,
+    );
+
+    const files: StoredMessageFile[] = [];
+    for (const messageFile of messageFiles) {
+      if (messageFile.type === "file" && messageFile.name.endsWith(".json")) {
+        const messageContent = await this.client.readFile(
+          this.repoName,
+          messageFile.path,
+        );
+        if (messageContent) {
+          const document = JSON.parse(messageContent.content);
+          files.push({
+            id: document.id,
+            createdAt: document.createdAt,
+            path: messageFile.path,
+            sha: messageContent.sha,
+            document,
+          });
+        }
+      }
+    }
+
+    return files.sort(
+      (a, b) =>
+        new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime(),
+    );
+  }
+
+  /**
+   * Build the changes that move stored messages into another thread
+   */
+  private moveMessageFiles(files: StoredMessageFile[], threadId: string) {
+    const now = new Date().toISOString();
+    const messages = files.map(({ document }) => ({
+      ...document,
+      threadId,
+      _metadata: { ...document._metadata, updated_at: now },
+    }));
+
+    return {
+      messages,
+      messageIds: messages.map((message) => message.id as string),
+      writes: messages.map((message) => ({
+        path: this.getMessagePath(threadId, message.id),
+        content: JSON.stringify(message, null, 2),
+      })),
+      deletes: files.map((file) => file.path),
+      expectedShas: Object.fromEntries(
+        files.map((file) => [file.path, file.sha]),
+      ) as Record<string, string | null>,
+    };
+  }
+
+  private toChatMessage(messageData: any): ChatMessage {
+    return {
+      id: messageData.id,
+      threadId: messageData.threadId,
+      role: messageData.role,
+      parts: messageData.parts,
+      attachments: messageData.attachments || null,
+      annotations: messageData.annotations || null,
+      model: messageData.model || null,
+      createdAt: new Date(messageData.createdAt),
+    };
+  }
+
+  /**
+   * Serialize a thread into the write of its stored JSON document
+   */
+  toThreadWrite(thread: ChatThread): DiffDBFileWrite {
+    const createdAt = thread.createdAt.toISOString();
+    return {
+      path: `threads/thread-${thread.id}.json`,
+      content: JSON.stringify(
+        {
+          ...thread,
+          createdAt,
+          _metadata: {
+            type: "thread",
+            version: "1.0.0",
+            created_at: createdAt,
+            updated_at: createdAt,
+          },
+        },
+        null,
+        2,
+      ),
+    };
+  }
+
+  /**
+   * Serialize a message into the write of its stored JSON document
+   */
+  toMessageWrite(message: ChatMessage): DiffDBFileWrite {
+    return {
+      path: this.getMessagePath(message.threadId, message.id),
+      content: JSON.stringify(this.toMessageDocument(message), null, 2),
+    };
+  }
+
+  /**
+   * Serialize a message into its stored JSON document
+   */
+  private toMessageDocument(message: ChatMessage) {
+    const createdAt = message.createdAt.toISOString();
+    return {
+      ...message,
+      createdAt,
+      _metadata: {
+        type: "message",
+        version: "1.0.0",
+        created_at: createdAt,
+      },
+    };
+  }
 
-    return insertedMessages;
+  private describeMessageBatch(
+    verb: string,
+    messages: Pick<ChatMessage, "threadId">[],
+  ): string {
+    const threadIds = [...new Set(messages.map((m) => m.threadId))];
+    const noun = messages.length === 1 ? "message" : "messages";
+    return threadIds.length === 1
+      ? `${verb} ${messages.length} ${noun} in thread ${threadIds[0]}`
+      : `${verb} ${messages.length} ${noun} across ${threadIds.length} threads`;
   }
 }
 
@@ -537,7 +990,7 @@ export class DiffDBChatRepository implements ChatRepository {
  * Create a DiffDB chat repository instance
  */
 export function createDiffDBChatRepository(
-  client: DiffDBClient,
+  client: DiffDBStorageBackend,
   repoName: string,
 ): ChatRepository {
   return new DiffDBChatRepository(client, repoName);
@@ -1,182 +1,157 @@
 /**
  * DiffDB MCP Repository
  *
- * GitHub-based implementation of MCP server repository for storing
- * Model Context Protocol server configurations.
+ * Git-based implementation of MCPRepository for storing Model Context
+ * Protocol server configurations, one document per server.
  */
 
-import { DiffDBClient } from "../client";
-
-export interface MCPServer {
-  id: string;
-  userId: string;
-  name: string;
-  command: string;
-  args: string[];
-  env?: Record<string, string>;
-  cwd?: string;
-  enabled: boolean;
-  description?: string;
-  createdAt: string;
-  updatedAt: string;
-}
+import type {
+  MCPRepository,
+  McpOAuthSession,
+  McpServerSelect,
+} from "app-types/mcp";
+import { generateUUID } from "lib/utils";
+import type { DiffDBStorageBackend } from "../storage-backend";
+
+const MCP_SERVERS_PATH = "mcp_servers";
+// Tokens, client information and code verifiers are encrypted fields when
+// the user enabled DiffDB encryption
+const MCP_OAUTH_PATH = "mcp_oauth";
 
 export function createDiffDBMcpRepository(
-  client: DiffDBClient,
+  client: DiffDBStorageBackend,
   repositoryName: string,
-) {
-  const MCP_SERVERS_PATH = "mcp_servers";
-
-  return {
-    async selectAll(): Promise<MCPServer[]> {
+): MCPRepository {
+  const getServerPath = (id: string) => `${MCP_SERVERS_PATH}/${id}.json`;
+  const getOAuthPath = (mcpServerId: string, userId: string) =>
+    `${MCP_OAUTH_PATH}/${mcpServerId}/${userId}.json`;
+
+  const toOAuthSession = (document: any): McpOAuthSession => ({
+    ...document,
+    updatedAt: new Date(document.updatedAt),
+  });
+
+  async function readServers(): Promise<(McpServerSelect & any)[]> {
+    const servers: any[] = [];
+    for (const file of await client.listDirectory(
+      repositoryName,
+      MCP_SERVERS_PATH,
+    )) {
+      if (file.type !== "file" || !file.name.endsWith(".json")) continue;
       try {
-        // List all MCP server files
-        const files = await client.listDirectory(
-          repositoryName,
-          MCP_SERVERS_PATH,
-        );
-        const servers: MCPServer[] = [];
-
-        // Read each server file
-        for (const file of files) {
-          if (file.type === "file" && file.name.endsWith(".json")) {
-            try {
-              const fileInfo = await client.readFile(repositoryName, file.path);
-              if (fileInfo) {
-                const server = JSON.parse(fileInfo.content);
-                servers.push(server);
-              }
-            } catch (error) {
-              console.error(
-                `Failed to read MCP server file ${file.path}:`,
-                error,
-              );
-            }
-          }
-        }
-
-        return servers.sort(
-          (a, b) =>
-            new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
-        );
+        const fileInfo = await client.readFile(repositoryName, file.path);
+        if (fileInfo) servers.push(JSON.parse(fileInfo.content));
       } catch (error) {
-        console.error("Failed to get all MCP servers:", error);
-        return [];
+        console.error(`Failed to read MCP server file ${file.path}:`, error);
       }
-    },
+    }
+    return servers.sort(
+      (a, b) =>
+        new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime(),
+    );
+  }
+
+  const repository: MCPRepository = {
+    async save(server) {
+      const id = server.id ?? generateUUID();
+      const filePath = getServerPath(id);
+      const existingFile = await client.readFile(repositoryName, filePath);
+      const now = new Date().toISOString();
 
-    async selectById(id: string): Promise<MCPServer | null> {
-      try {
-        const filePath = `${MCP_SERVERS_PATH}/${id}.json`;
-        const fileInfo = await client.readFile(repositoryName, filePath);
-        return fileInfo ? JSON.parse(fileInfo.content) : null;
-      } catch (error) {
-        console.error(`Failed to get MCP server ${id}:`, error);
-        return null;
-      }
+      // Like an upsert on the id: an existing server only takes the new config
+      const saved = existingFile
+        ? { ...JSON.parse(existingFile.content), config: server.config }
+        : {
+            id,
+            name: server.name,
+            config: server.config,
+            enabled: true,
+            createdAt: now,
+          };
+      saved.updatedAt = now;
+
+      await client.commitChanges(repositoryName, {
+        writes: [{ path: filePath, content: JSON.stringify(saved, null, 2) }],
+        message: `${existingFile ? "Update" : "Create"} MCP server: ${saved.name}`,
+        expectedShas: { [filePath]: existingFile?.sha ?? null },
+      });
+      return saved;
     },
 
-    async save(
-      server: Omit<MCPServer, "id" | "createdAt" | "updatedAt"> | MCPServer,
-    ): Promise<MCPServer> {
-      const isUpdate = "id" in server && server.id;
-      const id = isUpdate
-        ? server.id
-        : `mcp_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      const now = new Date().toISOString();
-
-      let savedServer: MCPServer;
-
-      if (isUpdate) {
-        // Update existing server
-        const existing = await this.selectById(server.id);
-        if (!existing) {
-          throw new Error(`MCP server with ID ${server.id} not found`);
-        }
-
-        savedServer = {
-          ...existing,
-          ...server,
-          id: existing.id, // Prevent ID change
-          createdAt: existing.createdAt, // Prevent createdAt change
-          updatedAt: now,
-        };
-      } else {
-        // Create new server
-        savedServer = {
-          id,
-          ...server,
-          createdAt: now,
-          updatedAt: now,
-        };
-      }
+    async selectById(id) {
+      const fileInfo = await client.readFile(repositoryName, getServerPath(id));
+      return fileInfo ? JSON.parse(fileInfo.content) : null;
+    },
 
-      const filePath = `${MCP_SERVERS_PATH}/${id}.json`;
-      await client.writeFile(
-        repositoryName,
-        filePath,
-        JSON.stringify(savedServer, null, 2),
-        `${isUpdate ? "Update" : "Create"} MCP server: ${savedServer.name}`,
+    async selectByServerName(name) {
+      return (
+        (await readServers()).find((server) => server.name === name) ?? null
       );
+    },
 
-      return savedServer;
+    async selectAll() {
+      return readServers();
     },
 
-    async deleteById(id: string): Promise<void> {
-      try {
-        const filePath = `${MCP_SERVERS_PATH}/${id}.json`;
-        await client.deleteFile(
-          repositoryName,
+    async deleteById(id) {
+      const filePath = getServerPath(id);
+      if (!(await client.readFile(repositoryName, filePath))) return;
+      // The server's OAuth sessions go with it
+      const sessions = await client.listDirectory(
+        repositoryName,
+        `${MCP_OAUTH_PATH}/${id}`,
+      );
+      await client.commitChanges(repositoryName, {
+        deletes: [
           filePath,
-          `Delete MCP server: ${id}`,
-        );
-      } catch (error) {
-        console.error(`Failed to delete MCP server ${id}:`, error);
-        throw error;
-      }
+          ...sessions
+            .filter((file) => file.type === "file")
+            .map((file) => file.path),
+        ],
+        message: `Delete MCP server: ${id}`,
+      });
     },
 
-    async findByUserId(userId: string): Promise<MCPServer[]> {
-      try {
-        const allServers = await this.selectAll();
-        return allServers.filter((server) => server.userId === userId);
-      } catch (error) {
-        console.error(`Failed to get MCP servers for user ${userId}:`, error);
-        return [];
-      }
+    async existsByServerName(name) {
+      return !!(await repository.selectByServerName(name));
     },
 
-    async findByName(name: string): Promise<MCPServer | null> {
-      try {
-        const allServers = await this.selectAll();
-        return allServers.find((server) => server.name === name) || null;
-      } catch (error) {
-        console.error(`Failed to find MCP server by name ${name}:`, error);
-        return null;
-      }
+    async selectOAuthSession(mcpServerId, userId) {
+      const fileInfo = await client.readFile(
+        repositoryName,
+        getOAuthPath(mcpServerId, userId),
+      );
+      return fileInfo ? toOAuthSession(JSON.parse(fileInfo.content)) : null;
     },
 
-    async toggleEnabled(
-      id: string,
-      enabled: boolean,
-    ): Promise<MCPServer | null> {
-      try {
-        const existing = await this.selectById(id);
-        if (!existing) return null;
-
-        return await this.save({
-          ...existing,
-          enabled,
-        });
-      } catch (error) {
-        console.error(`Failed to toggle MCP server ${id}:`, error);
-        return null;
-      }
+    async saveOAuthSession(mcpServerId, userId, update) {
+      const filePath = getOAuthPath(mcpServerId, userId);
+      const existingFile = await client.readFile(repositoryName, filePath);
+      const session = {
+        ...(existingFile
+          ? JSON.parse(existingFile.content)
+          : { mcpServerId, userId }),
+        ...update,
+        updatedAt: new Date().toISOString(),
+      };
+      await client.commitChanges(repositoryName, {
+        writes: [{ path: filePath, content: JSON.stringify(session, null, 2) }],
+        message: `Update OAuth session of MCP server: ${mcpServerId}`,
+        expectedShas: { [filePath]: existingFile?.sha ?? null },
+      });
+      return toOAuthSession(session);
     },
 
-    // Compatibility methods for existing codebase
-    async findAll(): Promise<MCPServer[]> {
-      return this.selectAll();
+    async deleteOAuthSession(mcpServerId, userId) {
+      const filePath = getOAuthPath(mcpServerId, userId);
+      if (!(await client.readFile(repositoryName, filePath))) return;
+      await client.deleteFile(
+        repositoryName,
+        filePath,
+        `Delete OAuth session of MCP server: ${mcpServerId}`,
+      );
     },
   };
+
+  return repository;
 }
@@ -10,7 +10,7 @@ import type {
   McpServerCustomization,
   McpServerCustomizationRepository,
 } from "app-types/mcp";
-import { DiffDBClient } from "../client";
+import type { DiffDBStorageBackend } from "../storage-backend";
 
 const BASE_PATH = "mcp_server_customizations";
 
@@ -23,7 +23,7 @@ function buildFilePath(userId: string, mcpServerId: string) {
 }
 
 async function fetchServerName(
-  client: DiffDBClient,
+  client: DiffDBStorageBackend,
   repositoryName: string,
   mcpServerId: string,
 ): Promise<string | undefined> {
@@ -43,7 +43,7 @@ async function fetchServerName(
 }
 
 export function createDiffDBMcpServerCustomizationRepository(
-  client: DiffDBClient,
+  client: DiffDBStorageBackend,
   repositoryName: string,
 ): McpServerCustomizationRepository {
   type StoredServerCustomization = McpServerCustomization & {
@@ -8,7 +8,7 @@ import type {
   McpToolCustomization,
   McpToolCustomizationRepository,
 } from "app-types/mcp";
-import { DiffDBClient } from "../client";
+import type { DiffDBStorageBackend } from "../storage-backend";
 
 const BASE_PATH = "mcp_tool_customizations";
 
@@ -29,7 +29,7 @@ function buildFilePath(userId: string, mcpServerId: string, toolName: string) {
 }
 
 async function fetchServerName(
-  client: DiffDBClient,
+  client: DiffDBStorageBackend,
   repositoryName: string,
   mcpServerId: string,
 ): Promise<string | undefined> {
@@ -49,7 +49,7 @@ async function fetchServerName(
 }
 
 export function createDiffDBMcpToolCustomizationRepository(
-  client: DiffDBClient,
+  client: DiffDBStorageBackend,
   repositoryName: string,
 ): McpToolCustomizationRepository {
   type StoredToolCustomization = McpToolCustomization & {
@@ -188,6 +188,7 @@ export function createDiffDBMcpToolCustomizationRepository(
         mcpServerId,
         toolName,
         prompt: data.prompt ?? null,
+        policy: data.policy ?? null,
         serverName,
         createdAt: existing?.createdAt ?? now,
         updatedAt: now,
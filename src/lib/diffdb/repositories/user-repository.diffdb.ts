@@ -1,196 +1,102 @@
 /**
  * DiffDB User Repository
  *
- * GitHub-based implementation of user repository.
- * Note: User data comes primarily from GitHub OAuth, but we can store
- * additional user preferences and settings in the repository.
+ * Git-based implementation of UserRepository. Accounts themselves are
+ * managed by the auth provider; the repository keeps a profile document per
+ * user with their name, image and preferences.
  */
 
-import { DiffDBClient } from "../client";
+import type { User, UserRepository } from "app-types/user";
+import type { DiffDBStorageBackend } from "../storage-backend";
 
-export interface UserProfile {
-  id: string;
-  githubId: number;
-  username: string;
-  email?: string;
-  name?: string;
-  avatarUrl?: string;
-  preferences: {
-    theme: string;
-    language: string;
-    notifications: boolean;
+const USERS_PATH = "users";
+
+/**
+ * Profiles written before the repository followed UserRepository used
+ * GitHub field names
+ */
+function toUser(document: any): User {
+  return {
+    id: document.id,
+    name: document.name ?? document.username ?? "",
+    email: document.email ?? "",
+    image: document.image ?? document.avatarUrl ?? null,
+    preferences: document.preferences,
   };
-  createdAt: string;
-  updatedAt: string;
 }
 
 export function createDiffDBUserRepository(
-  client: DiffDBClient,
+  client: DiffDBStorageBackend,
   repositoryName: string,
-) {
-  const USERS_PATH = "users";
+): UserRepository {
+  const getUserPath = (id: string) => `${USERS_PATH}/${id}.json`;
+
+  async function readProfile(id: string) {
+    const fileInfo = await client.readFile(repositoryName, getUserPath(id));
+    return fileInfo ? JSON.parse(fileInfo.content) : null;
+  }
+
+  async function writeProfile(
+    id: string,
+    changes: Partial<User>,
+    message: string,
+  ): Promise<User> {
+    const existing = await readProfile(id);
+    const now = new Date().toISOString();
+    const profile = {
+      ...(existing ?? { id, createdAt: now }),
+      ...changes,
+      id,
+      updatedAt: now,
+    };
+    await client.writeFile(
+      repositoryName,
+      getUserPath(id),
+      JSON.stringify(profile, null, 2),
+      message,
+    );
+    return toUser(profile);
+  }
 
   return {
-    async findById(id: string): Promise<UserProfile | null> {
-      try {
-        const filePath = `${USERS_PATH}/${id}.json`;
-        const fileInfo = await client.readFile(repositoryName, filePath);
-        return fileInfo ? JSON.parse(fileInfo.content) : null;
-      } catch (error) {
-        console.error(`Failed to get user ${id}:`, error);
-        return null;
+    async existsByEmail(email) {
+      for (const file of await client.listDirectory(
+        repositoryName,
+        USERS_PATH,
+      )) {
+        if (file.type !== "file" || !file.name.endsWith(".json")) continue;
+        const fileInfo = await client.readFile(repositoryName, file.path);
+        if (fileInfo && JSON.parse(fileInfo.content).email === email) {
+          return true;
+        }
       }
+      return false;
     },
 
-    async create(
-      userData: Omit<UserProfile, "createdAt" | "updatedAt">,
-    ): Promise<UserProfile> {
-      const now = new Date().toISOString();
-
-      const preferences = Object.assign(
-        {
-          theme: "dark",
-          language: "en",
-          notifications: true,
-        },
-        userData.preferences || {},
-      ) as UserProfile["preferences"];
-
-      const newUser: UserProfile = {
-        ...userData,
-        preferences,
-        createdAt: now,
-        updatedAt: now,
-      };
-
-      const filePath = `${USERS_PATH}/${userData.id}.json`;
-      await client.writeFile(
-        repositoryName,
-        filePath,
-        JSON.stringify(newUser, null, 2),
-        `Create user profile: ${userData.username}`,
+    async updateUser(id, user) {
+      return writeProfile(
+        id,
+        { name: user.name, image: user.image },
+        `Update user profile: ${user.name}`,
       );
-
-      return newUser;
     },
 
-    async update(
-      id: string,
-      updates: Partial<UserProfile>,
-    ): Promise<UserProfile | null> {
-      const existing = await this.findById(id);
-      if (!existing) return null;
-
-      const updated: UserProfile = {
-        ...existing,
-        ...updates,
-        id: existing.id, // Prevent ID change
-        createdAt: existing.createdAt, // Prevent createdAt change
-        preferences: {
-          ...existing.preferences,
-          ...updates.preferences,
-        },
-        updatedAt: new Date().toISOString(),
-      };
-
-      const filePath = `${USERS_PATH}/${id}.json`;
-      await client.writeFile(
-        repositoryName,
-        filePath,
-        JSON.stringify(updated, null, 2),
-        `Update user profile: ${updated.username}`,
+    async updatePreferences(userId, preferences) {
+      return writeProfile(
+        userId,
+        { preferences },
+        `Update preferences of user ${userId}`,
       );
-
-      return updated;
     },
 
-    async delete(id: string): Promise<void> {
-      try {
-        const filePath = `${USERS_PATH}/${id}.json`;
-        await client.deleteFile(
-          repositoryName,
-          filePath,
-          `Delete user profile: ${id}`,
-        );
-      } catch (error) {
-        console.error(`Failed to delete user ${id}:`, error);
-        throw error;
-      }
-    },
-
-    async updatePreferences(
-      id: string,
-      preferences: Partial<UserProfile["preferences"]>,
-    ): Promise<UserProfile | null> {
-      const existing = await this.findById(id);
-      if (!existing) return null;
-
-      return await this.update(id, {
-        preferences: {
-          ...existing.preferences,
-          ...preferences,
-        },
-      });
-    },
-
-    // Find user by GitHub username (for lookup by OAuth data)
-    async findByUsername(username: string): Promise<UserProfile | null> {
-      try {
-        // List all user files
-        const files = await client.listDirectory(repositoryName, USERS_PATH);
-
-        // Read each user file and find by username
-        for (const file of files) {
-          if (file.type === "file" && file.name.endsWith(".json")) {
-            try {
-              const fileInfo = await client.readFile(repositoryName, file.path);
-              if (fileInfo) {
-                const user = JSON.parse(fileInfo.content);
-                if (user.username === username) {
-                  return user;
-                }
-              }
-            } catch (error) {
-              console.error(`Failed to read user file ${file.path}:`, error);
-            }
-          }
-        }
-
-        return null;
-      } catch (error) {
-        console.error(`Failed to find user by username ${username}:`, error);
-        return null;
-      }
+    async getPreferences(userId) {
+      const profile = await readProfile(userId);
+      return profile?.preferences ?? null;
     },
 
-    // Find user by GitHub ID (for OAuth lookup)
-    async findByGitHubId(githubId: number): Promise<UserProfile | null> {
-      try {
-        // List all user files
-        const files = await client.listDirectory(repositoryName, USERS_PATH);
-
-        // Read each user file and find by GitHub ID
-        for (const file of files) {
-          if (file.type === "file" && file.name.endsWith(".json")) {
-            try {
-              const fileInfo = await client.readFile(repositoryName, file.path);
-              if (fileInfo) {
-                const user = JSON.parse(fileInfo.content);
-                if (user.githubId === githubId) {
-                  return user;
-                }
-              }
-            } catch (error) {
-              console.error(`Failed to read user file ${file.path}:`, error);
-            }
-          }
-        }
-
-        return null;
-      } catch (error) {
-        console.error(`Failed to find user by GitHub ID ${githubId}:`, error);
-        return null;
-      }
+    async findById(userId) {
+      const profile = await readProfile(userId);
+      return profile ? toUser(profile) : null;
     },
   };
 }
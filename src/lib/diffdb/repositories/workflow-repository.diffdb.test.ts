@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import type { DBWorkflowRun, WorkflowRepository } from "app-types/workflow";
+import { LocalGitStorageBackend } from "../local-git-backend";
+import {
+  MAX_RUNS_PER_WORKFLOW,
+  createDiffDBWorkflowRepository,
+} from "./workflow-repository.diffdb";
+
+const REPO = "diffchat-data";
+
+describe("DiffDB workflow runs", () => {
+  let baseDir: string;
+  let backend: LocalGitStorageBackend;
+  let repository: WorkflowRepository;
+
+  const run = (id: string, startedAt: number): DBWorkflowRun => ({
+    id,
+    workflowId: "w1",
+    userId: "u1",
+    version: "0.1.0",
+    status: "success",
+    query: { topic: "runs" },
+    histories: [],
+    startedAt: new Date(startedAt),
+    endedAt: new Date(startedAt + 1000),
+  });
+
+  beforeEach(async () => {
+    baseDir = await mkdtemp(path.join(os.tmpdir(), "diffdb-workflow-"));
+    backend = new LocalGitStorageBackend(baseDir);
+    await backend.ensureRepository(REPO);
+    repository = createDiffDBWorkflowRepository(backend, REPO);
+  });
+
+  afterEach(async () => {
+    await rm(baseDir, { recursive: true, force: true });
+  });
+
+  it("should list runs saved before the runs index existed", async () => {
+    await backend.commitChanges(REPO, {
+      writes: [
+        {
+          path: "workflow_runs/w1/r1.json",
+          content: JSON.stringify(run("r1", 1000)),
+        },
+        {
+          path: "workflow_runs/w1/r2.json",
+          content: JSON.stringify(run("r2", 2000)),
+        },
+      ],
+      message: "Runs without an index",
+    });
+    await repository.saveRun(run("r3", 3000));
+
+    const runs = await repository.selectRunsByWorkflowId("w1", "u1");
+
+    expect(runs.map((run) => run.id)).toEqual(["r3", "r2", "r1"]);
+    expect(
+      await backend.readFile(REPO, "workflow_runs/w1/_index.json"),
+    ).not.toBeNull();
+  });
+
+  it("should delete the oldest runs past the limit", async () => {
+    for (let i = 0; i <= MAX_RUNS_PER_WORKFLOW; i++) {
+      await repository.saveRun(run(`r${i}`, 1000 + i));
+    }
+
+    const runs = await repository.selectRunsByWorkflowId(
+      "w1",
+      "u1",
+      MAX_RUNS_PER_WORKFLOW + 1,
+    );
+
+    expect(runs).toHaveLength(MAX_RUNS_PER_WORKFLOW);
+    expect(runs[0].id).toBe(`r${MAX_RUNS_PER_WORKFLOW}`);
+    expect(await repository.selectRunById("w1", "r0")).toBeNull();
+    expect(await repository.selectRunById("w1", "r1")).not.toBeNull();
+  });
+});
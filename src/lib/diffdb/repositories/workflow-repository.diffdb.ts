@@ -1,266 +1,509 @@
 /**
  * DiffDB Workflow Repository
  *
- * GitHub-based implementation of workflow repository.
- * Workflows are complex entities with nodes, edges, and execution capabilities.
+ * Git-based implementation of WorkflowRepository. A workflow document holds
+ * the workflow itself, its nodes and edges live in a separate structure
+ * document so that editing the graph doesn't touch the workflow. Runs are
+ * kept one document each, in a directory per workflow, next to an index of
+ * their summaries that run lists read instead of every run.
  */
 
-import { DiffDBClient } from "../client";
+import type {
+  DBEdge,
+  DBNode,
+  DBWorkflow,
+  DBWorkflowRun,
+  WorkflowRepository,
+  WorkflowRunSummary,
+  WorkflowSummary,
+} from "app-types/workflow";
+import type { ObjectJsonSchema7 } from "app-types/util";
+import { generateUUID } from "lib/utils";
+import { DiffDBFileWrite } from "../client";
+import type { DiffDBStorageBackend } from "../storage-backend";
+import { withConflictRetry } from "../conflict";
+import { NodeKind } from "lib/ai/workflow/workflow.interface";
+import { createUINode } from "lib/ai/workflow/create-ui-node";
+import {
+  convertUINodeToDBNode,
+  defaultObjectJsonSchema,
+} from "lib/ai/workflow/shared.workflow";
 
-export interface Workflow {
+export interface WorkflowStructure {
   id: string;
-  userId: string;
-  name: string;
-  description?: string;
   nodes: any[];
   edges: any[];
-  isPublic: boolean;
-  tags: string[];
-  version: number;
-  createdAt: string;
   updatedAt: string;
 }
 
+const WORKFLOWS_PATH = "workflows";
+const WORKFLOW_STRUCTURES_PATH = "workflow_structures";
+const WORKFLOW_RUNS_PATH = "workflow_runs";
+const RUNS_INDEX_FILE = "_index.json";
+
+/** Older runs of a workflow are deleted when a new one is saved */
+export const MAX_RUNS_PER_WORKFLOW = 100;
+
+interface WorkflowRunsIndex {
+  runs: WorkflowRunSummary[];
+}
+
+function toDBWorkflowRun<T extends DBWorkflowRun | WorkflowRunSummary>(
+  document: any,
+): T {
+  return {
+    ...document,
+    startedAt: new Date(document.startedAt),
+    endedAt: new Date(document.endedAt),
+  };
+}
+
+/**
+ * Workflows written before the repository followed WorkflowRepository had
+ * an `isPublic` flag, tags and a numeric version
+ */
+export function toDBWorkflow({
+  isPublic,
+  tags: _tags,
+  nodes: _nodes,
+  edges: _edges,
+  ...document
+}: any): DBWorkflow {
+  return {
+    ...document,
+    version: typeof document.version === "string" ? document.version : "0.1.0",
+    isPublished: document.isPublished ?? false,
+    visibility: document.visibility ?? (isPublic ? "public" : "private"),
+    createdAt: new Date(document.createdAt),
+    updatedAt: new Date(document.updatedAt),
+  };
+}
+
 export function createDiffDBWorkflowRepository(
-  client: DiffDBClient,
+  client: DiffDBStorageBackend,
   repositoryName: string,
-) {
-  const WORKFLOWS_PATH = "workflows";
-  const WORKFLOW_STRUCTURES_PATH = "workflow_structures";
+): WorkflowRepository {
+  const getWorkflowPath = (id: string) => `${WORKFLOWS_PATH}/${id}.json`;
+  const getRunPath = (workflowId: string, runId: string) =>
+    `${WORKFLOW_RUNS_PATH}/${workflowId}/${runId}.json`;
 
-  return {
-    async selectAll(userId: string): Promise<Workflow[]> {
-      try {
-        const files = await client.listDirectory(
-          repositoryName,
-          WORKFLOWS_PATH,
-        );
-        const workflows: Workflow[] = [];
-
-        for (const file of files) {
-          if (file.type === "file" && file.name.endsWith(".json")) {
-            try {
-              const fileInfo = await client.readFile(repositoryName, file.path);
-              if (fileInfo) {
-                const workflow = JSON.parse(fileInfo.content);
-                if (workflow.userId === userId) {
-                  workflows.push(workflow);
-                }
-              }
-            } catch (error) {
-              console.error(
-                `Failed to read workflow file ${file.path}:`,
-                error,
-              );
-            }
-          }
-        }
+  const getRunsIndexPath = (workflowId: string) =>
+    `${WORKFLOW_RUNS_PATH}/${workflowId}/${RUNS_INDEX_FILE}`;
 
-        return workflows.sort(
-          (a, b) =>
-            new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
-        );
-      } catch (error) {
-        console.error(`Failed to get workflows for user ${userId}:`, error);
-        return [];
-      }
-    },
+  /**
+   * Run summaries of a workflow, newest first. Workflows whose runs were
+   * saved before the index existed get it built from their run files.
+   */
+  async function readRunsIndex(
+    workflowId: string,
+  ): Promise<{ runs: WorkflowRunSummary[]; sha: string | null }> {
+    const fileInfo = await client.readFile(
+      repositoryName,
+      getRunsIndexPath(workflowId),
+    );
+    if (fileInfo) {
+      const index: WorkflowRunsIndex = JSON.parse(fileInfo.content);
+      return {
+        runs: index.runs.map((run) => toDBWorkflowRun(run)),
+        sha: fileInfo.sha,
+      };
+    }
 
-    async selectById(id: string): Promise<Workflow | null> {
+    const runs: WorkflowRunSummary[] = [];
+    for (const file of await client.listDirectory(
+      repositoryName,
+      `${WORKFLOW_RUNS_PATH}/${workflowId}`,
+    )) {
+      if (
+        file.type !== "file" ||
+        !file.name.endsWith(".json") ||
+        file.name === RUNS_INDEX_FILE
+      )
+        continue;
       try {
-        const filePath = `${WORKFLOWS_PATH}/${id}.json`;
-        const fileInfo = await client.readFile(repositoryName, filePath);
-        return fileInfo ? JSON.parse(fileInfo.content) : null;
+        const fileInfo = await client.readFile(repositoryName, file.path);
+        if (!fileInfo) continue;
+        const {
+          query: _query,
+          histories: _histories,
+          ...run
+        } = toDBWorkflowRun<DBWorkflowRun>(JSON.parse(fileInfo.content));
+        runs.push(run);
       } catch (error) {
-        console.error(`Failed to get workflow ${id}:`, error);
-        return null;
+        console.error(`Failed to read workflow run file ${file.path}:`, error);
       }
-    },
+    }
+    return {
+      runs: runs.sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime()),
+      sha: null,
+    };
+  }
+
+  async function readStructure(
+    workflowId: string,
+  ): Promise<{ structure: WorkflowStructure; sha: string | null }> {
+    const fileInfo = await client.readFile(
+      repositoryName,
+      `${WORKFLOW_STRUCTURES_PATH}/${workflowId}.json`,
+    );
+    if (!fileInfo) {
+      return {
+        structure: { id: workflowId, nodes: [], edges: [], updatedAt: "" },
+        sha: null,
+      };
+    }
+    const structure = JSON.parse(fileInfo.content);
+    return {
+      structure: {
+        ...structure,
+        nodes: structure.nodes ?? [],
+        edges: structure.edges ?? [],
+      },
+      sha: fileInfo.sha,
+    };
+  }
 
-    async selectStructureById(id: string, _options?: any): Promise<any> {
+  async function readWorkflows(): Promise<DBWorkflow[]> {
+    const workflows: DBWorkflow[] = [];
+    for (const file of await client.listDirectory(
+      repositoryName,
+      WORKFLOWS_PATH,
+    )) {
+      if (file.type !== "file" || !file.name.endsWith(".json")) continue;
       try {
-        const filePath = `${WORKFLOW_STRUCTURES_PATH}/${id}.json`;
-        const fileInfo = await client.readFile(repositoryName, filePath);
-        return fileInfo ? JSON.parse(fileInfo.content) : null;
+        const fileInfo = await client.readFile(repositoryName, file.path);
+        if (fileInfo)
+          workflows.push(toDBWorkflow(JSON.parse(fileInfo.content)));
       } catch (error) {
-        console.error(`Failed to get workflow structure ${id}:`, error);
-        return null;
+        console.error(`Failed to read workflow file ${file.path}:`, error);
       }
-    },
+    }
+    return workflows;
+  }
 
-    async selectExecuteAbility(userId: string): Promise<Workflow[]> {
-      try {
-        // Get workflows that the user can execute (owned or public)
-        const files = await client.listDirectory(
-          repositoryName,
-          WORKFLOWS_PATH,
-        );
-        const executableWorkflows: Workflow[] = [];
-
-        for (const file of files) {
-          if (file.type === "file" && file.name.endsWith(".json")) {
-            try {
-              const fileInfo = await client.readFile(repositoryName, file.path);
-              if (fileInfo) {
-                const workflow = JSON.parse(fileInfo.content);
-                if (workflow.userId === userId || workflow.isPublic) {
-                  executableWorkflows.push(workflow);
-                }
-              }
-            } catch (error) {
-              console.error(
-                `Failed to read workflow file ${file.path}:`,
-                error,
-              );
-            }
-          }
-        }
+  /**
+   * Summaries carry their author, read from the user profiles
+   */
+  async function toSummaries(
+    workflows: DBWorkflow[],
+  ): Promise<WorkflowSummary[]> {
+    const authors = new Map<string, { name: string; image?: string }>();
+    for (const userId of new Set(workflows.map((w) => w.userId))) {
+      const fileInfo = await client.readFile(
+        repositoryName,
+        `users/${userId}.json`,
+      );
+      const profile = fileInfo ? JSON.parse(fileInfo.content) : {};
+      authors.set(userId, {
+        name: profile.name ?? profile.username ?? "",
+        image: profile.image ?? profile.avatarUrl ?? undefined,
+      });
+    }
+    return workflows.map((workflow) => ({
+      id: workflow.id,
+      name: workflow.name,
+      description: workflow.description,
+      icon: workflow.icon,
+      visibility: workflow.visibility,
+      isPublished: workflow.isPublished,
+      userName: authors.get(workflow.userId)!.name,
+      userAvatar: authors.get(workflow.userId)!.image,
+      updatedAt: workflow.updatedAt,
+    }));
+  }
 
-        return executableWorkflows;
-      } catch (error) {
-        console.error(
-          `Failed to get executable workflows for user ${userId}:`,
-          error,
+  const repository: WorkflowRepository = {
+    async selectToolByIds(ids) {
+      const tools: Awaited<ReturnType<WorkflowRepository["selectToolByIds"]>> =
+        [];
+      for (const id of ids) {
+        const workflow = await repository.selectById(id);
+        if (!workflow?.isPublished) continue;
+        const { structure } = await readStructure(id);
+        const inputNode = structure.nodes.find(
+          (node) => node.kind === NodeKind.Input,
         );
-        return [];
+        if (!inputNode) continue;
+        tools.push({
+          id: workflow.id,
+          name: workflow.name,
+          description: workflow.description,
+          schema: (inputNode.nodeConfig?.outputSchema ||
+            structuredClone(defaultObjectJsonSchema)) as ObjectJsonSchema7,
+        });
       }
+      return tools;
     },
 
-    async selectToolByIds(_toolIds: string[]): Promise<any[]> {
-      // This would need to be implemented based on how tools are stored
-      // For now, return empty array
-      console.warn("selectToolByIds not yet implemented for DiffDB");
-      return [];
+    async selectExecuteAbility(userId) {
+      return toSummaries(
+        (await readWorkflows()).filter(
+          (workflow) =>
+            workflow.isPublished &&
+            (workflow.userId === userId || workflow.visibility !== "private"),
+        ),
+      );
     },
 
-    async checkAccess(id: string, userId: string): Promise<boolean> {
-      try {
-        const workflow = await this.selectById(id);
-        if (!workflow) return false;
+    async selectAll(userId) {
+      return toSummaries(
+        (await readWorkflows())
+          .filter(
+            (workflow) =>
+              workflow.userId === userId || workflow.visibility !== "private",
+          )
+          .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime()),
+      );
+    },
 
-        return workflow.userId === userId || workflow.isPublic;
-      } catch (error) {
-        console.error(`Failed to check access for workflow ${id}:`, error);
-        return false;
-      }
+    async selectById(id) {
+      const fileInfo = await client.readFile(
+        repositoryName,
+        getWorkflowPath(id),
+      );
+      return fileInfo ? toDBWorkflow(JSON.parse(fileInfo.content)) : null;
     },
 
-    async save(
-      workflow: Omit<Workflow, "id" | "createdAt" | "updatedAt"> | Workflow,
-    ): Promise<Workflow> {
-      const isUpdate = "id" in workflow && workflow.id;
-      const id = isUpdate
-        ? workflow.id
-        : `workflow_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      const now = new Date().toISOString();
-
-      let savedWorkflow: Workflow;
-
-      if (isUpdate) {
-        const existing = await this.selectById(workflow.id);
-        if (!existing) {
-          throw new Error(`Workflow with ID ${workflow.id} not found`);
-        }
+    async checkAccess(workflowId, userId, readOnly = true) {
+      const workflow = await repository.selectById(workflowId);
+      if (!workflow) return false;
+      if (workflow.userId === userId) return true;
+      if (workflow.visibility === "private") return false;
+      if (workflow.visibility === "readonly" && !readOnly) return false;
+      return true;
+    },
 
-        savedWorkflow = {
-          ...existing,
-          ...workflow,
-          id: existing.id,
-          createdAt: existing.createdAt,
-          version: existing.version + 1,
-          updatedAt: now,
-        };
-      } else {
-        savedWorkflow = {
-          id,
-          ...workflow,
-          version: 1,
-          createdAt: now,
-          updatedAt: now,
-        };
+    async delete(id) {
+      const structurePath = `${WORKFLOW_STRUCTURES_PATH}/${id}.json`;
+      const [workflowFile, structureFile, runFiles] = await Promise.all([
+        client.readFile(repositoryName, getWorkflowPath(id)),
+        client.readFile(repositoryName, structurePath),
+        client.listDirectory(repositoryName, `${WORKFLOW_RUNS_PATH}/${id}`),
+      ]);
+      if (!workflowFile) {
+        throw new Error("Workflow not found");
       }
 
-      const filePath = `${WORKFLOWS_PATH}/${id}.json`;
-      await client.writeFile(
-        repositoryName,
-        filePath,
-        JSON.stringify(savedWorkflow, null, 2),
-        `${isUpdate ? "Update" : "Create"} workflow: ${savedWorkflow.name}`,
-      );
+      // Delete the workflow, its structure and its runs in a single commit
+      await client.commitChanges(repositoryName, {
+        deletes: [
+          getWorkflowPath(id),
+          ...(structureFile ? [structurePath] : []),
+          ...runFiles
+            .filter((file) => file.type === "file")
+            .map((file) => file.path),
+        ],
+        message: `Delete workflow: ${id}`,
+      });
+    },
 
-      return savedWorkflow;
+    async selectByUserId(userId) {
+      return (await readWorkflows())
+        .filter((workflow) => workflow.userId === userId)
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
     },
 
-    async saveStructure(workflowStructure: any): Promise<any> {
-      const id = workflowStructure.id;
-      const filePath = `${WORKFLOW_STRUCTURES_PATH}/${id}.json`;
+    async save(workflow, noGenerateInputNode = false) {
+      const existing = workflow.id
+        ? await repository.selectById(workflow.id)
+        : null;
+      const id = workflow.id ?? generateUUID();
+      const now = new Date();
 
-      await client.writeFile(
-        repositoryName,
-        filePath,
-        JSON.stringify(workflowStructure, null, 2),
-        `Update workflow structure: ${id}`,
-      );
+      const saved: DBWorkflow = existing
+        ? { ...existing, ...workflow, id, updatedAt: now }
+        : {
+            version: "0.1.0",
+            isPublished: false,
+            visibility: "private",
+            createdAt: now,
+            ...workflow,
+            id,
+            updatedAt: now,
+          };
+
+      const writes: DiffDBFileWrite[] = [
+        {
+          path: getWorkflowPath(id),
+          content: JSON.stringify(saved, null, 2),
+        },
+      ];
 
-      return workflowStructure;
+      // New workflows start with an input node, committed together with
+      // the workflow itself
+      if (!existing && !noGenerateInputNode) {
+        const startNode = createUINode(NodeKind.Input);
+        const structure: WorkflowStructure = {
+          id,
+          nodes: [
+            {
+              ...convertUINodeToDBNode(id, startNode),
+              name: "INPUT",
+              createdAt: now.toISOString(),
+              updatedAt: now.toISOString(),
+            },
+          ],
+          edges: [],
+          updatedAt: now.toISOString(),
+        };
+        writes.push({
+          path: `${WORKFLOW_STRUCTURES_PATH}/${id}.json`,
+          content: JSON.stringify(structure, null, 2),
+        });
+      }
+
+      await client.commitChanges(repositoryName, {
+        writes,
+        message: `${existing ? "Update" : "Create"} workflow: ${saved.name}`,
+      });
+
+      return saved;
     },
 
-    async delete(id: string): Promise<void> {
-      try {
-        // Delete workflow file
-        const workflowPath = `${WORKFLOWS_PATH}/${id}.json`;
-        await client.deleteFile(
-          repositoryName,
-          workflowPath,
-          `Delete workflow: ${id}`,
-        );
+    async saveStructure({
+      workflowId,
+      nodes = [],
+      edges = [],
+      deleteNodes = [],
+      deleteEdges = [],
+    }) {
+      // The change set is a delta, so on a conflict it is simply re-applied
+      // on top of the structure another editor just saved
+      await withConflictRetry(async () => {
+        const { structure, sha } = await readStructure(workflowId);
+        const now = new Date().toISOString();
 
-        // Delete structure file if it exists
-        const structurePath = `${WORKFLOW_STRUCTURES_PATH}/${id}.json`;
-        try {
-          await client.deleteFile(
-            repositoryName,
-            structurePath,
-            `Delete workflow structure: ${id}`,
-          );
-        } catch (_error) {
-          // Structure file may not exist, which is fine
+        const nodeMap = new Map(
+          structure.nodes
+            .filter((node) => !deleteNodes.includes(node.id))
+            .map((node) => [node.id, node]),
+        );
+        for (const node of nodes) {
+          const existing = nodeMap.get(node.id);
+          nodeMap.set(node.id, {
+            ...existing,
+            ...node,
+            createdAt: existing?.createdAt ?? now,
+            updatedAt: now,
+          });
         }
-      } catch (error) {
-        console.error(`Failed to delete workflow ${id}:`, error);
-        throw error;
-      }
-    },
 
-    async findAll(): Promise<Workflow[]> {
-      try {
-        const files = await client.listDirectory(
-          repositoryName,
-          WORKFLOWS_PATH,
+        // Edges are immutable: existing edges are kept as-is
+        const edgeMap = new Map(
+          structure.edges
+            .filter((edge) => !deleteEdges.includes(edge.id))
+            .map((edge) => [edge.id, edge]),
         );
-        const workflows: Workflow[] = [];
-
-        for (const file of files) {
-          if (file.type === "file" && file.name.endsWith(".json")) {
-            try {
-              const fileInfo = await client.readFile(repositoryName, file.path);
-              if (fileInfo) {
-                workflows.push(JSON.parse(fileInfo.content));
-              }
-            } catch (error) {
-              console.error(
-                `Failed to read workflow file ${file.path}:`,
-                error,
-              );
-            }
+        for (const edge of edges) {
+          if (!edgeMap.has(edge.id)) {
+            edgeMap.set(edge.id, { ...edge, createdAt: now });
           }
         }
 
-        return workflows;
-      } catch (error) {
-        console.error("Failed to get all workflows:", error);
-        return [];
-      }
+        const updatedStructure: WorkflowStructure = {
+          id: workflowId,
+          nodes: [...nodeMap.values()],
+          edges: [...edgeMap.values()],
+          updatedAt: now,
+        };
+        const structurePath = `${WORKFLOW_STRUCTURES_PATH}/${workflowId}.json`;
+
+        await client.commitChanges(repositoryName, {
+          writes: [
+            {
+              path: structurePath,
+              content: JSON.stringify(updatedStructure, null, 2),
+            },
+          ],
+          message: `Update workflow structure: ${workflowId} (${nodes.length} nodes, ${edges.length} edges, ${deleteNodes.length + deleteEdges.length} removed)`,
+          expectedShas: { [structurePath]: sha },
+        });
+      });
+    },
+
+    async selectStructureById(id, options) {
+      const [workflow, { structure }] = await Promise.all([
+        repository.selectById(id),
+        readStructure(id),
+      ]);
+      if (!workflow) return null;
+
+      const nodes = options?.ignoreNote
+        ? structure.nodes.filter((node) => node.kind !== NodeKind.Note)
+        : structure.nodes;
+
+      return {
+        ...workflow,
+        nodes: nodes.map(
+          (node): DBNode => ({
+            ...node,
+            workflowId: id,
+            createdAt: new Date(node.createdAt),
+            updatedAt: new Date(node.updatedAt),
+          }),
+        ),
+        edges: structure.edges.map(
+          (edge): DBEdge => ({
+            ...edge,
+            workflowId: id,
+            createdAt: new Date(edge.createdAt),
+          }),
+        ),
+      };
+    },
+
+    async saveRun(run) {
+      const indexPath = getRunsIndexPath(run.workflowId);
+      await withConflictRetry(async () => {
+        const { runs, sha } = await readRunsIndex(run.workflowId);
+        const { query: _query, histories: _histories, ...summary } = run;
+        const sorted = [
+          summary,
+          ...runs.filter((existing) => existing.id !== run.id),
+        ].sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
+        const kept = sorted.slice(0, MAX_RUNS_PER_WORKFLOW);
+        // The run being saved is never the one dropped
+        if (!kept.includes(summary)) kept[kept.length - 1] = summary;
+        const keptIds = new Set(kept.map((existing) => existing.id));
+
+        await client.commitChanges(repositoryName, {
+          writes: [
+            {
+              path: getRunPath(run.workflowId, run.id),
+              content: JSON.stringify(run, null, 2),
+            },
+            {
+              path: indexPath,
+              content: JSON.stringify({
+                runs: kept,
+              } satisfies WorkflowRunsIndex),
+            },
+          ],
+          deletes: sorted
+            .filter((existing) => !keptIds.has(existing.id))
+            .map((existing) => getRunPath(run.workflowId, existing.id)),
+          message: `Save workflow run: ${run.workflowId} (${run.status})`,
+          expectedShas: { [indexPath]: sha },
+        });
+      });
+      return run;
+    },
+
+    async selectRunsByWorkflowId(workflowId, userId, limit = 50) {
+      const { runs } = await readRunsIndex(workflowId);
+      return runs.filter((run) => run.userId === userId).slice(0, limit);
+    },
+
+    async selectRunById(workflowId, runId) {
+      const fileInfo = await client.readFile(
+        repositoryName,
+        getRunPath(workflowId, runId),
+      );
+      return fileInfo
+        ? toDBWorkflowRun<DBWorkflowRun>(JSON.parse(fileInfo.content))
+        : null;
     },
   };
+
+  return repository;
 }
@@ -0,0 +1,162 @@
+/**
+ * DiffDB Storage Backends
+ *
+ * The file and commit operations DiffDB repositories are built on. The
+ * "github" backend talks to the GitHub API, the "local" backend keeps a
+ * plain git repository on disk for self-hosting and offline use.
+ *
+ * Select the backend per deployment with `DIFFDB_BACKEND` (default "github").
+ */
+
+import path from "node:path";
+import {
+  DiffDBClient,
+  type DiffDBBatchCommitResult,
+  type DiffDBChangeSet,
+  type DiffDBCommitInfo,
+  type DiffDBCommitResult,
+  type GitHubFileInfo,
+} from "./client";
+import { EncryptedStorageBackend } from "./encrypted-backend";
+import type { DiffDBEncryptionKey } from "./encryption";
+import { LocalGitStorageBackend } from "./local-git-backend";
+import { openVersionedBackend } from "./migrate";
+
+export type DiffDBBackendKind = "github" | "local";
+
+export interface DiffDBDirectoryEntry {
+  name: string;
+  path: string;
+  type: "file" | "dir";
+  size: number;
+  sha: string;
+}
+
+/**
+ * Every read takes an optional `ref` (a commit sha) to read past versions
+ */
+export interface DiffDBStorageBackend {
+  readFile(
+    repoName: string,
+    filePath: string,
+    ref?: string,
+  ): Promise<GitHubFileInfo | null>;
+  writeFile(
+    repoName: string,
+    filePath: string,
+    content: string,
+    commitMessage?: string,
+    sha?: string,
+  ): Promise<DiffDBCommitResult>;
+  deleteFile(
+    repoName: string,
+    filePath: string,
+    commitMessage?: string,
+  ): Promise<void>;
+  listDirectory(
+    repoName: string,
+    dirPath?: string,
+    ref?: string,
+  ): Promise<DiffDBDirectoryEntry[]>;
+  commitChanges(
+    repoName: string,
+    changes: DiffDBChangeSet,
+  ): Promise<DiffDBBatchCommitResult | null>;
+  listCommits(
+    repoName: string,
+    paths: string[],
+    limit?: number,
+  ): Promise<DiffDBCommitInfo[]>;
+}
+
+/**
+ * List every file below a directory
+ */
+export async function listFilesRecursive(
+  backend: DiffDBStorageBackend,
+  repoName: string,
+  dirPath: string,
+): Promise<DiffDBDirectoryEntry[]> {
+  const files: DiffDBDirectoryEntry[] = [];
+  for (const entry of await backend.listDirectory(repoName, dirPath)) {
+    if (entry.type === "dir") {
+      files.push(...(await listFilesRecursive(backend, repoName, entry.path)));
+    } else {
+      files.push(entry);
+    }
+  }
+  return files;
+}
+
+export function getDiffDBBackendKind(): DiffDBBackendKind {
+  const kind = process.env.DIFFDB_BACKEND?.trim().toLowerCase() || "github";
+  if (kind !== "github" && kind !== "local") {
+    throw new Error(
+      `Unknown DIFFDB_BACKEND "${kind}". Expected "github" or "local".`,
+    );
+  }
+  return kind;
+}
+
+/**
+ * Root directory of the local backend; every user gets their own
+ * repositories below it
+ */
+export function getLocalDiffDBRoot(): string {
+  return path.resolve(process.env.DIFFDB_LOCAL_PATH || "local-data/diffdb");
+}
+
+/**
+ * Create the storage backend for a user, ready to read and write `repoName`.
+ *
+ * With `encryption` the backend transparently encrypts and decrypts
+ * (see EncryptedStorageBackend); without it documents are read and
+ * written exactly as stored. With `migrate` a repository in an older
+ * format is migrated first. A repository in a newer format is always
+ * opened read-only.
+ */
+export async function createDiffDBStorageBackend(options: {
+  userId: string;
+  repoName: string;
+  accessToken?: string | null;
+  encryption?: { key: DiffDBEncryptionKey | null };
+  migrate?: boolean;
+}): Promise<DiffDBStorageBackend> {
+  const backend = await openVersionedBackend(
+    await createRawStorageBackend(options),
+    options.repoName,
+    { migrate: options.migrate },
+  );
+  if (!options.encryption) {
+    return backend;
+  }
+  return EncryptedStorageBackend.open(
+    backend,
+    options.repoName,
+    options.encryption.key,
+  );
+}
+
+async function createRawStorageBackend(options: {
+  userId: string;
+  repoName: string;
+  accessToken?: string | null;
+}): Promise<DiffDBStorageBackend> {
+  if (getDiffDBBackendKind() === "local") {
+    const backend = new LocalGitStorageBackend(
+      path.join(getLocalDiffDBRoot(), options.userId),
+    );
+    await backend.ensureRepository(options.repoName);
+    return backend;
+  }
+
+  if (!options.accessToken) {
+    throw new Error(
+      "GitHub access token not found. Please re-authenticate with GitHub.",
+    );
+  }
+
+  const client = new DiffDBClient(options.accessToken);
+  await client.initialize(); // Initialize with user info
+  return client;
+}
@@ -0,0 +1,102 @@
+/**
+ * DiffDB Repository Structure
+ *
+ * The files every DiffDB repository starts with, shared by all storage
+ * backends so a GitHub repository and a local one look the same.
+ */
+
+import { serializeChatIndex } from "./chat-index";
+import type { DiffDBFileWrite } from "./client";
+
+/**
+ * Repository format this app reads and writes, kept in schema.json.
+ * Raising it requires a migration (see migrations/).
+ */
+export const DIFFDB_SCHEMA_VERSION = "1.1.0";
+
+export const DIFFDB_DIRECTORIES = [
+  "users",
+  "sessions",
+  "threads",
+  "messages",
+  "agents",
+  "mcp_servers",
+  "workflows",
+  "archives",
+  "_metadata",
+];
+
+/**
+ * Build schema.json with repository metadata
+ */
+export function createSchemaFile(): DiffDBFileWrite {
+  return {
+    path: "schema.json",
+    content: JSON.stringify(
+      {
+        version: DIFFDB_SCHEMA_VERSION,
+        created_at: new Date().toISOString(),
+        description: "DiffDB Repository",
+        structure: {
+          users: "User profiles and preferences",
+          sessions: "Active user sessions",
+          threads: "Chat thread metadata",
+          messages: "Chat messages organized by thread",
+          agents: "Custom AI agents",
+          mcp_servers: "MCP server configurations",
+          workflows: "Custom workflow definitions",
+          archives: "Archived conversations",
+        },
+      },
+      null,
+      2,
+    ),
+  };
+}
+
+/**
+ * Build the .gitkeep file that keeps a directory in the repository
+ */
+export function createKeepFile(dir: string): DiffDBFileWrite {
+  return {
+    path: `${dir}/.gitkeep`,
+    content: `# ${dir.charAt(0).toUpperCase() + dir.slice(1)} directory\n\nThis directory stores ${dir.replace("_", " ")} data for DiffChat.\n`,
+  };
+}
+
+/**
+ * Build the directory keep files, empty indexes and README
+ * (everything but schema.json)
+ */
+export function createStructureFiles(): DiffDBFileWrite[] {
+  const readmeContent = `# DiffChat - Personal Database
+
+This repository contains your personal DiffChat data stored using DiffDB (GitHub-as-Database).
+
+## Structure
+
+${DIFFDB_DIRECTORIES.map((dir) => `- \`${dir}/\` - ${dir.replace("_", " ").charAt(0).toUpperCase()}${dir.replace("_", " ").slice(1)} data`).join("\n")}
+
+## Security
+
+This repository is private and only accessible by you. Your chat data, preferences, and configurations are stored securely.
+
+## DiffDB
+
+DiffDB allows DiffChat to use GitHub repositories as a database backend, giving you:
+- Full control over your data
+- Version history of all changes
+- Backup and sync across devices
+- No vendor lock-in
+
+---
+
+*Generated by DiffChat DiffDB - ${new Date().toISOString()}*
+`;
+
+  return [
+    ...DIFFDB_DIRECTORIES.map(createKeepFile),
+    ...serializeChatIndex({ threads: {}, messages: {} }),
+    { path: "README.md", content: readmeContent },
+  ];
+}
@@ -0,0 +1,197 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import {
+  getReferencedMcpServerIds,
+  keepRecordsWithParent,
+  toUuid,
+  transferUserData,
+  withUuidIds,
+} from "lib/db/transfer";
+import { LocalGitStorageBackend } from "./local-git-backend";
+import { createDiffDBAgentRepository } from "./repositories/agent-repository.diffdb";
+import { DiffDBChatRepository } from "./repositories/chat-repository.diffdb";
+import { createDiffDBUserDataStore } from "./transfer.diffdb";
+
+const SOURCE = "source-data";
+const TARGET = "target-data";
+const USER_ID = "u1";
+
+describe("DiffDB user data transfer", () => {
+  let baseDir: string;
+  let backend: LocalGitStorageBackend;
+
+  beforeEach(async () => {
+    baseDir = await mkdtemp(path.join(os.tmpdir(), "diffdb-transfer-"));
+    backend = new LocalGitStorageBackend(baseDir);
+    await backend.ensureRepository(SOURCE);
+    await backend.ensureRepository(TARGET);
+
+    const chat = new DiffDBChatRepository(backend, SOURCE);
+    await chat.insertThread({ id: "t1", title: "Hello", userId: USER_ID });
+    await chat.insertMessages([
+      {
+        id: "m1",
+        threadId: "t1",
+        role: "user",
+        parts: [{ type: "text", text: "hi" }],
+        model: null,
+      },
+      {
+        id: "m2",
+        threadId: "t1",
+        role: "assistant",
+        parts: [{ type: "text", text: "hello" }],
+        model: "gpt-4.1",
+      },
+    ]);
+    await createDiffDBAgentRepository(backend, SOURCE).insertAgent({
+      name: "Helper",
+      userId: USER_ID,
+      instructions: { systemPrompt: "Be helpful" },
+    } as any);
+  });
+
+  afterEach(async () => {
+    await rm(baseDir, { recursive: true, force: true });
+  });
+
+  it("should copy a user's data with its ids in one commit", async () => {
+    const source = createDiffDBUserDataStore(backend, SOURCE);
+    const target = createDiffDBUserDataStore(backend, TARGET);
+    const before = await backend.listCommits(TARGET, [], 100);
+
+    const report = await transferUserData({
+      from: source,
+      to: target,
+      userId: USER_ID,
+    });
+    expect(report.threads).toEqual({ total: 1, imported: 1, skipped: 0 });
+    expect(report.messages).toEqual({ total: 2, imported: 2, skipped: 0 });
+    expect(report.agents).toEqual({ total: 1, imported: 1, skipped: 0 });
+    expect(await backend.listCommits(TARGET, [], 100)).toHaveLength(
+      before.length + 1,
+    );
+
+    const exported = await source.exportUserData(USER_ID);
+    const imported = await target.exportUserData(USER_ID);
+    expect(imported.threads.map((thread) => thread.id)).toEqual(["t1"]);
+    expect(imported.messages.map((message) => message.id).sort()).toEqual([
+      "m1",
+      "m2",
+    ]);
+    expect(imported.agents[0].id).toBe(exported.agents[0].id);
+    expect(imported.agents[0].instructions?.systemPrompt).toBe("Be helpful");
+
+    const threads = await new DiffDBChatRepository(
+      backend,
+      TARGET,
+    ).selectThreadsByUserId(USER_ID);
+    expect(threads.map((thread) => thread.id)).toEqual(["t1"]);
+  });
+
+  it("should only report on a dry run", async () => {
+    const target = createDiffDBUserDataStore(backend, TARGET);
+    const before = await backend.listCommits(TARGET, [], 100);
+
+    const report = await transferUserData({
+      from: createDiffDBUserDataStore(backend, SOURCE),
+      to: target,
+      userId: USER_ID,
+      dryRun: true,
+    });
+    expect(report.messages.imported).toBe(2);
+    expect(await backend.listCommits(TARGET, [], 100)).toHaveLength(
+      before.length,
+    );
+    expect((await target.exportUserData(USER_ID)).threads).toEqual([]);
+  });
+
+  it("should skip records imported before", async () => {
+    const options = {
+      from: createDiffDBUserDataStore(backend, SOURCE),
+      to: createDiffDBUserDataStore(backend, TARGET),
+      userId: USER_ID,
+    };
+    await transferUserData(options);
+    const report = await transferUserData({ ...options, dryRun: true });
+
+    expect(report.threads).toEqual({ total: 1, imported: 0, skipped: 1 });
+    expect(report.messages).toEqual({ total: 2, imported: 0, skipped: 2 });
+    expect(report.agents).toEqual({ total: 1, imported: 0, skipped: 1 });
+  });
+
+  it("should map string ids to stable UUIDs with their references", async () => {
+    const snapshot = await createDiffDBUserDataStore(
+      backend,
+      SOURCE,
+    ).exportUserData(USER_ID);
+    const uuid = toUuid("t1");
+
+    expect(uuid).toMatch(/^[0-9a-f-]{36}$/);
+    expect(toUuid("t1")).toBe(uuid);
+    expect(toUuid(uuid)).toBe(uuid);
+
+    const normalized = withUuidIds(snapshot);
+    expect(normalized.threads[0].id).toBe(uuid);
+    expect(normalized.messages.map((message) => message.threadId)).toEqual([
+      uuid,
+      uuid,
+    ]);
+    expect(normalized.messages.map((message) => message.id).sort()).toEqual([
+      "m1",
+      "m2",
+    ]);
+  });
+
+  it("should find the MCP servers a user's data refers to", () => {
+    const ids = getReferencedMcpServerIds({
+      agents: [
+        {
+          instructions: {
+            mentions: [
+              { type: "mcpServer", name: "github", serverId: "s1" },
+              { type: "defaultTool", name: "webSearch", label: "Search" },
+            ],
+          },
+        } as any,
+      ],
+      workflows: [
+        {
+          nodes: [
+            {
+              nodeConfig: {
+                kind: "tool",
+                tool: { type: "mcp-tool", serverId: "s2", serverName: "fs" },
+              },
+            },
+          ],
+          edges: [],
+        } as any,
+      ],
+      mcpServerCustomizations: [{ mcpServerId: "s3" } as any],
+      mcpToolCustomizations: [{ mcpServerId: "s1" } as any],
+    });
+
+    expect(ids.sort()).toEqual(["s1", "s2", "s3"]);
+  });
+
+  it("should drop messages of a thread id another user already has", () => {
+    // t1 was written by the import, t2 belongs to the user, t3 to someone else
+    const count = { total: 3, imported: 3, skipped: 0 };
+    const messages = keepRecordsWithParent(
+      [
+        { id: "m1", threadId: "t1" },
+        { id: "m2", threadId: "t2" },
+        { id: "m3", threadId: "t3" },
+      ],
+      "threadId",
+      new Set(["t1", "t2"]),
+      count,
+    );
+
+    expect(messages.map((message) => message.id)).toEqual(["m1", "m2"]);
+    expect(count).toEqual({ total: 3, imported: 2, skipped: 1 });
+  });
+});
@@ -0,0 +1,274 @@
+/**
+ * DiffDB User Data Store
+ *
+ * Exports and imports a user's data (see lib/db/transfer) in the file
+ * formats the DiffDB repositories use. An import is a single commit that
+ * also updates the chat index.
+ */
+
+import type { ChatMessage, ChatThread } from "app-types/chat";
+import type { TransferMcpServer, UserDataStore } from "lib/db/transfer";
+import { planImport } from "lib/db/transfer";
+import {
+  commitWithChatIndex,
+  indexMessages,
+  indexThread,
+  loadChatIndex,
+} from "./chat-index";
+import type { DiffDBFileWrite } from "./client";
+import {
+  toAgent,
+  toAgentDocument,
+} from "./repositories/agent-repository.diffdb";
+import {
+  toArchive,
+  toArchiveItem,
+} from "./repositories/archive-repository.diffdb";
+import { DiffDBChatRepository } from "./repositories/chat-repository.diffdb";
+import { toDBWorkflow } from "./repositories/workflow-repository.diffdb";
+import {
+  type DiffDBStorageBackend,
+  listFilesRecursive,
+} from "./storage-backend";
+
+const json = (value: unknown) => JSON.stringify(value, null, 2);
+
+const toDate = (value: unknown) =>
+  value ? new Date(value as string) : new Date();
+
+const toolFileName = (toolName: string) =>
+  toolName.replace(/[^a-zA-Z0-9-_]/g, "_");
+
+export function createDiffDBUserDataStore(
+  client: DiffDBStorageBackend,
+  repositoryName: string,
+): UserDataStore {
+  const chat = new DiffDBChatRepository(client, repositoryName);
+
+  async function readDocuments(dirPath: string): Promise<any[]> {
+    const documents: any[] = [];
+    for (const file of await listFilesRecursive(
+      client,
+      repositoryName,
+      dirPath,
+    )) {
+      if (!file.name.endsWith(".json")) continue;
+      const fileInfo = await client.readFile(repositoryName, file.path);
+      if (fileInfo) {
+        documents.push(JSON.parse(fileInfo.content));
+      }
+    }
+    return documents;
+  }
+
+  return {
+    async exportUserData(userId) {
+      const { index } = await loadChatIndex(client, repositoryName);
+      const threadIds = Object.values(index.threads)
+        .filter((thread) => thread.userId === userId)
+        .map((thread) => thread.id);
+
+      const threads: ChatThread[] = [];
+      const messages: ChatMessage[] = [];
+      for (const threadId of threadIds) {
+        const thread = await chat.selectThread(threadId);
+        if (!thread) continue;
+        threads.push(thread);
+        messages.push(...(await chat.selectMessagesByThreadId(threadId)));
+      }
+
+      const agents = (await readDocuments("agents"))
+        .filter((agent) => agent.userId === userId)
+        .map(toAgent);
+
+      const structures = new Map(
+        (await readDocuments("workflow_structures")).map((structure) => [
+          structure.id,
+          structure,
+        ]),
+      );
+      const workflows = (await readDocuments("workflows"))
+        .filter((workflow) => workflow.userId === userId)
+        .map((document) => {
+          const workflow = toDBWorkflow(document);
+          const structure = structures.get(workflow.id);
+          return {
+            ...workflow,
+            nodes: (structure?.nodes ?? []).map((node: any) => ({
+              ...node,
+              workflowId: workflow.id,
+              createdAt: toDate(node.createdAt),
+              updatedAt: toDate(node.updatedAt),
+            })),
+            edges: (structure?.edges ?? []).map((edge: any) => ({
+              ...edge,
+              workflowId: workflow.id,
+              createdAt: toDate(edge.createdAt),
+            })),
+          };
+        });
+
+      // MCP servers are shared by everyone using the repository
+      const mcpServers: TransferMcpServer[] = (
+        await readDocuments("mcp_servers")
+      ).map(({ userId: _owner, ...server }) => ({
+        ...server,
+        enabled: server.enabled ?? true,
+        createdAt: toDate(server.createdAt),
+        updatedAt: toDate(server.updatedAt),
+      }));
+
+      const withoutStoredFields = ({
+        serverName: _serverName,
+        createdAt: _createdAt,
+        updatedAt: _updatedAt,
+        ...customization
+      }: any) => customization;
+
+      const archives = (await readDocuments("archives"))
+        .filter((archive) => archive.userId === userId)
+        .map(toArchive);
+      const archiveIds = new Set(archives.map((archive) => archive.id));
+      const archiveItems = (await readDocuments("archive_items"))
+        .flat()
+        .filter((item) => archiveIds.has(item.archiveId))
+        .map((item) => toArchiveItem(item, userId));
+
+      return {
+        userId,
+        mcpServers,
+        threads,
+        messages,
+        agents,
+        workflows,
+        mcpServerCustomizations: (
+          await readDocuments(`mcp_server_customizations/user-${userId}`)
+        ).map(withoutStoredFields),
+        mcpToolCustomizations: (
+          await readDocuments(`mcp_tool_customizations/user-${userId}`)
+        ).map(withoutStoredFields),
+        archives,
+        archiveItems,
+      };
+    },
+
+    async importUserData(snapshot, options) {
+      const { pending, report } = planImport(
+        snapshot,
+        await this.exportUserData(snapshot.userId),
+      );
+      if (options?.dryRun) return report;
+
+      const serverNames = new Map(
+        snapshot.mcpServers.map((server) => [server.id, server.name]),
+      );
+      const writes: DiffDBFileWrite[] = [];
+
+      for (const server of pending.mcpServers) {
+        writes.push({
+          path: `mcp_servers/${server.id}.json`,
+          content: json(server),
+        });
+      }
+
+      for (const thread of pending.threads) {
+        writes.push(chat.toThreadWrite(thread));
+      }
+      for (const message of pending.messages) {
+        writes.push(chat.toMessageWrite(message));
+      }
+
+      for (const agent of pending.agents) {
+        writes.push({
+          path: `agents/${agent.id}.json`,
+          content: json(toAgentDocument(agent)),
+        });
+      }
+
+      for (const { nodes, edges, ...workflow } of pending.workflows) {
+        writes.push(
+          {
+            path: `workflows/${workflow.id}.json`,
+            content: json(workflow),
+          },
+          {
+            path: `workflow_structures/${workflow.id}.json`,
+            content: json({
+              id: workflow.id,
+              nodes,
+              edges,
+              updatedAt: workflow.updatedAt,
+            }),
+          },
+        );
+      }
+
+      const now = new Date().toISOString();
+      for (const customization of pending.mcpServerCustomizations) {
+        writes.push({
+          path: `mcp_server_customizations/user-${customization.userId}/server-${customization.mcpServerId}.json`,
+          content: json({
+            ...customization,
+            serverName: serverNames.get(customization.mcpServerId) ?? "",
+            createdAt: now,
+            updatedAt: now,
+          }),
+        });
+      }
+      for (const customization of pending.mcpToolCustomizations) {
+        writes.push({
+          path: `mcp_tool_customizations/user-${customization.userId}/server-${customization.mcpServerId}/tool-${toolFileName(customization.toolName)}.json`,
+          content: json({
+            ...customization,
+            serverName: serverNames.get(customization.mcpServerId) ?? "",
+            createdAt: now,
+            updatedAt: now,
+          }),
+        });
+      }
+
+      for (const archive of pending.archives) {
+        writes.push({
+          path: `archives/${archive.id}.json`,
+          content: json(archive),
+        });
+      }
+      // Items are stored as one list per archive
+      const itemsByArchive = new Map<string, typeof pending.archiveItems>();
+      for (const item of pending.archiveItems) {
+        itemsByArchive.set(item.archiveId, [
+          ...(itemsByArchive.get(item.archiveId) ?? []),
+          item,
+        ]);
+      }
+      for (const [archiveId, items] of itemsByArchive) {
+        const existing = await client.readFile(
+          repositoryName,
+          `archive_items/${archiveId}.json`,
+        );
+        writes.push({
+          path: `archive_items/${archiveId}.json`,
+          content: json([
+            ...(existing ? JSON.parse(existing.content) : []),
+            ...items,
+          ]),
+        });
+      }
+
+      await commitWithChatIndex(
+        client,
+        repositoryName,
+        {
+          writes,
+          message: `Import ${Object.values(report).reduce((sum, { imported }) => sum + imported, 0)} records`,
+        },
+        (index) => {
+          for (const thread of pending.threads) indexThread(index, thread);
+          indexMessages(index, pending.messages);
+        },
+      );
+
+      return report;
+    },
+  };
+}
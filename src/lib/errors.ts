@@ -27,3 +27,58 @@ export class ForbiddenError extends AppError {
     this.name = "ForbiddenError";
   }
 }
+
+// 409 Conflict Error - a DiffDB write raced with another writer
+export class DiffDBConflictError extends AppError {
+  public readonly paths: string[];
+
+  constructor(
+    paths: string[],
+    message = `Data was changed by another session: ${paths.join(", ")}`,
+  ) {
+    super("DIFFDB_CONFLICT", message);
+    this.name = "DiffDBConflictError";
+    this.paths = paths;
+  }
+}
+
+// 423 Locked Error - encrypted DiffDB data was accessed without its key
+export class DiffDBLockedError extends AppError {
+  constructor(
+    message = "Your data is encrypted. Unlock it with your passphrase.",
+  ) {
+    super("DIFFDB_LOCKED", message);
+    this.name = "DiffDBLockedError";
+  }
+}
+
+// 409 Conflict Error - the DiffDB repository format is newer than this app
+export class DiffDBSchemaVersionError extends AppError {
+  public readonly repositoryVersion: string;
+  public readonly appVersion: string;
+
+  constructor(
+    repositoryVersion: string,
+    appVersion: string,
+    message = `Your data uses format ${repositoryVersion}, this app only supports up to ${appVersion}. Update the app to make changes.`,
+  ) {
+    super("DIFFDB_SCHEMA_VERSION", message);
+    this.name = "DiffDBSchemaVersionError";
+    this.repositoryVersion = repositoryVersion;
+    this.appVersion = appVersion;
+  }
+}
+
+/**
+ * Detects a DiffDB conflict, including errors that crossed the network
+ * (fetcher errors carry the HTTP status and the JSON body as `info`)
+ */
+export function isDiffDBConflictError(error: unknown): boolean {
+  if (error instanceof DiffDBConflictError) return true;
+  const candidate = error as any;
+  return (
+    candidate?.name === "DiffDBConflictError" ||
+    candidate?.code === "DIFFDB_CONFLICT" ||
+    candidate?.info?.code === "DIFFDB_CONFLICT"
+  );
+}
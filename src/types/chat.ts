@@ -13,6 +13,12 @@ export type ChatThread = {
   title: string;
   userId: string;
   createdAt: Date;
+  /** Set on hidden branch threads: the thread they are an alternative of */
+  parentThreadId?: string | null;
+  /** Last message shared with the parent thread (null = from the start) */
+  forkedFromMessageId?: string | null;
+  /** Tools the user allowed to run without asking again in this thread */
+  allowedTools?: string[] | null;
 };
 
 export type ChatMessage = {
@@ -26,6 +32,36 @@ export type ChatMessage = {
   createdAt: Date;
 };
 
+export type ChatHistoryCommit = {
+  sha: string;
+  message: string;
+  author: string | null;
+  date: string;
+};
+
+/**
+ * Message changes of a thread between two commits (`from` null = empty)
+ */
+export type ChatHistoryDiff = {
+  from: string | null;
+  to: string;
+  title?: { before: string | null; after: string | null };
+  added: ChatMessage[];
+  removed: ChatMessage[];
+  changed: { before: ChatMessage; after: ChatMessage }[];
+};
+
+/**
+ * Alternative continuations of a thread after `forkedFromMessageId`.
+ * The thread itself always holds the active branch, the others live in
+ * hidden branch threads until switched to.
+ */
+export type ChatBranchPoint = {
+  forkedFromMessageId: string | null;
+  branches: { threadId: string; firstMessageId: string | null }[];
+  activeIndex: number;
+};
+
 export const ChatMentionSchema = z.discriminatedUnion("type", [
   z.object({
     type: z.literal("mcpTool"),
@@ -47,6 +83,15 @@ export const ChatMentionSchema = z.discriminatedUnion("type", [
     toolCount: z.number().optional(),
     serverId: z.string(),
   }),
+  z.object({
+    type: z.literal("mcpResource"),
+    name: z.string(),
+    uri: z.string(),
+    description: z.string().optional(),
+    mimeType: z.string().optional(),
+    serverName: z.string().optional(),
+    serverId: z.string(),
+  }),
   z.object({
     type: z.literal("workflow"),
     name: z.string(),
@@ -80,6 +125,8 @@ export type ChatMention = z.infer<typeof ChatMentionSchema>;
 export type ChatMessageAnnotation = {
   usageTokens?: number;
   toolChoice?: "auto" | "none" | "manual";
+  // Tools whose calls wait for the user's approval
+  approvalTools?: string[];
   [key: string]: any;
 };
 
@@ -108,6 +155,27 @@ export type ToolInvocationUIPart = Extract<
   { type: "tool-invocation" }
 >;
 
+/**
+ * Past versions of threads, for backends that keep them
+ */
+export type ChatHistoryRepository = {
+  selectThreadHistory(
+    threadId: string,
+    limit?: number,
+  ): Promise<ChatHistoryCommit[]>;
+  diffThread(
+    threadId: string,
+    fromSha: string | null,
+    toSha: string,
+  ): Promise<ChatHistoryDiff>;
+  restoreThread(threadId: string, sha: string): Promise<string | null>;
+  restoreMessage(
+    threadId: string,
+    messageId: string,
+    sha: string,
+  ): Promise<ChatMessage>;
+};
+
 export type ChatRepository = {
   insertThread(thread: Omit<ChatThread, "createdAt">): Promise<ChatThread>;
 
@@ -144,9 +212,21 @@ export type ChatRepository = {
 
   insertMessage(message: Omit<ChatMessage, "createdAt">): Promise<ChatMessage>;
   upsertMessage(message: Omit<ChatMessage, "createdAt">): Promise<ChatMessage>;
+  upsertMessages(
+    messages: Omit<ChatMessage, "createdAt">[],
+  ): Promise<ChatMessage[]>;
 
   deleteMessagesByChatIdAfterTimestamp(messageId: string): Promise<void>;
 
+  forkThreadAt(threadId: string, messageId: string): Promise<ChatThread>;
+
+  selectThreadBranches(threadId: string): Promise<ChatBranchPoint[]>;
+
+  switchThreadBranch(
+    threadId: string,
+    branchThreadId: string,
+  ): Promise<ChatMessage[]>;
+
   deleteAllThreads(userId: string): Promise<void>;
 
   deleteUnarchivedThreads(userId: string): Promise<void>;
@@ -159,6 +239,8 @@ export type ChatRepository = {
 export const ClientToolInvocationZodSchema = z.object({
   action: z.enum(["manual", "direct"]),
   result: z.any().optional(),
+  // An approval that also covers later calls of the tool in the thread
+  allowForThread: z.boolean().optional(),
 });
 
 export type ClientToolInvocation = z.infer<
@@ -1,3 +1,7 @@
+import type {
+  OAuthClientInformationFull,
+  OAuthTokens,
+} from "@modelcontextprotocol/sdk/shared/auth.js";
 import { Tool } from "ai";
 import { z } from "zod";
 
@@ -10,6 +14,24 @@ export const MCPStdioConfigZodSchema = z.object({
   command: z.string().min(1).describe("The command to run"),
   args: z.array(z.string()).optional(),
   env: z.record(z.string(), z.string()).optional(),
+  // The server only sees a minimal environment plus these app variables
+  inheritEnv: z
+    .array(z.string().min(1))
+    .optional()
+    .describe("Variables of the app's environment the server may read"),
+  cwd: z.string().optional().describe("The working directory of the server"),
+  timeoutSeconds: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe("How long a request to the server may take"),
+  maxMemoryMb: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe("Heap limit of servers running on Node.js"),
 });
 
 export const AllowedMCPServerZodSchema = z.object({
@@ -34,12 +56,61 @@ export type MCPToolInfo = {
   };
 };
 
+export type MCPResourceInfo = {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+};
+
+export type MCPResourceTemplateInfo = {
+  uriTemplate: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+};
+
+export type MCPPromptInfo = {
+  name: string;
+  title?: string;
+  description?: string;
+  arguments?: {
+    name: string;
+    description?: string;
+    required?: boolean;
+  }[];
+};
+
+export type MCPServerHealthEvent = {
+  status: "connected" | "disconnected" | "reconnecting" | "error";
+  at: number;
+  message?: string;
+};
+
+export type MCPServerHealth = {
+  // Round trip of the last ping and the average of recent ones
+  latencyMs?: number;
+  averageLatencyMs?: number;
+  lastPingAt?: number;
+  errorCount: number;
+  consecutiveFailures: number;
+  // When the next reconnect is due, while the connection is failing
+  nextReconnectAt?: number;
+  timeline: MCPServerHealthEvent[];
+};
+
 export type MCPServerInfo = {
   name: string;
   config: MCPServerConfig;
   error?: unknown;
-  status: "connected" | "disconnected" | "loading";
+  /** `authorizing`: the server needs the user to authorize it over OAuth */
+  status: "connected" | "disconnected" | "loading" | "authorizing";
+  authorizationUrl?: string;
   toolInfo: MCPToolInfo[];
+  resourceInfo: MCPResourceInfo[];
+  resourceTemplateInfo: MCPResourceTemplateInfo[];
+  promptInfo: MCPPromptInfo[];
+  health?: MCPServerHealth;
 };
 
 export type McpServerInsert = {
@@ -60,6 +131,28 @@ export type VercelAIMcpTool = Tool & {
   __$ref__: "mcp";
 };
 
+/**
+ * A user's OAuth authorization of a remote MCP server
+ */
+export type McpOAuthSession = {
+  mcpServerId: string;
+  userId: string;
+  // Pending authorization request
+  state?: string | null;
+  codeVerifier?: string | null;
+  // Client registered with the authorization server
+  clientInformation?: OAuthClientInformationFull | null;
+  tokens?: OAuthTokens | null;
+  updatedAt: Date;
+};
+
+export type McpOAuthSessionUpdate = Partial<
+  Pick<
+    McpOAuthSession,
+    "state" | "codeVerifier" | "clientInformation" | "tokens"
+  >
+>;
+
 export interface MCPRepository {
   save(server: McpServerInsert): Promise<McpServerSelect>;
   selectById(id: string): Promise<McpServerSelect | null>;
@@ -67,12 +160,32 @@ export interface MCPRepository {
   selectAll(): Promise<McpServerSelect[]>;
   deleteById(id: string): Promise<void>;
   existsByServerName(name: string): Promise<boolean>;
+  selectOAuthSession(
+    mcpServerId: string,
+    userId: string,
+  ): Promise<McpOAuthSession | null>;
+  /** Creates the session or updates the given fields */
+  saveOAuthSession(
+    mcpServerId: string,
+    userId: string,
+    update: McpOAuthSessionUpdate,
+  ): Promise<McpOAuthSession>;
+  deleteOAuthSession(mcpServerId: string, userId: string): Promise<void>;
 }
 
+/**
+ * Whether the chat may call a tool on its own (`allow`), needs the user's
+ * approval for each call (`ask`), or may not use it at all (`deny`)
+ */
+export const McpToolPolicyZodSchema = z.enum(["allow", "ask", "deny"]);
+
+export type McpToolPolicy = z.infer<typeof McpToolPolicyZodSchema>;
+
 export const McpToolCustomizationZodSchema = z.object({
   toolName: z.string().min(1),
   mcpServerId: z.string().min(1),
   prompt: z.string().max(1000).optional().nullable(),
+  policy: McpToolPolicyZodSchema.optional().nullable(),
 });
 
 export type McpToolCustomization = {
@@ -81,6 +194,8 @@ export type McpToolCustomization = {
   toolName: string;
   mcpServerId: string;
   prompt?: string | null;
+  // Without a policy, the tool follows the chat's tool choice
+  policy?: McpToolPolicy | null;
 };
 
 export type McpToolCustomizationRepository = {
@@ -202,6 +317,122 @@ const ContentUnion = z.union([
   ResourceContent,
 ]);
 
+export type MCPResourceContent =
+  | z.infer<typeof ResourceText>
+  | z.infer<typeof ResourceBlob>;
+
+export type ReadResourceResult = {
+  contents: MCPResourceContent[];
+};
+
+/**
+ * A resource mentioned in a chat message, with what was read from it
+ */
+export type MCPResourceAttachment = {
+  name: string;
+  uri: string;
+  serverName?: string;
+  contents: MCPResourceContent[];
+  error?: string;
+};
+
+export type GetPromptResult = {
+  description?: string;
+  messages: {
+    role: "user" | "assistant";
+    content: z.infer<typeof ContentUnion>;
+  }[];
+};
+
+/**
+ * A field of an elicitation form. Servers may only ask for flat, primitive
+ * values.
+ */
+export type MCPElicitationField =
+  | {
+      type: "string";
+      title?: string;
+      description?: string;
+      minLength?: number;
+      maxLength?: number;
+      format?: "email" | "uri" | "date" | "date-time";
+      enum?: string[];
+      enumNames?: string[];
+    }
+  | {
+      type: "number" | "integer";
+      title?: string;
+      description?: string;
+      minimum?: number;
+      maximum?: number;
+    }
+  | {
+      type: "boolean";
+      title?: string;
+      description?: string;
+      default?: boolean;
+    };
+
+/**
+ * A request from an MCP server that needs the user, sent to the chat that
+ * is streaming while the server works
+ */
+export type MCPInteractionRequest = {
+  id: string;
+  serverName: string;
+} & (
+  | {
+      // The server asks to run a completion with the user's model
+      type: "sampling";
+      messages: { role: "user" | "assistant"; text: string }[];
+      systemPrompt?: string;
+      maxTokens: number;
+    }
+  | {
+      // The server asks the user to fill in a form
+      type: "elicitation";
+      message: string;
+      requestedSchema: {
+        properties: Record<string, MCPElicitationField>;
+        required?: string[];
+      };
+    }
+);
+
+export type MCPInteractionResponse =
+  | { type: "sampling"; approved: boolean }
+  | {
+      type: "elicitation";
+      action: "accept" | "decline" | "cancel";
+      content?: Record<string, string | number | boolean>;
+    };
+
+/**
+ * What a running MCP tool reports: progress notifications of the call and
+ * the server's log messages, streamed to the chat by tool call
+ */
+export type MCPToolProgressEvent =
+  | {
+      type: "mcp-tool-progress";
+      toolCallId: string;
+      progress: number;
+      total?: number;
+      message?: string;
+    }
+  | {
+      type: "mcp-tool-log";
+      toolCallId: string;
+      level: string;
+      message: string;
+    };
+
+export type MCPToolProgress = {
+  progress?: number;
+  total?: number;
+  message?: string;
+  logs: { level: string; message: string }[];
+};
+
 export const CallToolResultSchema = z.object({
   _meta: z.object({}).passthrough().optional(),
   content: z.array(ContentUnion).default([]),
@@ -1,6 +1,9 @@
 import { Tool } from "ai";
 import { ObjectJsonSchema7 } from "./util";
-import { NodeKind } from "lib/ai/workflow/workflow.interface";
+import {
+  NodeKind,
+  NodeRuntimeHistory,
+} from "lib/ai/workflow/workflow.interface";
 
 export type WorkflowIcon = {
   type: "emoji";
@@ -62,6 +65,29 @@ export type WorkflowSummary = {
   userAvatar?: string;
   updatedAt: Date;
 };
+/**
+ * A finished execution of a workflow, kept so it can be inspected and re-run.
+ * A run resumed from a failed node starts with the node runs it reused from
+ * the run it resumed.
+ */
+export type DBWorkflowRun = {
+  id: string;
+  workflowId: string;
+  userId: string;
+  // Version of the workflow the run executed
+  version: string;
+  status: "success" | "fail";
+  query: Record<string, any>;
+  histories: NodeRuntimeHistory[];
+  error?: string;
+  parentRunId?: string;
+  startNodeId?: string;
+  startedAt: Date;
+  endedAt: Date;
+};
+
+export type WorkflowRunSummary = Omit<DBWorkflowRun, "query" | "histories">;
+
 export interface WorkflowRepository {
   delete(id: string): Promise<void>;
   selectByUserId(userId: string): Promise<DBWorkflow[]>;
@@ -113,6 +139,17 @@ export interface WorkflowRepository {
         edges: DBEdge[];
       })
   >;
+  saveRun(run: DBWorkflowRun): Promise<DBWorkflowRun>;
+  // The user's runs of a workflow, newest first
+  selectRunsByWorkflowId(
+    workflowId: string,
+    userId: string,
+    limit?: number,
+  ): Promise<WorkflowRunSummary[]>;
+  selectRunById(
+    workflowId: string,
+    runId: string,
+  ): Promise<DBWorkflowRun | null>;
 }
 
 export type VercelAIWorkflowTool = Tool & {